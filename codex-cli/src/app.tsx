@@ -9,6 +9,7 @@ import TerminalChatPastRollout from "./components/chat/terminal-chat-past-rollou
 import { checkInGit } from "./utils/check-in-git";
 import { getApiKey, saveConfig } from "./utils/config";
 import { log } from "./utils/logger/log";
+import { setSessionId } from "./utils/session";
 import { onExit } from "./utils/terminal";
 import { CLI_VERSION } from "./version";
 import { ConfirmInput } from "@inkjs/ui";
@@ -25,6 +26,8 @@ type Props = {
   config: AppConfig;
   imagePaths?: Array<string>;
   rollout?: AppRollout;
+  /** A saved session to continue, see `--resume`. */
+  resume?: AppRollout;
   approvalPolicy: ApprovalPolicy;
   additionalWritableRoots: ReadonlyArray<string>;
   fullStdout: boolean;
@@ -36,9 +39,10 @@ const NANO_MODEL = "gpt-4.1-nano";
 export default function App({
   prompt,
   config: initialConfig, // Renamed prop for clarity
-  rollout,
+  rollout: initialRollout,
+  resume,
   imagePaths,
-  approvalPolicy,
+  approvalPolicy: initialApprovalPolicy,
   additionalWritableRoots,
   fullStdout,
 }: Props): JSX.Element {
@@ -47,6 +51,9 @@ export default function App({
   const [currentConfig, setCurrentConfig] = useState<AppConfig>(initialConfig);
   const [webSearchWarning, setWebSearchWarning] = useState<string | null>(null);
   const [preWebSearchModel, setPreWebSearchModel] = useState<string | null>(null);
+  const [rollout, setRollout] = useState(initialRollout);
+  const [resumed, setResumed] = useState(resume);
+  const [approvalPolicy, setApprovalPolicy] = useState(initialApprovalPolicy);
 
   React.useEffect(() => {
     if (currentConfig.webAccess && currentConfig.model !== WEBSEARCH_MODEL) {
@@ -99,6 +106,27 @@ export default function App({
 
 
 
+  // Picking a session in the sessions overlay either shows it like `--view`
+  // or continues it like `--resume`, restoring the model, provider and
+  // approval mode it ran with.
+  const handleOpenSession = (next: AppRollout, mode: "view" | "resume") => {
+    if (mode === "view") {
+      setRollout(next);
+      return;
+    }
+    setSessionId(next.session.id);
+    if (next.session.model) {
+      handleProviderChange(
+        next.session.provider ?? currentConfig.provider ?? "openai",
+        next.session.model,
+      );
+    }
+    if (next.session.approvalMode) {
+      setApprovalPolicy(next.session.approvalMode);
+    }
+    setResumed(next);
+  };
+
   // Render warning if set
   const renderWebSearchWarning = () =>
     webSearchWarning ? (
@@ -171,14 +199,20 @@ export default function App({
     <Box flexDirection="column">
       {renderWebSearchWarning()}
       <TerminalChat
+        key={resumed?.session.id}
         config={currentConfig} 
-        initialPrompt={prompt}
-        imagePaths={imagePaths}
+        // A session resumed from the sessions overlay starts without the
+        // prompt the CLI was invoked with; that one was already sent.
+        initialPrompt={resumed === resume ? prompt : undefined}
+        imagePaths={resumed === resume ? imagePaths : undefined}
         approvalPolicy={approvalPolicy}
         additionalWritableRoots={additionalWritableRoots}
         fullStdout={fullStdout}
         onProviderChange={handleProviderChange} 
         onWebAccessChange={handleWebAccessChange} 
+        initialItems={resumed?.items}
+        initialUsage={resumed?.session.usage}
+        onOpenSession={handleOpenSession}
       />
     </Box>
   );
@@ -1,10 +1,20 @@
 import type { ParseEntry, ControlOperator } from "shell-quote";
+import type { PolicyFile } from "./utils/policy-file.js";
 
 import {
   identify_files_added,
   identify_files_needed,
 } from "./utils/agent/apply-patch";
 import { AutoApprovalMode } from "./utils/auto-approval-mode.js";
+import {
+  commandWritesPolicyFile,
+  evaluatePolicy,
+  loadPolicyFile,
+} from "./utils/policy-file.js";
+import {
+  DEFAULT_READ_DENYLIST,
+  commandReadsDeniedPath,
+} from "./utils/read-denylist.js";
 import * as path from "path";
 import { parse } from "shell-quote";
 
@@ -28,6 +38,31 @@ export type SafetyAssessment = {
   | {
       type: "ask-user";
     }
+  /**
+   * The user decides even in `full-auto` and `none` mode, e.g. because the
+   * command changes the project approval policy.
+   */
+  | {
+      type: "always-ask";
+      reason: string;
+    }
+  /**
+   * A command run in the sandbox in `full-auto` mode failed. The user decides
+   * whether to run it again without the sandbox, skip it, or stop.
+   */
+  | {
+      type: "sandbox-failure";
+      exitCode: number;
+      reason: string;
+    }
+  /**
+   * The command would run in the sandbox in `full-auto` mode, but it cannot
+   * (e.g. a background process). The user decides whether it may run without.
+   */
+  | {
+      type: "unsandboxed";
+      reason: string;
+    }
   /**
    * Reserved for a case where we are certain the command is unsafe and should
    * not be presented as an option to the user.
@@ -41,6 +76,8 @@ export type SafetyAssessment = {
 // TODO: This should also contain the paths that will be affected.
 export type ApplyPatchCommand = {
   patch: string;
+  /** The directory the paths of the patch are relative to. */
+  workdir?: string;
 };
 
 export type ApprovalPolicy =
@@ -60,7 +97,8 @@ export type ApprovalPolicy =
   /**
    * All commands are auto-approved, but are expected to be run in a sandbox
    * where network access is disabled and writes are limited to a specific set
-   * of paths.
+   * of paths. On Linux, network access is only disabled with `networkSandbox`
+   * enabled in the config.
    */
   | "full-auto"
   | "full_auto" // UI format with underscore
@@ -92,7 +130,62 @@ export function canAutoApprove(
   policy: ApprovalPolicy,
   writableRoots: ReadonlyArray<string>,
   env: NodeJS.ProcessEnv = process.env,
+  policyFile: PolicyFile = loadPolicyFile(),
+  readDenylist: ReadonlyArray<string> = DEFAULT_READ_DENYLIST,
 ): SafetyAssessment {
+  // Rules from the project's `.codex/policy.yaml` take precedence over both
+  // the approval policy and the built-in list of safe commands.
+  const ruleAssessment = assessWithPolicyFile(
+    command,
+    workdir,
+    policy,
+    writableRoots,
+    policyFile,
+  );
+  if (ruleAssessment?.type === "reject") {
+    return ruleAssessment;
+  }
+
+  // Otherwise the agent could allow itself any command.
+  const patch =
+    command[0] === "apply_patch" && typeof command[1] === "string"
+      ? command[1]
+      : command[0] === "bash" &&
+          command[1] === "-lc" &&
+          typeof command[2] === "string"
+        ? tryParseApplyPatch(command[2])
+        : null;
+  if (
+    commandWritesPolicyFile(
+      patch !== null ? ["apply_patch", patch] : command,
+      workdir,
+    )
+  ) {
+    return {
+      type: "always-ask",
+      reason: "This changes the project approval policy (.codex/policy.yaml).",
+      ...(patch !== null && { applyPatch: { patch } }),
+    };
+  }
+
+  // Reading credentials needs the user's approval whatever the approval
+  // policy, the project rules or the list of safe commands say.
+  const deniedPath = commandReadsDeniedPath(
+    command,
+    workdir ?? process.cwd(),
+    readDenylist,
+  );
+  if (deniedPath !== null) {
+    return {
+      type: "always-ask",
+      reason: `This reads ${deniedPath}, which is in readDenylist.`,
+    };
+  }
+
+  if (ruleAssessment) {
+    return ruleAssessment;
+  }
+
   // Handle "none" and "full-auto" policies upfront
   if (isFullAutoOrNone(policy)) {
     // Still reject malformed apply_patch commands even in "none" or "full-auto" mode
@@ -209,6 +302,42 @@ export function canAutoApprove(
   return { type: "ask-user" };
 }
 
+function assessWithPolicyFile(
+  command: ReadonlyArray<string>,
+  workdir: string | undefined,
+  policy: ApprovalPolicy,
+  writableRoots: ReadonlyArray<string>,
+  policyFile: PolicyFile,
+): SafetyAssessment | null {
+  const decision = evaluatePolicy(policyFile, command, workdir, writableRoots);
+  if (!decision) {
+    return null;
+  }
+  const applyPatch =
+    command[0] === "apply_patch" && typeof command[1] === "string"
+      ? { applyPatch: { patch: command[1] } }
+      : {};
+  switch (decision.action) {
+    case "deny":
+      return {
+        type: "reject",
+        reason: decision.rule.reason ?? `Denied by ${decision.path}`,
+      };
+    case "ask":
+      return { type: "ask-user", ...applyPatch };
+    case "allow":
+      return {
+        type: "auto-approve",
+        reason: decision.rule.reason ?? `Allowed by ${decision.path}`,
+        group: "Project policy",
+        // A rule allows the command, not leaving the sandbox.
+        runInSandbox:
+          policy === "full-auto" || policy === AutoApprovalMode.FULL_AUTO,
+        ...applyPatch,
+      };
+  }
+}
+
 function canAutoApproveApplyPatch(
   applyPatchArg: string,
   workdir: string | undefined,
@@ -8,10 +8,12 @@ export async function runSinglePass({
   originalPrompt,
   config,
   rootPath,
+  dryRunPatchPath,
 }: {
   originalPrompt?: string;
   config: AppConfig;
   rootPath: string;
+  dryRunPatchPath?: string;
 }): Promise<void> {
   return new Promise((resolve) => {
     render(
@@ -19,6 +21,7 @@ export async function runSinglePass({
         originalPrompt={originalPrompt}
         config={config}
         rootPath={rootPath}
+        dryRunPatchPath={dryRunPatchPath}
         onExit={() => resolve()}
       />,
     );
@@ -12,6 +12,8 @@ import type {
 } from './approvals';
 import type { CommandConfirmation } from './utils/agent/agent-loop'; // Anchor for subsequent types
 import type { AppConfig } from './utils/config'; // After agent-loop type
+import type { JsonEvent } from './utils/json-event-stream';
+import type { AuditQuery } from './utils/logger/audit-log';
 import type {
   ResponseItem as OpenAiSdkResponseItem,
   ResponseFunctionToolCall,
@@ -24,8 +26,10 @@ import { runSinglePass } from './cli-singlepass';
 import SessionsOverlay from './components/sessions-overlay.js';
 // Utilities
 import { AgentLoop } from './utils/agent/agent-loop';
+import { startMcpServers } from './utils/agent/mcp-tools';
 import { ReviewDecision } from './utils/agent/review';
-import { AutoApprovalMode } from './utils/auto-approval-mode';
+import { AutoApprovalMode, FullAutoErrorMode } from './utils/auto-approval-mode';
+import { formatBudgetUsage } from './utils/budget';
 import { checkForUpdates } from './utils/check-updates';
 import {
   loadConfig,
@@ -34,17 +38,32 @@ import {
   getApiKey,
   saveConfig,
 } from './utils/config';
+import { openInEditor } from './utils/external-editor';
 import {
   getApiKey as fetchApiKey,
   maybeRedeemCredits,
 } from './utils/get-api-key';
 import { createInputItem } from './utils/input-utils';
+import {
+  DEFAULT_AUDIT_LOG_PATH,
+  auditQueryFromFlags,
+  filterAuditLog,
+  formatAuditEntry,
+  readAuditLog,
+} from './utils/logger/audit-log';
 import { initLogger } from './utils/logger/log';
+import {
+  JsonRunSummaryCollector,
+  responseItemToJsonEvent,
+} from './utils/json-event-stream';
 
 import { parseToolCall } from './utils/parsers'; // After model-utils
-import { onExit, setInkRenderer } from './utils/terminal';
+import { GitSession, setGitSession } from './utils/git-session';
+import { getSessionId, setSessionId } from './utils/session';
+import { loadRollout } from './utils/storage/load-rollout';
+import { handleCtrlC, onExit, setInkRenderer } from './utils/terminal';
 import chalk from 'chalk';
-import { spawnSync } from 'child_process';
+import { randomUUID } from 'crypto';
 import dotenv from 'dotenv';
 import fs from 'fs';
 import { render } from 'ink';
@@ -97,17 +116,13 @@ if (major < 20) {
 // immediately. This must be run with DEBUG=1 for logging to work.
 initLogger();
 
-// TODO: migrate to new versions of quiet mode
-//
-//     -q, --quiet    Non-interactive quiet mode that only prints final message
-//     -j, --json     Non-interactive JSON output mode that prints JSON messages
-
 const cli = meow(
   `
   Usage
     $ codex [options] <prompt>
     $ codex completion <bash|zsh|fish>
     $ codex models
+    $ codex audit [--session <id>] [--since <date>] [--until <date>] [--command <text>] [--json]
 
   Options
     --version                       Print version and exit
@@ -118,9 +133,13 @@ const cli = meow(
     -i, --image <path>              Path(s) to image files to include as input
     -v, --view <rollout>            Inspect a previously saved rollout instead of starting a session
     --history                       Browse previous sessions
+    --resume <id|path>              Continue a saved session where it left off
+    --session-branch                Work on a dedicated git branch and commit every applied patch
+    --session-worktree              Like --session-branch, but in a separate git worktree
     --login                         Start a new sign in flow
     --free                          Retry redeeming free credits
     -q, --quiet                     Non-interactive mode that only prints the assistant's final output
+    -j, --json                      Non-interactive mode that prints every event as newline-delimited JSON
     -c, --config                    Open the instructions file in your editor
     -w, --writable-root <path>      Writable folder for sandbox in full-auto mode (can be specified multiple times)
     -a, --approval-mode <mode>      Override the approval policy: 'suggest', 'auto-edit', or 'full-auto'
@@ -149,11 +168,15 @@ const cli = meow(
   Experimental options
     -f, --full-context         Launch in "full-context" mode which loads the entire repository
                                into context and applies a batch of edits in one go. Incompatible
-                               with all other flags, except for --model.
+                               with all other flags, except for --model and --dry-run.
+    --dry-run <file>           In full-context mode, leave the working tree untouched and write
+                               the accepted changes as a unified patch to <file>
 
   Examples
     $ codex "Write and run a python program that prints ASCII art"
     $ codex -q "fix build issues"
+    $ codex --resume 3f2a9c "now add tests for it"
+    $ codex --json --full-auto "fix build issues" | jq -c 'select(.type == "summary")'
     $ codex completion bash
 `,
   {
@@ -165,6 +188,36 @@ const cli = meow(
       version: { type: "boolean", description: "Print version and exit" },
       view: { type: "string" },
       history: { type: "boolean", description: "Browse previous sessions" },
+      resume: {
+        type: "string",
+        description: "Continue a saved session (session id or rollout path)",
+      },
+      // codex audit
+      session: {
+        type: "string",
+        description: "codex audit: only entries of this session (id or prefix)",
+      },
+      since: {
+        type: "string",
+        description: "codex audit: only entries at or after this date",
+      },
+      until: {
+        type: "string",
+        description: "codex audit: only entries before this date (a day is inclusive)",
+      },
+      command: {
+        type: "string",
+        description: "codex audit: only commands containing this text",
+      },
+      sessionBranch: {
+        type: "boolean",
+        description:
+          "Work on a dedicated git branch and commit every applied patch",
+      },
+      sessionWorktree: {
+        type: "boolean",
+        description: "Like --session-branch, but in a separate git worktree",
+      },
       login: { type: "boolean", description: "Force a new sign in flow" },
       free: { type: "boolean", description: "Retry redeeming free credits" },
       model: { type: "string", aliases: ["m"] },
@@ -175,6 +228,12 @@ const cli = meow(
         aliases: ["q"],
         description: "Non-interactive quiet mode",
       },
+      json: {
+        type: "boolean",
+        aliases: ["j"],
+        description:
+          "Non-interactive mode that prints newline-delimited JSON events",
+      },
       config: {
         type: "boolean",
         aliases: ["c"],
@@ -252,6 +311,11 @@ const cli = meow(
         description: `Run in full-context editing approach. The model is given the whole code
           directory as context and performs changes in one go without acting.`,
       },
+      dryRun: {
+        type: "string",
+        description:
+          "Full-context mode: write accepted changes as a patch to this file instead of applying them",
+      },
     },
   },
 );
@@ -355,6 +419,25 @@ complete -c codex -a '(__fish_complete_path)' -d 'file path'`,
   process.exit(0);
 }
 
+// Handle 'audit' subcommand: print the entries of the audit log that match
+// the filters, as text or (with --json) as the raw JSONL lines.
+if (cli.input[0] === "audit") {
+  const file = loadConfig().auditLog?.path ?? DEFAULT_AUDIT_LOG_PATH;
+  let query: AuditQuery;
+  try {
+    query = auditQueryFromFlags(cli.flags);
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error(error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+  for (const entry of filterAuditLog(readAuditLog(file), query)) {
+    // eslint-disable-next-line no-console
+    console.log(cli.flags.json ? JSON.stringify(entry) : formatAuditEntry(entry));
+  }
+  process.exit(0);
+}
+
 // For --help, show help and exit.
 if (cli.flags.help) {
   cli.showHelp();
@@ -368,10 +451,7 @@ if (cli.flags.config) {
     // ignore errors
   }
 
-  const filePath = INSTRUCTIONS_FILEPATH;
-  const editor =
-    process.env["EDITOR"] || (process.platform === "win32" ? "notepad" : "vi");
-  spawnSync(editor, [filePath], { stdio: "inherit" });
+  openInEditor(INSTRUCTIONS_FILEPATH);
   process.exit(0);
 }
 
@@ -380,6 +460,11 @@ if (cli.flags.config) {
 // ---------------------------------------------------------------------------
 
 const fullContextMode = Boolean(cli.flags.fullContext);
+if (cli.flags.dryRun !== undefined && !fullContextMode) {
+  // eslint-disable-next-line no-console
+  console.error("--dry-run is only supported in full-context mode (-f).");
+  process.exit(1);
+}
 let config = loadConfig(undefined, undefined, {
   cwd: process.cwd(),
   disableProjectDoc: Boolean(cli.flags.noProjectDoc),
@@ -387,19 +472,83 @@ let config = loadConfig(undefined, undefined, {
   isFullContext: fullContextMode,
 });
 
-// `prompt` can be updated later when the user resumes a previous session
-// via the `--history` flag. Therefore it must be declared with `let` rather
-// than `const`.
-let prompt = cli.input[0];
+const prompt = cli.input[0];
 const imagePaths = cli.flags.image;
 
+let rollout: AppRollout | undefined;
+let resumeFrom = cli.flags.resume;
+
+// For --history, show session selector and optionally view or resume a session.
+if (cli.flags.history) {
+  const result: { path: string; mode: "view" | "resume" } | null =
+    await new Promise((resolve) => {
+      const instance = render(
+        React.createElement(SessionsOverlay, {
+          onView: (p: string) => {
+            instance.unmount();
+            resolve({ path: p, mode: "view" });
+          },
+          onResume: (p: string) => {
+            instance.unmount();
+            resolve({ path: p, mode: "resume" });
+          },
+          onExit: () => {
+            instance.unmount();
+            resolve(null);
+          },
+        }),
+      );
+    });
+
+  if (!result) {
+    process.exit(0);
+  }
+
+  if (result.mode === "view") {
+    try {
+      const content = fs.readFileSync(result.path, "utf-8");
+      rollout = JSON.parse(content) as AppRollout;
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.error("Error reading session file:", error);
+      process.exit(1);
+    }
+  } else {
+    resumeFrom = result.path;
+  }
+}
+
+// For --resume (or "resume" in the --history selector), load the saved
+// session before the provider and model are determined: unless overridden
+// by flags, the session continues with the ones it was started with.
+let resume: AppRollout | undefined;
+if (resumeFrom) {
+  if (cli.flags.quiet || cli.flags.json) {
+    // eslint-disable-next-line no-console
+    console.error("--resume is only supported in interactive mode.");
+    process.exit(1);
+  }
+  try {
+    resume = loadRollout(resumeFrom);
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error(error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+  setSessionId(resume.session.id);
+}
+
+
 // Determine effective provider for the session
-const sessionEffectiveProvider = cli.flags.provider ?? "openai";
+const sessionEffectiveProvider =
+  cli.flags.provider ?? resume?.session.provider ?? "openai";
 config.provider = sessionEffectiveProvider; // Update in-memory config with the session's provider
 
 // Determine effective model for the session
 if (cli.flags.model) {
   config.model = cli.flags.model; // User specified model via flag
+} else if (resume?.session.model && !cli.flags.provider) {
+  config.model = resume.session.model; // Continue with the resumed session's model
 } else {
   // No model flag, use default for the session's provider
   config.model = config.providers?.[sessionEffectiveProvider]?.defaultModel ?? config.model; // Fallback to existing config.model if lookup fails
@@ -494,7 +643,7 @@ if (!currentProviderApiKey) {
 // Handle --free flag (OpenAI specific)
 if (cli.flags.free && provider.toLowerCase() === 'openai') {
   // eslint-disable-next-line no-console
-  console.log(`${chalk.bold("codex --free")} attempting to redeem credits...`);
+  console.error(`${chalk.bold("codex --free")} attempting to redeem credits...`);
   if (!savedTokens?.refresh_token) {
     // Force login flow which includes redemption, and pass 'openai' as provider
     const openAIKeyFromFreeFlow = await fetchApiKey(client.issuer, client.client_id, true, 'openai');
@@ -556,11 +705,14 @@ config = {
   saveConfig(config);
 
 // Check for updates after loading config. This is important because we write state file in
-// the config dir.
-try {
-  await checkForUpdates();
-} catch {
-  // ignore
+// the config dir. Skipped in --json mode, where stdout carries nothing but
+// NDJSON events.
+if (!cli.flags.json) {
+  try {
+    await checkForUpdates();
+  } catch {
+    // ignore
+  }
 }
 
 // For --flex-mode, validate and exit if incorrect.
@@ -594,48 +746,6 @@ if (config.flexMode) {
 //   process.exit(1);
 // }
 
-let rollout: AppRollout | undefined;
-
-// For --history, show session selector and optionally update prompt or rollout.
-if (cli.flags.history) {
-  const result: { path: string; mode: "view" | "resume" } | null =
-    await new Promise((resolve) => {
-      const instance = render(
-        React.createElement(SessionsOverlay, {
-          onView: (p: string) => {
-            instance.unmount();
-            resolve({ path: p, mode: "view" });
-          },
-          onResume: (p: string) => {
-            instance.unmount();
-            resolve({ path: p, mode: "resume" });
-          },
-          onExit: () => {
-            instance.unmount();
-            resolve(null);
-          },
-        }),
-      );
-    });
-
-  if (!result) {
-    process.exit(0);
-  }
-
-  if (result.mode === "view") {
-    try {
-      const content = fs.readFileSync(result.path, "utf-8");
-      rollout = JSON.parse(content) as AppRollout;
-    } catch (error) {
-      // eslint-disable-next-line no-console
-      console.error("Error reading session file:", error);
-      process.exit(1);
-    }
-  } else {
-    prompt = `Resume this session: ${result.path}`;
-  }
-}
-
 // For --view, optionally load an existing rollout from disk, display it and exit.
 if (cli.flags.view) {
   const viewPath = cli.flags.view;
@@ -658,6 +768,8 @@ if (fullContextMode) {
     originalPrompt: prompt,
     config,
     rootPath: process.cwd(),
+    dryRunPatchPath:
+      cli.flags.dryRun !== undefined ? path.resolve(cli.flags.dryRun) : undefined,
   });
   onExit();
   process.exit(0);
@@ -668,9 +780,44 @@ const additionalWritableRoots: ReadonlyArray<string> = (
   cli.flags.writableRoot ?? []
 ).map((p) => path.resolve(p));
 
-// For --quiet, run the cli without user interactions and exit.
+// With --session-branch or --session-worktree (or `gitSession.enabled` in the
+// config) the session works on its own branch and every applied patch is
+// committed there. A resumed session continues on its existing branch.
+if (
+  !rollout &&
+  (cli.flags.sessionBranch ||
+    cli.flags.sessionWorktree ||
+    config.gitSession?.enabled)
+) {
+  if (!getSessionId()) {
+    setSessionId(randomUUID().replaceAll("-", ""));
+  }
+  try {
+    const gitSession = GitSession.start(process.cwd(), getSessionId(), {
+      ...config.gitSession,
+      ...(cli.flags.sessionWorktree && { worktree: true }),
+    });
+    setGitSession(gitSession);
+    if (gitSession.workdir !== process.cwd()) {
+      process.chdir(gitSession.workdir);
+    }
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error(
+      `Could not start the session branch: ${error instanceof Error ? error.message : String(error)}`,
+    );
+    process.exit(1);
+  }
+}
+
+// Spawn the configured MCP servers so their tools are registered with the
+// default tool registry before the first AgentLoop is created. The servers
+// are stopped automatically when the process exits.
+await startMcpServers(config.mcpServers);
+
+// For --quiet (or --json), run the cli without user interactions and exit.
 const ResolvedAAM = AutoApprovalMode;
-if (cli.flags.quiet) {
+if (cli.flags.quiet || cli.flags.json) {
   process.env["CODEX_QUIET_MODE"] = "1";
   if (!prompt || prompt.trim() === "") {
     // eslint-disable-next-line no-console
@@ -688,15 +835,16 @@ if (cli.flags.quiet) {
         ? ResolvedAAM.AUTO_EDIT
         : config.approvalMode || ResolvedAAM.SUGGEST;
 
-  await runQuietMode({
+  const exitCode = await runQuietMode({
     prompt,
     imagePaths: imagePaths || [],
     approvalPolicy: quietApprovalPolicy,
     additionalWritableRoots,
     config,
+    json: Boolean(cli.flags.json),
   });
   onExit();
-  process.exit(0);
+  process.exit(exitCode);
 }
 
 // Default to the "suggest" policy.
@@ -719,13 +867,16 @@ const approvalPolicy: ApprovalPolicy =
     ? ResolvedAAM.FULL_AUTO
     : cli.flags.autoEdit || cli.flags.approvalMode === "auto-edit"
       ? ResolvedAAM.AUTO_EDIT
-      : config.approvalMode || ResolvedAAM.SUGGEST;
+      : resume?.session.approvalMode ||
+        config.approvalMode ||
+        ResolvedAAM.SUGGEST;
 
 const instance = render(
   <App
     prompt={prompt}
     config={config}
     rollout={rollout}
+    resume={resume}
     imagePaths={imagePaths}
     approvalPolicy={approvalPolicy}
     additionalWritableRoots={additionalWritableRoots}
@@ -733,6 +884,8 @@ const instance = render(
   />,
   {
     patchConsole: process.env["DEBUG"] ? false : true,
+    // Ctrl-C is handled below so that the UI can stop a running command.
+    exitOnCtrlC: false,
   },
 );
 setInkRenderer(instance);
@@ -839,36 +992,71 @@ async function runQuietMode({
   approvalPolicy,
   additionalWritableRoots,
   config,
+  json,
 }: {
   prompt: string;
   imagePaths: Array<string>;
   approvalPolicy: ApprovalPolicy;
   additionalWritableRoots: ReadonlyArray<string>;
   config: AppConfig;
-}): Promise<void> {
+  json: boolean;
+}): Promise<number> {
+  // In --json mode every event goes to stdout as one line of JSON, followed
+  // by a final `summary` record.
+  const summary = new JsonRunSummaryCollector();
+  const writeJsonEvent = (event: JsonEvent) => {
+    summary.recordEvent(event);
+    process.stdout.write(JSON.stringify(event) + "\n");
+  };
+
+  let budgetExceeded = false;
   const agent = new AgentLoop({
     model: cli.flags.model || config.model,
-    config: config,
+    // Nobody is around to decide whether a command that failed in the
+    // sandbox may run outside of it, so failures go back to the model.
+    config: {
+      ...config,
+      fullAutoErrorMode: FullAutoErrorMode.IGNORE_AND_CONTINUE,
+    },
     instructions: config.instructions,
     provider: cli.flags.provider || config.provider,
     approvalPolicy,
     additionalWritableRoots,
     disableResponseStorage: config.disableResponseStorage,
     onItem: (sdkItem: OpenAiSdkResponseItem) => {
+      if (json) {
+        writeJsonEvent(responseItemToJsonEvent(sdkItem));
+        return;
+      }
       // eslint-disable-next-line no-console
       console.log(formatResponseItemForQuietMode(sdkItem as CliResponseItem));
     },
+    onUsage: (usage) => summary.recordUsage(usage),
+    // Nobody can confirm going past a budget, so the run stops there and
+    // the CLI exits with an error.
+    confirmBudgetOverrun: (usage) => {
+      budgetExceeded = true;
+      summary.recordError(
+        new Error(`Stopped at a budget limit. ${formatBudgetUsage(usage)}.`),
+      );
+      return Promise.resolve(false);
+    },
     onLoading: () => {
       /* intentionally ignored in quiet mode */
     },
     getCommandConfirmation: async (
-      _safetyAssessment: SafetyAssessment,
+      safetyAssessment: SafetyAssessment,
       command: Array<string>,
       _applyPatch: ApplyPatchCommand | undefined,
     ): Promise<CommandConfirmation> => {
-      // In quiet mode, default to NO_CONTINUE, except when in full-auto mode
+      // In quiet mode, default to NO_CONTINUE, except when in full-auto mode.
+      // Nobody can approve running a command outside of the sandbox, or one
+      // the user must decide about whatever the mode.
       const reviewDecision =
-        approvalPolicy === AutoApprovalMode.FULL_AUTO
+        approvalPolicy === AutoApprovalMode.FULL_AUTO &&
+        safetyAssessment.type !== "always-ask" &&
+        safetyAssessment.type !== "unsandboxed" &&
+        safetyAssessment.type !== "sandbox-failure"
           ? ReviewDecision.YES
           : ReviewDecision.NO_CONTINUE;
       // Return with modifiedCommand to match the expected return type
@@ -886,8 +1074,16 @@ async function runQuietMode({
   try {
     await agent.run([inputItem]);
   } catch (error) {
-    console.error('[DEBUG Quiet Mode Error]', error);
+    if (json) {
+      summary.recordError(error);
+    } else {
+      console.error('[DEBUG Quiet Mode Error]', error);
+    }
+  }
+  if (json) {
+    process.stdout.write(JSON.stringify(summary.summary()) + "\n");
   }
+  return budgetExceeded ? 1 : 0;
 }
 
 const exit = () => {
@@ -910,7 +1106,7 @@ if (process.stdin.isTTY) {
   // corresponding byte (0x03) ourselves and trigger a graceful shutdown.
   const onRawData = (data: Buffer | string): void => {
     const str = Buffer.isBuffer(data) ? data.toString("utf8") : data;
-    if (str === "\u0003") {
+    if (str === "\u0003" && !handleCtrlC()) {
       exit();
     }
   };
@@ -0,0 +1,72 @@
+import type { BackgroundProcesses } from "../../utils/agent/background-processes.js";
+
+import { Box, Text } from "ink";
+import React, { useEffect, useState } from "react";
+
+/** Chatty processes (dev servers, watchers) would otherwise re-render the
+ *  whole UI for every line they print. */
+const RENDER_INTERVAL_MS = 250;
+
+/**
+ * The processes started with the `background_process` tool, with their state
+ * and last line of output. Renders nothing until there is one.
+ */
+export default function BackgroundProcessesPanel({
+  processes,
+}: {
+  processes: BackgroundProcesses;
+}): React.ReactElement | null {
+  const [, forceRender] = useState(0);
+
+  useEffect(() => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const unsubscribe = processes.subscribe(() => {
+      timer ??= setTimeout(() => {
+        timer = undefined;
+        forceRender((n) => n + 1);
+      }, RENDER_INTERVAL_MS);
+    });
+    return () => {
+      clearTimeout(timer);
+      unsubscribe();
+    };
+  }, [processes]);
+
+  const list = processes.list();
+  if (list.length === 0) {
+    return null;
+  }
+  return (
+    <Box
+      borderStyle="round"
+      borderColor="gray"
+      paddingX={1}
+      flexDirection="column"
+    >
+      <Text bold>Background processes</Text>
+      {list.map((p) => (
+        <Box key={p.id} flexDirection="column">
+          <Text>
+            {p.exitCode === null ? (
+              <Text color="green">●</Text>
+            ) : (
+              <Text color={p.exitCode === 0 ? "gray" : "red"}>○</Text>
+            )}{" "}
+            <Text bold>{p.id}</Text> {p.command.join(" ")}{" "}
+            <Text dimColor>
+              {p.exitCode === null
+                ? `pid ${String(p.pid)}${p.tty ? ` · /attach ${p.id}` : ""}`
+                : `exited with ${p.exitCode}`}
+            </Text>
+          </Text>
+          {p.lastLine && (
+            <Text dimColor wrap="truncate-end">
+              {"  "}
+              {p.lastLine}
+            </Text>
+          )}
+        </Box>
+      ))}
+    </Box>
+  );
+}
@@ -0,0 +1,40 @@
+import type { BudgetUsage } from "../../utils/budget.js";
+
+import { formatBudgetUsage } from "../../utils/budget.js";
+import { ConfirmInput } from "@inkjs/ui";
+import { Box, Text } from "ink";
+import React from "react";
+
+/**
+ * Shown before the next request when a limit of the `budget` config is used
+ * up. Going on lifts that limit for the rest of the session.
+ */
+export default function TerminalChatBudgetPrompt({
+  usage,
+  onDecision,
+}: {
+  usage: BudgetUsage;
+  onDecision: (proceed: boolean) => void;
+}): React.ReactElement {
+  return (
+    <Box
+      borderStyle="round"
+      borderColor="redBright"
+      paddingX={1}
+      flexDirection="column"
+    >
+      <Text>
+        <Text color="redBright">Budget reached.</Text>{" "}
+        {formatBudgetUsage(usage)}.
+      </Text>
+      <Box gap={1}>
+        <Text>Continue past this limit for the rest of the session?</Text>
+        <ConfirmInput
+          defaultChoice="cancel"
+          onConfirm={() => onDecision(true)}
+          onCancel={() => onDecision(false)}
+        />
+      </Box>
+    </Box>
+  );
+}
@@ -1,12 +1,24 @@
 import type { ConfirmationResult } from "../../hooks/use-confirmation.js";
+import type {
+  HunkDecisions,
+  PatchReview,
+} from "../../utils/agent/patch-review.js";
 
+import TerminalChatPatchReview from "./terminal-chat-patch-review.js";
+import {
+  commandToEditableText,
+  editableTextToCommand,
+} from "../../utils/agent/edit-command.js";
+import { buildReviewedPatch } from "../../utils/agent/patch-review.js";
 import { ReviewDecision } from "../../utils/agent/review";
+import { editInEditor } from "../../utils/external-editor.js";
 // TODO: figure out why `cli-spinners` fails on Node v20.9.0
 // which is why we have to do this in the first place
 //
 import { Select } from "../vendor/ink-select/select";
 import TextInput from "../vendor/ink-text-input";
-import { Box, Text, useInput } from "ink";
+import isEqual from "fast-deep-equal";
+import { Box, Text, useInput, useStdin } from "ink";
 import React from "react";
 
 // default deny‑reason:
@@ -19,6 +31,12 @@ export function TerminalChatCommandReview({
   // callback to switch approval mode overlay
   onSwitchApprovalMode,
   explanation: propExplanation,
+  // the files and hunks of an apply_patch call, to review them one by one
+  patchReview,
+  // the command, when it may be edited in $EDITOR before it runs
+  editableCommand,
+  // the command line "always allow it in this project" saves
+  projectRule,
   // whether this review Select is active (listening for keys)
   isActive = true,
 }: {
@@ -26,12 +44,15 @@ export function TerminalChatCommandReview({
   onReviewCommand: (result: ConfirmationResult) => void;
   onSwitchApprovalMode: () => void;
   explanation?: string;
+  patchReview?: PatchReview;
+  editableCommand?: Array<string>;
+  projectRule?: string;
   // when false, disable the underlying Select so it won't capture input
   isActive?: boolean;
 }): React.ReactElement {
-  const [mode, setMode] = React.useState<"select" | "input" | "explanation">(
-    "select",
-  );
+  const [mode, setMode] = React.useState<
+    "select" | "input" | "explanation" | "hunks"
+  >("select");
   const [explanation, setExplanation] = React.useState<string>("");
 
   // If the component receives an explanation prop, update the state
@@ -42,6 +63,58 @@ export function TerminalChatCommandReview({
     }
   }, [propExplanation]);
   const [msg, setMsg] = React.useState<string>("");
+  const [editorNote, setEditorNote] = React.useState<string>("");
+  const { isRawModeSupported, setRawMode } = useStdin();
+
+  // Hand the terminal to $EDITOR, then run the edited command instead.
+  const editInExternalEditor = () => {
+    if (!editableCommand) {
+      return;
+    }
+    const { text, extension } = commandToEditableText(editableCommand);
+    if (isRawModeSupported) {
+      setRawMode(false);
+    }
+    const edited = editInEditor(text, extension);
+    if (isRawModeSupported) {
+      setRawMode(true);
+    }
+    if (edited === undefined) {
+      setEditorNote("The editor exited with an error; nothing was changed.");
+      return;
+    }
+    const command = editableTextToCommand(edited, editableCommand);
+    if (
+      !command ||
+      isEqual(command, editableTextToCommand(text, editableCommand))
+    ) {
+      setEditorNote("The command was not changed.");
+    } else {
+      onReviewCommand({
+        decision: ReviewDecision.EDIT,
+        editedCommand: command,
+      });
+    }
+  };
+
+  // Apply only the accepted hunks, and tell the model which were rejected.
+  const submitHunkDecisions = (decisions: HunkDecisions) => {
+    const { patch, note } = buildReviewedPatch(patchReview!, decisions);
+    if (note === undefined) {
+      onReviewCommand({ decision: ReviewDecision.YES });
+    } else if (patch === undefined) {
+      onReviewCommand({
+        decision: ReviewDecision.NO_CONTINUE,
+        customDenyMessage: note,
+      });
+    } else {
+      onReviewCommand({
+        decision: ReviewDecision.YES,
+        applyPatch: { patch },
+        customDenyMessage: note,
+      });
+    }
+  };
 
   // -------------------------------------------------------------------------
   // Determine whether the "always approve" option should be displayed.  We
@@ -80,6 +153,8 @@ export function TerminalChatCommandReview({
       | { label: string; value: "explain" }
       | { label: string; value: "edit" }
       | { label: string; value: "switch" }
+      | { label: string; value: "hunks" }
+      | { label: string; value: "editor" }
     > = [
       {
         label: "Yes (y)",
@@ -87,11 +162,31 @@ export function TerminalChatCommandReview({
       },
     ];
 
+    if (patchReview) {
+      opts.push({
+        label: "Review the changes hunk by hunk (r)",
+        value: "hunks",
+      });
+    }
+
+    if (editableCommand) {
+      opts.push({
+        label: "Edit in $EDITOR, then run it (o)",
+        value: "editor",
+      });
+    }
+
     if (showAlwaysApprove) {
       opts.push({
         label: "Yes, always approve this exact command for this session (a)",
         value: ReviewDecision.ALWAYS,
       });
+      if (projectRule !== undefined) {
+        opts.push({
+          label: `Yes, always allow \`${projectRule}\` in this project – saved to .codex/policy.yaml (p)`,
+          value: ReviewDecision.ALWAYS_PROJECT,
+        });
+      }
     }
 
     opts.push(
@@ -119,10 +214,14 @@ export function TerminalChatCommandReview({
     );
 
     return opts;
-  }, [showAlwaysApprove]);
+  }, [showAlwaysApprove, patchReview, editableCommand, projectRule]);
 
   useInput(
     (input, key) => {
+      if (mode === "hunks") {
+        // <TerminalChatPatchReview/> handles its own keys.
+        return;
+      }
       if (mode === "select") {
         if (input === "y") {
           onReviewCommand({ decision: ReviewDecision.YES });
@@ -130,10 +229,20 @@ export function TerminalChatCommandReview({
           onReviewCommand({ decision: ReviewDecision.NO_CONTINUE });
         } else if (input === "e") {
           setMode("input");
+        } else if (input === "r" && patchReview) {
+          setMode("hunks");
+        } else if (input === "o" && editableCommand) {
+          editInExternalEditor();
         } else if (input === "x") {
           onReviewCommand({ decision: ReviewDecision.EXPLAIN });
         } else if (input === "a" && showAlwaysApprove) {
           onReviewCommand({ decision: ReviewDecision.ALWAYS });
+        } else if (
+          input === "p" &&
+          showAlwaysApprove &&
+          projectRule !== undefined
+        ) {
+          onReviewCommand({ decision: ReviewDecision.ALWAYS_PROJECT });
         } else if (input === "s") {
           // switch approval mode
           onSwitchApprovalMode();
@@ -168,7 +277,16 @@ export function TerminalChatCommandReview({
 
   return (
     <Box flexDirection="column" gap={1} borderStyle="round" marginTop={1}>
-      {confirmationPrompt}
+      {mode === "hunks" && patchReview ? (
+        <TerminalChatPatchReview
+          review={patchReview}
+          onDone={submitHunkDecisions}
+          onBack={() => setMode("select")}
+          isActive={isActive}
+        />
+      ) : (
+        confirmationPrompt
+      )}
       <Box flexDirection="column" gap={1}>
         {mode === "explanation" ? (
           <>
@@ -210,6 +328,7 @@ export function TerminalChatCommandReview({
         ) : mode === "select" ? (
           <>
             <Text>Allow command?</Text>
+            {editorNote && <Text dimColor>{editorNote}</Text>}
             <Box paddingX={2} flexDirection="column" gap={1}>
               <Select
                 isDisabled={!isActive}
@@ -217,10 +336,20 @@ export function TerminalChatCommandReview({
                 highlightText={undefined} // Added to satisfy TS2739
                 defaultValue={approvalOptions[0]?.value} // Added to satisfy TS2739
                 onChange={(
-                  value: ReviewDecision | "edit" | "switch" | "explain",
+                  value:
+                    | ReviewDecision
+                    | "edit"
+                    | "switch"
+                    | "explain"
+                    | "hunks"
+                    | "editor",
                 ) => {
                   if (value === "edit") {
                     setMode("input");
+                  } else if (value === "hunks") {
+                    setMode("hunks");
+                  } else if (value === "editor") {
+                    editInExternalEditor();
                   } else if (value === "switch") {
                     onSwitchApprovalMode();
                   } else if (value === "explain") {
@@ -1,4 +1,5 @@
 import type {
+  ConfirmationOptions,
   ConfirmationResult,
   // ConfirmationPrompt,
 } from "../../hooks/use-confirmation";
@@ -38,6 +39,7 @@ export interface TerminalChatInputProps {
   submitInput: (items: Array<ResponseInputItem>) => void;
   confirmationPrompt: React.ReactNode | null;
   explanation?: string;
+  confirmationOptions?: ConfirmationOptions;
   submitConfirmation: (result: ConfirmationResult) => void;
   setLastResponseId: (id: string) => void;
   setItems: (items: Array<ResponseInputItem>) => void;
@@ -50,6 +52,13 @@ export interface TerminalChatInputProps {
   openSessionsOverlay: () => void;
   openWebOverlay: () => void;
   onCompact: () => void;
+  onUndo?: (target: string) => void;
+  onCheckpoints?: (name: string) => void;
+  onCommit?: (message: string) => void;
+  onSquash?: (message: string) => void;
+  onPrSummary?: () => void;
+  onAttach?: (id: string) => void;
+  onContext?: () => void;
   items: Array<ResponseInputItem>;
   workdir?: string;
   onWebAccessToggle?: () => void;
@@ -62,6 +71,7 @@ export default function TerminalChatInput({
   submitInput,
   confirmationPrompt,
   explanation,
+  confirmationOptions,
   submitConfirmation,
   setLastResponseId,
   setItems,
@@ -74,6 +84,13 @@ export default function TerminalChatInput({
   openSessionsOverlay,
   openWebOverlay,
   onCompact,
+  onUndo,
+  onCheckpoints,
+  onCommit,
+  onSquash,
+  onPrSummary,
+  onAttach,
+  onContext,
   items = [],
   workdir,
   onWebAccessToggle,
@@ -205,6 +222,34 @@ export default function TerminalChatInput({
             onCompact();
             return;
           }
+          if (command.command === "/undo") {
+            onUndo?.(commandArgs?.trim() ?? "");
+            return;
+          }
+          if (command.command === "/checkpoints") {
+            onCheckpoints?.(commandArgs?.trim() ?? "");
+            return;
+          }
+          if (command.command === "/commit") {
+            onCommit?.(commandArgs?.trim() ?? "");
+            return;
+          }
+          if (command.command === "/squash") {
+            onSquash?.(commandArgs?.trim() ?? "");
+            return;
+          }
+          if (command.command === "/pr-summary") {
+            onPrSummary?.();
+            return;
+          }
+          if (command.command === "/attach") {
+            onAttach?.(commandArgs?.trim() ?? "");
+            return;
+          }
+          if (command.command === "/context") {
+            onContext?.();
+            return;
+          }
           if (command.command === "/help") {
             openHelpOverlay();
             return;
@@ -279,6 +324,13 @@ export default function TerminalChatInput({
       app,
       setItems,
       onCompact,
+      onUndo,
+      onCheckpoints,
+      onCommit,
+      onSquash,
+      onPrSummary,
+      onAttach,
+      onContext,
       openHelpOverlay,
       openModelOverlay,
       openProviderOverlay,
@@ -446,6 +498,9 @@ export default function TerminalChatInput({
     return (
       <TerminalChatCommandReview
         explanation={explanation}
+        patchReview={confirmationOptions?.patchReview}
+        editableCommand={confirmationOptions?.editableCommand}
+        projectRule={confirmationOptions?.projectRule}
         confirmationPrompt={confirmationPrompt}
         onReviewCommand={submitConfirmation}
         onSwitchApprovalMode={openApprovalOverlay}
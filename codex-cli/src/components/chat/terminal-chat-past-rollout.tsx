@@ -3,6 +3,7 @@ import type { ResponseItem } from "openai/resources/responses/responses";
 import type { FileOpenerScheme } from "src/utils/config.js";
 
 import TerminalChatResponseItem from "./terminal-chat-response-item";
+import { TokenUsageLine } from "./terminal-header.js";
 import { Box, Text } from "ink";
 import React from "react";
 
@@ -49,6 +50,7 @@ export default function TerminalChatPastRollout({
         <Text dimColor>
           <Text color="blueBright">↳</Text> model: <Text bold>{model}</Text>
         </Text>
+        {session.usage && <TokenUsageLine usage={session.usage} />}
       </Box>
       <Box flexDirection="column" gap={1}>
         {React.useMemo(
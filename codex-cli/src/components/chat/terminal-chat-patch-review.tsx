@@ -0,0 +1,297 @@
+import type {
+  HunkDecisions,
+  PatchReview,
+  ReviewHunk,
+} from "../../utils/agent/patch-review.js";
+import type { HighlightKind } from "../../utils/syntax-highlight.js";
+
+import {
+  acceptAllHunks,
+  formatHunkHeader,
+} from "../../utils/agent/patch-review.js";
+import { highlightLine } from "../../utils/syntax-highlight.js";
+import { Box, Text, useInput } from "ink";
+import React, { useState } from "react";
+
+const KIND_COLORS: Record<HighlightKind, string> = {
+  keyword: "magenta",
+  string: "yellow",
+  comment: "gray",
+  number: "cyan",
+};
+
+type LineKind = "context" | "deleted" | "inserted";
+
+const MARKERS: Record<LineKind, string> = {
+  context: " ",
+  deleted: "-",
+  inserted: "+",
+};
+
+const LINE_COLORS: Record<LineKind, string | undefined> = {
+  context: undefined,
+  deleted: "red",
+  inserted: "green",
+};
+
+type DiffLine = { kind: LineKind; text: string; number?: number };
+
+function CodeLine({
+  line,
+  filePath,
+  dim,
+}: {
+  line?: DiffLine;
+  filePath: string;
+  dim: boolean;
+}): React.ReactElement {
+  if (!line) {
+    return <Text> </Text>;
+  }
+  const color = LINE_COLORS[line.kind];
+  return (
+    <Text wrap="truncate-end" dimColor={dim || line.kind === "context"}>
+      <Text color={color}>
+        {String(line.number ?? "").padStart(5)} {MARKERS[line.kind]}{" "}
+      </Text>
+      {highlightLine(line.text, filePath).map((token, i) => (
+        <Text key={i} color={token.kind ? KIND_COLORS[token.kind] : color}>
+          {token.text}
+        </Text>
+      ))}
+    </Text>
+  );
+}
+
+function numbered(
+  kind: LineKind,
+  lines: Array<string>,
+  start: number,
+): Array<DiffLine> {
+  return lines.map((text, i) => ({ kind, text, number: start + i }));
+}
+
+/**
+ * The lines of `hunk` in unified layout. Inserted lines are numbered in the
+ * updated file, all others in the original one.
+ */
+function unifiedLines(hunk: ReviewHunk): Array<DiffLine> {
+  const end = hunk.oldStart + hunk.deleted.length;
+  return [
+    ...numbered("context", hunk.before, hunk.oldStart - hunk.before.length),
+    ...numbered("deleted", hunk.deleted, hunk.oldStart),
+    ...numbered("inserted", hunk.inserted, hunk.newStart),
+    ...numbered("context", hunk.after, end),
+  ];
+}
+
+/** The rows of `hunk` in side-by-side layout: original left, updated right. */
+function sideBySideRows(
+  hunk: ReviewHunk,
+): Array<[DiffLine | undefined, DiffLine | undefined]> {
+  const rows: Array<[DiffLine | undefined, DiffLine | undefined]> = [];
+  const contextRows = (
+    lines: Array<string>,
+    oldStart: number,
+    newStart: number,
+  ) => {
+    lines.forEach((text, i) =>
+      rows.push([
+        { kind: "context", text, number: oldStart + i },
+        { kind: "context", text, number: newStart + i },
+      ]),
+    );
+  };
+  contextRows(
+    hunk.before,
+    hunk.oldStart - hunk.before.length,
+    hunk.newStart - hunk.before.length,
+  );
+  const deleted = numbered("deleted", hunk.deleted, hunk.oldStart);
+  const inserted = numbered("inserted", hunk.inserted, hunk.newStart);
+  for (let i = 0; i < Math.max(deleted.length, inserted.length); i++) {
+    rows.push([deleted[i], inserted[i]]);
+  }
+  contextRows(
+    hunk.after,
+    hunk.oldStart + hunk.deleted.length,
+    hunk.newStart + hunk.inserted.length,
+  );
+  return rows;
+}
+
+/**
+ * Review of an `apply_patch` call one hunk at a time. Every hunk starts out
+ * accepted; `onDone` receives the decisions for all hunks.
+ */
+export default function TerminalChatPatchReview({
+  review,
+  onDone,
+  onBack,
+  isActive = true,
+}: {
+  review: PatchReview;
+  onDone: (decisions: HunkDecisions) => void;
+  onBack: () => void;
+  isActive?: boolean;
+}): React.ReactElement {
+  const [decisions, setDecisions] = useState<HunkDecisions>(() =>
+    acceptAllHunks(review),
+  );
+  const [position, setPosition] = useState({ file: 0, hunk: 0 });
+  const [sideBySide, setSideBySide] = useState(false);
+
+  const file = review.files[position.file]!;
+  const hunk = file.hunks[position.hunk]!;
+  const accepted = decisions[position.file]?.[position.hunk] ?? true;
+
+  const setHunk = (value: (current: boolean) => boolean) =>
+    setDecisions((prev) =>
+      prev.map((hunks, f) =>
+        f === position.file
+          ? hunks.map((d, h) => (h === position.hunk ? value(d) : d))
+          : hunks,
+      ),
+    );
+  const setFile = (value: boolean) =>
+    setDecisions((prev) =>
+      prev.map((hunks, f) =>
+        f === position.file ? hunks.map(() => value) : hunks,
+      ),
+    );
+  const moveHunk = (delta: number) =>
+    setPosition(({ file: f, hunk: h }) => {
+      const hunks = review.files[f]!.hunks.length;
+      if (h + delta >= 0 && h + delta < hunks) {
+        return { file: f, hunk: h + delta };
+      }
+      const next = f + delta;
+      if (next < 0 || next >= review.files.length) {
+        return { file: f, hunk: h };
+      }
+      return {
+        file: next,
+        hunk: delta > 0 ? 0 : review.files[next]!.hunks.length - 1,
+      };
+    });
+  const moveFile = (delta: number) =>
+    setPosition(({ file: f }) => ({
+      file: Math.min(review.files.length - 1, Math.max(0, f + delta)),
+      hunk: 0,
+    }));
+
+  useInput(
+    (input, key) => {
+      if (key.escape) {
+        onBack();
+      } else if (key.return) {
+        onDone(decisions);
+      } else if (key.downArrow || input === "j") {
+        moveHunk(1);
+      } else if (key.upArrow || input === "k") {
+        moveHunk(-1);
+      } else if (key.rightArrow || input === "l") {
+        moveFile(1);
+      } else if (key.leftArrow || input === "h") {
+        moveFile(-1);
+      } else if (input === " ") {
+        setHunk((d) => !d);
+      } else if (input === "y") {
+        setHunk(() => true);
+      } else if (input === "n") {
+        setHunk(() => false);
+      } else if (input === "Y") {
+        setFile(true);
+      } else if (input === "N") {
+        setFile(false);
+      } else if (input === "v") {
+        setSideBySide((s) => !s);
+      }
+    },
+    { isActive },
+  );
+
+  const columns = process.stdout.columns || 80;
+  const maxLines = Math.max(6, (process.stdout.rows || 24) - 14);
+
+  const fileStatus = (f: number) => {
+    const fileDecisions = decisions[f] ?? [];
+    const count = fileDecisions.filter(Boolean).length;
+    if (count === fileDecisions.length) {
+      return <Text color="green">✓</Text>;
+    }
+    return count === 0 ? (
+      <Text color="red">✗</Text>
+    ) : (
+      <Text color="yellow">◐</Text>
+    );
+  };
+
+  let body: React.ReactNode;
+  if (sideBySide) {
+    const rows = sideBySideRows(hunk);
+    const width = Math.floor((columns - 6) / 2);
+    body = (
+      <>
+        {rows.slice(0, maxLines).map(([left, right], i) => (
+          <Box key={i}>
+            <Box width={width}>
+              <CodeLine line={left} filePath={file.path} dim={!accepted} />
+            </Box>
+            <Text dimColor>│</Text>
+            <Box width={width}>
+              <CodeLine line={right} filePath={file.path} dim={!accepted} />
+            </Box>
+          </Box>
+        ))}
+        {rows.length > maxLines && (
+          <Text dimColor>… {rows.length - maxLines} more lines</Text>
+        )}
+      </>
+    );
+  } else {
+    const lines = unifiedLines(hunk);
+    body = (
+      <>
+        {lines.slice(0, maxLines).map((line, i) => (
+          <CodeLine key={i} line={line} filePath={file.path} dim={!accepted} />
+        ))}
+        {lines.length > maxLines && (
+          <Text dimColor>… {lines.length - maxLines} more lines</Text>
+        )}
+      </>
+    );
+  }
+
+  return (
+    <Box flexDirection="column">
+      <Box flexDirection="column" paddingX={1}>
+        {review.files.map((f, i) => (
+          <Text key={f.path} bold={i === position.file}>
+            {i === position.file ? "›" : " "} {fileStatus(i)} {f.type} {f.path}
+            {f.movePath ? ` → ${f.movePath}` : ""}
+          </Text>
+        ))}
+      </Box>
+      <Box paddingX={1} gap={1}>
+        <Text color="cyan">
+          Hunk {position.hunk + 1}/{file.hunks.length} {formatHunkHeader(hunk)}
+        </Text>
+        {accepted ? (
+          <Text color="green">✓ accepted</Text>
+        ) : (
+          <Text color="red">✗ rejected</Text>
+        )}
+      </Box>
+      <Box flexDirection="column" paddingX={1}>
+        {body}
+      </Box>
+      <Box paddingX={1}>
+        <Text dimColor>
+          ↑↓ hunk ←→ file space toggle y/n hunk Y/N file v{" "}
+          {sideBySide ? "unified" : "side-by-side"} ⏎ apply esc back
+        </Text>
+      </Box>
+    </Box>
+  );
+}
@@ -46,12 +46,7 @@ export default function TerminalChatResponseItem({
       );
     case "local_shell_call":
     case "function_call":
-      // Cast to appropriate type since these item types may not be in the SDK type definitions yet
-      return (
-        <TerminalChatResponseToolCall
-          message={item as ResponseFunctionToolCallItem}
-        />
-      );
+      return <TerminalChatResponseToolCall message={item} />;
     case "local_shell_call_output":
     case "function_call_output":
       // Cast to appropriate type since these item types may not be in the SDK type definitions yet
@@ -181,9 +176,7 @@ function TerminalChatResponseMessage({
       <Markdown fileOpener={fileOpener}>
         {citationResult ? citationResult.processedContent : originalContent}
       </Markdown>
-      {citationResult && (
-        <Text dimColor>{citationResult.citationsList}</Text>
-      )}
+      {citationResult && <Text dimColor>{citationResult.citationsList}</Text>}
     </Box>
   );
 }
@@ -191,18 +184,36 @@ function TerminalChatResponseMessage({
 function TerminalChatResponseToolCall({
   message,
 }: {
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  message: ResponseFunctionToolCallItem | any;
+  message: ResponseFunctionToolCallItem | ResponseItem.LocalShellCall;
 }) {
   let workdir: string | undefined;
   let cmdReadableText: string | undefined;
   if (message.type === "function_call") {
     const details = parseToolCall(message);
+    if (
+      !details &&
+      message.name !== "shell" &&
+      message.name !== "container.exec"
+    ) {
+      // A tool from the tool registry (e.g. an MCP server) rather than a
+      // shell command: show its name and raw JSON arguments instead.
+      return (
+        <Box flexDirection="column" gap={1}>
+          <Text color="magentaBright" bold>
+            tool <Text dimColor>{`(${message.name})`}</Text>
+          </Text>
+          <Text>
+            <Text dimColor>→</Text> {message.name}{" "}
+            <Text dimColor>{message.arguments}</Text>
+          </Text>
+        </Box>
+      );
+    }
     workdir = details?.workdir;
     cmdReadableText = details?.cmdReadableText;
-  } else if (message.type === "local_shell_call") {
+  } else {
     const action = message.action;
-    workdir = action.working_directory;
+    workdir = action.working_directory ?? undefined;
     cmdReadableText = formatCommandForDisplay(action.command);
   }
   return (
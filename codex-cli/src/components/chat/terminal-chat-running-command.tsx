@@ -0,0 +1,105 @@
+import { formatCommandForDisplay } from "../../format-command.js";
+import { Box, Text } from "ink";
+import React, { useEffect, useState } from "react";
+import stripAnsi from "strip-ansi";
+
+/** How many of the last lines of output to show. */
+const TAIL_LINES = 10;
+/** Bounds a single line that never ends, e.g. a progress bar without `\n`. */
+const TAIL_MAX_CHARS = 16 * 1024;
+/** Chatty commands would otherwise re-render the whole UI for every line
+ *  they print; this is also how often the elapsed time is updated. */
+const RENDER_INTERVAL_MS = 250;
+
+/**
+ * The last lines of the output of a running command. Only the tail is kept,
+ * the full (truncated) output is what the model gets when the command exits.
+ */
+export class CommandOutputTail {
+  private text = "";
+
+  constructor(private readonly maxLines = TAIL_LINES) {}
+
+  push(chunk: string): void {
+    this.text += chunk;
+    let cut = this.text.length;
+    for (let i = 0; i <= this.maxLines && cut > 0; i++) {
+      cut = this.text.lastIndexOf("\n", cut - 1);
+      if (cut === -1) {
+        break;
+      }
+    }
+    if (cut > 0) {
+      this.text = this.text.slice(cut + 1);
+    }
+    if (this.text.length > TAIL_MAX_CHARS) {
+      this.text = this.text.slice(-TAIL_MAX_CHARS);
+    }
+  }
+
+  /** The lines as a terminal would show them: a carriage return starts the
+   *  line over, as progress bars do. */
+  lines(): Array<string> {
+    const lines = stripAnsi(this.text)
+      .split("\n")
+      .map((line) => {
+        const trimmed = line.endsWith("\r") ? line.slice(0, -1) : line;
+        return trimmed.slice(trimmed.lastIndexOf("\r") + 1);
+      });
+    if (lines.at(-1) === "") {
+      lines.pop();
+    }
+    return lines.slice(-this.maxLines);
+  }
+}
+
+export type RunningCommand = {
+  callId: string;
+  command: Array<string>;
+  startedAt: number;
+  output: CommandOutputTail;
+  /** Set once the user pressed Ctrl+C. */
+  stopping?: boolean;
+};
+
+/**
+ * The shell command the agent is running, with the tail of its output and
+ * how long it has been running, until it exits.
+ */
+export default function TerminalChatRunningCommand({
+  running,
+}: {
+  running: RunningCommand;
+}): React.ReactElement {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), RENDER_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  const seconds = Math.max(0, Math.floor((now - running.startedAt) / 1000));
+  return (
+    <Box flexDirection="column" borderStyle="round" borderColor="gray">
+      <Box paddingX={1}>
+        <Text wrap="truncate-end">
+          <Text dimColor>$</Text> {formatCommandForDisplay(running.command)}
+        </Text>
+      </Box>
+      <Box flexDirection="column" paddingX={1}>
+        {running.output.lines().map((line, i) => (
+          <Text key={i} dimColor wrap="truncate-end">
+            {line || " "}
+          </Text>
+        ))}
+      </Box>
+      <Box paddingX={1}>
+        <Text dimColor>
+          {running.stopping
+            ? `Stopping… (${seconds}s)`
+            : `Running for ${seconds}s ─ ctrl+c to stop this command`}
+        </Text>
+      </Box>
+    </Box>
+  );
+}
@@ -7,9 +7,13 @@ import React from "react";
 export function TerminalChatToolCallCommand({
   commandForDisplay,
   explanation,
+  warning,
 }: {
   commandForDisplay: string;
   explanation?: string;
+  /** Why the command needs approval after all, e.g. after it failed in the
+   *  sandbox. */
+  warning?: string;
 }): React.ReactElement {
   // -------------------------------------------------------------------------
   // Colorize diff output inside the command preview: we detect individual
@@ -39,6 +43,7 @@ export function TerminalChatToolCallCommand({
       <Text>
         <Text dimColor>$</Text> {colorizedCommand}
       </Text>
+      {warning && <Text color="red">{warning}</Text>}
       {explanation && (
         <>
           <Text bold color="yellow">
@@ -1,6 +1,7 @@
 // Type Imports
 import type { TerminalHeaderProps } from "./terminal-header.js";
 import type { BatchEntry } from "./terminal-message-history.js";
+import type { AppRollout } from "../../app.js";
 
 import type {
   ApprovalPolicy,
@@ -8,8 +9,14 @@ import type {
   SafetyAssessment,
 } from "../../approvals.js";
 import type { ConfirmationResult } from "../../hooks/use-confirmation.js";
-import type { CommandConfirmation } from "../../utils/agent/agent-loop.js";
+import type {
+  CommandConfirmation,
+  CommandConfirmationOptions,
+} from "../../utils/agent/agent-loop.js";
+import type { PatchReview } from "../../utils/agent/patch-review.js";
+import type { BudgetUsage } from "../../utils/budget.js";
 import type { AppConfig } from "../../utils/config.js";
+import type { SessionUsage } from "../../utils/token-usage.js";
 import type {
   ResponseItem,
   ResponseInputItem,
@@ -21,32 +28,68 @@ import type {
 // Hooks
 
 // Local Components
+import BackgroundProcessesPanel from "./background-processes-panel.js";
+import TerminalChatBudgetPrompt from "./terminal-chat-budget-prompt.js";
 import TerminalChatInput from "./terminal-chat-input.js";
 import TerminalChatPastRollout from "./terminal-chat-past-rollout.js";
+import TerminalChatRunningCommand, {
+  CommandOutputTail,
+  type RunningCommand,
+} from "./terminal-chat-running-command.js";
 import {
   TerminalChatToolCallCommand,
   TerminalChatToolCallApplyPatch,
 } from "./terminal-chat-tool-call-command.js";
+import { TokenUsageLine } from "./terminal-header.js";
 import TerminalMessageHistory from "./terminal-message-history.js";
 import pkg from "../../../package.json";
 interface PkgInfo { version: string; }
 import { formatCommandForDisplay } from "../../format-command.js";
 import { useConfirmation } from "../../hooks/use-confirmation.js";
 import { AgentLoop } from "../../utils/agent/agent-loop.js";
+import {
+  defaultCheckpointStore,
+  describeRestore,
+  formatCheckpointList,
+  type RestoreResult,
+} from "../../utils/agent/checkpoints.js";
+import {
+  ProjectDocScope,
+  formatActiveProjectDocs,
+} from "../../utils/agent/project-docs.js";
+import { parsePatchForReview } from "../../utils/agent/patch-review.js";
 import { ReviewDecision } from "../../utils/agent/review.js";
 import { AutoApprovalMode } from "../../utils/auto-approval-mode.js";
 import { generateCompactSummary } from "../../utils/compact-summary.js";
+import {
+  commitSubject,
+  getGitSession,
+  type GitSession,
+} from "../../utils/git-session.js";
 import { log } from "../../utils/logger/log.js";
+import {
+  allowRuleForCommand,
+  formatAllowRule,
+} from "../../utils/policy-file.js";
 import {
   uniqueById,
   isUserMessage, // Added import for isUserMessage
 } from "../../utils/model-utils.js";
 import { createOpenAIClient } from "../../utils/openai-client.js";
+import {
+  loadRollout,
+  rolloutToTranscript,
+} from "../../utils/storage/load-rollout.js";
+import { saveRollout } from "../../utils/storage/save-rollout.js";
+import { setCtrlCHandler } from "../../utils/terminal.js";
+import { SessionUsageTracker } from "../../utils/token-usage.js";
 import ApprovalModeOverlay from "../approval-mode-overlay.js";
 import DiffOverlay from "../diff-overlay.js";
 import HelpOverlay from "../help-overlay.js";
 import HistoryOverlay from "../history-overlay.js";
 import ModelOverlay from "../model-overlay.js";
+import PtyAttachOverlay from "../pty-attach-overlay.js";
+import SessionsOverlay from "../sessions-overlay.js";
 
 import WebAccessOverlay from "../web-access-overlay.js";
 import chalk from "chalk";
@@ -68,6 +111,7 @@ export type OverlayModeType =
   | "approval"
   | "web"
   | "diff"
+  | "attach"
   | "help";
 
 export type Props = {
@@ -79,8 +123,24 @@ export type Props = {
   fullStdout: boolean;
   onProviderChange: (newProviderName: string, selectedModel?: string) => void;
   onWebAccessChange: (newWebAccessState: boolean) => void;
+  /** Items of a resumed session; they are shown and sent as context. */
+  initialItems?: Array<ResponseItem>;
+  /** Token usage of a resumed session, added to by the new turns. */
+  initialUsage?: SessionUsage;
+  /** Called when a session is picked in the sessions overlay. */
+  onOpenSession?: (rollout: AppRollout, mode: "view" | "resume") => void;
 };
 
+/** Plain text of a message item, or an empty string for other items. */
+function messageText(item: ResponseItem | undefined): string {
+  if (item?.type !== "message") {
+    return "";
+  }
+  return item.content
+    .map((c) => ("text" in c && typeof c.text === "string" ? c.text : ""))
+    .join("");
+}
+
 /**
  * Generates an explanation for a shell command using the OpenAI API.
  *
@@ -160,12 +220,23 @@ export const TerminalChat: React.FC<Props> = ({
   fullStdout,
   onProviderChange, // Destructure the new prop
   onWebAccessChange, // Destructure the new prop
+  initialItems,
+  initialUsage,
+  onOpenSession,
 }: Props): React.ReactElement => {
   // Always use config.model and config.provider directly—no local state for these
   const notify = Boolean(config.notify);
   const [lastResponseId, setLastResponseId] = useState<string | null>(null);
-  const [items, setItems] = useState<Array<ResponseItem>>([]);
+  const [items, setItems] = useState<Array<ResponseItem>>(
+    () => initialItems ?? [],
+  );
   const [loading, setLoading] = useState<boolean>(false);
+  const [runningCommand, setRunningCommand] = useState<RunningCommand | null>(
+    null,
+  );
+  // Output arrives faster than it is worth re-rendering for, so it goes
+  // straight into the tail of the current command.
+  const runningCommandRef = useRef<RunningCommand | null>(null);
   // const [webAccess, setWebAccess] = useState<boolean>(config.webAccess ?? false); // Removed local state
 
   const [, forceRender] = useState(0);
@@ -186,6 +257,7 @@ export const TerminalChat: React.FC<Props> = ({
     requestConfirmation,
     confirmationPrompt,
     explanation: _confirmationHookExplanation,
+    confirmationOptions,
     submitConfirmation,
   } = useConfirmation();
 
@@ -223,6 +295,153 @@ export const TerminalChat: React.FC<Props> = ({
     }
   };
 
+  const addSystemMessage = (text: string) => {
+    setItems((prev) => [
+      ...prev,
+      {
+        id: `system-${Date.now()}`,
+        type: "message",
+        role: "system",
+        content: [{ type: "input_text", text }],
+      } as ResponseItem,
+    ]);
+  };
+
+  // `/undo` with no argument or a count rolls back the most recent changes;
+  // anything else names the checkpoint to restore to.
+  const handleUndo = (target: string) => {
+    let result: RestoreResult | undefined;
+    try {
+      if (target === "" || /^\d+$/.test(target)) {
+        result = defaultCheckpointStore.undo(Number(target || 1));
+      } else {
+        result = defaultCheckpointStore.restoreTo(target);
+      }
+    } catch (err) {
+      addSystemMessage(`⚠️  Failed to undo: ${String(err)}`);
+      return;
+    }
+    if (result === undefined) {
+      addSystemMessage(`No checkpoint named "${target}". See /checkpoints.`);
+    } else if (result.reverted.length === 0) {
+      addSystemMessage("Nothing to undo.");
+    } else {
+      agentRef.current?.addContextNote(describeRestore(result, workdir));
+      addSystemMessage(
+        `↩️  Rolled back ${result.reverted.length} change(s):\n` +
+          formatCheckpointList([...result.reverted].reverse(), workdir),
+      );
+    }
+  };
+
+  const handleCheckpoints = (name: string) => {
+    if (name === "") {
+      addSystemMessage(
+        formatCheckpointList(defaultCheckpointStore.list(), workdir),
+      );
+    } else {
+      const checkpoint = defaultCheckpointStore.mark(name);
+      addSystemMessage(
+        `📌 Saved checkpoint #${checkpoint.id} "${name}". Restore it with /undo ${name}.`,
+      );
+    }
+  };
+
+  // `/commit`, `/squash` and `/pr-summary` work on the branch of the git
+  // session started with --session-branch or --session-worktree.
+  const withGitSession = (action: (session: GitSession) => string) => {
+    const session = getGitSession();
+    if (!session) {
+      addSystemMessage(
+        "No session branch. Start codex with --session-branch or --session-worktree, or set gitSession.enabled in the config.",
+      );
+      return;
+    }
+    try {
+      addSystemMessage(action(session));
+    } catch (err) {
+      addSystemMessage(`⚠️  ${String(err)}`);
+    }
+  };
+
+  // The first prompt describes the task of the session.
+  const sessionTitle = (session: GitSession) =>
+    commitSubject(messageText(items.find(isUserMessage))) ||
+    `Codex session ${session.branch}`;
+
+  const handleCommit = (message: string) =>
+    withGitSession((session) => {
+      const lastAnswer = [...items]
+        .reverse()
+        .find((i) => i.type === "message" && i.role === "assistant");
+      const sha = session.commitAll(
+        message ||
+          commitSubject(messageText(lastAnswer)) ||
+          "Apply changes from Codex session",
+      );
+      return sha
+        ? `Committed ${sha} on ${session.branch}.`
+        : "Nothing to commit.";
+    });
+
+  const handleSquash = (message: string) =>
+    withGitSession((session) => {
+      const count = session.commits().length;
+      const sha = session.squash(message || sessionTitle(session));
+      return sha
+        ? `Squashed ${count} commit(s) on ${session.branch} into ${sha}.`
+        : "Nothing to squash.";
+    });
+
+  const handlePrSummary = () =>
+    withGitSession((session) => session.prSummary(sessionTitle(session)));
+
+  // One scope for the session, so the subdirectory docs the model was given
+  // survive switching models or approval modes.
+  const [projectDocs] = useState(() =>
+    config.projectDocs
+      ? new ProjectDocScope(process.cwd(), config.projectDocs)
+      : undefined,
+  );
+
+  // Like the project docs, usage is tracked for the session rather than for
+  // each AgentLoop, so the totals survive switching models.
+  const [usageTracker] = useState(
+    () => new SessionUsageTracker(initialUsage),
+  );
+  const [usage, setUsage] = useState(() => usageTracker.snapshot());
+
+  // A used-up budget pauses the agent until the user decides, even in
+  // full-auto mode.
+  const [budgetPrompt, setBudgetPrompt] = useState<{
+    usage: BudgetUsage;
+    resolve: (proceed: boolean) => void;
+  } | null>(null);
+
+  const handleContext = () =>
+    addSystemMessage(formatActiveProjectDocs(projectDocs?.active(), workdir));
+
+  const [attachedProcess, setAttachedProcess] = useState<string | null>(null);
+
+  // `/attach [id]` takes over the terminal of a background process started
+  // with `tty`, by default the most recent one that is still running.
+  const handleAttach = (id: string) => {
+    const candidates = (agentRef.current?.backgroundProcesses.list() ?? [])
+      .filter((p) => p.tty && p.exitCode === null)
+      .filter((p) => id === "" || p.id === id);
+    const target = candidates.at(-1);
+    if (!target) {
+      addSystemMessage(
+        id === ""
+          ? "No background process with a terminal is running."
+          : `${id} is not a running background process with a terminal.`,
+      );
+      return;
+    }
+    setAttachedProcess(target.id);
+    setOverlayMode("attach");
+  };
+
   const handleSetItemsFromInput = (inputItems: Array<ResponseInputItem>) => {
     const newItems = inputItems.map((item) => {
       if (item.type === "function_call") {
@@ -269,6 +488,9 @@ export const TerminalChat: React.FC<Props> = ({
   );
 
   const agentRef = useRef<AgentLoop | null>(null);
+  // Items of a resumed session that every new AgentLoop starts from, until
+  // the first response continues the conversation on top of them.
+  const restoreItemsRef = useRef(initialItems);
   const initialPromptProcessed = useRef(false);
   const prevLoadingRef = useRef<boolean>(loading);
 
@@ -314,12 +536,19 @@ export const TerminalChat: React.FC<Props> = ({
         safetyAssessment: SafetyAssessment,
         commandForConfirmation: Array<string>,
         applyPatch: ApplyPatchCommand | undefined,
+        options?: CommandConfirmationOptions,
       ): Promise<CommandConfirmation> => {
-        // Always auto-approve commands in full-auto or none modes
+        // Always auto-approve commands in full-auto or none modes, unless
+        // a command would run without the sandbox: because it failed in the
+        // sandbox, or because it cannot run in it, or the user must decide
+        // whatever the mode.
         if (
-          approvalPolicy === "full-auto" ||
-          approvalPolicy === AutoApprovalMode.FULL_AUTO ||
-          approvalPolicy === AutoApprovalMode.NONE
+          safetyAssessment.type !== "sandbox-failure" &&
+          safetyAssessment.type !== "unsandboxed" &&
+          safetyAssessment.type !== "always-ask" &&
+          (approvalPolicy === "full-auto" ||
+            approvalPolicy === AutoApprovalMode.FULL_AUTO ||
+            approvalPolicy === AutoApprovalMode.NONE)
         ) {
           // Only reject commands that have been explicitly marked as reject
           if (safetyAssessment.type === "reject") {
@@ -344,7 +573,15 @@ export const TerminalChat: React.FC<Props> = ({
         );
 
         let promptNode;
+        let review: PatchReview | undefined;
         if (applyPatch) {
+          try {
+            review = parsePatchForReview(applyPatch.patch, applyPatch.workdir);
+          } catch (err) {
+            // The patch does not apply; it can still be approved as a whole
+            // to report the error to the model.
+            log(`Cannot review patch by hunk: ${String(err)}`);
+          }
           promptNode = (
             <TerminalChatToolCallApplyPatch
               commandForDisplay={formatCommandForDisplay(
@@ -359,26 +596,76 @@ export const TerminalChat: React.FC<Props> = ({
               commandForDisplay={formatCommandForDisplay(
                 commandForConfirmation,
               )}
+              warning={
+                safetyAssessment.type === "sandbox-failure" ||
+                safetyAssessment.type === "unsandboxed" ||
+                safetyAssessment.type === "always-ask"
+                  ? safetyAssessment.reason
+                  : undefined
+              }
             />
           );
         }
 
+        const projectRule = allowRuleForCommand(commandForConfirmation);
         const hookConfirmationResult = await requestConfirmation(
           promptNode,
           explanationText,
+          {
+            patchReview: review,
+            projectRule: projectRule && formatAllowRule(projectRule),
+            editableCommand: options?.editable
+              ? commandForConfirmation
+              : undefined,
+          },
         );
 
         return {
           review: hookConfirmationResult.decision,
           customDenyMessage: hookConfirmationResult.customDenyMessage,
-          applyPatch: applyPatch,
+          applyPatch: hookConfirmationResult.applyPatch ?? applyPatch,
+          editedCommand: hookConfirmationResult.editedCommand,
           explanation: explanationText,
         };
       },
-      onLastResponseId: setLastResponseId,
+      onLastResponseId: (responseId: string) => {
+        restoreItemsRef.current = undefined;
+        setLastResponseId(responseId);
+      },
       onWorkdirChanged: handleWorkdirChange,
+      projectDocs,
+      usage: usageTracker,
+      onUsage: () => setUsage(usageTracker.snapshot()),
+      confirmBudgetOverrun: (exceeded) =>
+        new Promise<boolean>((resolve) =>
+          setBudgetPrompt({ usage: exceeded, resolve }),
+        ),
+      onCommandProgress: (event) => {
+        if (event.type === "start") {
+          runningCommandRef.current = {
+            callId: event.callId,
+            command: event.command,
+            startedAt: Date.now(),
+            output: new CommandOutputTail(),
+          };
+          setRunningCommand(runningCommandRef.current);
+        } else if (event.type === "output") {
+          if (runningCommandRef.current?.callId === event.callId) {
+            runningCommandRef.current.output.push(event.chunk);
+          }
+        } else {
+          runningCommandRef.current = null;
+          setRunningCommand(null);
+        }
+      },
     });
 
+    if (restoreItemsRef.current) {
+      agentRef.current.restoreTranscript(
+        rolloutToTranscript(restoreItemsRef.current),
+      );
+    }
+
     forceUpdate();
 
     log(`AgentLoop created: ${inspect(agentRef.current, { depth: 1 })}`);
@@ -397,8 +684,22 @@ export const TerminalChat: React.FC<Props> = ({
     additionalWritableRoots,
     workdir,
     approvalPolicy,
+    projectDocs,
+    usageTracker,
   ]);
 
+  // While a command runs, Ctrl+C stops just that command.
+  useEffect(() => {
+    if (!runningCommand || runningCommand.stopping) {
+      return undefined;
+    }
+    setCtrlCHandler(() => {
+      agentRef.current?.cancelCommand();
+      setRunningCommand((prev) => prev && { ...prev, stopping: true });
+    });
+    return () => setCtrlCHandler(null);
+  }, [runningCommand]);
+
   useEffect(() => {
     let handle: ReturnType<typeof setInterval> | null = null;
     if (loading && confirmationPrompt == null) {
@@ -458,6 +759,31 @@ export const TerminalChat: React.FC<Props> = ({
     prevLoadingRef.current = loading;
   }, [notify, loading, confirmationPrompt, items, PWD]);
 
+  // Save the session after every turn so it can be resumed later.
+  useEffect(() => {
+    const sessionId = agentRef.current?.sessionId;
+    if (loading || !sessionId || items.length === 0) {
+      return;
+    }
+    saveRollout(sessionId, items, {
+      model: config.model,
+      provider: config.provider,
+      approvalMode: approvalPolicy,
+      instructions: config.instructions,
+      usage: usageTracker.snapshot(),
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [loading, items.length]);
+
+  const openSession = (sessionPath: string, mode: "view" | "resume") => {
+    setOverlayMode("none");
+    try {
+      onOpenSession?.(loadRollout(sessionPath), mode);
+    } catch (err) {
+      addSystemMessage(`⚠️  Failed to open session: ${String(err)}`);
+    }
+  };
+
   const agent = agentRef.current;
   useEffect(() => {
     log(`agentRef.current is now ${Boolean(agent)}`);
@@ -487,6 +813,7 @@ export const TerminalChat: React.FC<Props> = ({
     flexModeEnabled: config.flexMode,
     webAccessEnabled: config.webAccess ?? false, // Use directly from config
     workdir: workdir,
+    usage,
   };
 
   useEffect(() => {
@@ -576,11 +903,34 @@ export const TerminalChat: React.FC<Props> = ({
         workdir={workdir}
       />
 
+      {runningCommand && (
+        <TerminalChatRunningCommand running={runningCommand} />
+      )}
+
+      {agentRef.current && (
+        <BackgroundProcessesPanel
+          processes={agentRef.current.backgroundProcesses}
+        />
+      )}
+
+      {usage.turns.length > 0 && <TokenUsageLine usage={usage} />}
+
+      {budgetPrompt && (
+        <TerminalChatBudgetPrompt
+          usage={budgetPrompt.usage}
+          onDecision={(proceed) => {
+            setBudgetPrompt(null);
+            budgetPrompt.resolve(proceed);
+          }}
+        />
+      )}
+
       <Box flexDirection="column" flexGrow={1}>
         <TerminalChatInput
           loading={loading}
           confirmationPrompt={confirmationPrompt}
           explanation={_confirmationHookExplanation}
+          confirmationOptions={confirmationOptions}
           submitConfirmation={(result: ConfirmationResult) => {
             submitConfirmation(result);
           }}
@@ -599,6 +949,13 @@ export const TerminalChat: React.FC<Props> = ({
           openSessionsOverlay={() => setOverlayMode("sessions")}
           openWebOverlay={() => setOverlayMode("web")}
           onCompact={handleCompact}
+          onUndo={handleUndo}
+          onCheckpoints={handleCheckpoints}
+          onCommit={handleCommit}
+          onSquash={handleSquash}
+          onPrSummary={handlePrSummary}
+          onAttach={handleAttach}
+          onContext={handleContext}
           items={safeItems}
           workdir={workdir}
           webAccessMode={isWebMode || isNanoMode}
@@ -774,6 +1131,14 @@ export const TerminalChat: React.FC<Props> = ({
         />
       )}
 
+      {overlayMode === "sessions" && (
+        <SessionsOverlay
+          onView={(p) => openSession(p, "view")}
+          onResume={(p) => openSession(p, "resume")}
+          onExit={() => setOverlayMode("none")}
+        />
+      )}
+
       {overlayMode === "help" && (
         <HelpOverlay onExit={() => setOverlayMode("none")} />
       )}
@@ -784,6 +1149,14 @@ export const TerminalChat: React.FC<Props> = ({
           onExit={() => setOverlayMode("none")}
         />
       )}
+
+      {overlayMode === "attach" && attachedProcess && agentRef.current && (
+        <PtyAttachOverlay
+          processes={agentRef.current.backgroundProcesses}
+          id={attachedProcess}
+          onExit={() => setOverlayMode("none")}
+        />
+      )}
     </Box>
   );
 };
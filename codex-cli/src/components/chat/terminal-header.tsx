@@ -1,5 +1,7 @@
 import type { AgentLoop } from "../../utils/agent/agent-loop.js";
+import type { SessionUsage } from "../../utils/token-usage.js";
 
+import { formatUsage, totalUsage } from "../../utils/token-usage.js";
 import { Box, Text } from "ink";
 import path from "node:path";
 import React from "react";
@@ -17,6 +19,32 @@ export interface TerminalHeaderProps {
   flexModeEnabled?: boolean;
   webAccessEnabled?: boolean;
   workdir?: string;
+  /** Token usage so far, e.g. of a resumed session. */
+  usage?: SessionUsage;
+}
+
+/** The usage of the last turn and of the whole session. */
+export function TokenUsageLine({
+  usage,
+}: {
+  usage: SessionUsage;
+}): React.ReactElement | null {
+  const last = usage.turns[usage.turns.length - 1];
+  if (!last) {
+    return null;
+  }
+  return (
+    <Text dimColor>
+      <Text color="blueBright">↳</Text> usage: last turn{" "}
+      <Text bold>{formatUsage(last)}</Text>
+      {usage.turns.length > 1 && (
+        <>
+          {" "}
+          — session <Text bold>{formatUsage(totalUsage(usage.turns))}</Text>
+        </>
+      )}
+    </Text>
+  );
 }
 
 const TerminalHeader: React.FC<TerminalHeaderProps> = ({
@@ -32,6 +60,7 @@ const TerminalHeader: React.FC<TerminalHeaderProps> = ({
   flexModeEnabled = false,
   webAccessEnabled = false,
   workdir,
+  usage,
 }) => {
   return (
     <>
@@ -43,6 +72,9 @@ const TerminalHeader: React.FC<TerminalHeaderProps> = ({
           {flexModeEnabled ? " - flex-mode" : ""}
           {" - web_access:"}
           {webAccessEnabled ? "enabled" : "disabled"}
+          {usage && usage.turns.length > 0
+            ? ` - ${formatUsage(totalUsage(usage.turns))}`
+            : ""}
         </Text>
       ) : (
         <>
@@ -94,6 +126,7 @@ const TerminalHeader: React.FC<TerminalHeaderProps> = ({
                 <Text bold>enabled</Text>
               </Text>
             )}
+            {usage && <TokenUsageLine usage={usage} />}
             {initialImagePaths?.map((img, idx) => (
               <Text key={img ?? idx} color="gray">
                 <Text color="blueBright">↳</Text> image:{" "}
@@ -62,6 +62,27 @@ export default function HelpOverlay({
         <Text>
           <Text color="cyan">/compact</Text> – condense context into a summary
         </Text>
+        <Text>
+          <Text color="cyan">/undo</Text> – roll back the agent&apos;s last file
+          change
+        </Text>
+        <Text>
+          <Text color="cyan">/checkpoints</Text> – list or name checkpoints to
+          restore with /undo
+        </Text>
+        <Text>
+          <Text color="cyan">/commit</Text>, <Text color="cyan">/squash</Text>,{" "}
+          <Text color="cyan">/pr-summary</Text> – manage the session branch
+          (with --session-branch)
+        </Text>
+        <Text>
+          <Text color="cyan">/attach</Text> – type into the terminal of a
+          background process (ctrl+] to detach)
+        </Text>
+        <Text>
+          <Text color="cyan">/context</Text> – show the project docs (AGENTS.md)
+          the agent follows
+        </Text>
 
         <Box marginTop={1}>
           <Text bold dimColor>
@@ -0,0 +1,118 @@
+import type { BackgroundProcesses } from "../utils/agent/background-processes.js";
+import type { Key } from "ink";
+
+import chalk from "chalk";
+import { Box, Text, useInput } from "ink";
+import React, { useEffect, useState } from "react";
+
+/** Ctrl-], as in telnet. Every other key goes to the process. */
+const DETACH = "\x1d";
+
+/**
+ * Lets the user take over the terminal of a background process that was
+ * started with `tty`, e.g. to answer a prompt the agent got stuck on. Shows
+ * the screen of the process and forwards keystrokes to it until Ctrl-].
+ */
+export default function PtyAttachOverlay({
+  processes,
+  id,
+  onExit,
+}: {
+  processes: BackgroundProcesses;
+  id: string;
+  onExit: () => void;
+}): JSX.Element {
+  const [, forceRender] = useState(0);
+
+  useEffect(
+    () => processes.subscribe(() => forceRender((n) => n + 1)),
+    [processes],
+  );
+
+  const info = processes.list().find((p) => p.id === id);
+  const running = info?.exitCode === null;
+
+  useInput((input, key) => {
+    if (input === DETACH || !running) {
+      onExit();
+      return;
+    }
+    const data = inkKeyToInput(input, key);
+    if (data !== "") {
+      try {
+        processes.write(id, data);
+      } catch {
+        // It exited in the meantime; the next render says so.
+      }
+    }
+  });
+
+  const lines = processes.screenLines(id);
+  const { cursor } = info?.tty ? processes.screen(id) : { cursor: null };
+
+  return (
+    <Box flexDirection="column" borderStyle="round" borderColor="gray">
+      <Box paddingX={1}>
+        <Text bold>
+          {id} {info?.command.join(" ")}
+        </Text>
+      </Box>
+      <Box flexDirection="column" paddingX={1}>
+        {lines.map((line, row) => (
+          <Text key={row} wrap="truncate-end">
+            {running && cursor?.row === row
+              ? withCursor(line, cursor.col)
+              : line || " "}
+          </Text>
+        ))}
+      </Box>
+      <Box paddingX={1}>
+        <Text dimColor>
+          {running
+            ? "Keys go to the process ─ ctrl+] to detach"
+            : `Exited with ${String(info?.exitCode)} ─ press any key to close`}
+        </Text>
+      </Box>
+    </Box>
+  );
+}
+
+function withCursor(line: string, col: number): string {
+  const padded = line.padEnd(col + 1);
+  return (
+    padded.slice(0, col) + chalk.inverse(padded[col]) + padded.slice(col + 1)
+  );
+}
+
+/**
+ * The terminal input for a key as reported by Ink's `useInput()`, which
+ * decodes escape sequences and control characters.
+ */
+export function inkKeyToInput(input: string, key: Key): string {
+  if (key.return) {
+    return "\r";
+  } else if (key.upArrow) {
+    return "\x1b[A";
+  } else if (key.downArrow) {
+    return "\x1b[B";
+  } else if (key.rightArrow) {
+    return "\x1b[C";
+  } else if (key.leftArrow) {
+    return "\x1b[D";
+  } else if (key.pageUp) {
+    return "\x1b[5~";
+  } else if (key.pageDown) {
+    return "\x1b[6~";
+  } else if (key.tab) {
+    return "\t";
+  } else if (key.backspace || key.delete) {
+    return "\x7f";
+  } else if (key.escape) {
+    return "\x1b";
+  } else if (key.ctrl && /^[a-z]$/i.test(input)) {
+    return String.fromCharCode(input.toUpperCase().charCodeAt(0) - 64);
+  } else if (key.meta && input !== "") {
+    return `\x1b${input}`;
+  }
+  return input;
+}
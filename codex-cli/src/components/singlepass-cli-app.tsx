@@ -1,21 +1,47 @@
 /* eslint-disable no-await-in-loop */
 
 import type { AppConfig } from "../utils/config";
+import type { FailedFileOperation } from "../utils/singlepass/apply_ops";
+import type { FileContent } from "../utils/singlepass/context";
+import type {
+  ContextSelection,
+  RankedFile,
+  RecentChanges,
+} from "../utils/singlepass/context_selection";
 import type { FileOperation } from "../utils/singlepass/file_ops";
+import type { ChatCompletionMessageParam } from "openai/resources/chat/completions";
 
 import Spinner from "./vendor/ink-spinner"; // Third‑party / vendor components
 import TextInput from "./vendor/ink-text-input";
+import { defaultCheckpointStore } from "../utils/agent/checkpoints";
+import { approximateTextTokens } from "../utils/approximate-tokens-used";
+import { maxTokensForModel } from "../utils/model-utils";
 import { createOpenAIClient } from "../utils/openai-client";
+import {
+  applyFileOps,
+  applyOpsToContents,
+} from "../utils/singlepass/apply_ops";
 import {
   generateDiffSummary,
   generateEditSummary,
+  generateFileOpDiff,
+  generateUnifiedPatch,
 } from "../utils/singlepass/code_diff";
-import { renderTaskContext } from "../utils/singlepass/context";
+import {
+  renderRevisionRequest,
+  renderTaskContext,
+} from "../utils/singlepass/context";
 import {
   getFileContents,
   loadIgnorePatterns,
   makeAsciiDirectoryStructure,
 } from "../utils/singlepass/context_files";
+import {
+  contextBudgetForModel,
+  getRecentChanges,
+  isPinned,
+  selectContext,
+} from "../utils/singlepass/context_selection";
 import { EditedFilesSchema } from "../utils/singlepass/file_ops";
 import * as fsSync from "fs";
 import * as fsPromises from "fs/promises";
@@ -24,8 +50,8 @@ import { zodResponseFormat } from "openai/helpers/zod";
 import path from "path";
 import React, { useEffect, useState, useRef } from "react";
 
-/** Maximum number of characters allowed in the context passed to the model. */
-const MAX_CONTEXT_CHARACTER_LIMIT = 2_000_000;
+/** Files of the context selection listed unless the full list is asked for. */
+const SELECTION_PREVIEW_FILES = 15;
 
 // --- prompt history support (same as for rest of CLI) ---
 const PROMPT_HISTORY_KEY = "__codex_singlepass_prompt_history";
@@ -106,12 +132,16 @@ function WorkingSpinner({ text = "Working" }: { text?: string }) {
 function DirectoryInfo({
   rootPath,
   files,
-  contextLimit,
+  model,
+  budgetTokens,
+  pins,
   showStruct = false,
 }: {
   rootPath: string;
   files: Array<{ path: string; content: string }>;
-  contextLimit: number;
+  model: string;
+  budgetTokens: number;
+  pins: Array<string>;
   showStruct?: boolean;
 }) {
   const asciiStruct = React.useMemo(
@@ -124,7 +154,10 @@ function DirectoryInfo({
         : null,
     [showStruct, rootPath, files],
   );
-  const totalChars = files.reduce((acc, fc) => acc + fc.content.length, 0);
+  const totalTokens = files.reduce(
+    (acc, fc) => acc + approximateTextTokens(fc.content),
+    0,
+  );
 
   return (
     <Box flexDirection="column">
@@ -144,10 +177,17 @@ function DirectoryInfo({
           <Text bold>Paths in context:</Text> {rootPath} ({files.length} files)
         </Text>
         <Text>
-          <Text color="magentaBright">↳</Text> <Text bold>Context size:</Text>{" "}
-          {totalChars} / {contextLimit} ( ~
-          {((totalChars / contextLimit) * 100).toFixed(2)}% )
+          <Text color="magentaBright">↳</Text> <Text bold>Context size:</Text> ~
+          {totalTokens} tokens / {budgetTokens} budget ( ~
+          {((totalTokens / budgetTokens) * 100).toFixed(2)}% of the{" "}
+          {maxTokensForModel(model)} token window of {model} )
         </Text>
+        {pins.length > 0 ? (
+          <Text>
+            <Text color="magentaBright">↳</Text> <Text bold>Pinned:</Text>{" "}
+            {pins.map((p) => path.relative(rootPath, p) || p).join(", ")}
+          </Text>
+        ) : null}
         {showStruct ? (
           <Text>
             <Text color="magentaBright">↳</Text>
@@ -163,9 +203,11 @@ function DirectoryInfo({
             </Text>
           </Text>
         )}
-        {totalChars > contextLimit ? (
-          <Text color="red">
-            Files exceed context limit. See breakdown below.
+        {totalTokens > budgetTokens ? (
+          <Text color="yellow">
+            Files exceed the context budget: each prompt gets the files most
+            relevant to it. Type <Text color="cyan">/pin {"<path>"}</Text> to
+            always include a file or directory.
           </Text>
         ) : null}
       </Box>
@@ -173,13 +215,96 @@ function DirectoryInfo({
   );
 }
 
-function SummaryAndDiffs({
+/** The files picked for a request, with why they were picked. */
+function ContextSelectionInfo({
+  selection,
+  rootPath,
+  full = false,
+}: {
+  selection: ContextSelection;
+  rootPath: string;
+  /** List every file, including the ones that did not fit. */
+  full?: boolean;
+}) {
+  const shown = full
+    ? selection.included
+    : selection.included.slice(0, SELECTION_PREVIEW_FILES);
+  const line = (file: RankedFile) => {
+    const reasons = file.pinned ? ["pinned", ...file.reasons] : file.reasons;
+    return (
+      <Text key={file.path} wrap="truncate-end">
+        {path.relative(rootPath, file.path)}{" "}
+        <Text dimColor>
+          (~{file.tokens} tokens
+          {reasons.length ? `; ${reasons.join(", ")}` : ""})
+        </Text>
+      </Text>
+    );
+  };
+  return (
+    <Box flexDirection="column">
+      <Text>
+        <Text bold>Files in context:</Text> {selection.included.length} of{" "}
+        {selection.included.length + selection.excluded.length} (~
+        {selection.usedTokens} / {selection.budgetTokens} tokens)
+      </Text>
+      {shown.map(line)}
+      {shown.length < selection.included.length ? (
+        <Text dimColor>
+          … and {selection.included.length - shown.length} more. Type /context
+          to list them all.
+        </Text>
+      ) : null}
+      {full && selection.excluded.length > 0 ? (
+        <>
+          <Text bold>Left out:</Text>
+          {selection.excluded.map(line)}
+        </>
+      ) : null}
+    </Box>
+  );
+}
+
+type ReviewDecision = "accept" | "reject" | "revise";
+
+/**
+ * Shows the proposed change to one file and asks whether to apply it, skip
+ * it, or ask the model to revise it.
+ */
+function FileReview({
   summary,
-  diffs,
+  diff,
+  index,
+  total,
+  onDecision,
 }: {
   summary: string;
-  diffs: string;
+  diff: string;
+  index: number;
+  total: number;
+  /** `all` applies the decision to this and every remaining file. */
+  onDecision: (decision: ReviewDecision, all?: boolean) => void;
 }) {
+  useInput((input) => {
+    switch (input.toLowerCase()) {
+      case "y":
+        onDecision("accept");
+        break;
+      case "n":
+        onDecision("reject");
+        break;
+      case "f":
+        onDecision("revise");
+        break;
+      case "a":
+        onDecision("accept", true);
+        break;
+      case "s":
+        onDecision("reject", true);
+        break;
+    }
+  });
+
   return (
     <Box flexDirection="column" marginTop={1}>
       <Text color="yellow" bold>
@@ -187,9 +312,36 @@ function SummaryAndDiffs({
       </Text>
       <Text>{summary}</Text>
       <Text color="cyan" bold>
-        Proposed Diffs:
+        Proposed change {index + 1} of {total}:
+      </Text>
+      <Text>{diff}</Text>
+      <Text>
+        Apply this change? <Text bold>y</Text> yes / <Text bold>n</Text> no /{" "}
+        <Text bold>f</Text> give feedback / <Text bold>a</Text> yes to all
+        remaining / <Text bold>s</Text> skip all remaining
       </Text>
-      <Text>{diffs}</Text>
+    </Box>
+  );
+}
+
+function ReviewOutcomeSummary({ outcome }: { outcome: ReviewOutcome }) {
+  return (
+    <Box flexDirection="column">
+      {outcome.applied > 0 ? (
+        <Text color="green">
+          {outcome.patchPath
+            ? `Accepted ${outcome.applied} change(s); the accepted changes of this session are in ${outcome.patchPath}.`
+            : `Applied ${outcome.applied} change(s). Type /undo to revert them.`}
+        </Text>
+      ) : null}
+      {outcome.rejected > 0 ? (
+        <Text color="red">Skipped {outcome.rejected} change(s).</Text>
+      ) : null}
+      {outcome.failed.map((f) => (
+        <Text key={f.path} color="red">
+          Failed to write {f.path}: {f.message}
+        </Text>
+      ))}
     </Box>
   );
 }
@@ -276,28 +428,6 @@ function InputPrompt({
   );
 }
 
-function ConfirmationPrompt({
-  message,
-  onResult,
-}: {
-  message: string;
-  onResult: (accept: boolean) => void;
-}) {
-  useInput((input, key) => {
-    if (key.return || input.toLowerCase() === "y") {
-      onResult(true);
-    } else if (input.toLowerCase() === "n" || key.escape) {
-      onResult(false);
-    }
-  });
-
-  return (
-    <Box gap={1}>
-      <Text>{message} [y/N] </Text>
-    </Box>
-  );
-}
-
 function ContinuePrompt({ onResult }: { onResult: (cont: boolean) => void }) {
   useInput((input, key) => {
     if (input.toLowerCase() === "y" || key.return) {
@@ -322,13 +452,47 @@ export interface SinglePassAppProps {
   originalPrompt?: string;
   config: AppConfig;
   rootPath: string;
+  /**
+   * Do not touch the working tree: accepted changes are written as a unified
+   * patch to this file instead.
+   */
+  dryRunPatchPath?: string;
   onExit?: () => void;
 }
 
+/** The proposed changes being reviewed, one file at a time. */
+type Review = {
+  prompt: string;
+  /** The files the model saw, kept for revisions. */
+  contextPaths: Array<string>;
+  summary: string;
+  ops: Array<FileOperation>;
+  diffs: Array<string>;
+  decisions: Array<ReviewDecision>;
+};
+
+type ReviewOutcome = {
+  applied: number;
+  rejected: number;
+  failed: Array<FailedFileOperation>;
+  patchPath?: string;
+};
+
+function contentsOf(files: Array<FileContent>): Record<string, string> {
+  return Object.fromEntries(files.map((fc) => [fc.path, fc.content]));
+}
+
+function filesOf(contents: Record<string, string>): Array<FileContent> {
+  return Object.entries(contents)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([p, content]) => ({ path: p, content }));
+}
+
 export function SinglePassApp({
   originalPrompt,
   config,
   rootPath,
+  dryRunPatchPath,
   onExit,
 }: SinglePassAppProps): JSX.Element {
   const app = useApp();
@@ -336,7 +500,8 @@ export function SinglePassApp({
     | "init"
     | "prompt"
     | "thinking"
-    | "confirm"
+    | "review"
+    | "feedback"
     | "skipped"
     | "applied"
     | "noops"
@@ -347,61 +512,121 @@ export function SinglePassApp({
   // we don't need to read the current prompt / spinner state outside of
   // updating functions, so we intentionally ignore the first tuple element.
   const [, setPrompt] = useState(originalPrompt ?? "");
-  const [files, setFiles] = useState<Array<{ path: string; content: string }>>(
-    [],
-  );
-  const [diffInfo, setDiffInfo] = useState<{
-    summary: string;
-    diffs: string;
-    ops: Array<FileOperation>;
-  }>({ summary: "", diffs: "", ops: [] });
+  const [files, setFiles] = useState<Array<FileContent>>([]);
+  const [review, setReview] = useState<Review | null>(null);
+  const [outcome, setOutcome] = useState<ReviewOutcome | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
   const [, setShowSpinner] = useState(false);
-  const [applyOps, setApplyOps] = useState<Array<FileOperation>>([]);
   const [quietExit, setQuietExit] = useState(false);
   const [showDirInfo, setShowDirInfo] = useState(false);
-  const contextLimit = MAX_CONTEXT_CHARACTER_LIMIT;
+  const [pins, setPins] = useState<Array<string>>([]);
+  const [selection, setSelection] = useState<ContextSelection | null>(null);
+  const budgetTokens = contextBudgetForModel(config.model);
   const inputPromptValueRef = useRef<string>("");
+  // The files as loaded, which the dry-run patch is relative to.
+  const initialContentsRef = useRef<Record<string, string>>({});
+  const recentChangesRef = useRef<RecentChanges>({
+    uncommitted: [],
+    committed: [],
+  });
 
   /* ---------------------------- Load file context --------------------------- */
   useEffect(() => {
     (async () => {
       const ignorePats = loadIgnorePatterns();
       const fileContents = await getFileContents(rootPath, ignorePats);
+      initialContentsRef.current = contentsOf(fileContents);
+      recentChangesRef.current = getRecentChanges(rootPath);
       setFiles(fileContents);
+      if (fileContents.length) {
+        setState("prompt");
+      }
     })();
   }, [rootPath]);
 
-  useEffect(() => {
-    if (files.length) {
-      setState("prompt");
-    }
-  }, [files]);
-
   /* -------------------------------- Helpers -------------------------------- */
 
   async function runSinglePassTask(userPrompt: string) {
     setPrompt(userPrompt);
+    const picked = selectContext(files, {
+      prompt: userPrompt,
+      rootPath,
+      budgetTokens,
+      pins,
+      recentChanges: recentChangesRef.current,
+    });
+    setSelection(picked);
+    const contextPaths = new Set(picked.included.map((f) => f.path));
+    const taskContextStr = renderTaskContext({
+      prompt: userPrompt,
+      input_paths: [rootPath],
+      input_paths_structure: "(omitted for brevity in single pass mode)",
+      files: files.filter((fc) => contextPaths.has(fc.path)),
+    });
+    // The model has not seen the files left out, it must not overwrite them.
+    const existing = new Set(files.map((fc) => fc.path));
+    await requestEdits(
+      userPrompt,
+      [{ role: "user", content: taskContextStr }],
+      [...contextPaths],
+      (p) => contextPaths.has(p) || !existing.has(p),
+    );
+  }
+
+  /**
+   * Ask the model to revise its proposed changes to the files the user gave
+   * feedback on. Only changes to those files are kept.
+   */
+  async function runRevisionTask(feedback: string) {
+    if (!review) {
+      return;
+    }
+    const revised = review.ops.filter(
+      (_op, i) => review.decisions[i] === "revise",
+    );
+    const paths = revised.map((op) => op.path);
+    // The conversation is rebuilt on the current files so the model sees the
+    // changes that were accepted meanwhile.
+    const messages: Array<ChatCompletionMessageParam> = [
+      {
+        role: "user",
+        content: renderTaskContext({
+          prompt: review.prompt,
+          input_paths: [rootPath],
+          input_paths_structure: "(omitted for brevity in single pass mode)",
+          files: files.filter(
+            (fc) =>
+              review.contextPaths.includes(fc.path) || paths.includes(fc.path),
+          ),
+        }),
+      },
+      { role: "assistant", content: JSON.stringify({ ops: revised }) },
+      { role: "user", content: renderRevisionRequest(feedback, paths) },
+    ];
+    await requestEdits(review.prompt, messages, review.contextPaths, (p) =>
+      paths.includes(p),
+    );
+  }
+
+  /**
+   * Send `messages` and review the file operations the model returns.
+   * Operations on files `editable` rejects are dropped.
+   */
+  async function requestEdits(
+    userPrompt: string,
+    messages: Array<ChatCompletionMessageParam>,
+    contextPaths: Array<string>,
+    editable: (filePath: string) => boolean,
+  ) {
     setShowSpinner(true);
     setState("thinking");
 
     try {
-      const taskContextStr = renderTaskContext({
-        prompt: userPrompt,
-        input_paths: [rootPath],
-        input_paths_structure: "(omitted for brevity in single pass mode)",
-        files,
-      });
-
       const openai = createOpenAIClient(config);
       const chatResp = await openai.beta.chat.completions.parse({
         model: config.model,
         ...(config.flexMode ? { service_tier: "flex" } : {}),
-        messages: [
-          {
-            role: "user",
-            content: taskContextStr,
-          },
-        ],
+        messages,
         response_format: zodResponseFormat(EditedFilesSchema, "schema"),
       });
 
@@ -414,63 +639,167 @@ export function SinglePassApp({
         return;
       }
 
-      const originalMap: Record<string, string> = {};
-      for (const fc of files) {
-        originalMap[fc.path] = fc.content;
-      }
-
-      const [combinedDiffs, opsToApply] = generateDiffSummary(
-        edited,
-        originalMap,
+      const originalMap = contentsOf(files);
+      const ops = edited.ops.filter(
+        (op) => editable(op.path) && (!op.move_to || editable(op.move_to)),
       );
+      const [, opsToApply] = generateDiffSummary({ ops }, originalMap);
 
       if (!opsToApply.length) {
         setState("noops");
         return;
       }
 
-      const summary = generateEditSummary(opsToApply, originalMap);
-      setDiffInfo({ summary, diffs: combinedDiffs, ops: opsToApply });
-      setApplyOps(opsToApply);
-      setState("confirm");
+      setReview({
+        prompt: userPrompt,
+        contextPaths,
+        summary: generateEditSummary(opsToApply, originalMap),
+        ops: opsToApply,
+        diffs: opsToApply.map(
+          (op) => generateFileOpDiff(op, originalMap) ?? "",
+        ),
+        decisions: [],
+      });
+      setOutcome(null);
+      setState("review");
     } catch (err) {
       setShowSpinner(false);
       setState("error");
     }
   }
 
-  async function applyFileOps(ops: Array<FileOperation>) {
-    for (const op of ops) {
-      if (op.delete) {
-        try {
-          await fsPromises.unlink(op.path);
-        } catch {
-          /* ignore */
-        }
-      } else if (op.move_to) {
-        const newContent = op.updated_full_content || "";
-        try {
-          await fsPromises.mkdir(path.dirname(op.move_to), { recursive: true });
-          await fsPromises.writeFile(op.move_to, newContent, "utf-8");
-        } catch {
-          /* ignore */
-        }
-        try {
-          await fsPromises.unlink(op.path);
-        } catch {
-          /* ignore */
-        }
+  function decide(decision: ReviewDecision, all = false) {
+    if (!review) {
+      return;
+    }
+    const remaining = all ? review.ops.length - review.decisions.length : 1;
+    const decisions = [
+      ...review.decisions,
+      ...Array<ReviewDecision>(remaining).fill(decision),
+    ];
+    setReview({ ...review, decisions });
+    if (decisions.length === review.ops.length) {
+      void finishReview(review, decisions);
+    }
+  }
+
+  /**
+   * Apply the accepted changes (to the patch file in dry-run mode), then ask
+   * for feedback if the user wants some of the changes revised.
+   */
+  async function finishReview(
+    current: Review,
+    decisions: Array<ReviewDecision>,
+  ) {
+    const accepted = current.ops.filter((_op, i) => decisions[i] === "accept");
+    const result: ReviewOutcome = {
+      applied: accepted.length,
+      rejected: decisions.filter((d) => d === "reject").length,
+      failed: [],
+    };
+
+    if (accepted.length > 0) {
+      let applied = accepted;
+      if (dryRunPatchPath) {
+        result.patchPath = dryRunPatchPath;
       } else {
-        const newContent = op.updated_full_content || "";
+        const { failed } = await applyFileOps(
+          accepted,
+          `full context: ${current.prompt}`,
+        );
+        result.failed = failed;
+        result.applied -= failed.length;
+        applied = accepted.filter(
+          (op) => !failed.some((f) => f.path === op.path),
+        );
+      }
+      const updated = applyOpsToContents(contentsOf(files), applied);
+      setFiles(filesOf(updated));
+      if (dryRunPatchPath) {
         try {
-          await fsPromises.mkdir(path.dirname(op.path), { recursive: true });
-          await fsPromises.writeFile(op.path, newContent, "utf-8");
-        } catch {
-          /* ignore */
+          await fsPromises.writeFile(
+            dryRunPatchPath,
+            generateUnifiedPatch(initialContentsRef.current, updated, rootPath),
+            "utf-8",
+          );
+        } catch (err) {
+          result.failed.push({
+            path: dryRunPatchPath,
+            message: err instanceof Error ? err.message : String(err),
+          });
         }
       }
     }
-    setState("applied");
+
+    setOutcome(result);
+    if (decisions.includes("revise")) {
+      setState("feedback");
+    } else if (result.applied > 0 || result.failed.length > 0) {
+      setState("applied");
+    } else {
+      setState("skipped");
+    }
+  }
+
+  function updatePins(pin: boolean, target: string | undefined) {
+    if (!target) {
+      setNotice(
+        pins.length
+          ? `Pinned: ${pins.map((p) => path.relative(rootPath, p) || p).join(", ")}`
+          : "Nothing is pinned. Type /pin <path> to always include a file or directory.",
+      );
+      return;
+    }
+    const resolved = path.resolve(rootPath, target);
+    if (!pin) {
+      if (!pins.includes(resolved)) {
+        setNotice(`${target} is not pinned.`);
+        return;
+      }
+      setPins(pins.filter((p) => p !== resolved));
+      setNotice(`Unpinned ${target}.`);
+      return;
+    }
+    const matching = files.filter((fc) => isPinned(fc.path, [resolved]));
+    if (matching.length === 0) {
+      setNotice(`No files in context match ${target}.`);
+      return;
+    }
+    setPins([...new Set([...pins, resolved])]);
+    setNotice(
+      `Pinned ${target} (${matching.length} file(s), ~${matching.reduce(
+        (acc, fc) => acc + approximateTextTokens(fc.content),
+        0,
+      )} tokens).`,
+    );
+  }
+
+  function undoLastChange() {
+    if (dryRunPatchPath) {
+      setNotice(
+        "Nothing to undo: the working tree is not changed in dry-run mode.",
+      );
+      return;
+    }
+    const restored = defaultCheckpointStore.undo();
+    if (restored.reverted.length === 0) {
+      setNotice("Nothing to undo.");
+      return;
+    }
+    // Bring the context in line with the restored files.
+    const contents = contentsOf(files);
+    for (const p of restored.files) {
+      try {
+        contents[p] = fsSync.readFileSync(p, "utf-8");
+      } catch {
+        delete contents[p];
+      }
+    }
+    setFiles(filesOf(contents));
+    const paths = [...new Set(restored.files)].map(
+      (p) => path.relative(rootPath, p) || p,
+    );
+    setNotice(`Restored ${paths.join(", ")}.`);
   }
 
   /* --------------------------------- Render -------------------------------- */
@@ -552,14 +881,51 @@ export function SinglePassApp({
   if (state === "applied") {
     return (
       <Box flexDirection="column">
-        <Text color="green">Changes have been applied.</Text>
+        {outcome ? <ReviewOutcomeSummary outcome={outcome} /> : null}
         <Text color="gray">Press any key to continue…</Text>
       </Box>
     );
   }
 
+  if (state === "feedback" && review) {
+    const paths = review.ops
+      .filter((_op, i) => review.decisions[i] === "revise")
+      .map((op) => path.relative(rootPath, op.path) || op.path);
+    return (
+      <Box flexDirection="column" gap={1}>
+        {outcome ? <ReviewOutcomeSummary outcome={outcome} /> : null}
+        <Text>
+          What should change in <Text bold>{paths.join(", ")}</Text>? (empty to
+          drop these changes)
+        </Text>
+        <Box borderStyle="round" paddingX={1}>
+          <InputPrompt
+            message=">>> "
+            onSubmit={(val) => {
+              if (!val) {
+                setState("prompt");
+                return;
+              }
+              void runRevisionTask(val);
+            }}
+            onCtrlC={() => {
+              setState("interrupted");
+            }}
+          />
+        </Box>
+      </Box>
+    );
+  }
+
   if (state === "thinking") {
-    return <WorkingSpinner />;
+    return (
+      <Box flexDirection="column" gap={1}>
+        {selection ? (
+          <ContextSelectionInfo selection={selection} rootPath={rootPath} />
+        ) : null}
+        <WorkingSpinner />
+      </Box>
+    );
   }
 
   if (state === "interrupted") {
@@ -598,15 +964,26 @@ export function SinglePassApp({
         <DirectoryInfo
           rootPath={rootPath}
           files={files}
-          contextLimit={contextLimit}
+          model={config.model}
+          budgetTokens={budgetTokens}
+          pins={pins}
           showStruct={showDirInfo}
         />
 
+        {showDirInfo && selection ? (
+          <ContextSelectionInfo
+            selection={selection}
+            rootPath={rootPath}
+            full
+          />
+        ) : null}
+
         {/* Prompt Input Box */}
         <Box borderStyle="round" paddingX={1}>
           <InputPrompt
             message=">>> "
             onSubmit={(val) => {
+              setNotice(null);
               // Support /context as a command to show the directory structure.
               if (val === "/context" || val === ":context") {
                 setShowDirInfo(true);
@@ -616,6 +993,17 @@ export function SinglePassApp({
                 setShowDirInfo(false);
               }
 
+              if (val === "/undo") {
+                undoLastChange();
+                return;
+              }
+
+              const pinCommand = /^\/(pin|unpin)(?:\s+(.*))?$/.exec(val);
+              if (pinCommand) {
+                updatePins(pinCommand[1] === "pin", pinCommand[2]?.trim());
+                return;
+              }
+
               // Continue if prompt is empty.
               if (!val) {
                 return;
@@ -629,9 +1017,16 @@ export function SinglePassApp({
           />
         </Box>
 
+        {notice ? <Text color="yellow">{notice}</Text> : null}
+
         <Box marginTop={1}>
           <Text dimColor>
-            {"Type /context to display the directory structure."}
+            {dryRunPatchPath
+              ? `Dry run: accepted changes are written to ${dryRunPatchPath}. `
+              : "Type /undo to revert the last applied changes. "}
+            {
+              "Type /context to display the directory structure and the files picked for the last prompt, /pin or /unpin <path> to choose files to always include."
+            }
           </Text>
           <Text dimColor>
             {" Press Ctrl+C at any time to interrupt / exit."}
@@ -641,21 +1036,21 @@ export function SinglePassApp({
     );
   }
 
-  if (state === "confirm") {
+  if (state === "review" && review) {
+    const index = review.decisions.length;
+    if (index >= review.ops.length) {
+      // The accepted changes are being written.
+      return <WorkingSpinner text="Applying" />;
+    }
     return (
-      <Box flexDirection="column">
-        <SummaryAndDiffs summary={diffInfo.summary} diffs={diffInfo.diffs} />
-        <ConfirmationPrompt
-          message="Apply these changes?"
-          onResult={(accept) => {
-            if (accept) {
-              applyFileOps(applyOps);
-            } else {
-              setState("skipped");
-            }
-          }}
-        />
-      </Box>
+      <FileReview
+        key={index}
+        summary={review.summary}
+        diff={review.diffs[index] ?? ""}
+        index={index}
+        total={review.ops.length}
+        onDecision={decide}
+      />
     );
   }
 
@@ -1,3 +1,5 @@
+import type { ApplyPatchCommand } from "../approvals";
+import type { PatchReview } from "../utils/agent/patch-review";
 import type { ReviewDecision } from "../utils/agent/review";
 import type React from "react";
 
@@ -6,12 +8,30 @@ import { useState, useCallback, useRef } from "react";
 export type ConfirmationResult = {
   decision: ReviewDecision;
   customDenyMessage?: string;
+  /** The part of an `apply_patch` call to apply when it was reviewed by hunk. */
+  applyPatch?: ApplyPatchCommand;
+  /** The command to run instead, with `ReviewDecision.EDIT`. */
+  editedCommand?: Array<string>;
+};
+
+/** What the prompt offers besides approving or denying the command. */
+export type ConfirmationOptions = {
+  /** The files and hunks of an `apply_patch` call, to review them one by one. */
+  patchReview?: PatchReview;
+  /** The command, when it may be edited in `$EDITOR` before it runs. */
+  editableCommand?: Array<string>;
+  /**
+   * The command line "always allow it in this project" saves, when the
+   * command can be saved as a rule.
+   */
+  projectRule?: string;
 };
 
 type ConfirmationItem = {
   prompt: React.ReactNode;
   resolve: (result: ConfirmationResult) => void;
   explanation?: string;
+  options?: ConfirmationOptions;
 };
 
 export function useConfirmation(): {
@@ -19,9 +39,11 @@ export function useConfirmation(): {
   requestConfirmation: (
     prompt: React.ReactNode,
     explanation?: string,
+    options?: ConfirmationOptions,
   ) => Promise<ConfirmationResult>;
   confirmationPrompt: React.ReactNode | null;
   explanation?: string;
+  confirmationOptions?: ConfirmationOptions;
 } {
   // The current prompt is just the head of the queue
   const [current, setCurrent] = useState<ConfirmationItem | null>(null);
@@ -36,10 +58,14 @@ export function useConfirmation(): {
 
   // Called whenever someone wants a confirmation
   const requestConfirmation = useCallback(
-    (prompt: React.ReactNode, explanation?: string) => {
+    (
+      prompt: React.ReactNode,
+      explanation?: string,
+      options?: ConfirmationOptions,
+    ) => {
       return new Promise<ConfirmationResult>((resolve) => {
         const wasEmpty = queueRef.current.length === 0;
-        queueRef.current.push({ prompt, resolve, explanation });
+        queueRef.current.push({ prompt, resolve, explanation, options });
 
         // If the queue was empty, we need to kick off the first prompt
         if (wasEmpty) {
@@ -61,6 +87,7 @@ export function useConfirmation(): {
   return {
     confirmationPrompt: current?.prompt, // the prompt to render now
     explanation: current?.explanation, // the explanation to render if available
+    confirmationOptions: current?.options, // e.g. the hunks of an apply_patch call
     requestConfirmation,
     submitConfirmation,
   };
@@ -4,6 +4,8 @@ import type {
   ApprovalPolicy,
   SafetyAssessment,
 } from "../../approvals.js";
+import type { ExecInput } from "./sandbox/interface.js";
+import type { BudgetUsage } from "../budget.js";
 import type { AppConfig } from "../config.js";
 
 import type { ResponseEvent } from "../responses.js";
@@ -12,6 +14,7 @@ import type {
   ResponseInputItem,
   ResponseItem,
   ResponseCreateParams,
+  ResponseUsage,
   FunctionTool,
   Tool,
 } from "openai/resources/responses/responses.mjs";
@@ -51,10 +54,15 @@ import {
   DEFAULT_SHELL_MAX_BYTES,
   DEFAULT_SHELL_MAX_LINES,
 } from "../config.js";
+import { approximateTokensUsed } from "../approximate-tokens-used.js";
+import { BudgetGuard, formatBudgetUsage } from "../budget.js";
+import { getGitSession } from "../git-session.js";
 import { log } from "../logger/log.js";
 import { parseToolCallArguments } from "../parsers.js";
 
-import { responsesCreateViaChatCompletions } from "../responses.js";
+import { createResponseStream } from "../provider-adapters/adapter.js";
+import { redactSecrets } from "../redact-secrets.js";
+import { SessionUsageTracker } from "../token-usage.js";
 
 import {
   ORIGIN,
@@ -63,7 +71,37 @@ import {
   setSessionId,
 } from "../session.js";
 import { applyPatchToolInstructions } from "./apply-patch.js";
-import { handleExecCommand } from "./handle-exec-command.js";
+import {
+  BackgroundProcesses,
+  keysToInput,
+  MAX_READ_WAIT_MS,
+  PTY_COLUMNS,
+  PTY_ROWS,
+} from "./background-processes.js";
+import { filesTouchedByPatch } from "./checkpoints.js";
+import {
+  compactConversation,
+  shouldAutoCompact,
+} from "./context-compaction.js";
+import {
+  DEFAULT_READ_LINES,
+  MAX_READ_LINES,
+  defaultCommandOutputStore,
+} from "./command-output-store.js";
+import {
+  handleBackgroundExecCommand,
+  handleExecCommand,
+  type HandleExecCommandResult,
+  type SandboxFailureCount,
+} from "./handle-exec-command.js";
+import { ProjectDocScope, formatNestedProjectDocs } from "./project-docs.js";
+import {
+  defaultToolRegistry,
+  handleToolCall,
+  parseToolArguments,
+  type AgentTool,
+  type ToolRegistry,
+} from "./tool-registry.js";
 import { HttpsProxyAgent } from "https-proxy-agent";
 import { spawnSync } from "node:child_process";
 import { randomUUID } from "node:crypto";
@@ -94,6 +132,87 @@ const shellFunctionTool: FunctionTool = {
   },
 };
 
+const backgroundProcessTool: FunctionTool = {
+  type: "function",
+  name: "background_process",
+  description:
+    "Manages long-running processes such as dev servers, watchers or databases, which keep running between tool calls. `start` runs `command` and returns an id, `read` returns the output printed since the previous read, `write` sends `input` and `keys` to its stdin, `kill` stops it and `list` shows all of them. They are stopped when the session ends. Start programs that need a terminal (interactive prompts, REPLs, editors) with `tty` and use `screen` to see what the terminal shows.",
+  strict: false,
+  parameters: {
+    type: "object",
+    properties: {
+      action: {
+        type: "string",
+        enum: ["start", "read", "write", "screen", "kill", "list"],
+      },
+      command: {
+        type: "array",
+        items: { type: "string" },
+        description: "For `start`: the command to run.",
+      },
+      workdir: {
+        type: "string",
+        description: "For `start`: the working directory for the command.",
+      },
+      tty: {
+        type: "boolean",
+        description: `For \`start\`: run the command in a ${PTY_COLUMNS}x${PTY_ROWS} pseudo-terminal.`,
+      },
+      id: {
+        type: "string",
+        description:
+          "For `read`, `write`, `screen` and `kill`: the id from `start`.",
+      },
+      input: {
+        type: "string",
+        description:
+          "For `write`: the text to send. End it with a newline to submit a line.",
+      },
+      keys: {
+        type: "array",
+        items: { type: "string" },
+        description:
+          "For `write`: keys to press after `input`, e.g. Enter, Tab, Escape, Backspace, Up, Down, Left, Right, PageUp, PageDown or Ctrl-C.",
+      },
+      wait_ms: {
+        type: "number",
+        description: `For \`read\`: when there is no new output yet, wait up to this many milliseconds (at most ${MAX_READ_WAIT_MS}) for output or the exit.`,
+      },
+    },
+    required: ["action"],
+    additionalProperties: false,
+  },
+};
+
+const readOutputTool: FunctionTool = {
+  type: "function",
+  name: "read_output",
+  description:
+    "Reads the full output of a command whose output was truncated, by the id given in the truncation note. Returns up to `limit` lines from line `offset` on, each with its line number, or only the lines matching `pattern`.",
+  strict: false,
+  parameters: {
+    type: "object",
+    properties: {
+      id: { type: "string", description: "The id of the output, e.g. out-1." },
+      offset: {
+        type: "number",
+        description: "The line to start at, from 1. Defaults to 1.",
+      },
+      limit: {
+        type: "number",
+        description: `How many lines to return, at most ${MAX_READ_LINES}. Defaults to ${DEFAULT_READ_LINES}.`,
+      },
+      pattern: {
+        type: "string",
+        description:
+          "A JavaScript regular expression: return only the lines that match it.",
+      },
+    },
+    required: ["id"],
+    additionalProperties: false,
+  },
+};
+
 const localShellTool: LocalShellTool = {
   type: "local_shell",
 };
@@ -111,11 +230,27 @@ export type CommandConfirmation = {
   applyPatch?: ApplyPatchCommand | undefined;
   customDenyMessage?: string;
   explanation?: string;
+  /** The command to run instead, with `ReviewDecision.EDIT`. */
+  editedCommand?: Array<string>;
+};
+
+export type CommandConfirmationOptions = {
+  /** Whether the user may edit the command before it runs. */
+  editable?: boolean;
 };
 
 const alreadyProcessedResponses = new Set();
 const alreadyStagedItemIds = new Set<string>();
 
+/**
+ * A shell command the agent runs, for showing it while it runs: `output` is
+ * the output as it is produced, before it is truncated for the model.
+ */
+export type CommandProgressEvent =
+  | { type: "start"; callId: string; command: Array<string> }
+  | { type: "output"; callId: string; chunk: string }
+  | { type: "end"; callId: string };
+
 export type AgentLoopParams = {
   model: string;
   provider?: string;
@@ -141,11 +276,44 @@ export type AgentLoopParams = {
     safetyAssessment: SafetyAssessment,
     command: Array<string>,
     applyPatch: ApplyPatchCommand | undefined,
+    options?: CommandConfirmationOptions,
   ) => Promise<CommandConfirmation>;
   onLastResponseId: (lastResponseId: string) => void;
 
   /** Called when the working directory changes. */
   onWorkdirChanged?: (newWorkdir: string) => void;
+
+  /** Called with the token usage reported for every completed response. */
+  onUsage?: (usage: ResponseUsage) => void;
+
+  /** Called while shell commands run, see `CommandProgressEvent`. */
+  onCommandProgress?: (event: CommandProgressEvent) => void;
+
+  /**
+   * Additional tools advertised to the model next to `shell`. Defaults to
+   * the process-wide `defaultToolRegistry`.
+   */
+  toolRegistry?: ToolRegistry;
+
+  /**
+   * The project docs given to the model, shared by the agents of a session.
+   * Defaults to a scope over `config.projectDocs` in the working directory;
+   * none when project docs are disabled.
+   */
+  projectDocs?: ProjectDocScope;
+
+  /**
+   * Records the token usage of the session, shared by its agents and saved
+   * with the rollout. Defaults to a tracker for this agent only.
+   */
+  usage?: SessionUsageTracker;
+
+  /**
+   * Called when a limit of `config.budget` is used up, before the next
+   * request. Resolve to `true` to go on past the limit. Without it the run
+   * stops.
+   */
+  confirmBudgetOverrun?: (usage: BudgetUsage) => Promise<boolean>;
 };
 
 export class AgentLoop {
@@ -155,6 +323,7 @@ export class AgentLoop {
   private approvalPolicy: ApprovalPolicy;
   private config: AppConfig;
   private additionalWritableRoots: ReadonlyArray<string>;
+  private readonly toolRegistry: ToolRegistry;
   /** Whether we ask the API to persist conversation state on the server */
   private readonly disableResponseStorage: boolean;
 
@@ -171,8 +340,11 @@ export class AgentLoop {
     safetyAssessment: SafetyAssessment,
     command: Array<string>,
     applyPatch: ApplyPatchCommand | undefined,
+    options?: CommandConfirmationOptions,
   ) => Promise<CommandConfirmation>;
   private onLastResponseId: (lastResponseId: string) => void;
+  private onUsage?: (usage: ResponseUsage) => void;
+  private onCommandProgress?: (event: CommandProgressEvent) => void;
 
   /**
    * A reference to the currently active stream returned from the OpenAI
@@ -186,6 +358,8 @@ export class AgentLoop {
   private generation = 0;
   /** AbortController for in‑progress tool calls (e.g. shell commands). */
   private execAbortController: AbortController | null = null;
+  /** Aborts just the shell command that is running, see `cancelCommand()`. */
+  private commandAbortController: AbortController | null = null;
   /** Set to true when `cancel()` is called so `run()` can exit early. */
   private canceled = false;
 
@@ -195,6 +369,9 @@ export class AgentLoop {
    * every request.
    */
   private transcript: Array<ResponseInputItem> = [];
+  /** Size of the context as reported by the usage of the last response, or
+   *  `undefined` before the first response and right after compacting. */
+  private lastContextTokens: number | undefined;
   /** Function calls that were emitted by the model but never answered because
    *  the user cancelled the run.  We keep the `call_id`s around so the *next*
    *  request can send a dummy `function_call_output` that satisfies the
@@ -202,10 +379,31 @@ export class AgentLoop {
    *    400 | No tool output found for function call …
    *  error from OpenAI. */
   private pendingAborts: Set<string> = new Set();
+  /** Notes about changes made outside the conversation (e.g. `/undo`) that
+   *  are prepended to the next user input so the model learns about them. */
+  private pendingNotes: Array<string> = [];
+  /** Set by `restoreTranscript()` when the restored items still have to be
+   *  sent to the server (there is no stored response to continue from). */
+  private replayTranscript = false;
   /** Set to true by `terminate()` – prevents any further use of the instance. */
   private terminated = false;
   /** Master abort controller – fires when terminate() is invoked. */
   private readonly hardAbort = new AbortController();
+  /** For the `fullAutoMaxConsecutiveFailures` budget of this agent. */
+  private readonly sandboxFailures: SandboxFailureCount = { consecutive: 0 };
+  /** Processes started with the `background_process` tool; they outlive
+   *  `cancel()` and are stopped by `terminate()`. */
+  public readonly backgroundProcesses = new BackgroundProcesses();
+  /** Project docs (AGENTS.md) given to the model; subdirectory docs are
+   *  added to the result of the first patch that edits files below them. */
+  public readonly projectDocs: ProjectDocScope | undefined;
+  /** Token usage and estimated cost of every turn, see `SessionUsageTracker`. */
+  public readonly usage: SessionUsageTracker;
+  /** Checks `config.budget` before every request; none without budgets. */
+  public readonly budget: BudgetGuard | undefined;
+  private readonly confirmBudgetOverrun?: (
+    usage: BudgetUsage,
+  ) => Promise<boolean>;
 
   /**
    * Abort the ongoing request/stream, if any. This allows callers (typically
@@ -268,6 +466,15 @@ export class AgentLoop {
     log(`AgentLoop.cancel(): generation bumped to ${this.generation}`);
   }
 
+  /**
+   * Stop the shell command that is running, if any. Unlike `cancel()` the
+   * run goes on: the model gets the output so far and is told that the user
+   * stopped the command.
+   */
+  public cancelCommand(): void {
+    this.commandAbortController?.abort();
+  }
+
   /**
    * Hard‑stop the agent loop. After calling this method the instance becomes
    * unusable: any in‑flight operations are aborted and subsequent invocations
@@ -282,6 +489,149 @@ export class AgentLoop {
     this.hardAbort.abort();
 
     this.cancel();
+
+    this.backgroundProcesses.killAll();
+  }
+
+  /**
+   * Queue a note for the model that is sent along with the next `run()`.
+   */
+  public addContextNote(text: string): void {
+    this.pendingNotes.push(text);
+  }
+
+  /**
+   * Continue a saved conversation: `items` become the context of the next
+   * `run()`. With server-side storage they are sent once with the next
+   * request, which then starts a new response chain.
+   */
+  public restoreTranscript(items: Array<ResponseInputItem>): void {
+    this.transcript = [...items];
+    this.replayTranscript = !this.disableResponseStorage;
+    this.lastContextTokens = undefined;
+  }
+
+  /**
+   * Summarize older turns when the conversation is about to outgrow the
+   * model's context window. `turnInput` is the input of the request that is
+   * about to be sent; the return value replaces it, or is `undefined` when
+   * nothing was compacted. The replacement carries the whole (compacted)
+   * conversation, so the request must not reference `previous_response_id`.
+   */
+  private async compactContext(
+    turnInput: Array<ResponseInputItem>,
+    force: boolean,
+  ): Promise<Array<ResponseInputItem> | undefined> {
+    // With server-side storage `transcript` holds everything that precedes
+    // `turnInput`; without it `turnInput` already starts with the transcript.
+    const conversation = this.disableResponseStorage
+      ? turnInput
+      : [...this.transcript, ...turnInput];
+    const pendingCount = this.disableResponseStorage
+      ? turnInput.length - this.transcript.length
+      : turnInput.length;
+
+    if (!force) {
+      const pending = conversation.slice(conversation.length - pendingCount);
+      const used =
+        this.lastContextTokens !== undefined
+          ? this.lastContextTokens +
+            approximateTokensUsed(pending as Array<ResponseItem>, this.model)
+          : approximateTokensUsed(
+              conversation as Array<ResponseItem>,
+              this.model,
+            );
+      if (!shouldAutoCompact(used, this.model, this.config)) {
+        return undefined;
+      }
+    }
+
+    let compacted: Array<ResponseInputItem> | undefined;
+    try {
+      compacted = await compactConversation(conversation, {
+        model: this.model,
+        config: this.config,
+        maxIndex: conversation.length - pendingCount,
+      });
+    } catch (err) {
+      log(`AgentLoop.compactContext(): summarization failed: ${String(err)}`);
+      return undefined;
+    }
+    if (!compacted) {
+      return undefined;
+    }
+
+    const summarized = conversation.length - (compacted.length - 1);
+    log(`AgentLoop.compactContext(): summarized ${summarized} items`);
+    this.transcript = this.disableResponseStorage
+      ? compacted.slice(0, compacted.length - pendingCount)
+      : [];
+    this.lastContextTokens = undefined;
+    this.onItem({
+      id: `compact-${Date.now()}`,
+      type: "message",
+      role: "system",
+      content: [
+        {
+          type: "input_text",
+          text: `Context compacted automatically: ${summarized} earlier items were replaced by a summary to stay within the model's context window.`,
+        },
+      ],
+    } as ResponseItem);
+    return compacted;
+  }
+
+  /**
+   * Warn about the budgets that passed their soft threshold and, when one is
+   * used up, ask whether to go on. Returns `false` when the run has to stop;
+   * the tool calls whose outputs in `unsent` were not sent yet are then
+   * answered as aborted in the next run, like after `cancel()`.
+   */
+  private async checkBudget(
+    unsent: Array<ResponseInputItem>,
+  ): Promise<boolean> {
+    if (!this.budget) {
+      return true;
+    }
+    const { warnings, exceeded } = this.budget.check();
+    for (const usage of warnings) {
+      this.onItem({
+        id: `budget-${Date.now()}`,
+        type: "message",
+        role: "system",
+        content: [
+          {
+            type: "input_text",
+            text: `⚠️  ${formatBudgetUsage(usage)}.`,
+          },
+        ],
+      } as ResponseItem);
+    }
+    if (!exceeded) {
+      return true;
+    }
+    if (await this.confirmBudgetOverrun?.(exceeded)) {
+      this.budget.allowOverrun(exceeded);
+      return true;
+    }
+
+    for (const item of unsent) {
+      if (item.type === "function_call_output") {
+        this.pendingAborts.add(item.call_id);
+      }
+    }
+    this.onItem({
+      id: `budget-${Date.now()}`,
+      type: "message",
+      role: "system",
+      content: [
+        {
+          type: "input_text",
+          text: `⛔ Stopped at a budget limit. ${formatBudgetUsage(exceeded)}. Raise the limit under \`budget\` in the config to continue.`,
+        },
+      ],
+    } as ResponseItem);
+    return false;
   }
 
   public sessionId: string;
@@ -308,7 +658,13 @@ export class AgentLoop {
     onLoading,
     getCommandConfirmation,
     onLastResponseId,
+    onUsage,
+    onCommandProgress,
     additionalWritableRoots,
+    toolRegistry,
+    projectDocs,
+    usage,
+    confirmBudgetOverrun,
   }: AgentLoopParams & { config?: AppConfig }) {
     this.model = model;
     this.provider = provider;
@@ -342,10 +698,23 @@ export class AgentLoop {
         },
       };
     this.additionalWritableRoots = additionalWritableRoots;
+    this.toolRegistry = toolRegistry ?? defaultToolRegistry;
+    this.projectDocs =
+      projectDocs ??
+      (this.config.projectDocs
+        ? new ProjectDocScope(process.cwd(), this.config.projectDocs)
+        : undefined);
+    this.usage = usage ?? new SessionUsageTracker();
+    this.budget = this.config.budget
+      ? new BudgetGuard(this.config.budget, this.usage)
+      : undefined;
+    this.confirmBudgetOverrun = confirmBudgetOverrun;
     this.onItem = onItem;
     this.onLoading = onLoading;
     this.getCommandConfirmation = getCommandConfirmation;
     this.onLastResponseId = onLastResponseId;
+    this.onUsage = onUsage;
+    this.onCommandProgress = onCommandProgress;
 
     this.disableResponseStorage = disableResponseStorage ?? false;
     this.sessionId = getSessionId() || randomUUID().replaceAll("-", "");
@@ -413,6 +782,7 @@ export class AgentLoop {
 
   private async handleFunctionCall(
     item: ResponseFunctionToolCall,
+    explanation?: string,
   ): Promise<Array<ResponseInputItem>> {
     // If the agent has been canceled in the meantime we should not perform any
     // additional work. Returning an empty array ensures that we neither execute
@@ -453,13 +823,31 @@ export class AgentLoop {
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     const callId: string = (item as any).call_id ?? (item as any).id;
 
-    const args = parseToolCallArguments(rawArguments ?? "{}");
     log(
       `handleFunctionCall(): name=${
         name ?? "undefined"
       } callId=${callId} args=${rawArguments}`,
     );
 
+    const registeredTool = name ? this.toolRegistry.get(name) : undefined;
+    if (registeredTool) {
+      return this.handleRegisteredToolCall(
+        registeredTool,
+        callId,
+        rawArguments,
+      );
+    }
+
+    if (name === backgroundProcessTool.name) {
+      return this.handleBackgroundProcessCall(callId, rawArguments);
+    }
+
+    if (name === readOutputTool.name) {
+      return this.handleReadOutputCall(callId, rawArguments);
+    }
+
+    const args = parseToolCallArguments(rawArguments ?? "{}");
+
     if (args == null) {
       const outputItem: ResponseInputItem.FunctionCallOutput = {
         type: "function_call_output",
@@ -491,35 +879,330 @@ export class AgentLoop {
     // used to tell model to stop if needed
     const additionalItems: Array<ResponseInputItem> = [];
 
-    // TODO: allow arbitrary function calls (beyond shell/container.exec)
     if (name === "container.exec" || name === "shell") {
       const {
         outputText,
         metadata,
         additionalItems: additionalItemsFromExec,
-      } = await handleExecCommand(
+        appliedPatch,
+      } = await this.handleShellCommand(callId, args);
+      outputItem.output = JSON.stringify({
+        output: redactSecrets(outputText),
+        metadata,
+      });
+
+      if (appliedPatch !== undefined) {
+        this.commitAppliedPatch(appliedPatch, args.workdir, explanation);
+      }
+
+      if (additionalItemsFromExec) {
+        additionalItems.push(...additionalItemsFromExec);
+      }
+    }
+
+    return [outputItem, ...additionalItems];
+  }
+
+  /**
+   * Run a command of the `shell` tool (after approval) and report its
+   * progress to `onCommandProgress`. The command gets its own abort signal so
+   * that `cancelCommand()` can stop it without cancelling the run.
+   */
+  private async handleShellCommand(
+    callId: string,
+    args: ExecInput,
+  ): Promise<HandleExecCommandResult> {
+    const controller = new AbortController();
+    const runSignal = this.execAbortController?.signal;
+    const forwardAbort = () => controller.abort();
+    if (runSignal?.aborted) {
+      controller.abort();
+    } else {
+      runSignal?.addEventListener("abort", forwardAbort, { once: true });
+    }
+    this.commandAbortController = controller;
+
+    try {
+      const result = await handleExecCommand(
         args,
         this.config,
         this.approvalPolicy,
         this.additionalWritableRoots,
         // Use the full signature with SafetyAssessment parameter
-        (safetyAssessment, command, applyPatch) =>
-          this.getCommandConfirmation(safetyAssessment, command, applyPatch),
-        this.execAbortController?.signal,
+        (safetyAssessment, command, applyPatch, options) =>
+          this.getCommandConfirmation(
+            safetyAssessment,
+            command,
+            applyPatch,
+            options,
+          ),
+        controller.signal,
+        {
+          onStart: () =>
+            this.onCommandProgress?.({
+              type: "start",
+              callId,
+              command: args.cmd,
+            }),
+          onOutput: (chunk) =>
+            this.onCommandProgress?.({ type: "output", callId, chunk }),
+        },
+        this.sandboxFailures,
       );
-      outputItem.output = JSON.stringify({ output: outputText, metadata });
+      if (controller.signal.aborted && !runSignal?.aborted) {
+        return {
+          ...result,
+          outputText: `${result.outputText}\n\n[Stopped by the user]`,
+        };
+      }
+      if (result.appliedPatch !== undefined && this.projectDocs) {
+        const docs = this.projectDocs.discover(
+          filesTouchedByPatch(result.appliedPatch, args.workdir),
+        );
+        if (docs.length > 0) {
+          return {
+            ...result,
+            outputText: `${result.outputText}\n\n${formatNestedProjectDocs(
+              docs,
+              process.cwd(),
+            )}`,
+          };
+        }
+      }
+      return result;
+    } finally {
+      runSignal?.removeEventListener("abort", forwardAbort);
+      this.commandAbortController = null;
+      this.onCommandProgress?.({ type: "end", callId });
+    }
+  }
 
-      if (additionalItemsFromExec) {
-        additionalItems.push(...additionalItemsFromExec);
+  /**
+   * In a git session (see `GitSession`), commit the files changed by an
+   * applied patch. A failing commit is reported but does not stop the run.
+   */
+  private commitAppliedPatch(
+    patch: string,
+    workdir: string | undefined,
+    explanation: string | undefined,
+  ): void {
+    const session = getGitSession();
+    if (!session?.autoCommit) {
+      return;
+    }
+    try {
+      const sha = session.commitPatch(patch, workdir, explanation);
+      if (sha) {
+        log(`AgentLoop: committed applied patch as ${sha}`);
+      }
+    } catch (err) {
+      this.onItem({
+        id: `git-commit-${Date.now()}`,
+        type: "message",
+        role: "system",
+        content: [
+          {
+            type: "input_text",
+            text: `⚠️  Failed to commit the applied patch: ${String(err)}`,
+          },
+        ],
+      } as ResponseItem);
+    }
+  }
+
+  private async handleRegisteredToolCall(
+    tool: AgentTool,
+    callId: string,
+    rawArguments: string | undefined,
+  ): Promise<Array<ResponseInputItem>> {
+    const outputItem: ResponseInputItem.FunctionCallOutput = {
+      type: "function_call_output",
+      call_id: callId,
+      output: "",
+    };
+
+    const args = parseToolArguments(rawArguments);
+    if (args === undefined) {
+      outputItem.output = `invalid arguments: ${rawArguments}`;
+      return [outputItem];
+    }
+
+    const { outputText, metadata, additionalItems } = await handleToolCall(
+      tool,
+      args,
+      {
+        config: this.config,
+        approvalPolicy: this.approvalPolicy,
+        additionalWritableRoots: this.additionalWritableRoots,
+        abortSignal: this.execAbortController?.signal,
+      },
+      (safetyAssessment, command, applyPatch) =>
+        this.getCommandConfirmation(safetyAssessment, command, applyPatch),
+    );
+    outputItem.output = JSON.stringify({
+      output: redactSecrets(outputText),
+      metadata,
+    });
+
+    return [outputItem, ...(additionalItems ?? [])];
+  }
+
+  private async handleBackgroundProcessCall(
+    callId: string,
+    rawArguments: string | undefined,
+  ): Promise<Array<ResponseInputItem>> {
+    const outputItem: ResponseInputItem.FunctionCallOutput = {
+      type: "function_call_output",
+      call_id: callId,
+      output: "",
+    };
+    const args = parseToolArguments(rawArguments);
+    if (args === undefined) {
+      outputItem.output = `invalid arguments: ${rawArguments}`;
+      return [outputItem];
+    }
+
+    const { action, id, command, workdir, tty, input, keys, wait_ms } = args;
+    const processes = this.backgroundProcesses;
+    let outputText: string;
+    let metadata: Record<string, unknown> = {};
+    const additionalItems: Array<ResponseInputItem> = [];
+    try {
+      if (action === "start") {
+        if (
+          !Array.isArray(command) ||
+          !command.every((arg) => typeof arg === "string")
+        ) {
+          throw new Error("start needs a command");
+        }
+        const result = await handleBackgroundExecCommand(
+          {
+            cmd: command,
+            workdir: typeof workdir === "string" ? workdir : undefined,
+            timeoutInMillis: undefined,
+          },
+          processes,
+          this.config,
+          this.approvalPolicy,
+          this.additionalWritableRoots,
+          (safetyAssessment, cmd, applyPatch) =>
+            this.getCommandConfirmation(safetyAssessment, cmd, applyPatch),
+          { tty: tty === true },
+        );
+        ({ outputText, metadata } = result);
+        additionalItems.push(...(result.additionalItems ?? []));
+      } else if (action === "list") {
+        const list = processes.list();
+        outputText =
+          list.length === 0
+            ? "no background processes"
+            : list
+                .map(
+                  (p) =>
+                    `${p.id}: ${p.command.join(" ")} (${
+                      p.exitCode === null
+                        ? "running"
+                        : `exited with ${p.exitCode}`
+                    })`,
+                )
+                .join("\n");
+      } else if (typeof id !== "string") {
+        throw new Error(`${String(action)} needs the id of a process`);
+      } else if (action === "read") {
+        const result = await processes.read(
+          id,
+          typeof wait_ms === "number" ? wait_ms : 0,
+          this.execAbortController?.signal,
+        );
+        outputText =
+          (result.droppedChars > 0
+            ? `[${result.droppedChars} characters of older output dropped]\n`
+            : "") + result.output;
+        metadata = {
+          running: result.running,
+          exit_code: result.exitCode,
+        };
+      } else if (action === "write") {
+        if (
+          Array.isArray(keys) &&
+          !keys.every((key) => typeof key === "string")
+        ) {
+          throw new Error("keys must be strings");
+        }
+        const text =
+          (typeof input === "string" ? input : "") +
+          (Array.isArray(keys) ? keysToInput(keys as Array<string>) : "");
+        if (text === "") {
+          throw new Error("write needs input or keys");
+        }
+        processes.write(id, text);
+        outputText = "ok";
+      } else if (action === "screen") {
+        const screen = processes.screen(id);
+        outputText = screen.text;
+        metadata = { cursor: screen.cursor };
+      } else if (action === "kill") {
+        const info = await processes.kill(id);
+        outputText = `${id} exited with ${String(info.exitCode)}`;
+        metadata = { exit_code: info.exitCode };
+      } else {
+        throw new Error(`unknown action '${String(action)}'`);
       }
+    } catch (err) {
+      outputText = `error: ${err instanceof Error ? err.message : String(err)}`;
     }
 
+    outputItem.output = JSON.stringify({
+      output: redactSecrets(outputText),
+      metadata,
+    });
     return [outputItem, ...additionalItems];
   }
 
+  private async handleReadOutputCall(
+    callId: string,
+    rawArguments: string | undefined,
+  ): Promise<Array<ResponseInputItem>> {
+    const outputItem: ResponseInputItem.FunctionCallOutput = {
+      type: "function_call_output",
+      call_id: callId,
+      output: "",
+    };
+    const args = parseToolArguments(rawArguments);
+    if (args === undefined) {
+      outputItem.output = `invalid arguments: ${rawArguments}`;
+      return [outputItem];
+    }
+
+    const { id, offset, limit, pattern } = args;
+    let outputText: string;
+    let metadata: Record<string, unknown> = {};
+    try {
+      if (typeof id !== "string") {
+        throw new Error("read_output needs the id of an output");
+      }
+      const page = await defaultCommandOutputStore.read(id, {
+        offset: typeof offset === "number" ? offset : undefined,
+        limit: typeof limit === "number" ? limit : undefined,
+        pattern: typeof pattern === "string" ? pattern : undefined,
+      });
+      outputText = page.text || "(no lines)";
+      metadata = { total_lines: page.totalLines };
+    } catch (err) {
+      outputText = `error: ${err instanceof Error ? err.message : String(err)}`;
+    }
+
+    outputItem.output = JSON.stringify({
+      output: redactSecrets(outputText),
+      metadata,
+    });
+    return [outputItem];
+  }
+
   private async handleLocalShellCall(
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     item: any,
+    explanation?: string,
   ): Promise<Array<ResponseInputItem>> {
     // If the agent has been canceled in the meantime we should not perform any
     // additional work. Returning an empty array ensures that we neither execute
@@ -557,26 +1240,28 @@ export class AgentLoop {
       throw new Error("Invalid action type");
     }
 
-    const args = {
+    const args: ExecInput = {
       cmd: item.action.command,
       workdir: item.action.working_directory,
       timeoutInMillis: item.action.timeout_ms,
     };
 
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
+    const callId = String(item.call_id);
     const {
       outputText,
       metadata,
       additionalItems: additionalItemsFromExec,
-    } = await handleExecCommand(
-      args,
-      this.config,
-      this.approvalPolicy,
-      this.additionalWritableRoots,
-      (safetyAssessment, command, applyPatch) =>
-        this.getCommandConfirmation(safetyAssessment, command, applyPatch),
-      this.execAbortController?.signal,
-    );
-    outputItem.output = JSON.stringify({ output: outputText, metadata });
+      appliedPatch,
+    } = await this.handleShellCommand(callId, args);
+    outputItem.output = JSON.stringify({
+      output: redactSecrets(outputText),
+      metadata,
+    });
+
+    if (appliedPatch !== undefined) {
+      this.commitAppliedPatch(appliedPatch, args.workdir, explanation);
+    }
 
     if (additionalItemsFromExec) {
       additionalItems.push(...additionalItemsFromExec);
@@ -606,6 +1291,7 @@ export class AgentLoop {
       // Bump generation so that any late events from previous runs can be
       // identified and dropped.
       const thisGeneration = ++this.generation;
+      this.usage.startTurn();
 
       // Reset cancellation flag and stream for a fresh run.
       this.canceled = false;
@@ -656,6 +1342,21 @@ export class AgentLoop {
         this.pendingAborts.clear();
       }
 
+      // Likewise, notes queued via `addContextNote()` go in front of the
+      // user's input.
+      const noteInputs: Array<ResponseInputItem> = [];
+      if (this.pendingNotes.length > 0) {
+        noteInputs.push({
+          type: "message",
+          role: "user",
+          content: this.pendingNotes.map((text) => ({
+            type: "input_text",
+            text,
+          })),
+        });
+        this.pendingNotes = [];
+      }
+
       // Build the input list for this turn. When responses are stored on the
       // server we can simply send the *delta* (the new user input as well as
       // any pending abort outputs) and rely on `previous_response_id` for
@@ -668,11 +1369,19 @@ export class AgentLoop {
       // transcript so we can avoid re‑emitting them to the UI. Only used when
       // `disableResponseStorage === true`.
       let transcriptPrefixLen = 0;
+      // Number of leading `turnInput` items replayed from a restored
+      // transcript when response storage is enabled; not shown in the UI.
+      let replayedLen = 0;
 
       let tools: Array<Tool> = [shellFunctionTool];
       if (this.model.startsWith("codex")) {
         tools = [localShellTool];
       }
+      tools.push(
+        backgroundProcessTool,
+        readOutputTool,
+        ...this.toolRegistry.toFunctionTools(),
+      );
 
       const stripInternalFields = (
         item: ResponseInputItem,
@@ -716,13 +1425,22 @@ export class AgentLoop {
         // that subsequent iterations see a complete history.
         // `turnInput` is still empty at this point (it will be filled later).
         // We need to look at the *input* items the user just supplied.
-        this.transcript.push(...filterToApiMessages(input));
+        this.transcript.push(...filterToApiMessages([...noteInputs, ...input]));
 
         turnInput = [...this.transcript, ...abortOutputs].map(
           stripInternalFields,
         );
       } else {
-        turnInput = [...abortOutputs, ...input].map(stripInternalFields);
+        const replay = this.replayTranscript ? this.transcript : [];
+        if (this.replayTranscript) {
+          this.transcript = [];
+          this.replayTranscript = false;
+          replayedLen = replay.length;
+          lastResponseId = "";
+        }
+        turnInput = [...replay, ...abortOutputs, ...noteInputs, ...input].map(
+          stripInternalFields,
+        );
       }
 
       this.onLoading(true);
@@ -839,10 +1557,26 @@ export class AgentLoop {
         // disabled.
         const deltaInput = this.disableResponseStorage
           ? turnInput.slice(transcriptPrefixLen)
-          : [...turnInput];
+          : turnInput.slice(replayedLen);
+        replayedLen = 0;
         for (const item of deltaInput) {
           stageItem(item as ResponseItem);
         }
+
+        // eslint-disable-next-line no-await-in-loop
+        if (!(await this.checkBudget(deltaInput))) {
+          this.onLoading(false);
+          return;
+        }
+
+        // eslint-disable-next-line no-await-in-loop
+        const compactedInput = await this.compactContext(turnInput, false);
+        if (compactedInput) {
+          turnInput = compactedInput;
+          lastResponseId = "";
+        }
+        let compactedAfterError = false;
+
         // Send request to OpenAI with retry on timeout.
         let stream;
 
@@ -883,7 +1617,7 @@ export class AgentLoop {
             }
 
             // eslint-disable-next-line no-await-in-loop
-            stream = await responsesCreateViaChatCompletions(
+            stream = await createResponseStream(
               this.oai,
               {
                 model: modelForApi,
@@ -943,6 +1677,28 @@ export class AgentLoop {
               continue;
             }
 
+            // If the request is over the context window despite the check
+            // above (the token count is only an estimate), compact once and
+            // retry.
+            const { code: errCode, message: errMessage } = error as {
+              code?: unknown;
+              message?: unknown;
+            };
+            const isContextLengthError =
+              errCode === "context_length_exceeded" ||
+              (typeof errMessage === "string" &&
+                /maximum context length/i.test(errMessage));
+            if (isContextLengthError && !compactedAfterError) {
+              compactedAfterError = true;
+              // eslint-disable-next-line no-await-in-loop
+              const retryInput = await this.compactContext(turnInput, true);
+              if (retryInput) {
+                turnInput = retryInput;
+                lastResponseId = "";
+                continue;
+              }
+            }
+
             const isTooManyTokensError =
               (errCtx.param === "max_tokens" ||
                 (typeof errCtx.message === "string" &&
@@ -1166,6 +1922,18 @@ export class AgentLoop {
                   // by itself would create an infinite request loop because
                   // `turnInput.length` would never reach zero.
 
+                  if (!this.disableResponseStorage) {
+                    // The server keeps the conversation, but we still track
+                    // it locally so it can be compacted when it grows too
+                    // large for the context window.
+                    this.transcript.push(
+                      ...filterToApiMessages(turnInput),
+                      ...filterToApiMessages(
+                        event.response.output.map(stripInternalFields),
+                      ),
+                    );
+                  }
+
                   if (this.disableResponseStorage) {
                     // 1) Append the freshly emitted output to our local
                     //    transcript (minus non‑message items the model does
@@ -1201,6 +1969,15 @@ export class AgentLoop {
                 }
                 lastResponseId = event.response.id;
                 this.onLastResponseId(event.response.id);
+                if (event.response.usage) {
+                  this.lastContextTokens = event.response.usage.total_tokens;
+                  this.usage.record(this.model, event.response.usage);
+                  this.budget?.recordResponse(
+                    this.model,
+                    event.response.usage,
+                  );
+                  this.onUsage?.(event.response.usage);
+                }
               }
             }
 
@@ -1266,11 +2043,7 @@ export class AgentLoop {
                   ? (params: ResponseCreateParams) =>
                       this.oai.responses.create(params)
                   : (params: ResponseCreateParams) =>
-                      responsesCreateViaChatCompletions(
-                        this.oai,
-                        params as ResponseCreateParams & { stream: true },
-                        this.config,
-                      );
+                      createResponseStream(this.oai, params, this.config);
 
               log(
                 "agentLoop.run(): responseCall(1): turnInput: " +
@@ -1645,6 +2418,9 @@ export class AgentLoop {
     }
 
     const turnInput: Array<ResponseInputItem> = [];
+    // Text of the last assistant message, which usually explains the tool
+    // calls that follow it; used for commit messages in a git session.
+    let explanation: string | undefined;
 
     for (const item of output) {
       // Emit all items to the UI as they come.
@@ -1656,6 +2432,11 @@ export class AgentLoop {
         // and 'tool' role messages (which are tool outputs from server-side execution
         // like web_search_preview) to turnInput for the next LLM call.
         turnInput.push(item);
+        if (item.role === "assistant" && Array.isArray(item.content)) {
+          explanation = (item.content as Array<{ type: string; text?: string }>)
+            .map((c) => (c.type === "output_text" ? (c.text ?? "") : ""))
+            .join("");
+        }
       } else if (item.type === "function_call") {
         // This is a request from the LLM to call a client-side function.
         // We need to execute it and add its output to turnInput.
@@ -1663,7 +2444,7 @@ export class AgentLoop {
           alreadyProcessedResponses.add(item.id);
           // handleFunctionCall executes the function and returns its output(s).
           // eslint-disable-next-line no-await-in-loop
-          const result = await this.handleFunctionCall(item);
+          const result = await this.handleFunctionCall(item, explanation);
           turnInput.push(...result);
           // Emit the result items (e.g., function_call_output) to UI as well.
           for (const resultItem of result) {
@@ -1676,7 +2457,7 @@ export class AgentLoop {
         if (shellId && !alreadyProcessedResponses.has(shellId)) {
           alreadyProcessedResponses.add(shellId);
           // eslint-disable-next-line no-await-in-loop
-          const result = await this.handleLocalShellCall(item);
+          const result = await this.handleLocalShellCall(item, explanation);
           turnInput.push(...result);
           // Emit the result items to UI.
           for (const resultItem of result) {
@@ -0,0 +1,404 @@
+import type { ChildProcess } from "child_process";
+
+import { log } from "../logger/log.js";
+import { TerminalScreen } from "../terminal-screen.js";
+import { spawn } from "child_process";
+import os from "os";
+import { quote } from "shell-quote";
+import stripAnsi from "strip-ansi";
+
+/** Unread output kept per process; the oldest output is dropped first. */
+const MAX_UNREAD_OUTPUT = 256 * 1024;
+
+/** How long `read` may wait for new output. */
+export const MAX_READ_WAIT_MS = 30_000;
+
+/** Time between SIGTERM and SIGKILL when stopping a process. */
+const KILL_GRACE_MS = 2_000;
+
+/** Size of the terminal that processes started with `tty` run in. */
+export const PTY_COLUMNS = 80;
+export const PTY_ROWS = 24;
+
+/** What the keys that `write` accepts by name send to a terminal. */
+const KEY_SEQUENCES: Record<string, string> = {
+  Enter: "\r",
+  Tab: "\t",
+  Escape: "\x1b",
+  Backspace: "\x7f",
+  Delete: "\x1b[3~",
+  Space: " ",
+  Up: "\x1b[A",
+  Down: "\x1b[B",
+  Right: "\x1b[C",
+  Left: "\x1b[D",
+  Home: "\x1b[H",
+  End: "\x1b[F",
+  PageUp: "\x1b[5~",
+  PageDown: "\x1b[6~",
+};
+
+/**
+ * Translate key names such as `Enter`, `Up` or `Ctrl-C` to the input a
+ * terminal sends for them.
+ */
+export function keysToInput(keys: ReadonlyArray<string>): string {
+  return keys
+    .map((key) => {
+      const ctrl = /^Ctrl-([A-Za-z])$/.exec(key);
+      if (ctrl) {
+        return String.fromCharCode(ctrl[1]!.toUpperCase().charCodeAt(0) - 64);
+      }
+      const sequence = KEY_SEQUENCES[key];
+      if (sequence === undefined) {
+        throw new Error(
+          `unknown key '${key}', use one of ${Object.keys(KEY_SEQUENCES).join(
+            ", ",
+          )} or Ctrl-<letter>`,
+        );
+      }
+      return sequence;
+    })
+    .join("");
+}
+
+export type BackgroundProcessInfo = {
+  /** Handle used by the model, e.g. `bg-1`. */
+  id: string;
+  command: Array<string>;
+  workdir: string;
+  pid: number | undefined;
+  startedAt: number;
+  /** `null` while the process is running. */
+  exitCode: number | null;
+  /** The last line of output, for the process panel. */
+  lastLine: string;
+  /** Whether the process runs in a pseudo-terminal. */
+  tty: boolean;
+};
+
+export type BackgroundProcessOutput = {
+  /** stdout and stderr produced since the previous read, interleaved. */
+  output: string;
+  running: boolean;
+  exitCode: number | null;
+  /** Unread output that was dropped because too much of it piled up. */
+  droppedChars: number;
+};
+
+type Entry = {
+  info: BackgroundProcessInfo;
+  child: ChildProcess;
+  /** Set for processes that run in a pseudo-terminal. */
+  screen: TerminalScreen | null;
+  unread: string;
+  droppedChars: number;
+  /** Resolved (and replaced) whenever there is new output or the exit. */
+  changed: Promise<void>;
+  notifyChanged: () => void;
+};
+
+/**
+ * The long-running processes (dev servers, watchers, databases) that the
+ * model started with the `background_process` tool. Unlike commands run with
+ * `exec()` they are not waited for: the model reads their output
+ * incrementally, writes to their stdin and stops them when it is done.
+ *
+ * With `tty` the process runs in a pseudo-terminal (created by `script(1)`,
+ * so no native module is needed) for programs that only work interactively
+ * or behave differently without a terminal. Its output is also applied to a
+ * `TerminalScreen`, which shows what a user would see.
+ *
+ * Each process runs in its own process group so that stopping it also stops
+ * its children. Whatever is still running is stopped by `killAll()`, which
+ * `AgentLoop.terminate()` calls, or when the CLI exits.
+ */
+export class BackgroundProcesses {
+  private readonly entries = new Map<string, Entry>();
+  private readonly listeners = new Set<() => void>();
+  private nextId = 1;
+
+  start(
+    command: Array<string>,
+    {
+      workdir,
+      shell = false,
+      tty = false,
+    }: { workdir?: string; shell?: boolean; tty?: boolean } = {},
+  ): BackgroundProcessInfo {
+    if (command.length === 0) {
+      throw new Error("command must not be empty");
+    }
+    const [program, ...args] = tty ? ptyCommand(command, shell) : command;
+    const cwd = workdir ?? process.cwd();
+    const child = spawn(program!, args, {
+      cwd,
+      shell: shell && !tty,
+      env: tty
+        ? {
+            ...process.env,
+            TERM: "xterm-256color",
+            COLUMNS: String(PTY_COLUMNS),
+            LINES: String(PTY_ROWS),
+          }
+        : process.env,
+      // A process group of its own, see `signal()`.
+      detached: process.platform !== "win32",
+      stdio: ["pipe", "pipe", "pipe"],
+    });
+
+    const id = `bg-${this.nextId++}`;
+    const entry: Entry = {
+      info: {
+        id,
+        command,
+        workdir: cwd,
+        pid: child.pid,
+        startedAt: Date.now(),
+        exitCode: null,
+        lastLine: "",
+        tty,
+      },
+      child,
+      screen: tty ? new TerminalScreen(PTY_COLUMNS, PTY_ROWS) : null,
+      unread: "",
+      droppedChars: 0,
+      changed: Promise.resolve(),
+      notifyChanged: () => {},
+    };
+    this.resetChanged(entry);
+    this.entries.set(id, entry);
+    if (this.entries.size === 1) {
+      process.on("exit", this.killAllOnExit);
+    }
+
+    const onOutput = (chunk: Buffer) => this.append(entry, chunk.toString());
+    child.stdout?.on("data", onOutput);
+    child.stderr?.on("data", onOutput);
+    // Writing to a process that already exited must not crash the CLI.
+    child.stdin?.on("error", () => {});
+    child.on("error", (err) => {
+      this.append(entry, `${err.message}\n`);
+      this.exited(entry, 127);
+    });
+    child.on("exit", (code, signal) => {
+      this.exited(
+        entry,
+        code ?? 128 + (signal ? os.constants.signals[signal] : 0),
+      );
+    });
+
+    log(`BackgroundProcesses: started ${id} (pid ${String(child.pid)})`);
+    this.emit();
+    return { ...entry.info };
+  }
+
+  /**
+   * The output produced since the previous read. When there is none yet and
+   * the process is running, waits up to `waitMs` for output or the exit.
+   */
+  async read(
+    id: string,
+    waitMs = 0,
+    abortSignal?: AbortSignal,
+  ): Promise<BackgroundProcessOutput> {
+    const entry = this.get(id);
+    if (entry.unread === "" && entry.info.exitCode === null && waitMs > 0) {
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      let onAbort: (() => void) | undefined;
+      await Promise.race([
+        entry.changed,
+        new Promise<void>((resolve) => {
+          timer = setTimeout(resolve, Math.min(waitMs, MAX_READ_WAIT_MS));
+          onAbort = resolve;
+          abortSignal?.addEventListener("abort", onAbort, { once: true });
+        }),
+      ]);
+      clearTimeout(timer);
+      if (onAbort) {
+        abortSignal?.removeEventListener("abort", onAbort);
+      }
+    }
+
+    const result: BackgroundProcessOutput = {
+      output: entry.unread,
+      running: entry.info.exitCode === null,
+      exitCode: entry.info.exitCode,
+      droppedChars: entry.droppedChars,
+    };
+    entry.unread = "";
+    entry.droppedChars = 0;
+    return result;
+  }
+
+  /** What the terminal of a process started with `tty` shows. */
+  screen(id: string): { text: string; cursor: { row: number; col: number } } {
+    const { screen } = this.get(id);
+    if (!screen) {
+      throw new Error(`${id} was not started with tty`);
+    }
+    return { text: screen.text(), cursor: screen.cursor() };
+  }
+
+  /** The screen lines of a process started with `tty`, for the UI. */
+  screenLines(id: string): Array<string> {
+    return this.get(id).screen?.lines() ?? [];
+  }
+
+  /** Send `input` to the stdin of the process. */
+  write(id: string, input: string): void {
+    const entry = this.get(id);
+    const { stdin } = entry.child;
+    if (entry.info.exitCode !== null || !stdin || stdin.destroyed) {
+      throw new Error(`${id} is not running`);
+    }
+    stdin.write(input);
+  }
+
+  /**
+   * Stop the process and its children: SIGTERM first, SIGKILL when it is
+   * still running after a grace period. Resolves once it exited.
+   */
+  async kill(id: string): Promise<BackgroundProcessInfo> {
+    const entry = this.get(id);
+    if (entry.info.exitCode === null) {
+      const exited = new Promise<void>((resolve) =>
+        entry.child.once("exit", () => resolve()),
+      );
+      this.signal(entry, "SIGTERM");
+      const timer = setTimeout(
+        () => this.signal(entry, "SIGKILL"),
+        KILL_GRACE_MS,
+      );
+      await exited;
+      clearTimeout(timer);
+    }
+    return { ...entry.info };
+  }
+
+  /** Stop every process that is still running, without waiting. */
+  killAll(): void {
+    process.off("exit", this.killAllOnExit);
+    const running = [...this.entries.values()].filter(
+      (entry) => entry.info.exitCode === null,
+    );
+    for (const entry of running) {
+      this.signal(entry, "SIGTERM");
+    }
+    if (running.length > 0) {
+      setTimeout(() => {
+        for (const entry of running) {
+          if (entry.info.exitCode === null) {
+            this.signal(entry, "SIGKILL");
+          }
+        }
+      }, KILL_GRACE_MS).unref();
+    }
+  }
+
+  list(): Array<BackgroundProcessInfo> {
+    return [...this.entries.values()].map((entry) => ({ ...entry.info }));
+  }
+
+  /** Call `listener` when a process starts, prints or exits. */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private readonly killAllOnExit = (): void => {
+    for (const entry of this.entries.values()) {
+      if (entry.info.exitCode === null) {
+        this.signal(entry, "SIGKILL");
+      }
+    }
+  };
+
+  private get(id: string): Entry {
+    const entry = this.entries.get(id);
+    if (!entry) {
+      throw new Error(`no background process with id '${id}'`);
+    }
+    return entry;
+  }
+
+  private signal(entry: Entry, signal: NodeJS.Signals): void {
+    const { pid } = entry.child;
+    try {
+      if (pid !== undefined && process.platform !== "win32") {
+        process.kill(-pid, signal);
+      } else {
+        entry.child.kill(signal);
+      }
+    } catch {
+      // Already gone.
+    }
+  }
+
+  private append(entry: Entry, data: string): void {
+    let text = data;
+    if (entry.screen) {
+      entry.screen.write(data);
+      text = stripAnsi(data).replace(/\r+\n/g, "\n");
+    }
+    entry.unread += text;
+    const excess = entry.unread.length - MAX_UNREAD_OUTPUT;
+    if (excess > 0) {
+      entry.unread = entry.unread.slice(excess);
+      entry.droppedChars += excess;
+    }
+    const lines = text.split(/[\r\n]+/).filter((line) => line.trim() !== "");
+    entry.info.lastLine = lines.at(-1) ?? entry.info.lastLine;
+    this.changed(entry);
+  }
+
+  private exited(entry: Entry, exitCode: number): void {
+    if (entry.info.exitCode !== null) {
+      return;
+    }
+    entry.info.exitCode = exitCode;
+    log(`BackgroundProcesses: ${entry.info.id} exited with ${exitCode}`);
+    this.changed(entry);
+  }
+
+  private changed(entry: Entry): void {
+    entry.notifyChanged();
+    this.resetChanged(entry);
+    this.emit();
+  }
+
+  private resetChanged(entry: Entry): void {
+    entry.changed = new Promise((resolve) => {
+      entry.notifyChanged = resolve;
+    });
+  }
+
+  private emit(): void {
+    for (const listener of this.listeners) {
+      listener();
+    }
+  }
+}
+
+/**
+ * Wrap `command` with `script(1)`, which runs it in a new pseudo-terminal and
+ * relays the terminal to its own stdin and stdout. The terminal starts out
+ * without a size, so it is set first.
+ */
+function ptyCommand(command: Array<string>, shell: boolean): Array<string> {
+  const setSize = `stty cols ${PTY_COLUMNS} rows ${PTY_ROWS} 2>/dev/null`;
+  const script = shell ? command.join(" ") : `exec ${quote(command)}`;
+  switch (process.platform) {
+    case "linux":
+      // -e: exit with the exit code of the command, -f: do not buffer.
+      return ["script", "-qefc", `${setSize}; ${script}`, "/dev/null"];
+    case "darwin":
+    case "freebsd":
+    case "openbsd":
+      return ["script", "-q", "/dev/null", "sh", "-c", `${setSize}; ${script}`];
+    default:
+      throw new Error(`tty is not supported on ${process.platform}`);
+  }
+}
@@ -0,0 +1,357 @@
+import { identify_files_added, identify_files_needed } from "./apply-patch.js";
+import { resolvePathAgainstWorkdir } from "../../approvals.js";
+import { MOVE_FILE_TO_PREFIX } from "../../parse-apply-patch.js";
+import { log } from "../logger/log.js";
+import fs from "fs";
+import path from "path";
+
+/**
+ * The content a file had before a checkpointed change. `before === null`
+ * means the file did not exist, so restoring the checkpoint deletes it.
+ */
+export type CheckpointFile = {
+  path: string;
+  before: Buffer | null;
+};
+
+export type Checkpoint = {
+  id: number;
+  createdAt: number;
+  /** What produced the change, e.g. `apply_patch` or the command line. */
+  description: string;
+  /**
+   * Label set via `/checkpoints <name>`. Named checkpoints are markers: they
+   * carry no files and only record a point that can be restored to.
+   */
+  name?: string;
+  files: Array<CheckpointFile>;
+};
+
+export type RestoreResult = {
+  /** Checkpoints that were rolled back, most recent first. */
+  reverted: Array<Checkpoint>;
+  /** Every file that was written or deleted, in the order it happened. */
+  files: Array<string>;
+};
+
+// Limits for snapshotting a whole directory tree before a sandboxed command.
+// Files beyond the byte limits are still diffed (by size and mtime) but
+// cannot be restored. In a tree with more than `MAX_TREE_FILES` files, only
+// the captured ones are diffed and created files are not recorded at all.
+// We log when either happens.
+const IGNORED_DIRECTORIES = new Set([".git", "node_modules"]);
+export const MAX_TREE_FILES = 5_000;
+const MAX_FILE_BYTES = 1024 * 1024;
+const MAX_TREE_BYTES = 64 * 1024 * 1024;
+
+type TreeEntry = {
+  mtimeMs: number;
+  size: number;
+  /** `undefined` when the file was too large to keep a copy of. */
+  content?: Buffer;
+};
+
+/** Snapshot of a directory tree taken by `CheckpointStore.captureTree()`. */
+export type TreeCapture = {
+  root: string;
+  entries: Map<string, TreeEntry>;
+  /** Whether the tree had more than `MAX_TREE_FILES` files. */
+  truncated: boolean;
+};
+
+/**
+ * Session-scoped history of the file changes made by the agent. Unlike
+ * `/diff` this does not depend on git: every checkpoint keeps a copy of the
+ * affected files from just before the change, so the changes can be rolled
+ * back in reverse order.
+ */
+export class CheckpointStore {
+  private checkpoints: Array<Checkpoint> = [];
+  private nextId = 1;
+  /** Last known state of every captured file, so unchanged files are not re-read. */
+  private treeCache = new Map<string, TreeEntry>();
+
+  list(): ReadonlyArray<Checkpoint> {
+    return this.checkpoints;
+  }
+
+  clear(): void {
+    this.checkpoints = [];
+    this.treeCache.clear();
+  }
+
+  /** Read the current content of `paths` (absolute), to be passed to `record()`. */
+  snapshotFiles(paths: Iterable<string>): Array<CheckpointFile> {
+    const files: Array<CheckpointFile> = [];
+    for (const p of new Set(paths)) {
+      files.push({ path: p, before: readFileOrNull(p) });
+    }
+    return files;
+  }
+
+  /**
+   * Record the files in `snapshot` that have changed since it was taken.
+   * Returns `undefined` when nothing changed.
+   */
+  record(
+    description: string,
+    snapshot: Array<CheckpointFile>,
+  ): Checkpoint | undefined {
+    const files = snapshot.filter(({ path: p, before }) => {
+      const after = readFileOrNull(p);
+      return after === null || before === null
+        ? after !== before
+        : !after.equals(before);
+    });
+    return this.push({ description, files });
+  }
+
+  /**
+   * Remember the state of every file below `root`. Used before commands whose
+   * writes cannot be predicted; pass the result to `recordTree()` afterwards.
+   */
+  async captureTree(root: string): Promise<TreeCapture> {
+    const entries = new Map<string, TreeEntry>();
+    let totalBytes = 0;
+    const { files, truncated } = await walkTree(root);
+    if (truncated) {
+      log(
+        `checkpoints: ${root} has more than ${MAX_TREE_FILES} files, too many to checkpoint; files created by the command will not be recorded`,
+      );
+    }
+    for (const [p, stat] of files) {
+      const cached = this.treeCache.get(p);
+      let entry: TreeEntry;
+      if (
+        cached &&
+        cached.mtimeMs === stat.mtimeMs &&
+        cached.size === stat.size
+      ) {
+        entry = cached;
+      } else {
+        entry = { mtimeMs: stat.mtimeMs, size: stat.size };
+        if (
+          stat.size <= MAX_FILE_BYTES &&
+          totalBytes + stat.size <= MAX_TREE_BYTES
+        ) {
+          entry.content = (await readFileOrNullAsync(p)) ?? undefined;
+        }
+      }
+      totalBytes += entry.content?.length ?? 0;
+      entries.set(p, entry);
+    }
+    this.treeCache = entries;
+    return { root, entries, truncated };
+  }
+
+  /**
+   * Record the files below `capture.root` that changed since `captureTree()`.
+   * Only the captured files are compared. Files created since are recorded
+   * only when the capture covered the whole tree: otherwise they cannot be
+   * told apart from files the capture never reached.
+   */
+  async recordTree(
+    description: string,
+    capture: TreeCapture,
+  ): Promise<Checkpoint | undefined> {
+    const files: Array<CheckpointFile> = [];
+    const unrestorable: Array<string> = [];
+    for (const [p, entry] of capture.entries) {
+      const stat = await fs.promises.stat(p).catch(() => undefined);
+      if (stat && stat.mtimeMs === entry.mtimeMs && stat.size === entry.size) {
+        continue;
+      }
+      if (entry.content === undefined) {
+        unrestorable.push(p);
+      } else {
+        files.push({ path: p, before: entry.content });
+      }
+    }
+    if (!capture.truncated) {
+      const { files: after } = await walkTree(capture.root);
+      for (const p of after.keys()) {
+        if (!capture.entries.has(p)) {
+          files.push({ path: p, before: null });
+        }
+      }
+    }
+    if (unrestorable.length > 0) {
+      log(
+        `checkpoints: ${unrestorable.length} changed file(s) were too large to snapshot: ${unrestorable.join(", ")}`,
+      );
+    }
+    return this.push({ description, files });
+  }
+
+  /** Add a named marker for the current state of the working tree. */
+  mark(name: string): Checkpoint {
+    return this.push({ description: `checkpoint "${name}"`, name, files: [] })!;
+  }
+
+  /** Roll back the most recent `count` checkpoints that changed files. */
+  undo(count = 1): RestoreResult {
+    let index = this.checkpoints.length;
+    let remaining = count;
+    while (index > 0 && remaining > 0) {
+      index -= 1;
+      if (this.checkpoints[index]!.files.length > 0) {
+        remaining -= 1;
+      }
+    }
+    return this.restoreFrom(index);
+  }
+
+  /**
+   * Roll back every change recorded after the checkpoint named `target` (or
+   * with id `target`, optionally written as `#<id>`). Returns `undefined` if
+   * no such checkpoint exists.
+   */
+  restoreTo(target: string): RestoreResult | undefined {
+    const id = /^#?\d+$/.test(target) ? Number(target.replace("#", "")) : NaN;
+    for (let i = this.checkpoints.length - 1; i >= 0; i--) {
+      const checkpoint = this.checkpoints[i]!;
+      if (checkpoint.name === target || checkpoint.id === id) {
+        return this.restoreFrom(i + 1);
+      }
+    }
+    return undefined;
+  }
+
+  private push(
+    checkpoint: Omit<Checkpoint, "id" | "createdAt">,
+  ): Checkpoint | undefined {
+    if (checkpoint.files.length === 0 && checkpoint.name === undefined) {
+      return undefined;
+    }
+    const created = { id: this.nextId++, createdAt: Date.now(), ...checkpoint };
+    this.checkpoints.push(created);
+    return created;
+  }
+
+  private restoreFrom(index: number): RestoreResult {
+    const reverted = this.checkpoints.splice(index).reverse();
+    const files: Array<string> = [];
+    for (const checkpoint of reverted) {
+      for (const { path: p, before } of checkpoint.files) {
+        if (before === null) {
+          fs.rmSync(p, { force: true });
+        } else {
+          fs.mkdirSync(path.dirname(p), { recursive: true });
+          fs.writeFileSync(p, before);
+        }
+        this.treeCache.delete(p);
+        files.push(p);
+      }
+    }
+    return { reverted: reverted.filter((c) => c.files.length > 0), files };
+  }
+}
+
+/** The store used by the agent for the lifetime of the CLI process. */
+export const defaultCheckpointStore = new CheckpointStore();
+
+/**
+ * Absolute paths of every file `patch` creates, modifies, moves or deletes.
+ */
+export function filesTouchedByPatch(
+  patch: string,
+  workdir: string | undefined,
+): Array<string> {
+  const moved = patch
+    .split("\n")
+    .filter((line) => line.startsWith(MOVE_FILE_TO_PREFIX))
+    .map((line) => line.slice(MOVE_FILE_TO_PREFIX.length));
+  return [
+    ...identify_files_needed(patch),
+    ...identify_files_added(patch),
+    ...moved,
+  ].map((p) => resolvePathAgainstWorkdir(p, workdir));
+}
+
+/**
+ * Describe a rollback for the model, so it does not assume its earlier
+ * edits are still in place.
+ */
+export function describeRestore(result: RestoreResult, cwd: string): string {
+  const files = [...new Set(result.files)].map(
+    (p) => path.relative(cwd, p) || p,
+  );
+  const changes = result.reverted
+    .map((c) => `#${c.id} ${c.description}`)
+    .join("; ");
+  return `The user rolled back ${result.reverted.length} of your earlier change(s) (${changes}). These files were restored to their previous contents: ${files.join(", ")}. Re-read them before editing them again.`;
+}
+
+/** One line per checkpoint, oldest first, for `/checkpoints`. */
+export function formatCheckpointList(
+  checkpoints: ReadonlyArray<Checkpoint>,
+  cwd: string,
+): string {
+  if (checkpoints.length === 0) {
+    return "No checkpoints yet.";
+  }
+  return checkpoints
+    .map((c) => {
+      const time = new Date(c.createdAt).toLocaleTimeString();
+      if (c.name !== undefined) {
+        return `#${c.id}  ${time}  📌 ${c.name}`;
+      }
+      const files = c.files.map((f) => path.relative(cwd, f.path) || f.path);
+      return `#${c.id}  ${time}  ${c.description} (${files.join(", ")})`;
+    })
+    .join("\n");
+}
+
+function readFileOrNull(p: string): Buffer | null {
+  try {
+    return fs.readFileSync(p);
+  } catch {
+    return null;
+  }
+}
+
+async function readFileOrNullAsync(p: string): Promise<Buffer | null> {
+  try {
+    return await fs.promises.readFile(p);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Stat the files below `root`, up to `MAX_TREE_FILES` of them. Asynchronous
+ * so that walking a large tree does not freeze the UI.
+ */
+async function walkTree(
+  root: string,
+): Promise<{ files: Map<string, fs.Stats>; truncated: boolean }> {
+  const files = new Map<string, fs.Stats>();
+  const pending = [root];
+  while (pending.length > 0) {
+    const dir = pending.pop()!;
+    let names: Array<fs.Dirent>;
+    try {
+      names = await fs.promises.readdir(dir, { withFileTypes: true });
+    } catch {
+      continue;
+    }
+    for (const dirent of names) {
+      const p = path.join(dir, dirent.name);
+      if (dirent.isDirectory()) {
+        if (!IGNORED_DIRECTORIES.has(dirent.name)) {
+          pending.push(p);
+        }
+      } else if (dirent.isFile()) {
+        if (files.size >= MAX_TREE_FILES) {
+          return { files, truncated: true };
+        }
+        try {
+          files.set(p, await fs.promises.stat(p));
+        } catch {
+          // Deleted while we were walking.
+        }
+      }
+    }
+  }
+  return { files, truncated: false };
+}
@@ -0,0 +1,95 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import readline from "readline";
+
+/** Lines returned by `read()` unless asked for fewer. */
+export const DEFAULT_READ_LINES = 200;
+/** The most lines `read()` returns at once. */
+export const MAX_READ_LINES = 1000;
+/** Longer lines are cut when read, minified files would blow up the page. */
+const MAX_LINE_LENGTH = 1000;
+
+export type OutputPage = {
+  /** The lines, each prefixed with its line number. */
+  text: string;
+  totalLines: number;
+};
+
+/**
+ * Complete output of the commands whose output was truncated for the model,
+ * kept on disk so that the model can page through it with the `read_output`
+ * tool. Outputs are identified as `out-1`, `out-2`, ... and deleted when the
+ * process exits.
+ */
+export class CommandOutputStore {
+  private dir: string | null = null;
+  private nextId = 1;
+  private readonly paths = new Map<string, string>();
+
+  constructor(private readonly root: string = os.tmpdir()) {}
+
+  /** Reserve a file for an output and return its id and path. */
+  allocate(): { id: string; path: string } {
+    if (!this.dir) {
+      this.dir = fs.mkdtempSync(path.join(this.root, "codex-output-"));
+      const dir = this.dir;
+      process.once("exit", () => {
+        fs.rmSync(dir, { recursive: true, force: true });
+      });
+    }
+    const id = `out-${this.nextId++}`;
+    const file = path.join(this.dir, `${id}.log`);
+    this.paths.set(id, file);
+    return { id, path: file };
+  }
+
+  /**
+   * The lines of output `id` from line `offset` (1-based) on, or, with
+   * `pattern`, the lines from there on that match the regular expression.
+   */
+  async read(
+    id: string,
+    {
+      offset = 1,
+      limit = DEFAULT_READ_LINES,
+      pattern,
+    }: { offset?: number; limit?: number; pattern?: string } = {},
+  ): Promise<OutputPage> {
+    const file = this.paths.get(id);
+    if (!file || !fs.existsSync(file)) {
+      throw new Error(`no output with id '${id}'`);
+    }
+    const regex = pattern !== undefined ? new RegExp(pattern) : undefined;
+    const count = Math.min(Math.max(1, Math.floor(limit)), MAX_READ_LINES);
+    const first = Math.max(1, Math.floor(offset));
+
+    const lines: Array<string> = [];
+    let totalLines = 0;
+    const input = fs.createReadStream(file, { encoding: "utf8" });
+    // Keep counting after the page is full: the total tells the model how
+    // much is left.
+    for await (const line of readline.createInterface({
+      input,
+      crlfDelay: Infinity,
+    })) {
+      totalLines += 1;
+      if (
+        totalLines >= first &&
+        lines.length < count &&
+        (!regex || regex.test(line))
+      ) {
+        const shown =
+          line.length > MAX_LINE_LENGTH
+            ? `${line.slice(0, MAX_LINE_LENGTH)} [... ${
+                line.length - MAX_LINE_LENGTH
+              } more characters]`
+            : line;
+        lines.push(`${totalLines}: ${shown}`);
+      }
+    }
+    return { text: lines.join("\n"), totalLines };
+  }
+}
+
+export const defaultCommandOutputStore = new CommandOutputStore();
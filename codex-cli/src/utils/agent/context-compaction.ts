@@ -0,0 +1,147 @@
+import type { AppConfig } from "../config.js";
+import type {
+  ResponseInputItem,
+  ResponseItem,
+} from "openai/resources/responses/responses.mjs";
+
+import { approximateTokensUsed } from "../approximate-tokens-used.js";
+import { generateCompactSummary } from "../compact-summary.js";
+import { maxTokensForModel } from "../model-utils.js";
+
+/** Compact once less than this percentage of the context window is left. */
+export const DEFAULT_AUTO_COMPACT_THRESHOLD = 20;
+
+/** Share of the context window that is kept verbatim when compacting. */
+const RECENT_CONTEXT_SHARE = 0.3;
+
+export const COMPACTED_SUMMARY_PREFIX =
+  "Summary of the earlier conversation (older turns were compacted to fit the context window):";
+
+type Summarize = typeof generateCompactSummary;
+
+/**
+ * Whether a conversation of `usedTokens` tokens should be compacted before
+ * the next request, according to `config.autoCompact`.
+ */
+export function shouldAutoCompact(
+  usedTokens: number,
+  model: string,
+  config: Pick<AppConfig, "autoCompact">,
+): boolean {
+  const { enabled = true, threshold = DEFAULT_AUTO_COMPACT_THRESHOLD } =
+    config.autoCompact ?? {};
+  if (!enabled) {
+    return false;
+  }
+  const max = maxTokensForModel(model);
+  const percentRemaining = (Math.max(0, max - usedTokens) / max) * 100;
+  return percentRemaining < threshold;
+}
+
+const isToolCall = (item: ResponseInputItem): boolean =>
+  item.type === "function_call" || item.type === "local_shell_call";
+
+const isToolOutput = (item: ResponseInputItem): boolean =>
+  item.type === "function_call_output" ||
+  item.type === "local_shell_call_output";
+
+const callIdOf = (item: ResponseInputItem): string | undefined =>
+  (item as { call_id?: string }).call_id;
+
+/**
+ * Index at which `items` is split into older items to summarize and recent
+ * items to keep verbatim: as many trailing items as fit into `keepTokens`
+ * (counted with the tokenizer of `model`), but never more than the items
+ * before `maxIndex`. The cut is moved back to
+ * the earliest call whose output is kept (matched by `call_id`, as parallel
+ * calls come before all their outputs), so a tool output always stays with
+ * the call that produced it. Returns 0 if there is nothing to summarize.
+ */
+export function findCompactionCut(
+  items: ReadonlyArray<ResponseInputItem>,
+  keepTokens: number,
+  maxIndex: number = items.length,
+  model?: string,
+): number {
+  let cut = items.length;
+  let kept = 0;
+  for (let i = items.length - 1; i >= 0; i--) {
+    kept += approximateTokensUsed([items[i] as ResponseItem], model);
+    if (kept > keepTokens) {
+      break;
+    }
+    cut = i;
+  }
+  cut = Math.min(cut, maxIndex);
+
+  const callIndex = new Map<string, number>();
+  items.forEach((item, i) => {
+    const id = callIdOf(item);
+    if (isToolCall(item) && id !== undefined && !callIndex.has(id)) {
+      callIndex.set(id, i);
+    }
+  });
+  // Kept outputs are scanned from the end, so outputs that the cut uncovers
+  // while moving back are checked as well.
+  for (let i = items.length - 1; i >= cut; i--) {
+    const item = items[i]!;
+    if (!isToolOutput(item)) {
+      continue;
+    }
+    const id = callIdOf(item);
+    const callAt = id === undefined ? undefined : callIndex.get(id);
+    if (callAt !== undefined && callAt < cut) {
+      cut = callAt;
+    } else if (callAt === undefined && i === cut && cut > 0) {
+      // An output without a known call: keep the item before it as well.
+      cut -= 1;
+    }
+  }
+  return cut;
+}
+
+/**
+ * Replace the older part of `items` with a model-generated summary, keeping
+ * the most recent turns (including their tool outputs) verbatim. Returns
+ * `undefined` when there is nothing old enough to summarize.
+ */
+export async function compactConversation(
+  items: ReadonlyArray<ResponseInputItem>,
+  {
+    model,
+    config,
+    maxIndex,
+    summarize = generateCompactSummary,
+  }: {
+    model: string;
+    config: AppConfig;
+    /** Items from this index on must be kept verbatim. */
+    maxIndex?: number;
+    summarize?: Summarize;
+  },
+): Promise<Array<ResponseInputItem> | undefined> {
+  const keepTokens = maxTokensForModel(model) * RECENT_CONTEXT_SHARE;
+  const cut = findCompactionCut(items, keepTokens, maxIndex, model);
+  if (cut === 0) {
+    return undefined;
+  }
+  const summary = await summarize(
+    items.slice(0, cut) as Array<ResponseItem>,
+    model,
+    Boolean(config.flexMode),
+    config,
+  );
+  return [
+    {
+      type: "message",
+      role: "user",
+      content: [
+        {
+          type: "input_text",
+          text: `${COMPACTED_SUMMARY_PREFIX}\n\n${summary}`,
+        },
+      ],
+    },
+    ...items.slice(cut),
+  ];
+}
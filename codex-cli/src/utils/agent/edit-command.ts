@@ -0,0 +1,85 @@
+import { formatCommandForDisplay } from "../../format-command.js";
+import { parse, quote } from "shell-quote";
+
+/** Shells the model wraps commands in, e.g. `["bash", "-lc", "…"]`. */
+const SHELL_WRAPPERS = new Set(["bash", "sh", "zsh"]);
+
+function isApplyPatch(command: Array<string>): boolean {
+  return command.length === 2 && command[0] === "apply_patch";
+}
+
+function isShellWrapped(command: Array<string>): boolean {
+  return (
+    command.length === 3 &&
+    SHELL_WRAPPERS.has(command[0]!) &&
+    /^-l?c$/.test(command[1]!)
+  );
+}
+
+/**
+ * The text to edit for `command`: the patch of an `apply_patch` call, the
+ * script of a shell invocation, or else the quoted command line. The
+ * extension lets the editor pick the right syntax.
+ */
+export function commandToEditableText(command: Array<string>): {
+  text: string;
+  extension: string;
+} {
+  if (isApplyPatch(command)) {
+    return { text: command[1]!, extension: ".patch" };
+  }
+  if (isShellWrapped(command)) {
+    return { text: command[2]! + "\n", extension: ".sh" };
+  }
+  return { text: quote(command) + "\n", extension: ".sh" };
+}
+
+/**
+ * Turns the edited text back into a command of the same shape as `original`.
+ * A command line that needs a shell (pipes, redirects, variables, …) is run
+ * with `bash -lc`. Returns `undefined` when the text is empty.
+ */
+export function editableTextToCommand(
+  text: string,
+  original: Array<string>,
+): Array<string> | undefined {
+  const trimmed = text.trim();
+  if (trimmed === "") {
+    return undefined;
+  }
+  if (isApplyPatch(original)) {
+    return ["apply_patch", trimmed];
+  }
+  if (isShellWrapped(original)) {
+    return [original[0]!, original[1]!, trimmed];
+  }
+  // `parse()` would expand variables and substitutions to empty strings.
+  const args = /[$`]/.test(trimmed) ? [] : parse(trimmed);
+  const argv = args.filter((arg): arg is string => typeof arg === "string");
+  return argv.length > 0 && argv.length === args.length
+    ? argv
+    : ["bash", "-lc", trimmed];
+}
+
+/**
+ * What to tell the model about a command the user edited before approving
+ * it, so that it does not run the original one again.
+ */
+export function describeEditedCommand(
+  original: Array<string>,
+  edited: Array<string>,
+): string {
+  if (isApplyPatch(original) && isApplyPatch(edited)) {
+    return [
+      "The user edited your patch before approving it. This patch was applied instead:",
+      edited[1],
+      "Do not apply the original patch again.",
+    ].join("\n");
+  }
+  return [
+    "The user edited your command before approving it.",
+    `Original: ${formatCommandForDisplay(original)}`,
+    `Ran instead: ${formatCommandForDisplay(edited)}`,
+    "Do not run the original command again.",
+  ].join("\n");
+}
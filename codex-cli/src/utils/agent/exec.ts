@@ -1,9 +1,14 @@
 import type { AppConfig } from "../config.js";
-import type { ExecInput, ExecResult } from "./sandbox/interface.js";
+import type {
+  ExecInput,
+  ExecOutputListener,
+  ExecResult,
+} from "./sandbox/interface.js";
 import type { SpawnOptions } from "child_process";
 import type { ParseEntry } from "shell-quote";
 
 import { process_patch } from "./apply-patch.js";
+import { execInContainer } from "./sandbox/container.js";
 import { SandboxType } from "./sandbox/interface.js";
 import { execWithLandlock } from "./sandbox/landlock.js";
 import { execWithSeatbelt } from "./sandbox/macos-seatbelt.js";
@@ -165,6 +170,7 @@ export function exec(
   sandbox: SandboxType,
   config: AppConfig,
   abortSignal?: AbortSignal,
+  onOutput?: ExecOutputListener,
 ): Promise<ExecResult> {
   let commandToExecute = [...cmd]; // Clone to allow modification
   let isCdCommand = false;
@@ -192,7 +198,13 @@ export function exec(
   let executorPromise: Promise<ExecResult>;
   switch (sandbox) {
     case SandboxType.NONE: {
-      executorPromise = rawExec(commandToExecute, opts, config, abortSignal);
+      executorPromise = rawExec(
+        commandToExecute,
+        opts,
+        config,
+        abortSignal,
+        onOutput,
+      );
       break;
     }
     case SandboxType.MACOS_SEATBELT: {
@@ -207,6 +219,7 @@ export function exec(
         writableRoots,
         config,
         abortSignal,
+        onOutput,
       );
       break;
     }
@@ -217,6 +230,18 @@ export function exec(
         additionalWritableRoots,
         config,
         abortSignal,
+        onOutput,
+      );
+      break;
+    }
+    case SandboxType.CONTAINER: {
+      executorPromise = execInContainer(
+        commandToExecute,
+        opts,
+        additionalWritableRoots,
+        config,
+        abortSignal,
+        onOutput,
       );
       break;
     }
@@ -237,10 +262,11 @@ export function exec(
   });
 }
 
-export function execApplyPatch(
-  patchText: string,
-  workdir: string | undefined = undefined,
-): ExecResult {
+/**
+ * The patch text of an `apply_patch` call without the heredoc wrapping some
+ * models add, ending in `*** End Patch`.
+ */
+export function normalizeApplyPatchInput(patchText: string): string {
   // This find/replace is required from some models like 4.1 where the patch
   // text is wrapped in quotes that breaks the apply_patch command.
   let applyPatchInput = patchText
@@ -251,6 +277,14 @@ export function execApplyPatch(
   if (!applyPatchInput.endsWith(PATCH_SUFFIX)) {
     applyPatchInput += "\n" + PATCH_SUFFIX;
   }
+  return applyPatchInput;
+}
+
+export function execApplyPatch(
+  patchText: string,
+  workdir: string | undefined = undefined,
+): ExecResult {
+  const applyPatchInput = normalizeApplyPatchInput(patchText);
 
   log(`Applying patch: \`\`\`${applyPatchInput}\`\`\`\n\n`);
 
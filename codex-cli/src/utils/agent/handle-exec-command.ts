@@ -1,20 +1,39 @@
-import type { CommandConfirmation } from "./agent-loop.js";
+import type {
+  CommandConfirmation,
+  CommandConfirmationOptions,
+} from "./agent-loop.js";
 import type {
   ApplyPatchCommand,
   ApprovalPolicy,
   SafetyAssessment,
 } from "../../approvals.js";
-import type { ExecInput } from "./sandbox/interface.js";
+import type { BackgroundProcesses } from "./background-processes.js";
+import type { ExecInput, ExecOutputListener } from "./sandbox/interface.js";
 import type { ResponseInputItem } from "openai/resources/responses/responses.mjs";
 
 import { canAutoApprove } from "../../approvals.js";
 import { formatCommandForDisplay } from "../../format-command.js";
+import { FullAutoErrorMode } from "../auto-approval-mode.js";
 import { CODEX_UNSAFE_ALLOW_NO_SANDBOX, type AppConfig } from "../config.js";
-import { exec, execApplyPatch } from "./exec.js";
+import { defaultCheckpointStore, filesTouchedByPatch } from "./checkpoints.js";
+import { describeEditedCommand } from "./edit-command.js";
+import { exec, execApplyPatch, requiresShell } from "./exec.js";
 import { ReviewDecision } from "./review.js";
+import { type AuditApproval, recordAuditEntry } from "../logger/audit-log.js";
 import { isLoggingEnabled, log } from "../logger/log.js";
+import {
+  allowRuleForCommand,
+  appendPolicyRule,
+  loadPolicyFile,
+} from "../policy-file.js";
+import {
+  commandReadsDeniedPath,
+  DEFAULT_READ_DENYLIST,
+} from "../read-denylist.js";
 import { SandboxType } from "./sandbox/interface.js";
+import { pathsHiddenByLandlock } from "./sandbox/landlock.js";
 import { PATH_TO_SEATBELT_EXECUTABLE } from "./sandbox/macos-seatbelt.js";
+import { namespacesSupported } from "./sandbox/namespaces.js";
 import fs from "fs/promises";
 
 // ---------------------------------------------------------------------------
@@ -68,11 +87,43 @@ function deriveCommandKey(cmd: Array<string>): string {
   return JSON.stringify(cmd);
 }
 
-type HandleExecCommandResult = {
+function readsDeniedPath(
+  command: ReadonlyArray<string>,
+  workdir: string | undefined,
+  config: AppConfig,
+): boolean {
+  return (
+    commandReadsDeniedPath(
+      command,
+      workdir ?? process.cwd(),
+      config.readDenylist ?? DEFAULT_READ_DENYLIST,
+    ) !== null
+  );
+}
+
+/**
+ * Sandboxed commands that failed in a row, for the
+ * `fullAutoMaxConsecutiveFailures` budget. Each agent keeps its own count. A
+ * sandboxed success, or asking the user about a failure, resets it.
+ */
+export type SandboxFailureCount = { consecutive: number };
+
+/** Callbacks for showing a command while it runs. */
+export type ExecProgress = {
+  /** Called right before the command starts, after it was approved, and
+   *  again when it is run a second time without the sandbox. */
+  onStart?: () => void;
+  /** The output as it is produced, see `ExecOutputListener`. */
+  onOutput?: ExecOutputListener;
+};
+
+export type HandleExecCommandResult = {
   outputText: string;
   metadata: Record<string, unknown>;
   additionalItems?: Array<ResponseInputItem>;
   newWorkdir?: string;
+  /** The patch text, when the command was an `apply_patch` that succeeded. */
+  appliedPatch?: string;
 };
 
 export async function handleExecCommand(
@@ -84,23 +135,32 @@ export async function handleExecCommand(
     safetyAssessment: SafetyAssessment,
     command: Array<string>,
     applyPatch: ApplyPatchCommand | undefined,
+    options?: CommandConfirmationOptions,
   ) => Promise<CommandConfirmation>,
   abortSignal?: AbortSignal,
+  progress?: ExecProgress,
+  sandboxFailures: SandboxFailureCount = { consecutive: 0 },
 ): Promise<HandleExecCommandResult> {
   const { cmd: command, workdir } = args;
 
   const key = deriveCommandKey(command);
 
   // 1) If the user has already said "always approve" for this command key, skip
-  //    any policy checks & never sandbox.
-  if (alwaysApprovedCommands.has(key)) {
+  //    any policy checks & never sandbox. The key ignores the arguments, so a
+  //    command reading a denied path still goes through canAutoApprove().
+  if (
+    alwaysApprovedCommands.has(key) &&
+    !readsDeniedPath(command, workdir, config)
+  ) {
     return execCommand(
       args,
       undefined, // applyPatch is not relevant here as it's a general command approval
       false, // Explicitly false because user said "always"
       additionalWritableRoots,
       config,
+      { decision: ReviewDecision.ALWAYS, by: "session" },
       abortSignal,
+      progress,
     ).then(convertSummaryToResult);
   }
 
@@ -110,62 +170,82 @@ export async function handleExecCommand(
     workdir,
     policy,
     additionalWritableRoots,
-    // process.env, // canAutoApprove defaults to process.env if not provided
+    process.env,
+    loadPolicyFile(),
+    config.readDenylist,
   );
 
   // Determine if this is an apply_patch command for later
-  // This is a bit redundant if assessment.applyPatch is populated, but good for clarity
-  const applyPatchCommandDetails =
-    assessment.applyPatch ??
-    (command[0] === "apply_patch" &&
-    command.length === 2 &&
-    typeof command[1] === "string"
-      ? { patch: command[1] }
-      : undefined);
+  const applyPatchCommandDetails = applyPatchFor(command, assessment);
 
   // 3) Based on assessment and policy, decide next steps
   if (assessment.type === "auto-approve") {
     // If canAutoApprove says to auto-approve, respect it.
     // The runInSandbox flag from the assessment will be used by execCommand.
-    return execCommand(
+    return execHandlingSandboxFailure(
       args,
       applyPatchCommandDetails, // Pass applyPatch details from assessment or derived
       assessment.runInSandbox,
       additionalWritableRoots,
       config,
+      { decision: "auto-approved", by: "policy", reason: assessment.reason },
+      getCommandConfirmation,
       abortSignal,
-    ).then(convertSummaryToResult);
+      progress,
+      sandboxFailures,
+    );
   } else if (assessment.type === "reject") {
     // If canAutoApprove says to reject, do so.
-    return {
-      outputText: "rejected",
-      metadata: { reason: assessment.reason },
-      additionalItems: [
-        {
-          type: "message",
-          role: "user", // Or system, depending on how you want it to appear
-          content: [
-            {
-              type: "text",
-              text: `Command rejected: ${assessment.reason}`,
-            },
-          ] as any,
-        },
-      ],
-    };
+    recordAuditEntry(config, {
+      cwd: workdir ?? process.cwd(),
+      argv: command,
+      sandbox: SandboxType.NONE,
+      approval: {
+        decision: "rejected",
+        by: "policy",
+        reason: assessment.reason,
+      },
+    });
+    return rejectedResult(assessment.reason);
   } else {
     // assessment.type === "ask-user"
     // If canAutoApprove says to ask the user, then proceed to ask.
-    const userPermissionResult = await askUserPermission(
-      args,
-      applyPatchCommandDetails,
-      assessment, // Pass the assessment
-      getCommandConfirmation,
-    );
+    const { decision, rejection, reviewedPatch, reviewNote, editedCommand } =
+      await askUserPermission(
+        args,
+        applyPatchCommandDetails,
+        assessment, // Pass the assessment
+        getCommandConfirmation,
+        { editable: true },
+      );
+    const approval: AuditApproval = { decision, by: "user" };
+
+    if (editedCommand) {
+      return execEditedCommand(
+        args,
+        editedCommand,
+        config,
+        policy,
+        additionalWritableRoots,
+        getCommandConfirmation,
+        abortSignal,
+        progress,
+        sandboxFailures,
+      );
+    }
 
-    if (userPermissionResult) {
+    if (rejection) {
       // User denied or wants to stop
-      return userPermissionResult;
+      recordAuditEntry(config, {
+        cwd: workdir ?? process.cwd(),
+        argv: applyPatchCommandDetails ? ["apply_patch"] : command,
+        sandbox: SandboxType.NONE,
+        approval,
+        ...(applyPatchCommandDetails && {
+          files: filesTouchedByPatch(applyPatchCommandDetails.patch, workdir),
+        }),
+      });
+      return rejection;
     }
 
     // User approved (or decision was EXPLAIN, which means proceed without explicit approval yet)
@@ -182,21 +262,400 @@ export async function handleExecCommand(
     // For 'suggest', 'auto-edit', or 'none' (though 'none' shouldn't reach 'ask-user'),
     // if the user explicitly approves after being asked, run without a sandbox.
 
-    return execCommand(
+    const result = await execHandlingSandboxFailure(
       args,
-      applyPatchCommandDetails,
+      reviewedPatch ?? applyPatchCommandDetails,
       runInSandboxAfterUserApproval,
       additionalWritableRoots,
       config,
+      approval,
+      getCommandConfirmation,
       abortSignal,
-    ).then(convertSummaryToResult);
+      progress,
+      sandboxFailures,
+    );
+    // Tell the model which hunks of a partially approved patch were left out.
+    return reviewNote
+      ? { ...result, outputText: `${result.outputText}\n\n${reviewNote}` }
+      : result;
+  }
+}
+
+/**
+ * Start `args.cmd` as a background process (see `BackgroundProcesses`) after
+ * the same approval checks as `handleExecCommand()`. Background processes
+ * cannot run in the sandbox, so where `full-auto` mode would sandbox the
+ * command the user is asked instead.
+ */
+export async function handleBackgroundExecCommand(
+  args: ExecInput,
+  processes: BackgroundProcesses,
+  config: AppConfig,
+  policy: ApprovalPolicy,
+  additionalWritableRoots: ReadonlyArray<string>,
+  getCommandConfirmation: (
+    safetyAssessment: SafetyAssessment,
+    command: Array<string>,
+    applyPatch: ApplyPatchCommand | undefined,
+  ) => Promise<CommandConfirmation>,
+  { tty = false }: { tty?: boolean } = {},
+): Promise<HandleExecCommandResult> {
+  const { cmd: command, workdir } = args;
+  const cwd = workdir ?? process.cwd();
+
+  let approval: AuditApproval;
+  if (
+    alwaysApprovedCommands.has(deriveCommandKey(command)) &&
+    !readsDeniedPath(command, workdir, config)
+  ) {
+    approval = { decision: ReviewDecision.ALWAYS, by: "session" };
+  } else {
+    const assessment = canAutoApprove(
+      command,
+      workdir,
+      policy,
+      additionalWritableRoots,
+      process.env,
+      loadPolicyFile(),
+      config.readDenylist,
+    );
+    if (assessment.applyPatch || command[0] === "apply_patch") {
+      return rejectedResult("apply_patch cannot run in the background");
+    }
+    if (assessment.type === "reject") {
+      recordAuditEntry(config, {
+        cwd,
+        argv: command,
+        sandbox: SandboxType.NONE,
+        approval: {
+          decision: "rejected",
+          by: "policy",
+          reason: assessment.reason,
+        },
+      });
+      return rejectedResult(assessment.reason);
+    }
+
+    if (assessment.type === "auto-approve" && !assessment.runInSandbox) {
+      approval = {
+        decision: "auto-approved",
+        by: "policy",
+        reason: assessment.reason,
+      };
+    } else {
+      const { decision, rejection } = await askUserPermission(
+        args,
+        undefined,
+        assessment.type === "auto-approve"
+          ? {
+              type: "unsandboxed",
+              reason:
+                "Background processes cannot run in the sandbox. Start it without the sandbox?",
+            }
+          : assessment,
+        getCommandConfirmation,
+      );
+      approval = { decision, by: "user" };
+      if (rejection) {
+        recordAuditEntry(config, {
+          cwd,
+          argv: command,
+          sandbox: SandboxType.NONE,
+          approval,
+        });
+        return rejection;
+      }
+    }
+  }
+
+  const info = processes.start(command, {
+    workdir: cwd,
+    shell: requiresShell(command),
+    tty,
+  });
+  recordAuditEntry(config, {
+    cwd,
+    argv: command,
+    sandbox: SandboxType.NONE,
+    approval,
+  });
+  return {
+    outputText: `Started background process ${info.id} (pid ${String(
+      info.pid,
+    )}). Use the read action to see its output.`,
+    metadata: { id: info.id, pid: info.pid },
+  };
+}
+
+/**
+ * The patch when `command` is an `apply_patch` call. This is a bit redundant
+ * if `assessment.applyPatch` is populated, but good for clarity.
+ */
+function applyPatchFor(
+  command: Array<string>,
+  assessment: SafetyAssessment,
+): ApplyPatchCommand | undefined {
+  return (
+    assessment.applyPatch ??
+    (command[0] === "apply_patch" &&
+    command.length === 2 &&
+    typeof command[1] === "string"
+      ? { patch: command[1] }
+      : undefined)
+  );
+}
+
+/**
+ * Run the version of a command the user edited at the approval prompt. The
+ * edited command is checked against the approval policy again: editing it
+ * approves it, unless the policy rejects it, and where `full-auto` mode
+ * would sandbox it, it still runs in the sandbox. The model is told what was
+ * changed so that it does not retry the original command.
+ */
+async function execEditedCommand(
+  args: ExecInput,
+  editedCommand: Array<string>,
+  config: AppConfig,
+  policy: ApprovalPolicy,
+  additionalWritableRoots: ReadonlyArray<string>,
+  getCommandConfirmation: (
+    safetyAssessment: SafetyAssessment,
+    command: Array<string>,
+    applyPatch: ApplyPatchCommand | undefined,
+  ) => Promise<CommandConfirmation>,
+  abortSignal?: AbortSignal,
+  progress?: ExecProgress,
+  sandboxFailures: SandboxFailureCount = { consecutive: 0 },
+): Promise<HandleExecCommandResult> {
+  const note = describeEditedCommand(args.cmd, editedCommand);
+  const assessment = canAutoApprove(
+    editedCommand,
+    args.workdir,
+    policy,
+    additionalWritableRoots,
+    process.env,
+    loadPolicyFile(),
+    config.readDenylist,
+  );
+
+  let result: HandleExecCommandResult;
+  if (assessment.type === "reject") {
+    recordAuditEntry(config, {
+      cwd: args.workdir ?? process.cwd(),
+      argv: editedCommand,
+      sandbox: SandboxType.NONE,
+      approval: {
+        decision: "rejected",
+        by: "policy",
+        reason: assessment.reason,
+      },
+    });
+    result = rejectedResult(assessment.reason);
+  } else {
+    result = await execHandlingSandboxFailure(
+      { ...args, cmd: editedCommand },
+      applyPatchFor(editedCommand, assessment),
+      assessment.type === "auto-approve"
+        ? assessment.runInSandbox
+        : policy === "full-auto",
+      additionalWritableRoots,
+      config,
+      { decision: ReviewDecision.EDIT, by: "user" },
+      getCommandConfirmation,
+      abortSignal,
+      progress,
+      sandboxFailures,
+    );
   }
+  return { ...result, outputText: `${result.outputText}\n\n${note}` };
 }
 
+function rejectedResult(reason: string): HandleExecCommandResult {
+  return {
+    outputText: "rejected",
+    metadata: { reason },
+    additionalItems: [
+      {
+        type: "message",
+        role: "user", // Or system, depending on how you want it to appear
+        content: [
+          {
+            type: "text",
+            text: `Command rejected: ${reason}`,
+          },
+        ] as any,
+      },
+    ],
+  };
+}
+
+/**
+ * Run the command and, when it ran in the sandbox (which only happens in
+ * full-auto mode) and failed, apply `config.fullAutoErrorMode`: hand the
+ * failure to the model as is (the default), or, when the sandbox seems to
+ * have blocked the command, ask the user whether to run it again without.
+ * Once `config.fullAutoMaxConsecutiveFailures` sandboxed commands failed in
+ * a row the model is told to stop. When the sandbox cannot hide the paths in
+ * `readDenylist`, the user is asked first.
+ */
+async function execHandlingSandboxFailure(
+  args: ExecInput,
+  applyPatchCommand: ApplyPatchCommand | undefined,
+  runInSandbox: boolean,
+  additionalWritableRoots: ReadonlyArray<string>,
+  config: AppConfig,
+  approval: AuditApproval,
+  getCommandConfirmation: (
+    safetyAssessment: SafetyAssessment,
+    command: Array<string>,
+    applyPatch: ApplyPatchCommand | undefined,
+  ) => Promise<CommandConfirmation>,
+  abortSignal?: AbortSignal,
+  progress?: ExecProgress,
+  sandboxFailures: SandboxFailureCount = { consecutive: 0 },
+): Promise<HandleExecCommandResult> {
+  let execApproval = approval;
+  let execConfig = config;
+  if (
+    runInSandbox &&
+    applyPatchCommand === undefined &&
+    (await deniedPathsStayVisible(args, additionalWritableRoots, config))
+  ) {
+    const { decision, rejection } = await askUserPermission(
+      args,
+      undefined,
+      {
+        type: "unsandboxed",
+        reason:
+          "The sandbox cannot hide the files in readDenylist here: user namespaces are not available. Run it anyway?",
+      },
+      getCommandConfirmation,
+    );
+    if (rejection) {
+      return rejection;
+    }
+    execApproval = { decision, by: "user" };
+    execConfig = { ...config, readDenylist: [] };
+  }
+
+  const summary = await execCommand(
+    args,
+    applyPatchCommand,
+    runInSandbox,
+    additionalWritableRoots,
+    execConfig,
+    execApproval,
+    abortSignal,
+    progress,
+  );
+  if (
+    !runInSandbox ||
+    applyPatchCommand !== undefined ||
+    abortSignal?.aborted
+  ) {
+    return convertSummaryToResult(summary);
+  }
+  if (summary.exitCode === 0) {
+    sandboxFailures.consecutive = 0;
+    return convertSummaryToResult(summary);
+  }
+
+  sandboxFailures.consecutive += 1;
+  const failed = convertSummaryToResult(summary);
+  const budget = config.fullAutoMaxConsecutiveFailures;
+  if (
+    budget !== undefined &&
+    budget > 0 &&
+    sandboxFailures.consecutive >= budget
+  ) {
+    log(
+      `EXEC ${sandboxFailures.consecutive} sandboxed commands failed in a row`,
+    );
+    sandboxFailures.consecutive = 0;
+    return {
+      ...failed,
+      additionalItems: [
+        {
+          type: "message",
+          role: "user",
+          content: [
+            {
+              type: "input_text",
+              text: `${budget} commands in a row failed in full-auto mode. Stop here, summarize what went wrong and wait for further instructions.`,
+            },
+          ],
+        },
+      ],
+    };
+  }
+
+  // Most failures are the command's own (a test fails, `grep` finds
+  // nothing): running it again without the sandbox would not help.
+  if (
+    config.fullAutoErrorMode !== FullAutoErrorMode.ASK_USER ||
+    !SANDBOX_DENIAL.test(summary.stderr)
+  ) {
+    return failed;
+  }
+
+  const { decision, rejection } = await askUserPermission(
+    args,
+    undefined,
+    {
+      type: "sandbox-failure",
+      exitCode: summary.exitCode,
+      reason: `The command exited with code ${summary.exitCode} in the sandbox, which probably blocked it. Run it again without the sandbox?`,
+    },
+    getCommandConfirmation,
+  );
+  // The user is in the loop now, so the budget starts over.
+  sandboxFailures.consecutive = 0;
+  if (rejection) {
+    // Skipped or stopped: the model sees the failure and the user's answer.
+    return { ...failed, additionalItems: rejection.additionalItems };
+  }
+
+  const retry = await execCommand(
+    args,
+    undefined,
+    false,
+    additionalWritableRoots,
+    config,
+    { decision, by: "user" },
+    abortSignal,
+    progress,
+  );
+  return convertSummaryToResult(retry);
+}
+
+/**
+ * Whether the Linux sandbox would hide paths in `readDenylist` from the
+ * command but cannot, because user namespaces are not available.
+ */
+async function deniedPathsStayVisible(
+  args: ExecInput,
+  additionalWritableRoots: ReadonlyArray<string>,
+  config: AppConfig,
+): Promise<boolean> {
+  if (process.platform !== "linux" || config.containerSandbox?.enabled) {
+    return false;
+  }
+  const cwd = args.workdir ?? process.cwd();
+  return (
+    pathsHiddenByLandlock(cwd, additionalWritableRoots, config).length > 0 &&
+    !(await namespacesSupported())
+  );
+}
+
+/** What a command prints when the sandbox denies it a file or syscall. */
+const SANDBOX_DENIAL =
+  /operation not permitted|permission denied|read-only file system|sandbox-exec|landlock/i;
+
 function convertSummaryToResult(
   summary: ExecCommandSummary,
 ): HandleExecCommandResult {
-  const { stdout, stderr, exitCode, durationMs, newWorkdir } = summary;
+  const { stdout, stderr, exitCode, durationMs, newWorkdir, appliedPatch } =
+    summary;
   const rawOutput =
     stdout ||
     stderr ||
@@ -216,6 +675,7 @@ function convertSummaryToResult(
       raw_stderr: stderr,
     },
     ...(newWorkdir && { newWorkdir }),
+    ...(appliedPatch !== undefined && { appliedPatch }),
   };
 }
 
@@ -225,6 +685,7 @@ type ExecCommandSummary = {
   exitCode: number;
   durationMs: number;
   newWorkdir?: string;
+  appliedPatch?: string;
 };
 
 async function execCommand(
@@ -233,7 +694,9 @@ async function execCommand(
   runInSandbox: boolean,
   additionalWritableRoots: ReadonlyArray<string>,
   config: AppConfig,
+  approval: AuditApproval,
   abortSignal?: AbortSignal,
+  progress?: ExecProgress,
 ): Promise<ExecCommandSummary> {
   let { workdir } = execInput;
   if (workdir) {
@@ -262,22 +725,64 @@ async function execCommand(
     );
   }
 
+  // Snapshot whatever the command may modify so `/undo` can roll it back.
+  // Patches name their files up front; sandboxed commands may write anywhere
+  // below the working directory, so we capture the whole tree.
+  const checkpoints = defaultCheckpointStore;
+  const patchSnapshot =
+    applyPatchCommand !== undefined
+      ? checkpoints.snapshotFiles(
+          filesTouchedByPatch(applyPatchCommand.patch, workdir),
+        )
+      : undefined;
+  const treeCapture =
+    applyPatchCommand === undefined && runInSandbox
+      ? await checkpoints.captureTree(workdir ?? process.cwd())
+      : undefined;
+
   // Note execApplyPatch() and exec() are coded defensively and should not
   // throw. Any internal errors should be mapped to a non-zero value for the
   // exitCode field.
+  const sandbox =
+    applyPatchCommand !== undefined
+      ? SandboxType.NONE
+      : await getSandbox(runInSandbox, config);
+  if (applyPatchCommand === undefined) {
+    progress?.onStart?.();
+  }
   const start = Date.now();
   const execResult =
     applyPatchCommand != null
       ? execApplyPatch(applyPatchCommand.patch, workdir)
       : await exec(
           { ...execInput, additionalWritableRoots },
-          await getSandbox(runInSandbox),
+          sandbox,
           config,
           abortSignal,
+          progress?.onOutput,
         );
   const duration = Date.now() - start;
+
+  if (patchSnapshot) {
+    checkpoints.record("apply_patch", patchSnapshot);
+  } else if (treeCapture) {
+    await checkpoints.recordTree(
+      formatCommandForDisplay(execInput.cmd),
+      treeCapture,
+    );
+  }
   const { stdout, stderr, exitCode } = execResult;
 
+  recordAuditEntry(config, {
+    cwd: workdir ?? process.cwd(),
+    argv: applyPatchCommand !== undefined ? ["apply_patch"] : execInput.cmd,
+    sandbox,
+    approval,
+    exitCode,
+    durationMs: duration,
+    ...(patchSnapshot && { files: patchSnapshot.map((f) => f.path) }),
+  });
+
   if (isLoggingEnabled()) {
     log(
       `EXEC exit=${exitCode} time=${duration}ms:\n\tSTDOUT: ${stdout}\n\tSTDERR: ${stderr}`,
@@ -289,6 +794,8 @@ async function execCommand(
     stderr,
     exitCode,
     durationMs: duration,
+    ...(applyPatchCommand !== undefined &&
+      exitCode === 0 && { appliedPatch: applyPatchCommand.patch }),
   };
 }
 
@@ -307,9 +814,15 @@ const isSandboxExecAvailable: Promise<boolean> = fs
     },
   );
 
-async function getSandbox(runInSandbox: boolean): Promise<SandboxType> {
+async function getSandbox(
+  runInSandbox: boolean,
+  config: AppConfig,
+): Promise<SandboxType> {
   if (runInSandbox) {
-    if (process.platform === "darwin") {
+    if (config.containerSandbox?.enabled) {
+      // Opted in explicitly, e.g. on hosts without Landlock support.
+      return SandboxType.CONTAINER;
+    } else if (process.platform === "darwin") {
       // On macOS we rely on the system-provided `sandbox-exec` binary to
       // enforce the Seatbelt profile.  However, starting with macOS 14 the
       // executable may be removed from the default installation or the user
@@ -343,7 +856,8 @@ async function getSandbox(runInSandbox: boolean): Promise<SandboxType> {
 }
 
 /**
- * If return value is non-null, then the command was rejected by the user.
+ * Ask the user to approve the command. `rejection` is non-null when the
+ * command was rejected by the user.
  */
 async function askUserPermission(
   args: ExecInput,
@@ -353,44 +867,97 @@ async function askUserPermission(
     safetyAssessment: SafetyAssessment,
     command: Array<string>,
     applyPatch: ApplyPatchCommand | undefined,
+    options?: CommandConfirmationOptions,
   ) => Promise<CommandConfirmation>,
-): Promise<HandleExecCommandResult | null> {
-  const { review: decision, customDenyMessage } = await getCommandConfirmation(
+  options?: CommandConfirmationOptions,
+): Promise<{
+  decision: ReviewDecision;
+  rejection: HandleExecCommandResult | null;
+  /** The accepted part of a patch that was reviewed hunk by hunk. */
+  reviewedPatch?: ApplyPatchCommand;
+  reviewNote?: string;
+  /** The command the user edited to run instead. */
+  editedCommand?: Array<string>;
+}> {
+  const {
+    review: decision,
+    customDenyMessage,
+    applyPatch: confirmedPatch,
+    editedCommand,
+  } = await getCommandConfirmation(
     safetyAssessment,
     args.cmd,
-    applyPatchCommand,
+    applyPatchCommand && { ...applyPatchCommand, workdir: args.workdir },
+    options,
   );
 
-  if (decision === ReviewDecision.ALWAYS) {
+  if (decision === ReviewDecision.EDIT && options?.editable && editedCommand) {
+    return { decision, rejection: null, editedCommand };
+  }
+
+  if (
+    decision === ReviewDecision.ALWAYS ||
+    decision === ReviewDecision.ALWAYS_PROJECT
+  ) {
     // Persist this command so we won't ask again during this session.
     const key = deriveCommandKey(args.cmd);
     alwaysApprovedCommands.add(key);
   }
+  if (decision === ReviewDecision.ALWAYS_PROJECT) {
+    // ...and across sessions, via the project's policy file.
+    const rule = allowRuleForCommand(args.cmd);
+    if (rule) {
+      try {
+        const path = appendPolicyRule(rule);
+        log(`Added allow rule for ${JSON.stringify(rule)} to ${path}`);
+      } catch (err) {
+        log(`Failed to persist allow rule: ${String(err)}`);
+      }
+    }
+  }
 
   // Handle EXPLAIN decision by returning null to continue with the normal flow
   // but with a flag to indicate that an explanation was requested
   if (decision === ReviewDecision.EXPLAIN) {
-    return null;
+    return { decision, rejection: null };
   }
 
   // Any decision other than an affirmative (YES / ALWAYS) or EXPLAIN aborts execution.
-  if (decision !== ReviewDecision.YES && decision !== ReviewDecision.ALWAYS) {
+  if (
+    decision !== ReviewDecision.YES &&
+    decision !== ReviewDecision.ALWAYS &&
+    decision !== ReviewDecision.ALWAYS_PROJECT
+  ) {
     const note =
       decision === ReviewDecision.NO_CONTINUE
         ? customDenyMessage?.trim() || "No, don't do that — keep going though."
         : "No, don't do that — stop for now.";
     return {
-      outputText: "aborted",
-      metadata: {},
-      additionalItems: [
-        {
-          type: "message",
-          role: "user",
-          content: [{ type: "text", text: note }] as any,
-        },
-      ],
+      decision,
+      rejection: {
+        outputText: "aborted",
+        metadata: {},
+        additionalItems: [
+          {
+            type: "message",
+            role: "user",
+            content: [{ type: "text", text: note }] as any,
+          },
+        ],
+      },
+    };
+  } else if (
+    applyPatchCommand &&
+    confirmedPatch &&
+    confirmedPatch.patch !== applyPatchCommand.patch
+  ) {
+    return {
+      decision,
+      rejection: null,
+      reviewedPatch: { patch: confirmedPatch.patch },
+      reviewNote: customDenyMessage,
     };
   } else {
-    return null;
+    return { decision, rejection: null };
   }
 }
@@ -0,0 +1,275 @@
+import type { McpServerConfig } from "../config.js";
+import type { ChildProcess } from "child_process";
+
+import { CLI_VERSION } from "../../version.js";
+import { log } from "../logger/log.js";
+import { spawn } from "child_process";
+import { createInterface } from "readline";
+
+// Protocol revision we advertise during the `initialize` handshake.
+export const MCP_PROTOCOL_VERSION = "2024-11-05";
+
+// How long we wait for `initialize` and `tools/list` before giving up on a
+// server. Tool calls themselves are not bounded; they are cancelled through
+// the abort signal instead.
+const MCP_STARTUP_TIMEOUT_MS = 10_000;
+
+/** A tool as advertised by an MCP server in its `tools/list` response. */
+export type McpToolDefinition = {
+  name: string;
+  description?: string;
+  inputSchema?: Record<string, unknown>;
+  annotations?: {
+    readOnlyHint?: boolean;
+    destructiveHint?: boolean;
+  };
+};
+
+/** A single content block of a `tools/call` result. */
+export type McpContent =
+  | { type: "text"; text: string }
+  | { type: "image"; data: string; mimeType: string }
+  | { type: "resource"; resource: { uri: string; text?: string } }
+  | { type: string; [key: string]: unknown };
+
+export type McpToolCallResult = {
+  content: Array<McpContent>;
+  isError?: boolean;
+};
+
+type JsonRpcResponse = {
+  jsonrpc: "2.0";
+  id: number;
+  result?: unknown;
+  error?: { code: number; message: string };
+};
+
+type PendingRequest = {
+  resolve: (result: unknown) => void;
+  reject: (err: Error) => void;
+};
+
+/**
+ * Minimal Model Context Protocol client speaking newline-delimited JSON-RPC
+ * to a server process over stdio. Only the subset needed to list and call
+ * tools is implemented.
+ */
+export class McpClient {
+  private proc: ChildProcess | null = null;
+  private nextId = 1;
+  private readonly pending = new Map<number, PendingRequest>();
+  private closed = false;
+
+  constructor(
+    public readonly serverName: string,
+    private readonly serverConfig: McpServerConfig,
+  ) {}
+
+  /** Spawn the server and perform the `initialize` handshake. */
+  async connect(): Promise<void> {
+    const { command, args = [], env, cwd } = this.serverConfig;
+    const proc = spawn(command, args, {
+      cwd,
+      env: { ...process.env, ...env },
+      stdio: ["pipe", "pipe", "pipe"],
+    });
+    this.proc = proc;
+
+    createInterface({ input: proc.stdout }).on("line", (line) =>
+      this.handleLine(line),
+    );
+    // Servers log to stderr; keep it out of the TUI but available for debugging.
+    createInterface({ input: proc.stderr }).on("line", (line) =>
+      log(`[mcp:${this.serverName}] ${line}`),
+    );
+    proc.on("error", (err) => this.failPending(err));
+    proc.on("exit", (code, signal) => {
+      this.closed = true;
+      this.failPending(
+        new Error(
+          `MCP server '${this.serverName}' exited (code=${code}, signal=${signal})`,
+        ),
+      );
+    });
+
+    await this.request(
+      "initialize",
+      {
+        protocolVersion: MCP_PROTOCOL_VERSION,
+        capabilities: {},
+        clientInfo: { name: "codex", version: CLI_VERSION },
+      },
+      { timeoutMs: MCP_STARTUP_TIMEOUT_MS },
+    );
+    this.notify("notifications/initialized");
+  }
+
+  /** Fetch every tool the server exposes, following pagination cursors. */
+  async listTools(): Promise<Array<McpToolDefinition>> {
+    const tools: Array<McpToolDefinition> = [];
+    let cursor: string | undefined;
+    do {
+      // eslint-disable-next-line no-await-in-loop
+      const page = (await this.request("tools/list", cursor ? { cursor } : {}, {
+        timeoutMs: MCP_STARTUP_TIMEOUT_MS,
+      })) as { tools?: Array<McpToolDefinition>; nextCursor?: string };
+      tools.push(...(page.tools ?? []));
+      cursor = page.nextCursor;
+    } while (cursor);
+    return tools;
+  }
+
+  callTool(
+    name: string,
+    args: Record<string, unknown>,
+    abortSignal?: AbortSignal,
+  ): Promise<McpToolCallResult> {
+    return this.request(
+      "tools/call",
+      { name, arguments: args },
+      { abortSignal },
+    ) as Promise<McpToolCallResult>;
+  }
+
+  /** Terminate the server process. Safe to call more than once. */
+  close(): void {
+    this.closed = true;
+    this.failPending(new Error(`MCP server '${this.serverName}' was closed`));
+    if (this.proc && this.proc.exitCode === null) {
+      this.proc.stdin?.end();
+      this.proc.kill();
+    }
+  }
+
+  private request(
+    method: string,
+    params: Record<string, unknown>,
+    {
+      timeoutMs,
+      abortSignal,
+    }: { timeoutMs?: number; abortSignal?: AbortSignal } = {},
+  ): Promise<unknown> {
+    if (this.closed || !this.proc?.stdin) {
+      return Promise.reject(
+        new Error(`MCP server '${this.serverName}' is not running`),
+      );
+    }
+    if (abortSignal?.aborted) {
+      return Promise.reject(new Error("aborted"));
+    }
+
+    const id = this.nextId++;
+    return new Promise<unknown>((resolve, reject) => {
+      let timer: NodeJS.Timeout | undefined;
+      const onAbort = () => {
+        this.pending.delete(id);
+        this.notify("notifications/cancelled", { requestId: id });
+        cleanup();
+        reject(new Error("aborted"));
+      };
+      const cleanup = () => {
+        if (timer) {
+          clearTimeout(timer);
+        }
+        abortSignal?.removeEventListener("abort", onAbort);
+      };
+
+      this.pending.set(id, {
+        resolve: (result) => {
+          cleanup();
+          resolve(result);
+        },
+        reject: (err) => {
+          cleanup();
+          reject(err);
+        },
+      });
+      if (timeoutMs !== undefined) {
+        timer = setTimeout(() => {
+          this.pending.delete(id);
+          cleanup();
+          reject(
+            new Error(
+              `MCP server '${this.serverName}' did not answer '${method}' within ${timeoutMs}ms`,
+            ),
+          );
+        }, timeoutMs);
+      }
+      abortSignal?.addEventListener("abort", onAbort, { once: true });
+
+      this.send({ jsonrpc: "2.0", id, method, params });
+    });
+  }
+
+  private notify(method: string, params?: Record<string, unknown>): void {
+    this.send({ jsonrpc: "2.0", method, ...(params && { params }) });
+  }
+
+  private send(message: Record<string, unknown>): void {
+    if (this.closed || !this.proc?.stdin?.writable) {
+      return;
+    }
+    this.proc.stdin.write(JSON.stringify(message) + "\n");
+  }
+
+  private handleLine(line: string): void {
+    if (line.trim() === "") {
+      return;
+    }
+    let message: JsonRpcResponse;
+    try {
+      message = JSON.parse(line) as JsonRpcResponse;
+    } catch {
+      log(`[mcp:${this.serverName}] ignoring non-JSON output: ${line}`);
+      return;
+    }
+    // Server-initiated requests and notifications are not supported yet.
+    if (
+      typeof message.id !== "number" ||
+      !("result" in message || "error" in message)
+    ) {
+      return;
+    }
+    const pending = this.pending.get(message.id);
+    if (!pending) {
+      return;
+    }
+    this.pending.delete(message.id);
+    if (message.error) {
+      pending.reject(
+        new Error(`${message.error.message} (code ${message.error.code})`),
+      );
+    } else {
+      pending.resolve(message.result);
+    }
+  }
+
+  private failPending(err: Error): void {
+    for (const { reject } of this.pending.values()) {
+      reject(err);
+    }
+    this.pending.clear();
+  }
+}
+
+/**
+ * Flatten the content blocks of a tool result into the plain text that is
+ * forwarded to the model.
+ */
+export function formatMcpContent(content: Array<McpContent>): string {
+  return content
+    .map((block) => {
+      if (block.type === "text" && typeof block["text"] === "string") {
+        return block["text"];
+      }
+      if (block.type === "resource") {
+        const resource = block["resource"] as { uri: string; text?: string };
+        return resource.text ?? `[resource: ${resource.uri}]`;
+      }
+      if (block.type === "image") {
+        return `[image: ${String(block["mimeType"])}]`;
+      }
+      return `[${block.type} content]`;
+    })
+    .join("\n");
+}
@@ -0,0 +1,126 @@
+import type { McpToolDefinition } from "./mcp-client.js";
+import type { AgentTool, ToolRegistry } from "./tool-registry.js";
+import type { McpServerConfig } from "../config.js";
+
+import { McpClient, formatMcpContent } from "./mcp-client.js";
+import { defaultToolRegistry } from "./tool-registry.js";
+import { log } from "../logger/log.js";
+
+// Function names accepted by the Responses / Chat Completions APIs.
+const MAX_TOOL_NAME_LENGTH = 64;
+
+/**
+ * Name under which an MCP tool is advertised to the model. Tools are
+ * namespaced by server so two servers can expose tools with the same name.
+ */
+export function mcpToolName(serverName: string, toolName: string): string {
+  return `${serverName}__${toolName}`
+    .replace(/[^a-zA-Z0-9_-]/g, "_")
+    .slice(0, MAX_TOOL_NAME_LENGTH);
+}
+
+/**
+ * Wrap a tool advertised by `client` as an `AgentTool`. Calls require user
+ * approval unless the server marks the tool as read-only or the user listed
+ * it under `autoApprove` in the server config.
+ */
+export function createMcpAgentTool(
+  client: McpClient,
+  definition: McpToolDefinition,
+  serverConfig: McpServerConfig,
+): AgentTool {
+  const trusted =
+    definition.annotations?.readOnlyHint === true ||
+    (serverConfig.autoApprove ?? []).includes(definition.name);
+
+  return {
+    name: mcpToolName(client.serverName, definition.name),
+    description:
+      definition.description ??
+      `Tool '${definition.name}' from MCP server '${client.serverName}'`,
+    parameters: definition.inputSchema ?? { type: "object", properties: {} },
+    requiresApproval: !trusted,
+    handler: async (args, context) => {
+      const result = await client.callTool(
+        definition.name,
+        args,
+        context.abortSignal,
+      );
+      return {
+        output: formatMcpContent(result.content ?? []),
+        metadata: { exit_code: result.isError ? 1 : 0 },
+      };
+    },
+  };
+}
+
+/**
+ * Handle to the MCP servers started for this session.
+ */
+export type McpSession = {
+  clients: Array<McpClient>;
+  /** Unregister the tools and stop every server. */
+  close: () => void;
+};
+
+/**
+ * Spawn every enabled server from the `mcpServers` config section, list its
+ * tools and register them with `registry`. A server that fails to start is
+ * logged and skipped so that one broken entry does not prevent the CLI from
+ * starting.
+ */
+export async function startMcpServers(
+  servers: Record<string, McpServerConfig> | undefined,
+  registry: ToolRegistry = defaultToolRegistry,
+): Promise<McpSession> {
+  const clients: Array<McpClient> = [];
+  const unregisterFns: Array<() => void> = [];
+
+  await Promise.all(
+    Object.entries(servers ?? {})
+      .filter(([, serverConfig]) => !serverConfig.disabled)
+      .map(async ([serverName, serverConfig]) => {
+        const client = new McpClient(serverName, serverConfig);
+        try {
+          await client.connect();
+          const tools = await client.listTools();
+          clients.push(client);
+          for (const definition of tools) {
+            try {
+              unregisterFns.push(
+                registry.register(
+                  createMcpAgentTool(client, definition, serverConfig),
+                ),
+              );
+            } catch (err) {
+              log(
+                `[mcp:${serverName}] skipping tool '${definition.name}': ${String(err)}`,
+              );
+            }
+          }
+          log(`[mcp:${serverName}] registered ${tools.length} tool(s)`);
+        } catch (err) {
+          log(`[mcp:${serverName}] failed to start: ${String(err)}`);
+          client.close();
+        }
+      }),
+  );
+
+  let closed = false;
+  const close = () => {
+    if (closed) {
+      return;
+    }
+    closed = true;
+    for (const unregister of unregisterFns) {
+      unregister();
+    }
+    for (const client of clients) {
+      client.close();
+    }
+  };
+  // Make sure server processes never outlive the CLI.
+  process.once("exit", close);
+
+  return { clients, close };
+}
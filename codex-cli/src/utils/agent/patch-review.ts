@@ -0,0 +1,245 @@
+import type { Patch } from "./apply-patch.js";
+
+import {
+  ActionType,
+  identify_files_needed,
+  load_files,
+  text_to_patch,
+} from "./apply-patch.js";
+import { normalizeApplyPatchInput } from "./exec.js";
+import { resolvePathAgainstWorkdir } from "../../approvals.js";
+import {
+  ADD_FILE_PREFIX,
+  DELETE_FILE_PREFIX,
+  MOVE_FILE_TO_PREFIX,
+  UPDATE_FILE_PREFIX,
+} from "../../parse-apply-patch.js";
+import fs from "fs";
+
+const FILE_CHANGE: Record<ReviewFile["type"], string> = {
+  add: "new file",
+  delete: "deletion",
+  update: "change",
+};
+
+/** Unchanged lines shown around a hunk. */
+const HUNK_CONTEXT_LINES = 3;
+
+/** One contiguous change of a file, as shown for review. */
+export type ReviewHunk = {
+  /** 1-based line of the original file where the change starts. */
+  oldStart: number;
+  /** 1-based line of the updated file where the change starts. */
+  newStart: number;
+  before: Array<string>;
+  deleted: Array<string>;
+  inserted: Array<string>;
+  after: Array<string>;
+};
+
+export type ReviewFile = {
+  path: string;
+  type: "add" | "delete" | "update";
+  movePath?: string;
+  /**
+   * Added and deleted files have a single hunk, as does an update that only
+   * moves the file.
+   */
+  hunks: Array<ReviewHunk>;
+};
+
+/** An `apply_patch` call split into files and hunks. */
+export type PatchReview = {
+  files: Array<ReviewFile>;
+  /** The contents of the updated and deleted files before the patch. */
+  orig: Record<string, string>;
+  patch: Patch;
+};
+
+/** Per file of a `PatchReview`, whether each of its hunks is accepted. */
+export type HunkDecisions = Array<Array<boolean>>;
+
+function lastLineIndex(lines: Array<string>): number {
+  // A trailing newline is not an empty last line.
+  return lines.length > 1 && lines[lines.length - 1] === ""
+    ? lines.length - 1
+    : lines.length;
+}
+
+/**
+ * Parses `patchText` against the files it touches below `workdir`. Throws a
+ * `DiffError` when the patch does not apply, like `apply_patch` would.
+ */
+export function parsePatchForReview(
+  patchText: string,
+  workdir: string | undefined,
+): PatchReview {
+  const text = normalizeApplyPatchInput(patchText);
+  const orig = load_files(identify_files_needed(text), (p) =>
+    fs.readFileSync(resolvePathAgainstWorkdir(p, workdir), "utf8"),
+  );
+  const [patch] = text_to_patch(text, orig);
+
+  const files: Array<ReviewFile> = [];
+  for (const [path, action] of Object.entries(patch.actions)) {
+    if (action.type === ActionType.ADD) {
+      const lines = (action.new_file ?? "").split("\n");
+      files.push({
+        path,
+        type: "add",
+        hunks: [
+          {
+            oldStart: 0,
+            newStart: 1,
+            before: [],
+            deleted: [],
+            inserted: lines.slice(0, lastLineIndex(lines)),
+            after: [],
+          },
+        ],
+      });
+      continue;
+    }
+
+    const origLines = (orig[path] ?? "").split("\n");
+    if (action.type === ActionType.DELETE) {
+      files.push({
+        path,
+        type: "delete",
+        hunks: [
+          {
+            oldStart: 1,
+            newStart: 0,
+            before: [],
+            deleted: origLines.slice(0, lastLineIndex(origLines)),
+            inserted: [],
+            after: [],
+          },
+        ],
+      });
+      continue;
+    }
+
+    let offset = 0;
+    const hunks = action.chunks.map((chunk): ReviewHunk => {
+      const end = chunk.orig_index + chunk.del_lines.length;
+      const hunk = {
+        oldStart: chunk.orig_index + 1,
+        newStart: chunk.orig_index + offset + 1,
+        before: origLines.slice(
+          Math.max(0, chunk.orig_index - HUNK_CONTEXT_LINES),
+          chunk.orig_index,
+        ),
+        deleted: origLines.slice(chunk.orig_index, end),
+        inserted: chunk.ins_lines,
+        after: origLines.slice(
+          end,
+          Math.min(lastLineIndex(origLines), end + HUNK_CONTEXT_LINES),
+        ),
+      };
+      offset += chunk.ins_lines.length - chunk.del_lines.length;
+      return hunk;
+    });
+    if (hunks.length === 0) {
+      hunks.push({
+        oldStart: 1,
+        newStart: 1,
+        before: [],
+        deleted: [],
+        inserted: [],
+        after: [],
+      });
+    }
+    files.push({
+      path,
+      type: "update",
+      movePath: action.move_path ?? undefined,
+      hunks,
+    });
+  }
+  return { files, orig, patch };
+}
+
+/** Accept every hunk of `review`. */
+export function acceptAllHunks(review: PatchReview): HunkDecisions {
+  return review.files.map((file) => file.hunks.map(() => true));
+}
+
+/** E.g. `@@ -10,4 +10,6 @@`, counting only the changed lines. */
+export function formatHunkHeader(hunk: ReviewHunk): string {
+  return `@@ -${hunk.oldStart},${hunk.deleted.length} +${hunk.newStart},${hunk.inserted.length} @@`;
+}
+
+/**
+ * The `apply_patch` text for the accepted hunks of `review`, or `undefined`
+ * when none is accepted, and a note for the model listing the rejected ones.
+ *
+ * Updated files are written out with the whole file as context so that the
+ * partial patch applies exactly where the original one did.
+ */
+export function buildReviewedPatch(
+  review: PatchReview,
+  decisions: HunkDecisions,
+): { patch?: string; note?: string } {
+  const lines = ["*** Begin Patch"];
+  const rejected: Array<string> = [];
+  let applied = 0;
+
+  review.files.forEach((file, i) => {
+    const accepted = decisions[i] ?? file.hunks.map(() => true);
+    const acceptedCount = accepted.filter(Boolean).length;
+    if (acceptedCount === 0) {
+      rejected.push(`- ${file.path}: the whole ${FILE_CHANGE[file.type]}`);
+      return;
+    }
+    applied += 1;
+    if (file.type === "add") {
+      lines.push(ADD_FILE_PREFIX + file.path);
+      const content = review.patch.actions[file.path]?.new_file ?? "";
+      lines.push(...content.split("\n").map((l) => "+" + l));
+      return;
+    }
+    if (file.type === "delete") {
+      lines.push(DELETE_FILE_PREFIX + file.path);
+      return;
+    }
+
+    lines.push(UPDATE_FILE_PREFIX + file.path);
+    if (file.movePath) {
+      lines.push(MOVE_FILE_TO_PREFIX + file.movePath);
+    }
+    const origLines = (review.orig[file.path] ?? "").split("\n");
+    const chunks = review.patch.actions[file.path]?.chunks ?? [];
+    let index = 0;
+    chunks.forEach((chunk, j) => {
+      if (!accepted[j]) {
+        rejected.push(
+          `- ${file.path}: hunk ${j + 1} of ${chunks.length} (${formatHunkHeader(
+            file.hunks[j]!,
+          )})`,
+        );
+        return;
+      }
+      const end = chunk.orig_index + chunk.del_lines.length;
+      lines.push(
+        ...origLines.slice(index, chunk.orig_index).map((l) => " " + l),
+      );
+      lines.push(...origLines.slice(chunk.orig_index, end).map((l) => "-" + l));
+      lines.push(...chunk.ins_lines.map((l) => "+" + l));
+      index = end;
+    });
+    lines.push(...origLines.slice(index).map((l) => " " + l));
+  });
+  lines.push("*** End Patch");
+
+  const note =
+    rejected.length > 0
+      ? [
+          applied > 0
+            ? "The user applied only part of the patch. These changes were rejected and not applied:"
+            : "The user rejected all changes of the patch:",
+          ...rejected,
+        ].join("\n")
+      : undefined;
+  return { patch: applied > 0 ? lines.join("\n") : undefined, note };
+}
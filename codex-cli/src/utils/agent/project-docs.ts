@@ -0,0 +1,113 @@
+import type { ProjectDoc } from "../config.js";
+
+import { findProjectDocInDir, readProjectDoc } from "../config.js";
+import path from "path";
+
+export type ActiveProjectDoc = ProjectDoc & {
+  /** Why the doc is active, e.g. the file whose edit brought it in. */
+  reason: string;
+};
+
+/**
+ * The project docs the model has been given in this session. The docs from
+ * the Git root down to the working directory are part of the instructions;
+ * docs in subdirectories are added once the agent edits files below them,
+ * so a monorepo package's conventions reach the model when it starts
+ * working on that package.
+ */
+export class ProjectDocScope {
+  private readonly docs: Array<ActiveProjectDoc>;
+  /** Directories below `root` already looked at, with or without a doc. */
+  private readonly searched = new Set<string>();
+
+  constructor(
+    private readonly root: string,
+    initial: ReadonlyArray<ProjectDoc>,
+  ) {
+    this.docs = initial.map((doc) => ({ ...doc, reason: "instructions" }));
+  }
+
+  active(): ReadonlyArray<ActiveProjectDoc> {
+    return this.docs;
+  }
+
+  /**
+   * Activate the docs in the directories between `root` and each of
+   * `paths` (absolute) that are not active yet, and return them outermost
+   * first. Paths outside `root` are ignored.
+   */
+  discover(paths: Iterable<string>): Array<ActiveProjectDoc> {
+    const found: Array<ActiveProjectDoc> = [];
+    for (const filePath of paths) {
+      const pending: Array<string> = [];
+      for (
+        let dir = path.dirname(filePath);
+        isStrictlyInside(dir, this.root) && !this.searched.has(dir);
+        dir = path.dirname(dir)
+      ) {
+        pending.unshift(dir);
+      }
+      for (const dir of pending) {
+        this.searched.add(dir);
+        const docPath = findProjectDocInDir(dir);
+        const doc = docPath ? readProjectDoc(docPath) : null;
+        if (doc && !this.docs.some((d) => d.path === doc.path)) {
+          const active = {
+            ...doc,
+            reason: `editing ${path.relative(this.root, filePath)}`,
+          };
+          this.docs.push(active);
+          found.push(active);
+        }
+      }
+    }
+    return found;
+  }
+}
+
+function isStrictlyInside(dir: string, root: string): boolean {
+  const relative = path.relative(root, dir);
+  return (
+    relative !== "" && !relative.startsWith("..") && !path.isAbsolute(relative)
+  );
+}
+
+/**
+ * The text added to a tool result that introduces the project docs of the
+ * subdirectories the agent just started editing.
+ */
+export function formatNestedProjectDocs(
+  docs: ReadonlyArray<ProjectDoc>,
+  root: string,
+): string {
+  return docs
+    .map((doc) => {
+      const dir = path.relative(root, path.dirname(doc.path));
+      return `[Project doc ${path.relative(root, doc.path)} applies to the files in ${dir}/ and takes precedence over the general project docs there:]\n${doc.content.trim()}`;
+    })
+    .join("\n\n");
+}
+
+/** The active project docs for `/context`. */
+export function formatActiveProjectDocs(
+  docs: ReadonlyArray<ActiveProjectDoc> | undefined,
+  cwd: string,
+): string {
+  if (docs === undefined) {
+    return "Project docs are disabled (--no-project-doc).";
+  }
+  if (docs.length === 0) {
+    return "No project docs (AGENTS.md) are active. Subdirectory docs are added when the agent edits files below them.";
+  }
+  const lines = docs.map((doc) => {
+    const size = `${Buffer.byteLength(doc.content)} bytes${
+      doc.truncated ? ", truncated" : ""
+    }`;
+    const source =
+      doc.reason === "instructions"
+        ? "in the instructions"
+        : `added when ${doc.reason}`;
+    return `  ${path.relative(cwd, doc.path) || doc.path} (${size}; ${source})`;
+  });
+  return ["Active project docs, outermost first:", ...lines].join("\n");
+}
@@ -7,8 +7,17 @@ export enum ReviewDecision {
    * future identical instances for the remainder of the session.
    */
   ALWAYS = "always",
+  /**
+   * Like ALWAYS, but the approval is also written as an `allow` rule to the
+   * project's `.codex/policy.yaml` so it survives restarts.
+   */
+  ALWAYS_PROJECT = "always-project",
   /**
    * User wants an explanation of what the command does before deciding.
    */
   EXPLAIN = "explain",
+  /**
+   * User edited the command in `$EDITOR`; the edited version runs instead.
+   */
+  EDIT = "edit",
 }
@@ -0,0 +1,270 @@
+import type { ExecOutputListener, ExecResult } from "./interface.js";
+import type { AppConfig, ContainerSandboxConfig } from "../../config.js";
+import type { SpawnOptions } from "child_process";
+
+import { exec } from "./raw-exec.js";
+import { log } from "../../logger/log.js";
+import { DEFAULT_READ_DENYLIST, findDeniedPaths } from "../../read-denylist.js";
+import { execFileSync, spawnSync } from "child_process";
+import { randomUUID } from "crypto";
+import path from "path";
+
+export const DEFAULT_CONTAINER_IMAGE = "node:20-slim";
+
+const RUNTIMES = ["docker", "podman"] as const;
+
+type ContainerMount = {
+  path: string;
+  readOnly: boolean;
+  /** Covered with an empty file or directory, see `read-denylist.ts`. */
+  hidden?: "file" | "directory";
+};
+
+type RunningContainer = {
+  runtime: string;
+  name: string;
+};
+
+/** The container of this session and the settings it was started with. */
+let current: { key: string; container: Promise<RunningContainer> } | null =
+  null;
+
+/**
+ * Runs `cmd` in the long-lived container of this session, which is started
+ * on first use and removed when the CLI exits. The working directory and the
+ * writable roots are bind-mounted read-write at the same paths, the rest of
+ * the git repository read-only. Paths in the read denylist are covered with
+ * empty mounts and the container has no network unless configured.
+ *
+ * Output truncation comes from `raw-exec.ts`. Timeouts and aborts kill the
+ * command's process group inside the container: killing the `docker exec`
+ * client alone would leave the command running.
+ */
+export async function execInContainer(
+  cmd: Array<string>,
+  opts: SpawnOptions,
+  writableRoots: ReadonlyArray<string>,
+  config: AppConfig,
+  abortSignal?: AbortSignal,
+  onOutput?: ExecOutputListener,
+): Promise<ExecResult> {
+  const { runtime, name } = await getContainer(config, writableRoots);
+  const workdir = typeof opts.cwd === "string" ? opts.cwd : process.cwd();
+  const pidFile = `/tmp/codex-exec-${randomUUID()}.pid`;
+  const inner = opts.shell ? ["sh", "-c", cmd.join(" ")] : cmd;
+  const fullCommand = [
+    runtime,
+    "exec",
+    "--workdir",
+    workdir,
+    name,
+    // A new session makes the command the leader of a process group that
+    // can be killed as a whole.
+    "setsid",
+    "sh",
+    "-c",
+    'echo $$ > "$0" && exec "$@"',
+    pidFile,
+    ...inner,
+  ];
+
+  const controller = new AbortController();
+  controller.signal.addEventListener(
+    "abort",
+    () => {
+      log(`container: killing ${pidFile} in ${name}`);
+      void exec(
+        [
+          runtime,
+          "exec",
+          name,
+          "sh",
+          "-c",
+          `kill -TERM -- -"$(cat ${pidFile})"; sleep 2; kill -KILL -- -"$(cat ${pidFile})"`,
+        ],
+        {},
+        config,
+      );
+    },
+    { once: true },
+  );
+  const forwardAbort = () => controller.abort();
+  if (abortSignal?.aborted) {
+    controller.abort();
+  } else {
+    abortSignal?.addEventListener("abort", forwardAbort, { once: true });
+  }
+  const timer =
+    opts.timeout !== undefined
+      ? setTimeout(() => controller.abort(), opts.timeout)
+      : undefined;
+
+  const clientOpts: SpawnOptions = { ...opts };
+  delete clientOpts.timeout;
+  delete clientOpts.shell;
+  try {
+    return await exec(
+      fullCommand,
+      clientOpts,
+      config,
+      controller.signal,
+      onOutput,
+    );
+  } finally {
+    clearTimeout(timer);
+    abortSignal?.removeEventListener("abort", forwardAbort);
+  }
+}
+
+function getContainer(
+  config: AppConfig,
+  writableRoots: ReadonlyArray<string>,
+): Promise<RunningContainer> {
+  const settings = config.containerSandbox ?? {};
+  const mounts = containerMounts(
+    process.cwd(),
+    writableRoots,
+    config.readDenylist ?? DEFAULT_READ_DENYLIST,
+  );
+  const key = JSON.stringify([settings, mounts]);
+  if (current?.key !== key) {
+    // The writable roots or settings changed: replace the container.
+    if (current) {
+      void current.container.then(
+        ({ runtime, name }) =>
+          exec([runtime, "rm", "--force", name], {}, config),
+        () => undefined,
+      );
+    }
+    const container = startContainer(settings, mounts, config);
+    // Let a failed start be retried by the next command.
+    container.catch(() => {
+      if (current?.container === container) {
+        current = null;
+      }
+    });
+    current = { key, container };
+  }
+  return current.container;
+}
+
+/** Arguments for `<runtime> run`, exported for tests. */
+export function containerRunArgs(
+  runtime: string,
+  name: string,
+  settings: ContainerSandboxConfig,
+  mounts: ReadonlyArray<ContainerMount>,
+  workdir: string,
+): Array<string> {
+  const user =
+    runtime === "podman"
+      ? ["--userns", "keep-id"]
+      : process.getuid && process.getgid
+        ? ["--user", `${process.getuid()}:${process.getgid()}`]
+        : [];
+  return [
+    "run",
+    "--detach",
+    "--rm",
+    "--init",
+    "--name",
+    name,
+    ...(settings.network ? [] : ["--network", "none"]),
+    ...user,
+    "--env",
+    "HOME=/tmp",
+    ...mounts.flatMap((mount) =>
+      mount.hidden === "directory"
+        ? ["--tmpfs", `${mount.path}:ro`]
+        : mount.hidden === "file"
+          ? ["--volume", `/dev/null:${mount.path}:ro`]
+          : [
+              "--volume",
+              `${mount.path}:${mount.path}${mount.readOnly ? ":ro" : ""}`,
+            ],
+    ),
+    "--workdir",
+    workdir,
+    settings.image ?? DEFAULT_CONTAINER_IMAGE,
+    "sleep",
+    "infinity",
+  ];
+}
+
+/**
+ * The working directory and writable roots read-write, the git repository
+ * around the working directory read-only, then empty mounts over the denied
+ * paths inside of them.
+ */
+export function containerMounts(
+  workdir: string,
+  writableRoots: ReadonlyArray<string>,
+  denylist: ReadonlyArray<string>,
+): Array<ContainerMount> {
+  const mounts: Array<ContainerMount> = [];
+  const repoRoot = gitToplevel(workdir);
+  if (repoRoot && repoRoot !== workdir) {
+    mounts.push({ path: repoRoot, readOnly: true });
+  }
+  for (const root of new Set([workdir, ...writableRoots])) {
+    mounts.push({ path: path.resolve(root), readOnly: false });
+  }
+  const roots = mounts.map((mount) => mount.path);
+  for (const denied of findDeniedPaths(denylist, roots, workdir)) {
+    if (roots.some((root) => denied.path.startsWith(`${root}/`))) {
+      mounts.push({
+        path: denied.path,
+        readOnly: true,
+        hidden: denied.directory ? "directory" : "file",
+      });
+    }
+  }
+  return mounts;
+}
+
+function gitToplevel(workdir: string): string | null {
+  try {
+    return execFileSync("git", ["rev-parse", "--show-toplevel"], {
+      cwd: workdir,
+      encoding: "utf8",
+      stdio: ["ignore", "pipe", "ignore"],
+    }).trim();
+  } catch {
+    return null;
+  }
+}
+
+async function startContainer(
+  settings: ContainerSandboxConfig,
+  mounts: ReadonlyArray<ContainerMount>,
+  config: AppConfig,
+): Promise<RunningContainer> {
+  const runtime = settings.runtime ?? (await detectRuntime(config));
+  const name = `codex-sandbox-${process.pid}-${randomUUID().slice(0, 8)}`;
+  const args = containerRunArgs(runtime, name, settings, mounts, process.cwd());
+  log(`container: ${runtime} ${args.join(" ")}`);
+  const result = await exec([runtime, ...args], {}, config);
+  if (result.exitCode !== 0) {
+    throw new Error(
+      `Could not start the sandbox container with ${runtime}: ${result.stderr.trim()}`,
+    );
+  }
+  // Best effort: the container outlives a CLI that is killed with SIGKILL.
+  process.once("exit", () => {
+    spawnSync(runtime, ["rm", "--force", name], { stdio: "ignore" });
+  });
+  return { runtime, name };
+}
+
+async function detectRuntime(config: AppConfig): Promise<string> {
+  for (const runtime of RUNTIMES) {
+    // eslint-disable-next-line no-await-in-loop
+    const result = await exec([runtime, "version"], {}, config);
+    if (result.exitCode === 0) {
+      return runtime;
+    }
+  }
+  throw new Error(
+    "containerSandbox is enabled, but neither docker nor podman is available.",
+  );
+}
@@ -1,77 +1,312 @@
 // Maximum output cap: either MAX_OUTPUT_LINES lines or MAX_OUTPUT_BYTES bytes,
 // whichever limit is reached first.
 import { DEFAULT_SHELL_MAX_BYTES, DEFAULT_SHELL_MAX_LINES } from "../../config";
+import { log } from "../../logger/log.js";
+import fs from "fs";
+
+/**
+ * Lines in the middle of truncated output that are kept anyway because they
+ * are likely what the model is looking for.
+ */
+const ERROR_LINE_PATTERN =
+  /\b(error|errors|fail|failed|failure|failures|fatal|panic|panicked|exception|traceback|assert|assertion)\b|^\s*[✗✘×]/i;
+
+export type TruncationOptions = {
+  /**
+   * `head` keeps the start of the output. `head-tail` keeps its start and
+   * end, which is where test runners and compilers print their summary, and
+   * the lines in between that look like errors.
+   */
+  strategy?: "head" | "head-tail";
+  /**
+   * Called once when the limits are exceeded; the complete output is written
+   * to the path it returns.
+   */
+  fullOutputPath?: () => string;
+};
 
 /**
  * Creates a collector that accumulates data Buffers from a stream up to
- * specified byte and line limits. After either limit is exceeded, further
- * data is ignored.
+ * specified byte and line limits. With the default `head` strategy further
+ * data is ignored after either limit is exceeded.
  */
 export function createTruncatingCollector(
   stream: NodeJS.ReadableStream,
   byteLimit: number = DEFAULT_SHELL_MAX_BYTES,
   lineLimit: number = DEFAULT_SHELL_MAX_LINES,
+  { strategy = "head", fullOutputPath }: TruncationOptions = {},
 ): {
   getString: () => string;
   hit: boolean;
 } {
+  const collector =
+    strategy === "head-tail"
+      ? createHeadTailCollector(byteLimit, lineLimit)
+      : createHeadCollector(byteLimit, lineLimit);
+
+  // Everything is kept until the limits are exceeded, which bounds it.
+  const unsaved: Array<Buffer> = [];
+  let file: fs.WriteStream | null = null;
+
+  stream?.on("data", (data: Buffer) => {
+    collector.push(data);
+    if (file) {
+      file.write(data);
+    } else if (fullOutputPath) {
+      unsaved.push(data);
+      if (collector.hit) {
+        const path = fullOutputPath();
+        file = fs.createWriteStream(path);
+        file.on("error", (err) => {
+          log(`Failed to save the full output to ${path}: ${err.message}`);
+        });
+        for (const chunk of unsaved.splice(0)) {
+          file.write(chunk);
+        }
+      }
+    }
+  });
+  stream?.on("end", () => {
+    file?.end();
+  });
+
+  return {
+    getString: () => collector.getString(),
+    /** True if either byte or line limit was exceeded */
+    get hit(): boolean {
+      return collector.hit;
+    },
+  };
+}
+
+type Collector = {
+  push: (data: Buffer) => void;
+  getString: () => string;
+  readonly hit: boolean;
+};
+
+function countNewlines(data: Buffer): number {
+  let count = 0;
+  for (let i = 0; i < data.length; i++) {
+    if (data[i] === 0x0a) {
+      count++;
+    }
+  }
+  return count;
+}
+
+function createHeadCollector(byteLimit: number, lineLimit: number): Collector {
   const chunks: Array<Buffer> = [];
   let totalBytes = 0;
   let totalLines = 0;
   let hitLimit = false;
 
-  stream?.on("data", (data: Buffer) => {
-    if (hitLimit) {
-      return;
-    }
-    const dataLength = data.length;
-    let newlineCount = 0;
-    for (let i = 0; i < dataLength; i++) {
-      if (data[i] === 0x0a) {
-        newlineCount++;
+  return {
+    push(data: Buffer) {
+      if (hitLimit) {
+        return;
       }
-    }
-    // If entire chunk fits within byte and line limits, take it whole
-    if (
-      totalBytes + dataLength <= byteLimit &&
-      totalLines + newlineCount <= lineLimit
-    ) {
-      chunks.push(data);
-      totalBytes += dataLength;
-      totalLines += newlineCount;
-    } else {
-      // Otherwise, take a partial slice up to the first limit breach
-      const allowedBytes = byteLimit - totalBytes;
-      const allowedLines = lineLimit - totalLines;
-      let bytesTaken = 0;
-      let linesSeen = 0;
-      for (let i = 0; i < dataLength; i++) {
-        // Stop if byte or line limit is reached
-        if (bytesTaken === allowedBytes || linesSeen === allowedLines) {
-          break;
+      const dataLength = data.length;
+      const newlineCount = countNewlines(data);
+      // If entire chunk fits within byte and line limits, take it whole
+      if (
+        totalBytes + dataLength <= byteLimit &&
+        totalLines + newlineCount <= lineLimit
+      ) {
+        chunks.push(data);
+        totalBytes += dataLength;
+        totalLines += newlineCount;
+      } else {
+        // Otherwise, take a partial slice up to the first limit breach
+        const allowedBytes = byteLimit - totalBytes;
+        const allowedLines = lineLimit - totalLines;
+        let bytesTaken = 0;
+        let linesSeen = 0;
+        for (let i = 0; i < dataLength; i++) {
+          // Stop if byte or line limit is reached
+          if (bytesTaken === allowedBytes || linesSeen === allowedLines) {
+            break;
+          }
+          const byte = data[i];
+          if (byte === 0x0a) {
+            linesSeen++;
+          }
+          bytesTaken++;
         }
-        const byte = data[i];
-        if (byte === 0x0a) {
-          linesSeen++;
+        if (bytesTaken > 0) {
+          chunks.push(data.slice(0, bytesTaken));
+          totalBytes += bytesTaken;
+          totalLines += linesSeen;
         }
-        bytesTaken++;
+        hitLimit = true;
       }
-      if (bytesTaken > 0) {
-        chunks.push(data.slice(0, bytesTaken));
-        totalBytes += bytesTaken;
-        totalLines += linesSeen;
+    },
+    getString() {
+      return Buffer.concat(chunks).toString("utf8");
+    },
+    get hit() {
+      return hitLimit;
+    },
+  };
+}
+
+type Line = { number: number; data: Buffer; newline: boolean };
+
+/**
+ * Keeps the first half of the limits for the start of the output and the
+ * rest for its end. Lines that fall out of the end are dropped unless they
+ * look like errors, which get up to a tenth of the limits.
+ */
+function createHeadTailCollector(
+  byteLimit: number,
+  lineLimit: number,
+): Collector {
+  const headByteBudget = Math.floor(byteLimit / 2);
+  const headLineBudget = Math.floor(lineLimit / 2);
+  const errorByteBudget = Math.floor(byteLimit / 10);
+  const errorLineBudget = Math.floor(lineLimit / 10);
+
+  const head: Array<Buffer> = [];
+  let headBytes = 0;
+  let headLines = 0;
+  let headFull = false;
+  const errors: Array<Line> = [];
+  let errorBytes = 0;
+  const tail: Array<Line> = [];
+  let tailBytes = 0;
+  let tailLines = 0;
+  let omittedBytes = 0;
+  let omittedLines = 0;
+  let newlinesSeen = 0;
+  // The line that is still being printed.
+  let partial: Array<Buffer> = [];
+  let partialBytes = 0;
+
+  const tailByteBudget = () => byteLimit - headBytes - errorBytes;
+  const tailLineBudget = () => lineLimit - headLines - errors.length;
+
+  const drop = (line: Line) => {
+    if (
+      errors.length < errorLineBudget &&
+      errorBytes + line.data.length <= errorByteBudget &&
+      ERROR_LINE_PATTERN.test(line.data.toString("utf8"))
+    ) {
+      errors.push(line);
+      errorBytes += line.data.length;
+    } else {
+      omittedBytes += line.data.length;
+      omittedLines += 1;
+    }
+  };
+
+  const addLine = (data: Buffer, newline: boolean) => {
+    // A line cut short by `flushPartial()` shares its number with the rest.
+    const number = newlinesSeen + 1;
+    const lines = newline ? 1 : 0;
+    newlinesSeen += lines;
+    if (!headFull) {
+      if (
+        headBytes + data.length <= headByteBudget &&
+        headLines + lines <= headLineBudget
+      ) {
+        head.push(data);
+        headBytes += data.length;
+        headLines += lines;
+        return;
       }
-      hitLimit = true;
+      headFull = true;
     }
-  });
+    tail.push({ number, data, newline });
+    tailBytes += data.length;
+    tailLines += lines;
+    // The last line stays even when it is too long on its own; its end is
+    // kept in `getString()`.
+    while (
+      tail.length > 1 &&
+      (tailBytes > tailByteBudget() || tailLines > tailLineBudget())
+    ) {
+      const line = tail.shift()!;
+      tailBytes -= line.data.length;
+      tailLines -= line.newline ? 1 : 0;
+      drop(line);
+    }
+  };
+
+  const flushPartial = () => {
+    if (partialBytes > 0) {
+      addLine(Buffer.concat(partial), false);
+      partial = [];
+      partialBytes = 0;
+    }
+  };
 
   return {
+    push(data: Buffer) {
+      let start = 0;
+      for (
+        let end = data.indexOf(0x0a);
+        end !== -1;
+        end = data.indexOf(0x0a, start)
+      ) {
+        partial.push(data.subarray(start, end + 1));
+        addLine(Buffer.concat(partial), true);
+        partial = [];
+        partialBytes = 0;
+        start = end + 1;
+      }
+      if (start < data.length) {
+        partial.push(data.subarray(start));
+        partialBytes += data.length - start;
+        // Output without newlines (progress bars, minified files) must not
+        // pile up either.
+        if (partialBytes > byteLimit) {
+          flushPartial();
+        }
+      }
+    },
     getString() {
-      return Buffer.concat(chunks).toString("utf8");
+      flushPartial();
+      let tailData = Buffer.concat(tail.map((line) => line.data));
+      let trimmedBytes = 0;
+      if (tailData.length > Math.max(0, tailByteBudget())) {
+        trimmedBytes = tailData.length - Math.max(0, tailByteBudget());
+        tailData = tailData.subarray(trimmedBytes);
+      }
+
+      let text = Buffer.concat(head).toString("utf8");
+      if (omittedLines === 0 && errors.length === 0 && trimmedBytes === 0) {
+        return text + tailData.toString("utf8");
+      }
+      if (text !== "" && !text.endsWith("\n")) {
+        text += "\n";
+      }
+      const bytes = omittedBytes + trimmedBytes;
+      const omitted =
+        omittedLines > 0
+          ? `${omittedLines} lines (${bytes} bytes) omitted`
+          : bytes > 0
+            ? `${bytes} bytes omitted`
+            : "";
+      if (errors.length > 0) {
+        text += omitted
+          ? `[... ${omitted}; these lines among them look like errors:]\n`
+          : "[... these lines in between look like errors:]\n";
+        for (const line of errors) {
+          const content = line.data.toString("utf8").replace(/\n$/, "");
+          text += `[line ${line.number}] ${content}\n`;
+        }
+        text += "[... end of omitted lines ...]\n";
+      } else {
+        text += `[... ${omitted} ...]\n`;
+      }
+      return text + tailData.toString("utf8");
     },
-    /** True if either byte or line limit was exceeded */
-    get hit(): boolean {
-      return hitLimit;
+    get hit() {
+      return (
+        omittedLines > 0 ||
+        errors.length > 0 ||
+        tailBytes + partialBytes > tailByteBudget()
+      );
     },
   };
 }
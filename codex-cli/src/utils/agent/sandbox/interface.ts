@@ -2,6 +2,7 @@ export enum SandboxType {
   NONE = "none",
   MACOS_SEATBELT = "macos.seatbelt",
   LINUX_LANDLOCK = "linux.landlock",
+  CONTAINER = "container",
 }
 
 export type ExecInput = {
@@ -21,6 +22,15 @@ export type ExecResult = {
   newWorkdir?: string;
 };
 
+/**
+ * Receives the output of a command as it is produced, before truncation, so
+ * that it can be shown while the command runs.
+ */
+export type ExecOutputListener = (
+  chunk: string,
+  stream: "stdout" | "stderr",
+) => void;
+
 /**
  * Value to use with the `metadata` field of a `ResponseItem` whose type is
  * `function_call_output`.
@@ -1,8 +1,12 @@
-import type { ExecResult } from "./interface.js";
+import type { ExecOutputListener, ExecResult } from "./interface.js";
 import type { AppConfig } from "../../config.js";
+import type { DeniedPath } from "../../read-denylist.js";
 import type { SpawnOptions } from "child_process";
 
+import { execInNamespaces } from "./namespaces.js";
+import { parseEgressRule } from "./network.js";
 import { exec } from "./raw-exec.js";
+import { DEFAULT_READ_DENYLIST, findDeniedPaths } from "../../read-denylist.js";
 import { execFile } from "child_process";
 import fs from "fs";
 import path from "path";
@@ -11,10 +15,14 @@ import { fileURLToPath } from "url";
 
 /**
  * Runs Landlock with the following permissions:
- * - can read any file on disk
+ * - can read any file on disk, except for the paths in the read denylist
  * - can write to process.cwd()
  * - can write to the platform user temp folder
  * - can write to any user-provided writable root
+ *
+ * The denied paths are hidden by running in a mount namespace. With
+ * `networkSandbox` enabled in the config, it also runs in a network namespace
+ * without network access except for the allowed hosts.
  */
 export async function execWithLandlock(
   cmd: Array<string>,
@@ -22,6 +30,7 @@ export async function execWithLandlock(
   userProvidedWritableRoots: ReadonlyArray<string>,
   config: AppConfig,
   abortSignal?: AbortSignal,
+  onOutput?: ExecOutputListener,
 ): Promise<ExecResult> {
   const sandboxExecutable = await getSandboxExecutable();
 
@@ -46,7 +55,39 @@ export async function execWithLandlock(
     ...cmd,
   ];
 
-  return exec(fullCommand, opts, config, abortSignal);
+  const cwd = typeof opts.cwd === "string" ? opts.cwd : process.cwd();
+  const network = config.networkSandbox?.enabled
+    ? { allow: (config.networkSandbox.allow ?? []).map(parseEgressRule) }
+    : undefined;
+  const hiddenPaths = pathsHiddenByLandlock(
+    cwd,
+    userProvidedWritableRoots,
+    config,
+  );
+  if (network || hiddenPaths.length > 0) {
+    return execInNamespaces(
+      fullCommand,
+      opts,
+      config,
+      { network, hiddenPaths },
+      abortSignal,
+      onOutput,
+    );
+  }
+  return exec(fullCommand, opts, config, abortSignal, onOutput);
+}
+
+/** The paths `execWithLandlock()` hides from a command running in `cwd`. */
+export function pathsHiddenByLandlock(
+  cwd: string,
+  userProvidedWritableRoots: ReadonlyArray<string>,
+  config: AppConfig,
+): Array<DeniedPath> {
+  return findDeniedPaths(
+    config.readDenylist ?? DEFAULT_READ_DENYLIST,
+    [cwd, ...userProvidedWritableRoots],
+    cwd,
+  );
 }
 
 /**
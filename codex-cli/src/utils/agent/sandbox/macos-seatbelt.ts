@@ -1,9 +1,14 @@
-import type { ExecResult } from "./interface.js";
+import type { ExecOutputListener, ExecResult } from "./interface.js";
 import type { AppConfig } from "../../config.js";
 import type { SpawnOptions } from "child_process";
 
 import { exec } from "./raw-exec.js";
 import { log } from "../../logger/log.js";
+import { globToRegExp } from "../../policy-file.js";
+import {
+  DEFAULT_READ_DENYLIST,
+  readDenylistEntryToAbsolute,
+} from "../../read-denylist.js";
 
 function getCommonRoots() {
   return [
@@ -27,6 +32,7 @@ export function execWithSeatbelt(
   writableRoots: ReadonlyArray<string>,
   config: AppConfig,
   abortSignal?: AbortSignal,
+  onOutput?: ExecOutputListener,
 ): Promise<ExecResult> {
   let scopedWritePolicy: string;
   let policyTemplateParams: Array<string>;
@@ -59,7 +65,13 @@ export function execWithSeatbelt(
     policyTemplateParams = [];
   }
 
-  const fullPolicy = READ_ONLY_SEATBELT_POLICY + scopedWritePolicy;
+  const cwd = typeof opts.cwd === "string" ? opts.cwd : process.cwd();
+  const { policy: readDenyPolicy, params: readDenyParams } =
+    buildReadDenyPolicy(config.readDenylist ?? DEFAULT_READ_DENYLIST, cwd);
+  policyTemplateParams.push(...readDenyParams);
+
+  const fullPolicy =
+    READ_ONLY_SEATBELT_POLICY + scopedWritePolicy + readDenyPolicy;
   log(
     `Running seatbelt with policy: ${fullPolicy} and ${
       policyTemplateParams.length
@@ -74,7 +86,38 @@ export function execWithSeatbelt(
     "--",
     ...cmd,
   ];
-  return exec(fullCommand, opts, config, abortSignal);
+  return exec(fullCommand, opts, config, abortSignal, onOutput);
+}
+
+/**
+ * Deny reading the paths in the read denylist. It comes after
+ * `(allow file-read*)` so that it takes precedence. Globs become regexes
+ * that also match everything below a matching directory.
+ */
+function buildReadDenyPolicy(
+  denylist: ReadonlyArray<string>,
+  workdir: string,
+): { policy: string; params: Array<string> } {
+  const filters: Array<string> = [];
+  const params: Array<string> = [];
+  for (const entry of denylist) {
+    const absolute = readDenylistEntryToAbsolute(entry, workdir);
+    if (/[*?]/.test(absolute)) {
+      const source = globToRegExp(absolute)
+        .source.replace(/\(\?:/g, "(")
+        .replace(/\$$/, "(/.*)?$")
+        .replace(/"/g, '\\"');
+      filters.push(`(regex #"${source}")`);
+    } else {
+      filters.push(`(subpath (param "DENIED_READ_${params.length}"))`);
+      params.push(`-DDENIED_READ_${params.length}=${absolute}`);
+    }
+  }
+  return {
+    policy:
+      filters.length > 0 ? `\n(deny file-read*\n${filters.join(" ")}\n)` : "",
+    params,
+  };
 }
 
 const READ_ONLY_SEATBELT_POLICY = `
@@ -0,0 +1,261 @@
+import type { ExecOutputListener, ExecResult } from "./interface.js";
+import type { EgressRule } from "./network.js";
+import type { AppConfig } from "../../config.js";
+import type { DeniedPath } from "../../read-denylist.js";
+import type { SpawnOptions } from "child_process";
+
+import { LOOPBACK_HOSTS, startEgressProxy } from "./network.js";
+import { exec } from "./raw-exec.js";
+import { execFile } from "child_process";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { log } from "src/utils/logger/log.js";
+
+/** What `execInNamespaces()` isolates the command from. */
+export type NamespaceIsolation = {
+  /**
+   * Run in a network namespace that only reaches the allowed hosts, see
+   * `network.ts`.
+   */
+  network?: { allow: ReadonlyArray<EgressRule> };
+  /**
+   * Files and directories to mount empty (and read-only) ones over, see
+   * `read-denylist.ts`.
+   */
+  hiddenPaths?: ReadonlyArray<DeniedPath>;
+};
+
+/** The instructions `launcher.cjs` reads from its first argument. */
+type LauncherConfig = {
+  network: boolean;
+  socketPath: string | null;
+  forwardedPorts: Array<number>;
+  hiddenPaths: ReadonlyArray<DeniedPath>;
+};
+
+/**
+ * `unshare(1)` creates a new user namespace, so no privileges are needed to
+ * create the network and mount namespaces inside of it.
+ */
+function unshareArgs(isolation: NamespaceIsolation): Array<string> {
+  return [
+    "--user",
+    "--map-root-user",
+    ...(isolation.network ? ["--net"] : []),
+    ...(isolation.hiddenPaths?.length ? ["--mount"] : []),
+  ];
+}
+
+/**
+ * Runs `cmd` in Linux namespaces that take away what `isolation` lists.
+ *
+ * In the network namespace only the loopback interface is up, so nothing
+ * outside of it is reachable except for the allowed hosts:
+ *
+ * - remote hosts through an HTTP(S) proxy, advertised to the command with
+ *   `HTTP_PROXY`/`HTTPS_PROXY`
+ * - loopback `host:port` entries (e.g. a local package registry mirror) are
+ *   forwarded from the same port inside the namespace
+ *
+ * Both go through a proxy that runs in this process and listens on a Unix
+ * socket, which is reachable from the namespace because it is a file.
+ *
+ * Without support for user namespaces this fails: the command must not run
+ * without what `isolation` takes away.
+ */
+export async function execInNamespaces(
+  cmd: Array<string>,
+  opts: SpawnOptions,
+  config: AppConfig,
+  isolation: NamespaceIsolation,
+  abortSignal?: AbortSignal,
+  onOutput?: ExecOutputListener,
+): Promise<ExecResult> {
+  if (!(await namespacesSupported())) {
+    throw new Error(
+      isolation.network
+        ? ERROR_WHEN_NAMESPACES_NOT_SUPPORTED
+        : ERROR_WHEN_PATHS_CANNOT_BE_HIDDEN,
+    );
+  }
+
+  const rules = isolation.network?.allow ?? [];
+  const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "codex-ns-"));
+  const launcher = path.join(dir, "launcher.cjs");
+  const launcherConfig = path.join(dir, "launcher.json");
+  const socketPath = path.join(dir, "proxy.sock");
+  const proxy =
+    rules.length > 0 ? await startEgressProxy(socketPath, rules) : null;
+  await fs.promises.writeFile(launcher, LAUNCHER_SCRIPT);
+  await fs.promises.writeFile(
+    launcherConfig,
+    JSON.stringify({
+      network: isolation.network !== undefined,
+      socketPath: proxy ? socketPath : null,
+      forwardedPorts: rules
+        .filter((rule) => LOOPBACK_HOSTS.includes(rule.host))
+        .map((rule) => rule.port!),
+      hiddenPaths: isolation.hiddenPaths ?? [],
+    } satisfies LauncherConfig),
+  );
+
+  // With `shell: true` the arguments would be joined and handed to a shell
+  // outside of the namespaces, so run that shell inside them instead.
+  const inner = opts.shell ? ["/bin/sh", "-c", cmd.join(" ")] : cmd;
+  const fullCommand = [
+    "unshare",
+    ...unshareArgs(isolation),
+    "--",
+    process.execPath,
+    launcher,
+    launcherConfig,
+    "--",
+    ...inner,
+  ];
+
+  try {
+    return await exec(
+      fullCommand,
+      { ...opts, shell: false },
+      config,
+      abortSignal,
+      onOutput,
+    );
+  } finally {
+    await proxy?.close();
+    await fs.promises.rm(dir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Runs inside the namespaces: hides the denied paths, brings the loopback
+ * interface up, connects the forwarded ports and the proxy to the Unix socket
+ * and then runs the command.
+ *
+ * Usage: `node launcher.cjs <launcher.json> -- <command...>`
+ */
+const LAUNCHER_SCRIPT = `\
+const { spawn, spawnSync } = require("child_process");
+const fs = require("fs");
+const net = require("net");
+const os = require("os");
+
+const [configPath, , ...cmd] = process.argv.slice(2);
+const config = JSON.parse(fs.readFileSync(configPath, "utf8"));
+
+function tunnel(client, target) {
+  const upstream = net.connect(config.socketPath, () => {
+    upstream.write("CONNECT " + target + " HTTP/1.1\\r\\n\\r\\n");
+  });
+  let header = "";
+  const onData = (chunk) => {
+    header += chunk.toString("latin1");
+    const end = header.indexOf("\\r\\n\\r\\n");
+    if (end === -1) return;
+    upstream.off("data", onData);
+    if (!/^HTTP\\/1\\.1 200/.test(header)) return client.destroy();
+    const rest = Buffer.from(header.slice(end + 4), "latin1");
+    if (rest.length > 0) client.write(rest);
+    client.pipe(upstream).pipe(client);
+  };
+  upstream.on("data", onData);
+  upstream.on("error", () => client.destroy());
+  client.on("error", () => upstream.destroy());
+}
+
+function listen(port, onConnection) {
+  return new Promise((resolve, reject) => {
+    const server = net.createServer(onConnection);
+    server.once("error", reject);
+    server.listen(port, "127.0.0.1", () => resolve(server.address().port));
+  });
+}
+
+async function main() {
+  for (const { path, directory } of config.hiddenPaths) {
+    const args = directory
+      ? ["-t", "tmpfs", "-o", "ro,size=0", "tmpfs", path]
+      : ["--bind", "/dev/null", path];
+    const result = spawnSync("mount", args, { encoding: "utf8" });
+    if (result.status !== 0) {
+      throw new Error("cannot hide " + path + ": " + (result.stderr || result.error));
+    }
+  }
+
+  const env = { ...process.env };
+  if (config.network) {
+    spawnSync("ip", ["link", "set", "lo", "up"]);
+    for (const port of config.forwardedPorts) {
+      await listen(port, (client) => tunnel(client, "127.0.0.1:" + port));
+    }
+  }
+  if (config.socketPath) {
+    const port = await listen(0, (client) => {
+      const upstream = net.connect(config.socketPath);
+      client.pipe(upstream).pipe(client);
+      upstream.on("error", () => client.destroy());
+      client.on("error", () => upstream.destroy());
+    });
+    const proxy = "http://127.0.0.1:" + port;
+    for (const name of ["HTTP_PROXY", "HTTPS_PROXY", "ALL_PROXY"]) {
+      env[name] = env[name.toLowerCase()] = proxy;
+    }
+    env.NO_PROXY = env.no_proxy = "localhost,127.0.0.1,::1";
+  }
+
+  const child = spawn(cmd[0], cmd.slice(1), { stdio: "inherit", env });
+  child.on("error", (err) => {
+    process.stderr.write(String(err) + "\\n");
+    process.exit(127);
+  });
+  child.on("exit", (code, signal) => {
+    process.exit(code ?? 128 + (os.constants.signals[signal] || 0));
+  });
+}
+
+main().catch((err) => {
+  process.stderr.write("codex sandbox: " + String(err.message || err) + "\\n");
+  process.exit(1);
+});
+`;
+
+const ERROR_WHEN_NAMESPACES_NOT_SUPPORTED = `\
+Codex could not create a network namespace for the sandbox (networkSandbox
+is enabled in the config). This needs unshare(1) from util-linux and
+unprivileged user namespaces.
+
+Some distributions restrict unprivileged user namespaces, for example Ubuntu
+with kernel.apparmor_restrict_unprivileged_userns=1, and so do many Docker
+containers. Allow them or disable networkSandbox.
+`;
+
+const ERROR_WHEN_PATHS_CANNOT_BE_HIDDEN = `\
+Codex could not create a mount namespace to hide the paths in readDenylist
+from the sandboxed command. This needs unshare(1) from util-linux and
+unprivileged user namespaces.
+`;
+
+let namespacesSupportedPromise: Promise<boolean> | null = null;
+
+/** Whether `unshare` can create the namespaces, checked once. */
+export function namespacesSupported(): Promise<boolean> {
+  if (!namespacesSupportedPromise) {
+    namespacesSupportedPromise = new Promise((resolve) => {
+      const args = [
+        ...unshareArgs({ network: { allow: [] }, hiddenPaths: [] }),
+        "--mount",
+        "--",
+        "true",
+      ];
+      execFile("unshare", args, (error, _stdout, stderr) => {
+        if (error) {
+          log(`Namespace check failed: ${String(error)}`);
+          log(`stderr: ${stderr}`);
+        }
+        resolve(!error);
+      });
+    });
+  }
+  return namespacesSupportedPromise;
+}
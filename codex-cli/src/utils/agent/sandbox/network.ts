@@ -0,0 +1,145 @@
+import type { Socket } from "net";
+
+import http from "http";
+import net from "net";
+import { log } from "src/utils/logger/log.js";
+
+/**
+ * A `networkSandbox.allow` entry: `host` (any port) or `host:port`. A host
+ * starting with `*.` matches every subdomain.
+ */
+export type EgressRule = {
+  host: string;
+  port?: number;
+};
+
+export const LOOPBACK_HOSTS = ["localhost", "127.0.0.1", "::1"];
+
+export function parseEgressRule(entry: string): EgressRule {
+  const match = /^(?:\[([^\]]+)\]|([^:]+))(?::(\d+))?$/.exec(entry.trim());
+  const host = (match?.[1] ?? match?.[2])?.toLowerCase();
+  const port = match?.[3] !== undefined ? Number(match[3]) : undefined;
+  if (!host || (port !== undefined && (port < 1 || port > 65535))) {
+    throw new Error(
+      `Invalid networkSandbox.allow entry "${entry}": expected host or host:port.`,
+    );
+  }
+  if (LOOPBACK_HOSTS.includes(host) && port === undefined) {
+    throw new Error(
+      `Invalid networkSandbox.allow entry "${entry}": loopback entries need a port.`,
+    );
+  }
+  return port === undefined ? { host } : { host, port };
+}
+
+export function isEgressAllowed(
+  host: string,
+  port: number,
+  rules: ReadonlyArray<EgressRule>,
+): boolean {
+  const target = host.replace(/^\[|\]$/g, "").toLowerCase();
+  const sameHost = (ruleHost: string) =>
+    ruleHost === target ||
+    (LOOPBACK_HOSTS.includes(ruleHost) && LOOPBACK_HOSTS.includes(target));
+  return rules.some(
+    (rule) =>
+      (rule.port === undefined || rule.port === port) &&
+      (sameHost(rule.host) ||
+        (rule.host.startsWith("*.") && target.endsWith(rule.host.slice(1)))),
+  );
+}
+
+/**
+ * HTTP proxy on `socketPath` that only lets requests to allowed hosts
+ * through. `CONNECT` covers HTTPS and the forwarded loopback ports; plain
+ * HTTP requests arrive with an absolute URL.
+ */
+export async function startEgressProxy(
+  socketPath: string,
+  rules: ReadonlyArray<EgressRule>,
+): Promise<{ close: () => Promise<void> }> {
+  const sockets = new Set<Socket>();
+  const denied = (host: string, port: number) => {
+    log(`[network-sandbox] denied egress to ${host}:${port}`);
+    return `codex: ${host}:${port} is not in networkSandbox.allow\n`;
+  };
+
+  const server = http.createServer((req, res) => {
+    let url: URL;
+    try {
+      url = new URL(req.url ?? "");
+    } catch {
+      res.writeHead(400).end("codex: expected an absolute URL\n");
+      return;
+    }
+    const port = Number(url.port || (url.protocol === "https:" ? 443 : 80));
+    if (!isEgressAllowed(url.hostname, port, rules)) {
+      res.writeHead(403).end(denied(url.hostname, port));
+      return;
+    }
+    const upstream = http.request(
+      {
+        host: url.hostname.replace(/^\[|\]$/g, ""),
+        port,
+        method: req.method,
+        path: `${url.pathname}${url.search}`,
+        headers: req.headers,
+      },
+      (upstreamRes) => {
+        res.writeHead(upstreamRes.statusCode ?? 502, upstreamRes.headers);
+        upstreamRes.pipe(res);
+      },
+    );
+    upstream.on("error", (err) => {
+      if (res.headersSent) {
+        res.destroy();
+      } else {
+        res.writeHead(502).end(`codex: ${err.message}\n`);
+      }
+    });
+    req.pipe(upstream);
+  });
+
+  server.on("connect", (req: http.IncomingMessage, client: Socket, head) => {
+    sockets.add(client);
+    client.on("close", () => sockets.delete(client));
+    client.on("error", () => client.destroy());
+
+    const match = /^(.+):(\d+)$/.exec(req.url ?? "");
+    const host = match?.[1]?.replace(/^\[|\]$/g, "") ?? "";
+    const port = Number(match?.[2]);
+    if (!match || !isEgressAllowed(host, port, rules)) {
+      client.end(`HTTP/1.1 403 Forbidden\r\n\r\n${denied(host, port)}`);
+      return;
+    }
+    const upstream = net.connect(port, host, () => {
+      client.write("HTTP/1.1 200 Connection Established\r\n\r\n");
+      upstream.write(head);
+      upstream.pipe(client).pipe(upstream);
+    });
+    sockets.add(upstream);
+    upstream.on("close", () => sockets.delete(upstream));
+    upstream.on("error", (err) => {
+      client.end(`HTTP/1.1 502 Bad Gateway\r\n\r\ncodex: ${err.message}\n`);
+    });
+  });
+  server.on("connection", (socket: Socket) => {
+    sockets.add(socket);
+    socket.on("close", () => sockets.delete(socket));
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(socketPath, resolve);
+  });
+
+  return {
+    close: () =>
+      new Promise<void>((resolve) => {
+        for (const socket of sockets) {
+          socket.destroy();
+        }
+        server.close(() => resolve());
+      }),
+  };
+}
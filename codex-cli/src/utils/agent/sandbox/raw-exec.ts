@@ -1,13 +1,15 @@
-import type { ExecResult } from "./interface";
+import type { ExecOutputListener, ExecResult } from "./interface";
 import type { AppConfig } from "../../config";
 import type { ChildProcess, SpawnOptions } from "child_process";
 
 import { log } from "../../logger/log.js";
+import { defaultCommandOutputStore } from "../command-output-store.js";
 import { adaptCommandForPlatform } from "../platform-commands.js";
 import { createTruncatingCollector } from "./create-truncating-collector";
 import { requiresShell as utilRequiresShell } from "../exec";
 import { spawn } from "child_process";
 import * as os from "os";
+import { StringDecoder } from "string_decoder";
 import kill from "tree-kill";
 
 /**
@@ -19,6 +21,7 @@ export function exec(
   options: SpawnOptions,
   config: AppConfig,
   abortSignal?: AbortSignal,
+  onOutput?: ExecOutputListener,
 ): Promise<ExecResult> {
 
 
@@ -190,17 +193,24 @@ export function exec(
     const maxBytes = config?.tools?.shell?.maxBytes;
     const maxLines = config?.tools?.shell?.maxLines;
 
-    // Collect stdout and stderr up to configured limits.
-    const stdoutCollector = createTruncatingCollector(
-      child.stdout!,
-      maxBytes,
-      maxLines,
-    );
-    const stderrCollector = createTruncatingCollector(
-      child.stderr!,
-      maxBytes,
-      maxLines,
-    );
+    // Collect the start and end of stdout and stderr up to configured
+    // limits. When output is cut, all of it is saved for `read_output`.
+    const savedOutputIds: { stdout?: string; stderr?: string } = {};
+    const collect = (name: "stdout" | "stderr") =>
+      createTruncatingCollector(child[name]!, maxBytes, maxLines, {
+        strategy: "head-tail",
+        fullOutputPath: () => {
+          const { id, path } = defaultCommandOutputStore.allocate();
+          savedOutputIds[name] = id;
+          return path;
+        },
+      });
+    const stdoutCollector = collect("stdout");
+    const stderrCollector = collect("stderr");
+    if (onOutput) {
+      forwardOutput(child.stdout!, "stdout", onOutput);
+      forwardOutput(child.stderr!, "stderr", onOutput);
+    }
 
     child.on("exit", (code, signal) => {
       const stdout = stdoutCollector.getString();
@@ -230,6 +240,7 @@ export function exec(
           execResult,
           stdoutCollector.hit,
           stderrCollector.hit,
+          savedOutputIds,
         ),
       );
     });
@@ -245,6 +256,7 @@ export function exec(
           execResult,
           stdoutCollector.hit,
           stderrCollector.hit,
+          savedOutputIds,
         ),
       );
     });
@@ -252,24 +264,51 @@ export function exec(
 }
 
 /**
- * Adds a truncation warnings to stdout and stderr, if appropriate.
+ * Passes everything read from `stream` to `onOutput`, decoded as UTF-8 without
+ * splitting characters across chunks.
+ */
+function forwardOutput(
+  stream: NodeJS.ReadableStream,
+  name: "stdout" | "stderr",
+  onOutput: ExecOutputListener,
+): void {
+  const decoder = new StringDecoder("utf8");
+  stream.on("data", (data: Buffer) => {
+    const chunk = decoder.write(data);
+    if (chunk !== "") {
+      onOutput(chunk, name);
+    }
+  });
+  stream.on("end", () => {
+    const rest = decoder.end();
+    if (rest !== "") {
+      onOutput(rest, name);
+    }
+  });
+}
+
+/**
+ * Adds a truncation warnings to stdout and stderr, if appropriate, with the
+ * ids under which the full output was saved.
  */
 function addTruncationWarningsIfNecessary(
   execResult: ExecResult,
   hitMaxStdout: boolean,
   hitMaxStderr: boolean,
+  savedOutputIds: { stdout?: string; stderr?: string } = {},
 ): ExecResult {
   if (!hitMaxStdout && !hitMaxStderr) {
     return execResult;
   } else {
     const { stdout, stderr, exitCode } = execResult;
+    const warning = (id: string | undefined) =>
+      "\n\n[Output truncated: too many lines or bytes" +
+      (id
+        ? `. The full output is ${id}, page through it with the read_output tool.]`
+        : "]");
     return {
-      stdout: hitMaxStdout
-        ? stdout + "\n\n[Output truncated: too many lines or bytes]"
-        : stdout,
-      stderr: hitMaxStderr
-        ? stderr + "\n\n[Output truncated: too many lines or bytes]"
-        : stderr,
+      stdout: hitMaxStdout ? stdout + warning(savedOutputIds.stdout) : stdout,
+      stderr: hitMaxStderr ? stderr + warning(savedOutputIds.stderr) : stderr,
       exitCode,
     };
   }
@@ -0,0 +1,337 @@
+import type { CommandConfirmation } from "./agent-loop.js";
+import type {
+  ApplyPatchCommand,
+  ApprovalPolicy,
+  SafetyAssessment,
+} from "../../approvals.js";
+import type { AppConfig } from "../config.js";
+import type { PolicyFile } from "../policy-file.js";
+import type {
+  FunctionTool,
+  ResponseInputItem,
+} from "openai/resources/responses/responses.mjs";
+
+import { ReviewDecision } from "./review.js";
+import { AutoApprovalMode } from "../auto-approval-mode.js";
+import { log } from "../logger/log.js";
+import {
+  allowRuleForCommand,
+  appendPolicyRule,
+  evaluatePolicy,
+  loadPolicyFile,
+} from "../policy-file.js";
+
+/**
+ * Context handed to a tool handler for a single invocation.
+ */
+export type ToolContext = {
+  config: AppConfig;
+  approvalPolicy: ApprovalPolicy;
+  additionalWritableRoots: ReadonlyArray<string>;
+  /** Fires when the user cancels the current run or the loop terminates. */
+  abortSignal?: AbortSignal;
+};
+
+/**
+ * What a tool handler returns. `output` is forwarded to the model verbatim
+ * (wrapped in the same `{ output, metadata }` envelope as shell commands).
+ */
+export type ToolResult = {
+  output: string;
+  metadata?: Record<string, unknown>;
+  /** Extra items that should be appended to the next turn's input. */
+  additionalItems?: Array<ResponseInputItem>;
+};
+
+/**
+ * A tool that can be advertised to the model next to the built-in `shell`
+ * tool. `parameters` is a JSON schema describing the arguments object.
+ */
+export type AgentTool = {
+  name: string;
+  description: string;
+  parameters: FunctionTool["parameters"];
+  /**
+   * Whether an invocation must be confirmed by the user before it runs. A
+   * function receives the parsed arguments so that read-only calls can be
+   * let through while mutating ones are reviewed. Under the `full-auto` and
+   * `none` policies approval is never requested, mirroring `canAutoApprove()`.
+   */
+  requiresApproval: boolean | ((args: Record<string, unknown>) => boolean);
+  handler: (
+    args: Record<string, unknown>,
+    context: ToolContext,
+  ) => Promise<ToolResult>;
+};
+
+/**
+ * Registry of the non-shell tools that an `AgentLoop` exposes to the model.
+ */
+export class ToolRegistry {
+  private readonly tools = new Map<string, AgentTool>();
+
+  /**
+   * Register `tool`. Throws if the name collides with a built-in tool or with
+   * a tool that has already been registered. Returns a function that removes
+   * the tool again.
+   */
+  register(tool: AgentTool): () => void {
+    if (RESERVED_TOOL_NAMES.has(tool.name)) {
+      throw new Error(`Tool name '${tool.name}' is reserved`);
+    }
+    if (this.tools.has(tool.name)) {
+      throw new Error(`Tool '${tool.name}' is already registered`);
+    }
+    this.tools.set(tool.name, tool);
+    return () => {
+      if (this.tools.get(tool.name) === tool) {
+        this.tools.delete(tool.name);
+      }
+    };
+  }
+
+  unregister(name: string): boolean {
+    return this.tools.delete(name);
+  }
+
+  get(name: string): AgentTool | undefined {
+    return this.tools.get(name);
+  }
+
+  has(name: string): boolean {
+    return this.tools.has(name);
+  }
+
+  list(): Array<AgentTool> {
+    return [...this.tools.values()];
+  }
+
+  /** The registered tools in the shape expected by the `tools` request field. */
+  toFunctionTools(): Array<FunctionTool> {
+    return this.list().map((tool) => ({
+      type: "function",
+      name: tool.name,
+      description: tool.description,
+      strict: false,
+      parameters: tool.parameters,
+    }));
+  }
+}
+
+// Names handled directly by `AgentLoop` that must not be shadowed.
+const RESERVED_TOOL_NAMES: ReadonlySet<string> = new Set([
+  "shell",
+  "container.exec",
+  "local_shell",
+  "background_process",
+  "read_output",
+]);
+
+/**
+ * Process-wide registry used by every `AgentLoop` that is not given an
+ * explicit one. Modules can add tools at import time via `registerTool()`.
+ */
+export const defaultToolRegistry = new ToolRegistry();
+
+export function registerTool(tool: AgentTool): () => void {
+  return defaultToolRegistry.register(tool);
+}
+
+// Session-level cache of tools the user chose to "always approve". Mirrors
+// `alwaysApprovedCommands` in handle-exec-command.ts.
+const alwaysApprovedTools = new Set<string>();
+
+/**
+ * Decide whether a tool invocation can run without asking the user.
+ */
+export function assessToolCall(
+  tool: AgentTool,
+  args: Record<string, unknown>,
+  policy: ApprovalPolicy,
+  policyFile: PolicyFile = loadPolicyFile(),
+): SafetyAssessment {
+  // Project policy rules match the tool name as the program.
+  const decision = evaluatePolicy(
+    policyFile,
+    formatToolCallForReview(tool.name, args),
+    undefined,
+  );
+  if (decision?.action === "deny") {
+    return {
+      type: "reject",
+      reason: decision.rule.reason ?? `Denied by ${decision.path}`,
+    };
+  } else if (decision?.action === "ask") {
+    return { type: "ask-user" };
+  } else if (decision?.action === "allow") {
+    return {
+      type: "auto-approve",
+      reason: decision.rule.reason ?? `Allowed by ${decision.path}`,
+      group: "Project policy",
+      runInSandbox: false,
+    };
+  }
+
+  const needsApproval =
+    typeof tool.requiresApproval === "function"
+      ? tool.requiresApproval(args)
+      : tool.requiresApproval;
+
+  if (!needsApproval) {
+    return {
+      type: "auto-approve",
+      reason: `Tool '${tool.name}' does not require approval`,
+      group: "Tools",
+      runInSandbox: false,
+    };
+  }
+
+  if (
+    policy === "full-auto" ||
+    policy === AutoApprovalMode.FULL_AUTO ||
+    policy === AutoApprovalMode.NONE
+  ) {
+    return {
+      type: "auto-approve",
+      reason: `Approval policy is '${policy}'`,
+      group: "Tools",
+      runInSandbox: false,
+    };
+  }
+
+  return { type: "ask-user" };
+}
+
+/**
+ * The argv-style representation of a tool call shown in the review prompt.
+ */
+export function formatToolCallForReview(
+  name: string,
+  args: Record<string, unknown>,
+): Array<string> {
+  return [name, JSON.stringify(args)];
+}
+
+/**
+ * Parse the raw JSON arguments of a tool call. Returns `undefined` unless the
+ * arguments decode to a plain object.
+ */
+export function parseToolArguments(
+  rawArguments: string | undefined,
+): Record<string, unknown> | undefined {
+  try {
+    const parsed: unknown = JSON.parse(rawArguments || "{}");
+    if (
+      typeof parsed === "object" &&
+      parsed !== null &&
+      !Array.isArray(parsed)
+    ) {
+      return parsed as Record<string, unknown>;
+    }
+  } catch {
+    // fall through
+  }
+  return undefined;
+}
+
+type HandleToolCallResult = {
+  outputText: string;
+  metadata: Record<string, unknown>;
+  additionalItems?: Array<ResponseInputItem>;
+};
+
+/**
+ * Run a registered tool, asking for confirmation first if required. This is
+ * the registry counterpart of `handleExecCommand()`.
+ */
+export async function handleToolCall(
+  tool: AgentTool,
+  args: Record<string, unknown>,
+  context: ToolContext,
+  getCommandConfirmation: (
+    safetyAssessment: SafetyAssessment,
+    command: Array<string>,
+    applyPatch: ApplyPatchCommand | undefined,
+  ) => Promise<CommandConfirmation>,
+): Promise<HandleToolCallResult> {
+  if (!alwaysApprovedTools.has(tool.name)) {
+    const assessment = assessToolCall(tool, args, context.approvalPolicy);
+    if (assessment.type === "reject") {
+      return {
+        outputText: "rejected",
+        metadata: { reason: assessment.reason },
+      };
+    }
+    if (assessment.type === "ask-user") {
+      const { review: decision, customDenyMessage } =
+        await getCommandConfirmation(
+          assessment,
+          formatToolCallForReview(tool.name, args),
+          undefined,
+        );
+
+      if (decision === ReviewDecision.ALWAYS) {
+        alwaysApprovedTools.add(tool.name);
+      } else if (decision === ReviewDecision.ALWAYS_PROJECT) {
+        alwaysApprovedTools.add(tool.name);
+        try {
+          appendPolicyRule(
+            allowRuleForCommand(formatToolCallForReview(tool.name, args))!,
+          );
+        } catch (err) {
+          log(`handleToolCall(): failed to persist allow rule: ${String(err)}`);
+        }
+      } else if (
+        decision !== ReviewDecision.YES &&
+        decision !== ReviewDecision.EXPLAIN
+      ) {
+        const note =
+          decision === ReviewDecision.NO_CONTINUE
+            ? customDenyMessage?.trim() ||
+              "No, don't do that — keep going though."
+            : "No, don't do that — stop for now.";
+        return {
+          outputText: "aborted",
+          metadata: {},
+          additionalItems: [
+            {
+              type: "message",
+              role: "user",
+              content: [{ type: "input_text", text: note }],
+            },
+          ],
+        };
+      }
+    }
+  }
+
+  if (context.abortSignal?.aborted) {
+    return { outputText: "aborted", metadata: {} };
+  }
+
+  const start = Date.now();
+  try {
+    const result = await tool.handler(args, context);
+    return {
+      outputText: result.output,
+      metadata: {
+        exit_code: 0,
+        duration_seconds: Math.round((Date.now() - start) / 100) / 10,
+        ...result.metadata,
+      },
+      ...(result.additionalItems && {
+        additionalItems: result.additionalItems,
+      }),
+    };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    log(`handleToolCall(): tool '${tool.name}' failed: ${message}`);
+    return {
+      outputText: `error: ${message}`,
+      metadata: {
+        exit_code: 1,
+        duration_seconds: Math.round((Date.now() - start) / 100) / 10,
+      },
+    };
+  }
+}
@@ -1,20 +1,83 @@
 import type { ResponseItem } from "openai/resources/responses/responses.mjs";
+import type { ChatCompletionMessageParam } from "openai/resources/chat/completions.mjs";
+
+import { countTokens as countCl100kTokens } from "gpt-tokenizer/encoding/cl100k_base";
+import { countTokens as countO200kTokens } from "gpt-tokenizer/encoding/o200k_base";
+
+/**
+ * The pre-tokenization pattern of OpenAI's BPE tokenizers: a token never
+ * crosses the boundary of a word (with its leading space), a run of up to
+ * three digits, a run of punctuation or a run of whitespace.
+ */
+const PRE_TOKEN_PATTERN =
+  /'(?:[sdmt]|ll|ve|re)|[^\r\n\p{L}\p{N}]?\p{L}+|\p{N}{1,3}| ?[^\s\p{L}\p{N}]+[\r\n]*|\s*[\r\n]+|\s+(?!\S)|\s+/gu;
+
+/** Common words are a single token; longer pieces average ~4 chars per token. */
+const SINGLE_TOKEN_PIECE_LENGTH = 6;
+
+/**
+ * What the API charges for an image whose size we do not know: a 1024×1024
+ * image at high detail.
+ */
+const IMAGE_TOKENS = 765;
+
+/** Role and delimiter tokens the API adds around every message or call. */
+const ITEM_OVERHEAD_TOKENS = 4;
+
+/**
+ * The BPE tokenizer of an OpenAI model family: `o200k_base` for GPT-4o and
+ * later models and the o-series, `cl100k_base` for GPT-4 and GPT-3.5. Other
+ * models, e.g. of other providers, have no known tokenizer.
+ */
+function tokenizerForModel(
+  model: string | undefined,
+): ((text: string) => number) | undefined {
+  const name = model?.toLowerCase().replace(/^openai\//, "") ?? "";
+  if (/^(gpt-4o|gpt-4\.[1-9]|gpt-5|chatgpt-4o|o[1-9]|codex-mini)/.test(name)) {
+    return countO200kTokens;
+  }
+  if (/^(gpt-4|gpt-3\.5)/.test(name)) {
+    return countCl100kTokens;
+  }
+  return undefined;
+}
+
+/**
+ * Count the tokens of `text` with the tokenizer of `model`. For models whose
+ * tokenizer is not known the count is estimated: the text is split the way
+ * OpenAI's tokenizers split it before applying their BPE merges, and each
+ * piece is counted as a single token when it is short enough to be a
+ * vocabulary entry, or as ~4 characters per token otherwise.
+ */
+export function approximateTextTokens(text: string, model?: string): number {
+  const countTokens = tokenizerForModel(model);
+  if (countTokens) {
+    return countTokens(text);
+  }
+  let tokens = 0;
+  for (const [piece] of text.matchAll(PRE_TOKEN_PATTERN)) {
+    tokens +=
+      piece.length <= SINGLE_TOKEN_PIECE_LENGTH
+        ? 1
+        : Math.ceil(piece.length / 4);
+  }
+  return tokens;
+}
 
 /**
  * Roughly estimate the number of language‑model tokens represented by a list
- * of OpenAI `ResponseItem`s.
- *
- * A full tokenizer would be more accurate, but would add a heavyweight
- * dependency for only marginal benefit. Empirically, assuming ~4 characters
- * per token offers a good enough signal for displaying context‑window usage
- * to the user.
+ * of OpenAI `ResponseItem`s, e.g. to display context‑window usage before the
+ * API has reported the actual usage.
  *
- * The algorithm counts characters from the different content types we may
- * encounter and then converts that char count to tokens by dividing by four
- * and rounding up.
+ * Text is counted with `approximateTextTokens()` for `model`, images at the
+ * price of a large image, and every message or function call adds the tokens
+ * of its role and delimiters.
  */
-export function approximateTokensUsed(items: Array<ResponseItem>): number {
-  let charCount = 0;
+export function approximateTokensUsed(
+  items: Array<ResponseItem>,
+  model?: string,
+): number {
+  let tokens = 0;
 
   for (const item of items) {
     switch (item.type) {
@@ -23,29 +86,35 @@ export function approximateTokensUsed(items: Array<ResponseItem>): number {
           continue;
         }
 
+        tokens += ITEM_OVERHEAD_TOKENS;
         // Ensure item.content is an array before iterating
         if (Array.isArray(item.content)) {
           for (const c of item.content) {
             if (c.type === "input_text" || c.type === "output_text") {
-              charCount += c.text.length;
+              tokens += approximateTextTokens(c.text, model);
             } else if (c.type === "refusal") {
-              charCount += c.refusal.length;
+              tokens += approximateTextTokens(c.refusal, model);
             } else if (c.type === "input_file") {
-              charCount += c.filename?.length ?? 0;
+              tokens += approximateTextTokens(c.filename ?? "", model);
+            } else if (c.type === "input_image") {
+              tokens += IMAGE_TOKENS;
             }
-            // images and other content types are ignored (0 chars)
           }
         }
         break;
       }
 
       case "function_call": {
-        charCount += (item.name?.length || 0) + (item.arguments?.length || 0);
+        tokens +=
+          ITEM_OVERHEAD_TOKENS +
+          approximateTextTokens(item.name ?? "", model) +
+          approximateTextTokens(item.arguments ?? "", model);
         break;
       }
 
       case "function_call_output": {
-        charCount += item.output.length;
+        tokens +=
+          ITEM_OVERHEAD_TOKENS + approximateTextTokens(item.output, model);
         break;
       }
 
@@ -54,5 +123,40 @@ export function approximateTokensUsed(items: Array<ResponseItem>): number {
     }
   }
 
-  return Math.ceil(charCount / 4);
+  return tokens;
+}
+
+/**
+ * The same estimate for the messages of a chat completions request, used
+ * when a provider does not report the usage of a response.
+ */
+export function approximateChatMessagesTokens(
+  messages: Array<ChatCompletionMessageParam>,
+  model?: string,
+): number {
+  let tokens = 0;
+  for (const message of messages) {
+    tokens += ITEM_OVERHEAD_TOKENS;
+    if (typeof message.content === "string") {
+      tokens += approximateTextTokens(message.content, model);
+    } else if (Array.isArray(message.content)) {
+      for (const part of message.content) {
+        if (part.type === "text") {
+          tokens += approximateTextTokens(part.text, model);
+        } else if (part.type === "refusal") {
+          tokens += approximateTextTokens(part.refusal, model);
+        } else if (part.type === "image_url") {
+          tokens += IMAGE_TOKENS;
+        }
+      }
+    }
+    if (message.role === "assistant") {
+      for (const call of message.tool_calls ?? []) {
+        tokens +=
+          approximateTextTokens(call.function.name, model) +
+          approximateTextTokens(call.function.arguments, model);
+      }
+    }
+  }
+  return tokens;
 }
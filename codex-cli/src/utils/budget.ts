@@ -0,0 +1,178 @@
+import type { BudgetConfig, BudgetLimit } from "./config.js";
+import type { SessionUsageTracker } from "./token-usage.js";
+import type { ResponseUsage } from "openai/resources/responses/responses.mjs";
+
+import { log } from "./logger/log.js";
+import { getSessionId } from "./session.js";
+import {
+  estimateCost,
+  formatCost,
+  formatTokenCount,
+  tokenUsageFromResponse,
+  totalUsage,
+} from "./token-usage.js";
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+/** One `<date>.jsonl` file per day with a line for every model response. */
+export const DAILY_USAGE_DIR = path.join(os.homedir(), ".codex", "usage");
+
+export const DEFAULT_BUDGET_WARN_AT = 0.8;
+
+/** How much of one limit of the `budget` config is used. */
+export type BudgetUsage = {
+  scope: "session" | "daily";
+  unit: keyof BudgetLimit;
+  used: number;
+  limit: number;
+};
+
+export type BudgetStatus = {
+  /** Limits that passed `warnAt` since the last check. */
+  warnings: Array<BudgetUsage>;
+  /** A limit that is used up and was not allowed to be exceeded. */
+  exceeded?: BudgetUsage;
+};
+
+/** One line of the daily usage log. */
+type DailyUsageEntry = {
+  timestamp: string;
+  sessionId: string;
+  model: string;
+  tokens: number;
+  cost_usd?: number;
+};
+
+/** `YYYY-MM-DD` in local time. */
+function localDate(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(
+    date.getDate(),
+  )}`;
+}
+
+/**
+ * Checks the usage of a session, and of all sessions of the day, against
+ * the `budget` config. The daily usage is appended to a log in `usageDir`
+ * shared by concurrent sessions; it is only kept when a daily limit is set.
+ */
+export class BudgetGuard {
+  private readonly warned = new Set<string>();
+  private readonly overrun = new Set<string>();
+
+  constructor(
+    private readonly config: BudgetConfig,
+    private readonly session: SessionUsageTracker,
+    private readonly usageDir: string = DAILY_USAGE_DIR,
+    private readonly now: () => Date = () => new Date(),
+  ) {}
+
+  private dailyLogPath(): string {
+    return path.join(this.usageDir, `${localDate(this.now())}.jsonl`);
+  }
+
+  /** Adds the usage of a model response to the daily log. */
+  recordResponse(model: string, usage: ResponseUsage): void {
+    if (!this.config.daily) {
+      return;
+    }
+    const tokens = tokenUsageFromResponse(usage);
+    const entry: DailyUsageEntry = {
+      timestamp: this.now().toISOString(),
+      sessionId: getSessionId(),
+      model,
+      tokens: tokens.total_tokens,
+      cost_usd: estimateCost(model, tokens),
+    };
+    try {
+      fs.mkdirSync(this.usageDir, { recursive: true });
+      fs.appendFileSync(this.dailyLogPath(), JSON.stringify(entry) + "\n");
+    } catch (err) {
+      log(`budget: failed to record daily usage: ${String(err)}`);
+    }
+  }
+
+  private dailyUsage(): { tokens: number; usd: number } {
+    let content: string;
+    try {
+      content = fs.readFileSync(this.dailyLogPath(), "utf-8");
+    } catch {
+      return { tokens: 0, usd: 0 };
+    }
+    let tokens = 0;
+    let usd = 0;
+    for (const line of content.split("\n")) {
+      try {
+        const entry = JSON.parse(line) as DailyUsageEntry;
+        tokens += entry.tokens ?? 0;
+        usd += entry.cost_usd ?? 0;
+      } catch {
+        // An empty or partially written line.
+      }
+    }
+    return { tokens, usd };
+  }
+
+  /**
+   * The limits to warn about or stop at before the next request. Every
+   * limit is warned about once.
+   */
+  check(): BudgetStatus {
+    const usages: Array<BudgetUsage> = [];
+    const add = (
+      scope: BudgetUsage["scope"],
+      limits: BudgetLimit | undefined,
+      used: { tokens: number; usd: number },
+    ) => {
+      for (const unit of ["tokens", "usd"] as const) {
+        const limit = limits?.[unit];
+        if (limit !== undefined && limit > 0) {
+          usages.push({ scope, unit, used: used[unit], limit });
+        }
+      }
+    };
+    if (this.config.session) {
+      const total = totalUsage(this.session.snapshot().turns);
+      add("session", this.config.session, {
+        tokens: total.total_tokens,
+        usd: total.cost_usd ?? 0,
+      });
+    }
+    if (this.config.daily) {
+      add("daily", this.config.daily, this.dailyUsage());
+    }
+
+    const warnAt = this.config.warnAt ?? DEFAULT_BUDGET_WARN_AT;
+    const status: BudgetStatus = { warnings: [] };
+    for (const usage of usages) {
+      const key = `${usage.scope}.${usage.unit}`;
+      if (usage.used >= usage.limit && !this.overrun.has(key)) {
+        status.exceeded ??= usage;
+      } else if (usage.used >= usage.limit * warnAt && !this.warned.has(key)) {
+        this.warned.add(key);
+        status.warnings.push(usage);
+      }
+    }
+    return status;
+  }
+
+  /** The user chose to go on: do not stop at this limit again. */
+  allowOverrun(usage: BudgetUsage): void {
+    const key = `${usage.scope}.${usage.unit}`;
+    this.overrun.add(key);
+    this.warned.add(key);
+  }
+}
+
+/** E.g. `Daily spending budget: $4.12 of $5.00 used (82%)`. */
+export function formatBudgetUsage(usage: BudgetUsage): string {
+  const scope = usage.scope === "session" ? "Session" : "Daily";
+  const kind = usage.unit === "usd" ? "spending" : "token";
+  const amount = (value: number) =>
+    usage.unit === "usd" ? formatCost(value) : formatTokenCount(value);
+  const percent = Math.round((usage.used / usage.limit) * 100);
+  return `${scope} ${kind} budget: ${amount(usage.used)} of ${amount(
+    usage.limit,
+  )} used (${percent}%)`;
+}
@@ -4,6 +4,12 @@ import type { ResponseItem } from "openai/resources/responses/responses.mjs";
 
 import { createOpenAIClient } from "./openai-client.js";
 
+const MAX_TOOL_OUTPUT_CHARS = 1000;
+
+function truncate(text: string, maxChars: number): string {
+  return text.length > maxChars ? `${text.slice(0, maxChars)}…` : text;
+}
+
 /**
  * Generate a condensed summary of the conversation items.
  * @param items The list of conversation items to summarize
@@ -29,16 +35,24 @@ export async function generateCompactSummary(
   const oai = createOpenAIClient(config);
 
   const conversationText = items
-    .filter(
-      (
-        item,
-      ): item is ResponseItem & { content: Array<unknown>; role: string } =>
-        item.type === "message" &&
-        (item.role === "user" || item.role === "assistant") &&
-        Array.isArray(item.content),
-    )
     .map((item) => {
-      const text = item.content
+      // Tool activity is included (outputs truncated) so that automatic
+      // compaction in the middle of a task keeps track of what was run.
+      if (item.type === "function_call") {
+        return `tool call: ${item.name} ${item.arguments}`;
+      }
+      if (item.type === "function_call_output") {
+        const { output } = item as { output: string };
+        return `tool output: ${truncate(output, MAX_TOOL_OUTPUT_CHARS)}`;
+      }
+      if (
+        item.type !== "message" ||
+        (item.role !== "user" && item.role !== "assistant") ||
+        !Array.isArray(item.content)
+      ) {
+        return undefined;
+      }
+      const text = (item.content as Array<unknown>)
         .filter(
           (part): part is { text: string } =>
             typeof part === "object" &&
@@ -50,6 +64,7 @@ export async function generateCompactSummary(
         .join("");
       return `${item.role}: ${text}`;
     })
+    .filter((line) => line !== undefined)
     .join("\n");
 
     const messagesForSummary: Array<OpenAI.Chat.ChatCompletionMessageParam> = [
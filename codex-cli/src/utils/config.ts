@@ -12,12 +12,18 @@ import type { ReasoningEffort } from "openai/resources.mjs";
 
 import { AutoApprovalMode, FullAutoErrorMode } from "./auto-approval-mode.js";
 import { log } from "./logger/log.js";
-import { providers } from "./providers.js";
+import { providers, type ProviderAdapterName } from "./providers.js";
 import { config as loadDotenv } from "dotenv";
 import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
 import { load as loadYaml, dump as dumpYaml } from "js-yaml";
 import { homedir } from "os";
-import { dirname, join, extname, resolve as resolvePath } from "path";
+import {
+  dirname,
+  join,
+  extname,
+  relative as relativePath,
+  resolve as resolvePath,
+} from "path";
 
 // ---------------------------------------------------------------------------
 // User‑wide environment config (~/.codex.env)
@@ -190,6 +196,97 @@ export type MemoryConfig = {
   enabled: boolean;
 };
 
+/**
+ * A Model Context Protocol server that is spawned at startup and talks
+ * JSON-RPC over stdio. Its tools are offered to the model next to `shell`.
+ */
+export type McpServerConfig = {
+  command: string;
+  args?: Array<string>;
+  env?: Record<string, string>;
+  cwd?: string;
+  /** Tools that may run without asking for approval. */
+  autoApprove?: Array<string>;
+  disabled?: boolean;
+};
+
+/**
+ * Automatic context compaction: when less than `threshold` percent of the
+ * model's context window is left, older turns are replaced by a summary.
+ */
+export type AutoCompactConfig = {
+  enabled?: boolean;
+  threshold?: number;
+};
+
+/**
+ * Opt-in workflow where each session works on its own git branch (or a
+ * worktree of it) and every applied patch becomes a commit.
+ */
+export type GitSessionConfig = {
+  enabled?: boolean;
+  /** Check the branch out in a separate worktree instead of switching. */
+  worktree?: boolean;
+  /** Prefix of the session branch name (default `codex/`). */
+  branchPrefix?: string;
+  /** Commit every applied patch (default `true`). */
+  autoCommit?: boolean;
+};
+
+/**
+ * Append-only JSONL record of every command and patch the agent executes,
+ * see `utils/logger/audit-log.ts`. Enabled by default.
+ */
+export type AuditLogConfig = {
+  enabled?: boolean;
+  /** Defaults to `~/.codex/audit.jsonl`. */
+  path?: string;
+};
+
+/**
+ * Network access of commands in the Linux sandbox. When enabled they run in
+ * their own network namespace, see `utils/agent/sandbox/network.ts`.
+ */
+export type NetworkSandboxConfig = {
+  enabled?: boolean;
+  /** `host` or `host:port` entries that stay reachable, e.g. `localhost:4873`. */
+  allow?: Array<string>;
+};
+
+/**
+ * Run sandboxed commands in a long-lived Docker or Podman container per
+ * session instead of Seatbelt or Landlock, see
+ * `utils/agent/sandbox/container.ts`.
+ */
+export type ContainerSandboxConfig = {
+  enabled?: boolean;
+  /** The first one that is installed by default. */
+  runtime?: "docker" | "podman";
+  /** Defaults to `node:20-slim`. */
+  image?: string;
+  /** Give the container network access (default `false`). */
+  network?: boolean;
+};
+
+/** A limit on tokens (input plus output), on estimated cost in USD, or both. */
+export type BudgetLimit = {
+  tokens?: number;
+  usd?: number;
+};
+
+/**
+ * Spending limits checked before every model request, see
+ * `utils/budget.ts`. Past `warnAt` of a limit the session shows a warning;
+ * at the limit it pauses for confirmation, or stops in `--quiet` mode.
+ */
+export type BudgetConfig = {
+  session?: BudgetLimit;
+  /** Counted over all sessions of the day (local time). */
+  daily?: BudgetLimit;
+  /** Fraction of a limit at which to warn (default `0.8`). */
+  warnAt?: number;
+};
+
 // Represents config as persisted in config.json.
 export interface StoredConfig {
   /**
@@ -208,6 +305,8 @@ export interface StoredConfig {
   provider?: string;
   approvalMode?: AutoApprovalMode;
   fullAutoErrorMode?: FullAutoErrorMode;
+  /** Stop after this many sandboxed commands in a row failed in full-auto */
+  fullAutoMaxConsecutiveFailures?: number;
   memory?: MemoryConfig;
   /** Whether to enable desktop notifications for responses */
   notify?: boolean;
@@ -217,7 +316,7 @@ export interface StoredConfig {
   /** Enable web search capabilities */
   webAccess?: boolean;
   webModel?: string;
-  providers?: Record<string, { name: string; baseURL: string; envKey: string; defaultModel?: string; }>;
+  providers?: Record<string, { name: string; baseURL: string; envKey: string; defaultModel?: string; adapter?: ProviderAdapterName; streamUsage?: boolean; }>;
   history?: {
     maxSize?: number;
     saveHistory?: boolean;
@@ -229,8 +328,21 @@ export interface StoredConfig {
       maxLines?: number;
     };
   };
+  /** MCP servers keyed by the name used to namespace their tools */
+  mcpServers?: Record<string, McpServerConfig>;
+  autoCompact?: AutoCompactConfig;
+  gitSession?: GitSessionConfig;
+  auditLog?: AuditLogConfig;
+  networkSandbox?: NetworkSandboxConfig;
+  containerSandbox?: ContainerSandboxConfig;
+  budget?: BudgetConfig;
   /** User-defined safe commands */
   safeCommands?: Array<string>;
+  /**
+   * Paths and globs the agent must not read, see `utils/read-denylist.ts`.
+   * Replaces `DEFAULT_READ_DENYLIST` when set.
+   */
+  readDenylist?: Array<string>;
   reasoningEffort?: ReasoningEffort;
   max_tokens?: number;
 
@@ -268,7 +380,14 @@ export interface AppConfig {
   provider?: string;
   instructions: string;
   approvalMode: AutoApprovalMode;
+  /**
+   * What to do when a command run in the sandbox in full-auto mode fails:
+   * ask whether to retry it without the sandbox (the default), or hand the
+   * failure to the model.
+   */
   fullAutoErrorMode?: FullAutoErrorMode;
+  /** Stop after this many sandboxed commands in a row failed in full-auto */
+  fullAutoMaxConsecutiveFailures?: number;
   memory?: MemoryConfig;
   reasoningEffort: ReasoningEffort;
   temperature?: number;
@@ -283,7 +402,7 @@ export interface AppConfig {
   /** Enable web search capabilities */
   webAccess: boolean;
   webModel: string;
-  providers?: Record<string, { name: string; baseURL: string; envKey: string; defaultModel: string }>;
+  providers?: Record<string, { name: string; baseURL: string; envKey: string; defaultModel: string; adapter?: ProviderAdapterName; streamUsage?: boolean }>;
   history: {
     maxSize: number;
     saveHistory: boolean;
@@ -295,7 +414,21 @@ export interface AppConfig {
       maxLines: number;
     };
   };
+  mcpServers?: Record<string, McpServerConfig>;
+  autoCompact?: AutoCompactConfig;
+  gitSession?: GitSessionConfig;
+  auditLog?: AuditLogConfig;
+  networkSandbox?: NetworkSandboxConfig;
+  containerSandbox?: ContainerSandboxConfig;
+  budget?: BudgetConfig;
+  /** Paths and globs the agent must not read, see `utils/read-denylist.ts`. */
+  readDenylist?: Array<string>;
   fileOpener?: FileOpenerScheme;
+  /**
+   * The project docs merged into `instructions`, outermost first. Undefined
+   * when project docs are disabled.
+   */
+  projectDocs?: Array<ProjectDoc>;
 }
 
 // Formatting (quiet mode-only).
@@ -320,82 +453,139 @@ const PROJECT_DOC_FILENAMES = [
 ];
 const PROJECT_DOC_SEPARATOR = "\n\n--- project-doc ---\n\n";
 
-export function discoverProjectDocPath(startDir: string): string | null {
-  const cwd = resolvePath(startDir);
+/** A project doc file as it is included in the instructions. */
+export type ProjectDoc = {
+  path: string;
+  content: string;
+  /** Whether the file exceeded {@link PROJECT_DOC_MAX_BYTES}. */
+  truncated: boolean;
+};
 
-  // 1) Look in the explicit CWD first:
+/** The project doc in `dir` itself, if there is one. */
+export function findProjectDocInDir(dir: string): string | null {
   for (const name of PROJECT_DOC_FILENAMES) {
-    const direct = join(cwd, name);
-    if (existsSync(direct)) {
-      return direct;
+    const candidate = join(dir, name);
+    if (existsSync(candidate)) {
+      return candidate;
     }
   }
+  return null;
+}
+
+/**
+ * The project docs that apply to `startDir`: those in the Git root and in
+ * every directory from there down to `startDir`, outermost first. Outside a
+ * Git repository only `startDir` itself is searched.
+ */
+export function discoverProjectDocPaths(startDir: string): Array<string> {
+  const cwd = resolvePath(startDir);
 
-  // 2) Fallback: walk up to the Git root and look there.
+  // Walk up to the Git root, remembering the directories on the way.
+  const dirs: Array<string> = [];
   let dir = cwd;
   // eslint-disable-next-line no-constant-condition
   while (true) {
-    const gitPath = join(dir, ".git");
-    if (existsSync(gitPath)) {
-      // Once we hit the Git root, search its top‑level for the doc
-      for (const name of PROJECT_DOC_FILENAMES) {
-        const candidate = join(dir, name);
-        if (existsSync(candidate)) {
-          return candidate;
-        }
-      }
-      // If Git root but no doc, stop looking.
-      return null;
+    dirs.unshift(dir);
+    if (existsSync(join(dir, ".git"))) {
+      break;
     }
 
     const parent = dirname(dir);
     if (parent === dir) {
       // Reached filesystem root without finding Git.
-      return null;
+      dirs.splice(0, dirs.length - 1);
+      break;
     }
     dir = parent;
   }
+
+  return dirs
+    .map((d) => findProjectDocInDir(d))
+    .filter((p): p is string => p !== null);
 }
 
 /**
- * Load the project documentation markdown (`AGENTS.md` – or the legacy
- * `codex.md`) if present. If the file
- * exceeds {@link PROJECT_DOC_MAX_BYTES} it will be truncated and a warning is
- * logged.
+ * Read a project doc. If the file exceeds {@link PROJECT_DOC_MAX_BYTES} it
+ * is truncated and a warning is logged.
+ */
+export function readProjectDoc(filepath: string): ProjectDoc | null {
+  try {
+    const buf = readFileSync(filepath);
+    const truncated = buf.byteLength > PROJECT_DOC_MAX_BYTES;
+    if (truncated) {
+      // eslint-disable-next-line no-console
+      console.warn(
+        `codex: project doc '${filepath}' exceeds ${PROJECT_DOC_MAX_BYTES} bytes – truncating.`,
+      );
+    }
+    return {
+      path: filepath,
+      content: buf.slice(0, PROJECT_DOC_MAX_BYTES).toString("utf-8"),
+      truncated,
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Load the project documentation markdown files (`AGENTS.md` – or the legacy
+ * `codex.md`) from the Git root down to `cwd`, outermost first.
  *
  * @param cwd The current working directory of the caller
  * @param explicitPath If provided, skips discovery and loads the given path
  */
-export function loadProjectDoc(cwd: string, explicitPath?: string): string {
-  let filepath: string | null = null;
+export function loadProjectDocs(
+  cwd: string,
+  explicitPath?: string,
+): Array<ProjectDoc> {
+  let paths: Array<string>;
 
   if (explicitPath) {
-    filepath = resolvePath(cwd, explicitPath);
+    const filepath = resolvePath(cwd, explicitPath);
     if (!existsSync(filepath)) {
       // eslint-disable-next-line no-console
       console.warn(`codex: project doc not found at ${filepath}`);
-      filepath = null;
+      return [];
     }
+    paths = [filepath];
   } else {
-    filepath = discoverProjectDocPath(cwd);
+    paths = discoverProjectDocPaths(cwd);
   }
 
-  if (!filepath) {
-    return "";
-  }
+  return paths
+    .map((p) => readProjectDoc(p))
+    .filter((doc): doc is ProjectDoc => doc !== null);
+}
 
-  try {
-    const buf = readFileSync(filepath);
-    if (buf.byteLength > PROJECT_DOC_MAX_BYTES) {
-      // eslint-disable-next-line no-console
-      console.warn(
-        `codex: project doc '${filepath}' exceeds ${PROJECT_DOC_MAX_BYTES} bytes – truncating.`,
-      );
-    }
-    return buf.slice(0, PROJECT_DOC_MAX_BYTES).toString("utf-8");
-  } catch {
-    return "";
-  }
+/**
+ * Merge project docs into the text added to the instructions. A single doc
+ * is included as is; several are labelled with their paths so the model can
+ * tell the general conventions from the more specific ones.
+ */
+export function formatProjectDocs(
+  docs: Array<ProjectDoc>,
+  cwd: string,
+): string {
+  if (docs.length <= 1) {
+    return docs[0]?.content ?? "";
+  }
+  const sections = docs.map(
+    (doc) =>
+      `## ${relativePath(cwd, doc.path) || doc.path}\n\n${doc.content.trim()}`,
+  );
+  return [
+    "The following project docs apply from the repository root down to the current directory. Where they disagree, the later, more specific one wins.",
+    ...sections,
+  ].join("\n\n");
+}
+
+/**
+ * Load the project documentation (see {@link loadProjectDocs}) as the text
+ * added to the instructions.
+ */
+export function loadProjectDoc(cwd: string, explicitPath?: string): string {
+  return formatProjectDocs(loadProjectDocs(cwd, explicitPath), cwd);
 }
 
 export type LoadConfigOptions = {
@@ -472,18 +662,17 @@ export const loadConfig = (
     process.env["CODEX_DISABLE_PROJECT_DOC"] !== "1";
 
   let projectDoc = "";
-  let projectDocPath: string | null = null;
+  let projectDocs: Array<ProjectDoc> | undefined;
   if (shouldLoadProjectDoc) {
     const cwd = options.cwd ?? process.cwd();
-    projectDoc = loadProjectDoc(cwd, options.projectDocPath);
-    projectDocPath = options.projectDocPath
-      ? resolvePath(cwd, options.projectDocPath)
-      : discoverProjectDocPath(cwd);
-    if (projectDocPath) {
+    projectDocs = loadProjectDocs(cwd, options.projectDocPath);
+    projectDoc = formatProjectDocs(projectDocs, cwd);
+    for (const doc of projectDocs) {
       log(
-        `[codex] Loaded project doc from ${projectDocPath} (${projectDoc.length} bytes)`,
+        `[codex] Loaded project doc from ${doc.path} (${doc.content.length} bytes)`,
       );
-    } else {
+    }
+    if (projectDocs.length === 0) {
       log(`[codex] No project doc found in ${cwd}`);
     }
   }
@@ -528,6 +717,7 @@ export const loadConfig = (
       saveHistory: storedConfig.history?.saveHistory ?? true,
       sensitivePatterns: storedConfig.history?.sensitivePatterns ?? [],
     },
+    projectDocs,
   };
 
   // -----------------------------------------------------------------------
@@ -584,9 +774,42 @@ export const loadConfig = (
     config.memory = storedConfig.memory;
   }
 
+  if (storedConfig.mcpServers !== undefined) {
+    config.mcpServers = storedConfig.mcpServers;
+  }
+
+  if (storedConfig.autoCompact !== undefined) {
+    config.autoCompact = storedConfig.autoCompact;
+  }
+
+  if (storedConfig.gitSession !== undefined) {
+    config.gitSession = storedConfig.gitSession;
+  }
+
+  if (storedConfig.auditLog !== undefined) {
+    config.auditLog = storedConfig.auditLog;
+  }
+  if (storedConfig.networkSandbox !== undefined) {
+    config.networkSandbox = storedConfig.networkSandbox;
+  }
+  if (storedConfig.readDenylist !== undefined) {
+    config.readDenylist = storedConfig.readDenylist;
+  }
+  if (storedConfig.containerSandbox !== undefined) {
+    config.containerSandbox = storedConfig.containerSandbox;
+  }
+  if (storedConfig.budget !== undefined) {
+    config.budget = storedConfig.budget;
+  }
+
   if (storedConfig.fullAutoErrorMode) {
     config.fullAutoErrorMode = storedConfig.fullAutoErrorMode;
   }
+
+  if (storedConfig.fullAutoMaxConsecutiveFailures !== undefined) {
+    config.fullAutoMaxConsecutiveFailures =
+      storedConfig.fullAutoMaxConsecutiveFailures;
+  }
   // Notification setting: enable desktop notifications when set in config
   config.notify = storedConfig.notify === true;
   // Flex-mode setting: enable the flex-mode service tier when set in config
@@ -616,7 +839,7 @@ export const loadConfig = (
   }
 
   // Merge default providers with user configured providers in the config.
-  const finalProviders: Record<string, { name: string; baseURL: string; envKey: string; defaultModel: string; }> = {};
+  const finalProviders: Record<string, { name: string; baseURL: string; envKey: string; defaultModel: string; adapter?: ProviderAdapterName; streamUsage?: boolean; }> = {};
 
   // Start with the application's default providers (which DO have defaultModel)
   for (const key in providers) {
@@ -644,6 +867,8 @@ export const loadConfig = (
             baseURL: sProvider.baseURL,
             envKey: sProvider.envKey,
             defaultModel: modelToUse,
+            ...(sProvider.adapter ? { adapter: sProvider.adapter } : {}),
+            ...(sProvider.streamUsage !== undefined ? { streamUsage: sProvider.streamUsage } : {}),
           };
         }
       }
@@ -737,6 +962,43 @@ export const saveConfig = (
     };
   }
 
+  if (config.mcpServers) {
+    configToSave.mcpServers = config.mcpServers;
+  }
+
+  if (config.autoCompact) {
+    configToSave.autoCompact = config.autoCompact;
+  }
+
+  if (config.gitSession) {
+    configToSave.gitSession = config.gitSession;
+  }
+
+  if (config.auditLog) {
+    configToSave.auditLog = config.auditLog;
+  }
+  if (config.networkSandbox) {
+    configToSave.networkSandbox = config.networkSandbox;
+  }
+  if (config.readDenylist) {
+    configToSave.readDenylist = config.readDenylist;
+  }
+  if (config.containerSandbox) {
+    configToSave.containerSandbox = config.containerSandbox;
+  }
+  if (config.budget) {
+    configToSave.budget = config.budget;
+  }
+
+  if (config.fullAutoErrorMode) {
+    configToSave.fullAutoErrorMode = config.fullAutoErrorMode;
+  }
+
+  if (config.fullAutoMaxConsecutiveFailures) {
+    configToSave.fullAutoMaxConsecutiveFailures =
+      config.fullAutoMaxConsecutiveFailures;
+  }
+
   if (ext === ".yaml" || ext === ".yml") {
     writeFileSync(targetPath, dumpYaml(configToSave), "utf-8");
   } else {
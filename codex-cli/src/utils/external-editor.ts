@@ -0,0 +1,50 @@
+import { spawnSync } from "child_process";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { parse } from "shell-quote";
+
+/** `$EDITOR`, or the platform's default editor. */
+export function getEditor(): string {
+  return (
+    process.env["EDITOR"] || (process.platform === "win32" ? "notepad" : "vi")
+  );
+}
+
+/**
+ * Opens `filePath` in the editor and waits for it to exit. Returns `false`
+ * when the editor could not be started or exited with an error.
+ *
+ * Like git, `$EDITOR` may include arguments, e.g. `code --wait`.
+ */
+export function openInEditor(filePath: string): boolean {
+  const [editor, ...args] = parse(getEditor(), process.env).filter(
+    (arg): arg is string => typeof arg === "string",
+  );
+  if (editor === undefined) {
+    return false;
+  }
+  const result = spawnSync(editor, [...args, filePath], { stdio: "inherit" });
+  return result.error === undefined && result.status === 0;
+}
+
+/**
+ * Lets the user edit `text` in a temporary file ending in `extension`, so
+ * that the editor picks the right syntax. Returns the edited text, or
+ * `undefined` when the editor failed.
+ */
+export function editInEditor(
+  text: string,
+  extension: string,
+): string | undefined {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "codex-edit-"));
+  const filePath = path.join(dir, `edit${extension}`);
+  try {
+    fs.writeFileSync(filePath, text, "utf8");
+    return openInEditor(filePath)
+      ? fs.readFileSync(filePath, "utf8")
+      : undefined;
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
@@ -0,0 +1,309 @@
+import type { GitSessionConfig } from "./config.js";
+
+import { filesTouchedByPatch } from "./agent/checkpoints.js";
+import { execFileSync } from "child_process";
+import fs from "fs";
+import path from "path";
+
+const DEFAULT_BRANCH_PREFIX = "codex/";
+const MAX_SUBJECT_LENGTH = 72;
+
+export type SessionCommit = {
+  sha: string;
+  subject: string;
+};
+
+/**
+ * A Codex session that works on a dedicated git branch, optionally checked
+ * out in its own worktree. Patches applied by the agent are committed on
+ * that branch; `/commit`, `/squash` and `/pr-summary` operate on the commits
+ * made since the branch was created (`base`).
+ */
+export class GitSession {
+  private constructor(
+    /** Directory the session works in (the worktree, in worktree mode). */
+    readonly workdir: string,
+    readonly branch: string,
+    readonly base: string,
+    readonly autoCommit: boolean,
+  ) {}
+
+  /**
+   * Switch to (or create) the branch for `sessionId`, or check it out in a
+   * worktree below the repository's git directory. Reusing an existing
+   * branch continues a resumed session. Throws when `cwd` is not inside a
+   * git repository or git refuses to switch.
+   */
+  static start(
+    cwd: string,
+    sessionId: string,
+    options: GitSessionConfig = {},
+  ): GitSession {
+    const root = git(cwd, ["rev-parse", "--show-toplevel"]);
+    const shortId = sessionId.slice(0, 8);
+    const branch = `${options.branchPrefix ?? DEFAULT_BRANCH_PREFIX}${shortId}`;
+    const exists = tryGit(cwd, [
+      "rev-parse",
+      "--verify",
+      "--quiet",
+      `refs/heads/${branch}`,
+    ]);
+    const head = git(cwd, ["rev-parse", "HEAD"]);
+
+    let workdir = cwd;
+    if (options.worktree) {
+      const commonDir = path.resolve(
+        cwd,
+        git(cwd, ["rev-parse", "--git-common-dir"]),
+      );
+      const worktree = path.join(commonDir, "codex-worktrees", shortId);
+      if (!fs.existsSync(worktree)) {
+        git(
+          cwd,
+          exists
+            ? ["worktree", "add", worktree, branch]
+            : ["worktree", "add", "-b", branch, worktree],
+        );
+      }
+      workdir = path.join(worktree, path.relative(root, cwd));
+    } else if (git(cwd, ["rev-parse", "--abbrev-ref", "HEAD"]) !== branch) {
+      git(cwd, exists ? ["switch", branch] : ["switch", "-c", branch]);
+    }
+
+    // Remember where the branch started so a resumed session still knows
+    // which commits are its own.
+    const baseKey = `branch.${branch}.codexBase`;
+    let base = tryGit(cwd, ["config", "--get", baseKey]);
+    if (!base) {
+      base = exists ? git(cwd, ["merge-base", head, branch]) : head;
+      git(cwd, ["config", baseKey, base]);
+    }
+
+    return new GitSession(workdir, branch, base, options.autoCommit ?? true);
+  }
+
+  /**
+   * Commit the files changed by `patch` (paths relative to `patchWorkdir`),
+   * using the assistant's explanation for the message. Other changes in the
+   * working tree are left alone. Returns the short sha, or `undefined` when
+   * the patch left nothing to commit.
+   */
+  commitPatch(
+    patch: string,
+    patchWorkdir: string | undefined,
+    explanation?: string,
+  ): string | undefined {
+    const files = filesTouchedByPatch(patch, patchWorkdir ?? this.workdir);
+    const paths = files.filter(
+      (p) =>
+        fs.existsSync(p) ||
+        tryGit(this.workdir, ["ls-files", "--error-unmatch", "--", p]) !==
+          undefined,
+    );
+    if (paths.length === 0) {
+      return undefined;
+    }
+    git(this.workdir, ["add", "-A", "--", ...paths]);
+    if (!hasStagedChanges(this.workdir, paths)) {
+      return undefined;
+    }
+    const { subject, body } = commitMessageForPatch(
+      patch,
+      explanation,
+      this.workdir,
+    );
+    return this.commit(subject, body, paths);
+  }
+
+  /** Commit every change in the working tree. */
+  commitAll(subject: string, body?: string): string | undefined {
+    git(this.workdir, ["add", "-A"]);
+    if (!hasStagedChanges(this.workdir)) {
+      return undefined;
+    }
+    return this.commit(subject, body);
+  }
+
+  /** Commits made on the session branch, oldest first. */
+  commits(): Array<SessionCommit> {
+    const out = git(this.workdir, [
+      "log",
+      "--reverse",
+      "--format=%h%x09%s",
+      `${this.base}..HEAD`,
+    ]);
+    return out
+      .split("\n")
+      .filter(Boolean)
+      .map((line) => {
+        const [sha = "", ...subject] = line.split("\t");
+        return { sha, subject: subject.join("\t") };
+      });
+  }
+
+  /**
+   * Replace the session's commits by a single commit with the tree of the
+   * last one. The index and the working tree are left alone, so changes
+   * staged outside the session are not swept into the commit. The default
+   * body lists the subjects of the squashed commits. Returns `undefined`
+   * when there is nothing to squash.
+   */
+  squash(subject: string, body?: string): string | undefined {
+    const commits = this.commits();
+    if (commits.length === 0) {
+      return undefined;
+    }
+    const head = git(this.workdir, ["rev-parse", "HEAD"]);
+    const message = [
+      "-m",
+      subject,
+      "-m",
+      body ?? commits.map((c) => `- ${c.subject}`).join("\n"),
+    ];
+    const squashed = git(this.workdir, [
+      "commit-tree",
+      `${head}^{tree}`,
+      "-p",
+      this.base,
+      ...message,
+    ]);
+    git(this.workdir, [
+      "update-ref",
+      "-m",
+      `squash: ${subject}`,
+      "HEAD",
+      squashed,
+      head,
+    ]);
+    return git(this.workdir, ["rev-parse", "--short", "HEAD"]);
+  }
+
+  /** Markdown description of the branch, for a pull request. */
+  prSummary(title: string): string {
+    const commits = this.commits();
+    const stat = git(this.workdir, ["diff", "--stat", `${this.base}..HEAD`]);
+    const dirty = git(this.workdir, ["status", "--porcelain"]) !== "";
+    const lines = [
+      `## ${title}`,
+      "",
+      `Branch \`${this.branch}\`, ${commits.length} commit(s) on top of ${this.base.slice(0, 7)}.`,
+      "",
+      "### Changes",
+      "",
+      ...(commits.length > 0
+        ? commits.map((c) => `- ${c.subject} (${c.sha})`)
+        : ["- (no commits yet)"]),
+    ];
+    if (stat) {
+      lines.push("", "### Files", "", "```", stat, "```");
+    }
+    if (dirty) {
+      lines.push(
+        "",
+        "_The working tree has uncommitted changes; run /commit to include them._",
+      );
+    }
+    return lines.join("\n");
+  }
+
+  private commit(
+    subject: string,
+    body?: string,
+    paths?: Array<string>,
+  ): string {
+    const args = ["commit", "--quiet", "-m", subject];
+    if (body) {
+      args.push("-m", body);
+    }
+    if (paths) {
+      args.push("--", ...paths);
+    }
+    git(this.workdir, args);
+    return git(this.workdir, ["rev-parse", "--short", "HEAD"]);
+  }
+}
+
+let activeSession: GitSession | undefined;
+
+/** Make `session` the git session used by the agent for this process. */
+export function setGitSession(session: GitSession | undefined): void {
+  activeSession = session;
+}
+
+/** The git session started for this process, if the mode is enabled. */
+export function getGitSession(): GitSession | undefined {
+  return activeSession;
+}
+
+/**
+ * A commit subject from free text such as an assistant message or a user
+ * prompt: its first sentence without markdown decoration, at most 72
+ * characters. Returns an empty string for empty text.
+ */
+export function commitSubject(text: string): string {
+  const firstLine = (text.trim().split("\n")[0] ?? "")
+    .replace(/^[#>*\-\s]+/, "")
+    .replace(/[*_`]/g, "")
+    .trim();
+  const sentence = firstLine.split(/(?<=[.!?:])\s/)[0]!.replace(/[.:]$/, "");
+  return sentence.length <= MAX_SUBJECT_LENGTH
+    ? sentence
+    : `${sentence.slice(0, MAX_SUBJECT_LENGTH - 1).trimEnd()}…`;
+}
+
+/**
+ * Commit message for an applied patch: the assistant's explanation gives
+ * the subject (falling back to the list of files) and, when it says more
+ * than the subject, the body, followed by the touched files.
+ */
+export function commitMessageForPatch(
+  patch: string,
+  explanation: string = "",
+  workdir: string = process.cwd(),
+): { subject: string; body: string } {
+  const files = [...new Set(filesTouchedByPatch(patch, workdir))].map(
+    (p) => path.relative(workdir, p) || p,
+  );
+  const text = explanation.trim();
+  const subject =
+    commitSubject(text) || commitSubject(`Update ${files.join(", ")}`);
+  const body = [
+    text.includes("\n") || text.length > subject.length + 1 ? text : "",
+    files.length > 0 ? `Files: ${files.join(", ")}` : "",
+  ]
+    .filter(Boolean)
+    .join("\n\n");
+  return { subject, body };
+}
+
+function hasStagedChanges(cwd: string, paths: Array<string> = []): boolean {
+  return (
+    tryGit(cwd, ["diff", "--cached", "--quiet", "--", ...paths]) === undefined
+  );
+}
+
+function git(cwd: string, args: Array<string>): string {
+  try {
+    return execFileSync("git", args, {
+      cwd,
+      encoding: "utf8",
+      stdio: ["ignore", "pipe", "pipe"],
+    }).trim();
+  } catch (err) {
+    const { stderr } = err as { stderr?: unknown };
+    const detail =
+      typeof stderr === "string" && stderr.trim() !== ""
+        ? stderr.trim()
+        : String(err);
+    throw new Error(`git ${args[0]} failed: ${detail}`);
+  }
+}
+
+/** Like `git()`, but returns `undefined` instead of throwing. */
+function tryGit(cwd: string, args: Array<string>): string | undefined {
+  try {
+    return git(cwd, args);
+  } catch {
+    return undefined;
+  }
+}
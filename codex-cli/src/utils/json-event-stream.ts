@@ -0,0 +1,244 @@
+import type { TokenUsage } from "./token-usage.js";
+import type {
+  ResponseItem,
+  ResponseUsage,
+} from "openai/resources/responses/responses.mjs";
+
+import { parseToolCallArguments, parseToolCallOutput } from "./parsers.js";
+import {
+  addTokenUsage,
+  emptyTokenUsage,
+  tokenUsageFromResponse,
+} from "./token-usage.js";
+
+/**
+ * One line of `codex --json` output. Every `ResponseItem` emitted by the
+ * `AgentLoop` is mapped to exactly one event; a single `summary` event is
+ * written once the run is over.
+ */
+export type JsonEvent =
+  | {
+      type: "message";
+      id?: string;
+      role: string;
+      text: string;
+    }
+  | {
+      type: "function_call";
+      id?: string;
+      call_id?: string;
+      name: string;
+      arguments: string;
+      /** The parsed argv when the call is a `shell` command. */
+      command?: Array<string>;
+    }
+  | {
+      type: "function_call_output";
+      call_id?: string;
+      output: string;
+      exit_code?: number;
+      duration_seconds?: number;
+    }
+  | {
+      type: "reasoning";
+      id?: string;
+      summary: Array<string>;
+      duration_ms?: number;
+    }
+  | { type: "error"; message: string }
+  | { type: "item"; item: ResponseItem }
+  | ({ type: "summary" } & JsonRunSummary);
+
+export type JsonRunSummary = {
+  status: "completed" | "error";
+  duration_seconds: number;
+  /** Number of function calls the model made. */
+  function_calls: number;
+  /** Number of function call outputs with a non-zero exit code. */
+  failed_function_calls: number;
+  usage: TokenUsage;
+  error?: string;
+};
+
+type ContentPart = {
+  type: string;
+  text?: string;
+  refusal?: string;
+  filename?: string;
+};
+
+function contentToText(content: Array<ContentPart>): string {
+  return content
+    .map((c) => {
+      switch (c.type) {
+        case "input_text":
+        case "output_text":
+        case "text":
+          return c.text ?? "";
+        case "refusal":
+          return c.refusal ?? "";
+        case "input_image":
+          return "<Image>";
+        case "input_file":
+          return c.filename ?? "<File>";
+        default:
+          return "";
+      }
+    })
+    .join("");
+}
+
+// The union of the item shapes we read. `ResponseItem` does not include the
+// local_shell_* variants or the `duration_ms` we attach to reasoning items.
+type LooseResponseItem = {
+  type: string;
+  id?: string;
+  call_id?: string;
+  role?: string;
+  name?: string;
+  arguments?: string;
+  output?: string;
+  content?: Array<ContentPart>;
+  summary?: Array<{ text: string }>;
+  duration_ms?: number;
+  action?: { command?: Array<string> };
+};
+
+// Outputs of `handleExecCommand()` carry `exitCode` and `durationMs`; the
+// ones the agent loop builds itself use `exit_code` and `duration_seconds`.
+type LooseOutputMetadata = {
+  exitCode?: number;
+  durationMs?: number;
+  exit_code?: number;
+  duration_seconds?: number;
+};
+
+function outputStatus(metadata: LooseOutputMetadata): {
+  exit_code?: number;
+  duration_seconds?: number;
+} {
+  return {
+    exit_code: metadata.exitCode ?? metadata.exit_code,
+    duration_seconds:
+      metadata.durationMs !== undefined
+        ? metadata.durationMs / 1000
+        : metadata.duration_seconds,
+  };
+}
+
+/**
+ * Map a `ResponseItem` to the event written for it in `--json` mode. Items
+ * we have no dedicated shape for are passed through verbatim as `item`.
+ */
+export function responseItemToJsonEvent(item: ResponseItem): JsonEvent {
+  const raw = item as unknown as LooseResponseItem;
+  switch (raw.type) {
+    case "message": {
+      const text = contentToText(raw.content ?? []);
+      // The agent loop surfaces failures (network errors, rate limits, …) as
+      // system messages prefixed with a warning sign.
+      if (raw.role === "system" && text.trimStart().startsWith("⚠️")) {
+        return {
+          type: "error",
+          message: text.trimStart().replace(/^⚠️\s*/, ""),
+        };
+      }
+      return {
+        type: "message",
+        id: raw.id,
+        role: raw.role ?? "assistant",
+        text,
+      };
+    }
+    case "function_call": {
+      const args = raw.arguments ?? "{}";
+      const execInput =
+        raw.name === "shell" || raw.name === "container.exec"
+          ? parseToolCallArguments(args)
+          : undefined;
+      return {
+        type: "function_call",
+        id: raw.id,
+        call_id: raw.call_id,
+        name: raw.name ?? "",
+        arguments: args,
+        ...(execInput && { command: execInput.cmd }),
+      };
+    }
+    case "local_shell_call":
+      return {
+        type: "function_call",
+        id: raw.id,
+        call_id: raw.call_id,
+        name: "local_shell",
+        arguments: JSON.stringify(raw.action ?? {}),
+        command: raw.action?.command,
+      };
+    case "function_call_output":
+    case "local_shell_call_output": {
+      const { output, metadata } = parseToolCallOutput(raw.output ?? "");
+      return {
+        type: "function_call_output",
+        call_id: raw.call_id,
+        output,
+        ...outputStatus(metadata),
+      };
+    }
+    case "reasoning":
+      return {
+        type: "reasoning",
+        id: raw.id,
+        summary: (raw.summary ?? []).map((s) => s.text),
+        duration_ms: raw.duration_ms,
+      };
+    default:
+      return { type: "item", item };
+  }
+}
+
+/**
+ * Accumulates the data needed for the final `summary` event while a run is
+ * in progress.
+ */
+export class JsonRunSummaryCollector {
+  private readonly start = Date.now();
+  private functionCalls = 0;
+  private failedFunctionCalls = 0;
+  private errors: Array<string> = [];
+  private usage: TokenUsage = emptyTokenUsage();
+
+  recordEvent(event: JsonEvent): void {
+    if (event.type === "function_call") {
+      this.functionCalls += 1;
+    } else if (
+      event.type === "function_call_output" &&
+      event.exit_code !== undefined &&
+      event.exit_code !== 0
+    ) {
+      this.failedFunctionCalls += 1;
+    } else if (event.type === "error") {
+      this.errors.push(event.message);
+    }
+  }
+
+  recordUsage(usage: ResponseUsage): void {
+    this.usage = addTokenUsage(this.usage, tokenUsageFromResponse(usage));
+  }
+
+  recordError(error: unknown): void {
+    this.errors.push(error instanceof Error ? error.message : String(error));
+  }
+
+  summary(): JsonEvent {
+    const error = this.errors[this.errors.length - 1];
+    return {
+      type: "summary",
+      status: error === undefined ? "completed" : "error",
+      duration_seconds: Math.round((Date.now() - this.start) / 100) / 10,
+      function_calls: this.functionCalls,
+      failed_function_calls: this.failedFunctionCalls,
+      usage: { ...this.usage },
+      ...(error !== undefined && { error }),
+    };
+  }
+}
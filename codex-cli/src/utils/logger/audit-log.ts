@@ -0,0 +1,177 @@
+import type { ReviewDecision } from "../agent/review.js";
+import type { AppConfig } from "../config.js";
+
+import { formatCommandForDisplay } from "../../format-command.js";
+import { getSessionId } from "../session.js";
+import { log } from "./log.js";
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+export const DEFAULT_AUDIT_LOG_PATH = path.join(
+  os.homedir(),
+  ".codex",
+  "audit.jsonl",
+);
+
+export type AuditApproval = {
+  /**
+   * `auto-approved` and `rejected` come from the approval policy; the
+   * `ReviewDecision` values are answers to an approval prompt.
+   */
+  decision: "auto-approved" | "rejected" | `${ReviewDecision}`;
+  /**
+   * Who decided: the approval policy (including project allow rules), the
+   * user at the prompt, or an earlier "always" answer in this session.
+   */
+  by: "policy" | "user" | "session";
+  reason?: string;
+};
+
+/** One line of the audit log. */
+export type AuditEntry = {
+  sessionId: string;
+  /** ISO 8601 */
+  timestamp: string;
+  cwd: string;
+  /** The command line; just `["apply_patch"]` for patches, see `files`. */
+  argv: Array<string>;
+  /** `SandboxType` the command ran under; `none` for patches. */
+  sandbox: string;
+  approval: AuditApproval;
+  /** Missing when the command was not executed. */
+  exitCode?: number;
+  durationMs?: number;
+  /** Files created, modified or deleted by an `apply_patch`. */
+  files?: Array<string>;
+};
+
+export type AuditQuery = {
+  /** Session id or a prefix of it. */
+  session?: string;
+  since?: Date;
+  until?: Date;
+  /** Substring of the command line. */
+  command?: string;
+};
+
+/** Where audit entries are written, or `undefined` when disabled. */
+export function auditLogPath(
+  config: Pick<AppConfig, "auditLog">,
+): string | undefined {
+  if (config.auditLog?.enabled === false) {
+    return undefined;
+  }
+  return config.auditLog?.path ?? DEFAULT_AUDIT_LOG_PATH;
+}
+
+/**
+ * Append an entry for the current session to the audit log. Entries are
+ * written synchronously so they land in the order the commands ran and
+ * survive a crash right after. Write failures are logged, never thrown.
+ */
+export function recordAuditEntry(
+  config: Pick<AppConfig, "auditLog">,
+  entry: Omit<AuditEntry, "sessionId" | "timestamp">,
+): void {
+  const file = auditLogPath(config);
+  if (!file) {
+    return;
+  }
+  const line: AuditEntry = {
+    sessionId: getSessionId(),
+    timestamp: new Date().toISOString(),
+    ...entry,
+  };
+  try {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.appendFileSync(file, `${JSON.stringify(line)}\n`, { mode: 0o600 });
+  } catch (err) {
+    log(`audit-log: failed to write to ${file}: ${String(err)}`);
+  }
+}
+
+/** All entries in `file`; lines that cannot be parsed are skipped. */
+export function readAuditLog(file: string): Array<AuditEntry> {
+  let text: string;
+  try {
+    text = fs.readFileSync(file, "utf-8");
+  } catch {
+    return [];
+  }
+  const entries: Array<AuditEntry> = [];
+  for (const line of text.split("\n")) {
+    if (line.trim() === "") {
+      continue;
+    }
+    try {
+      entries.push(JSON.parse(line) as AuditEntry);
+    } catch {
+      // A partially written last line, or not ours.
+    }
+  }
+  return entries;
+}
+
+export function filterAuditLog(
+  entries: Array<AuditEntry>,
+  query: AuditQuery,
+): Array<AuditEntry> {
+  return entries.filter((e) => {
+    const time = Date.parse(e.timestamp);
+    return (
+      (query.session === undefined || e.sessionId.startsWith(query.session)) &&
+      (query.since === undefined || time >= query.since.getTime()) &&
+      (query.until === undefined || time < query.until.getTime()) &&
+      (query.command === undefined ||
+        formatCommandForDisplay(e.argv).includes(query.command))
+    );
+  });
+}
+
+/** A single human-readable line for `codex audit`. */
+export function formatAuditEntry(e: AuditEntry): string {
+  const result =
+    e.exitCode === undefined
+      ? "not run"
+      : `exit ${e.exitCode} in ${((e.durationMs ?? 0) / 1000).toFixed(1)}s`;
+  const files = e.files?.length ? ` (${e.files.join(", ")})` : "";
+  return [
+    e.timestamp,
+    e.sessionId.slice(0, 8) || "-",
+    `${e.approval.decision} by ${e.approval.by}`,
+    `sandbox=${e.sandbox}`,
+    result,
+    `${e.cwd}$ ${formatCommandForDisplay(e.argv)}${files}`,
+  ].join("  ");
+}
+
+/**
+ * Build a query from the `codex audit` flags. Dates are anything
+ * `Date.parse()` accepts; a plain `YYYY-MM-DD` for `until` includes that
+ * whole day. Throws on dates that cannot be parsed.
+ */
+export function auditQueryFromFlags(flags: {
+  session?: string;
+  since?: string;
+  until?: string;
+  command?: string;
+}): AuditQuery {
+  const parse = (value: string | undefined, flag: string, endOfDay = false) => {
+    if (value === undefined) {
+      return undefined;
+    }
+    const time = Date.parse(value);
+    if (Number.isNaN(time)) {
+      throw new Error(`Invalid date for --${flag}: ${value}`);
+    }
+    const dayOnly = /^\d{4}-\d{2}-\d{2}$/.test(value);
+    return new Date(endOfDay && dayOnly ? time + 24 * 60 * 60 * 1000 : time);
+  };
+  return {
+    session: flags.session,
+    since: parse(flags.since, "since"),
+    until: parse(flags.until, "until", true),
+    command: flags.command,
+  };
+}
@@ -199,3 +199,45 @@ export const openAiModelInfo: Record<string, ModelInfo> = {
     maxContextLength: 128000,
   },
 } as const satisfies Record<string, ModelInfo>;
+
+/** Prices in USD per million tokens. */
+export type ModelPricing = {
+  input: number;
+  /** The price of input tokens served from the prompt cache */
+  cachedInput?: number;
+  /** Output tokens, including reasoning tokens */
+  output: number;
+};
+
+/**
+ * List prices of the OpenAI models, used to estimate the cost of a session.
+ * Dated snapshots share the price of their alias, see `pricingForModel`.
+ */
+export const openAiModelPricing: Record<string, ModelPricing> = {
+  "o1-pro": { input: 150, output: 600 },
+  "o1": { input: 15, cachedInput: 7.5, output: 60 },
+  "o1-preview": { input: 15, cachedInput: 7.5, output: 60 },
+  "o1-mini": { input: 1.1, cachedInput: 0.55, output: 4.4 },
+  "o3": { input: 2, cachedInput: 0.5, output: 8 },
+  "o3-mini": { input: 1.1, cachedInput: 0.55, output: 4.4 },
+  "o4-mini": { input: 1.1, cachedInput: 0.275, output: 4.4 },
+  "codex-mini-latest": { input: 1.5, cachedInput: 0.375, output: 6 },
+  "gpt-4.1": { input: 2, cachedInput: 0.5, output: 8 },
+  "gpt-4.1-mini": { input: 0.4, cachedInput: 0.1, output: 1.6 },
+  "gpt-4.1-nano": { input: 0.1, cachedInput: 0.025, output: 0.4 },
+  "gpt-4o": { input: 2.5, cachedInput: 1.25, output: 10 },
+  "gpt-4o-mini": { input: 0.15, cachedInput: 0.075, output: 0.6 },
+  "gpt-4o-search-preview": { input: 2.5, output: 10 },
+  "gpt-4o-mini-search-preview": { input: 0.15, output: 0.6 },
+  "gpt-4": { input: 30, output: 60 },
+  "gpt-4-1106-preview": { input: 10, output: 30 },
+  "gpt-3.5-turbo-0125": { input: 0.5, output: 1.5 },
+};
+
+/** The price of `model`, or `undefined` when it is not in the price table. */
+export function pricingForModel(model: string): ModelPricing | undefined {
+  return (
+    openAiModelPricing[model] ??
+    openAiModelPricing[model.replace(/-\d{4}-\d{2}-\d{2}$/, "")]
+  );
+}
@@ -132,7 +132,7 @@ export function calculateContextPercentRemaining(
   items: Array<ResponseItem>,
   model: string,
 ): number {
-  const used = approximateTokensUsed(items);
+  const used = approximateTokensUsed(items, model);
   const max = maxTokensForModel(model);
   const remaining = Math.max(0, max - used);
   return (remaining / max) * 100;
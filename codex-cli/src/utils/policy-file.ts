@@ -0,0 +1,563 @@
+import type { ParseEntry } from "shell-quote";
+
+import {
+  identify_files_added,
+  identify_files_needed,
+} from "./agent/apply-patch.js";
+import { log } from "./logger/log.js";
+import { MOVE_FILE_TO_PREFIX } from "../parse-apply-patch.js";
+import {
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  statSync,
+  writeFileSync,
+} from "fs";
+import { dump as dumpYaml, load as loadYaml } from "js-yaml";
+import { homedir } from "os";
+import { basename, dirname, isAbsolute, join, relative, resolve } from "path";
+import { parse, quote } from "shell-quote";
+
+// ---------------------------------------------------------------------------
+// Project-level approval policy (`.codex/policy.yaml`)
+//
+// A policy file holds an ordered list of allow / deny / ask rules that are
+// consulted by `canAutoApprove()` *before* the built-in list of known-safe
+// commands. Example:
+//
+//   rules:
+//     - action: allow
+//       program: [npm, pnpm]
+//       argv: [test]
+//     - action: ask
+//       program: git
+//       argv: [push]
+//     - action: deny
+//       writes: ["**/.env", "/etc/**"]
+//       reason: Never touch secrets or system config
+// ---------------------------------------------------------------------------
+
+export const POLICY_FILE_DIR = ".codex";
+export const POLICY_FILE_NAMES = ["policy.yaml", "policy.yml"];
+
+export type PolicyAction = "allow" | "deny" | "ask";
+
+export type PolicyRule = {
+  action: PolicyAction;
+  /** Program name(s) (basename of argv[0]) the rule applies to. */
+  program?: string | Array<string>;
+  /**
+   * Glob patterns matched positionally against the arguments that follow
+   * the program. The rule matches when the arguments start with the
+   * patterns, e.g. `[push]` matches `git push origin main`.
+   */
+  argv?: Array<string>;
+  /**
+   * Match `program` and `argv` literally, without glob patterns, and only
+   * when there are no further arguments. `program` is then compared with
+   * the program as written, not its basename.
+   */
+  exact?: boolean;
+  /** Glob(s) for the working directory; relative globs resolve against the project root. */
+  workdir?: string | Array<string>;
+  /**
+   * Glob(s) for files the command writes (apply_patch targets and shell
+   * redirections). `allow` requires every target to match; `deny` and `ask`
+   * trigger when any target matches. Without `writes`, `allow` requires
+   * every target to be in the project or a writable root.
+   */
+  writes?: string | Array<string>;
+  /** Shown to the user / model when the rule rejects a command. */
+  reason?: string;
+};
+
+export type PolicyFile = {
+  /** Directory the relative globs in `rules` are resolved against. */
+  root: string;
+  path: string;
+  rules: Array<PolicyRule>;
+};
+
+export type PolicyDecision = {
+  action: PolicyAction;
+  rule: PolicyRule;
+  path: string;
+};
+
+// ---------------------------------------------------------------------------
+// Discovery & loading
+// ---------------------------------------------------------------------------
+
+/**
+ * Locate the policy file for `cwd`: the nearest `.codex/policy.yaml` between
+ * `cwd` and the Git root. If there is none, returns the path where a new file
+ * would be created (`<git root or cwd>/.codex/policy.yaml`).
+ */
+export function discoverPolicyFilePath(cwd: string): string {
+  let dir = resolve(cwd);
+  // eslint-disable-next-line no-constant-condition
+  while (true) {
+    for (const name of POLICY_FILE_NAMES) {
+      const candidate = join(dir, POLICY_FILE_DIR, name);
+      if (existsSync(candidate)) {
+        return candidate;
+      }
+    }
+    const parent = dirname(dir);
+    if (existsSync(join(dir, ".git")) || parent === dir) {
+      const root = existsSync(join(dir, ".git")) ? dir : resolve(cwd);
+      return join(root, POLICY_FILE_DIR, POLICY_FILE_NAMES[0]!);
+    }
+    dir = parent;
+  }
+}
+
+const cache = new Map<string, { mtimeMs: number; file: PolicyFile }>();
+
+/**
+ * Load and validate the policy file that applies to `cwd`. Missing or
+ * malformed files yield an empty rule list. Results are cached until the
+ * file's mtime changes.
+ */
+export function loadPolicyFile(cwd: string = process.cwd()): PolicyFile {
+  const path = discoverPolicyFilePath(cwd);
+  const root = dirname(dirname(path));
+  if (!existsSync(path)) {
+    return { root, path, rules: [] };
+  }
+
+  const { mtimeMs } = statSync(path);
+  const cached = cache.get(path);
+  if (cached && cached.mtimeMs === mtimeMs) {
+    return cached.file;
+  }
+
+  let rules: Array<PolicyRule> = [];
+  try {
+    const parsed = loadYaml(readFileSync(path, "utf-8")) as {
+      rules?: Array<unknown>;
+    } | null;
+    rules = (parsed?.rules ?? []).filter((rule, i): rule is PolicyRule => {
+      const valid = isValidRule(rule);
+      if (!valid) {
+        log(`[policy] ignoring invalid rule #${i + 1} in ${path}`);
+      }
+      return valid;
+    });
+  } catch (err) {
+    log(`[policy] failed to parse ${path}: ${String(err)}`);
+  }
+
+  const file = { root, path, rules };
+  cache.set(path, { mtimeMs, file });
+  return file;
+}
+
+function isValidRule(rule: unknown): boolean {
+  if (typeof rule !== "object" || rule === null) {
+    return false;
+  }
+  const { action, program, argv, workdir, writes } = rule as PolicyRule;
+  if (action !== "allow" && action !== "deny" && action !== "ask") {
+    return false;
+  }
+  // A rule without any matcher would apply to every command.
+  return (
+    program !== undefined ||
+    argv !== undefined ||
+    workdir !== undefined ||
+    writes !== undefined
+  );
+}
+
+/**
+ * Append `rule` to the policy file for `cwd`, creating the file if needed.
+ * Returns the path that was written.
+ */
+export function appendPolicyRule(
+  rule: PolicyRule,
+  cwd: string = process.cwd(),
+): string {
+  const path = discoverPolicyFilePath(cwd);
+  let existing: Record<string, unknown> = {};
+  if (existsSync(path)) {
+    existing =
+      (loadYaml(readFileSync(path, "utf-8")) as Record<string, unknown>) ?? {};
+  } else {
+    mkdirSync(dirname(path), { recursive: true });
+  }
+  const rules: Array<unknown> = Array.isArray(existing["rules"])
+    ? existing["rules"]
+    : [];
+  writeFileSync(
+    path,
+    dumpYaml({ ...existing, rules: [...rules, rule] }),
+    "utf-8",
+  );
+  cache.delete(path);
+  return path;
+}
+
+// ---------------------------------------------------------------------------
+// Command analysis
+// ---------------------------------------------------------------------------
+
+type CommandSegment = {
+  /** The basename of `command`. */
+  program: string;
+  /** The program as written. */
+  command: string;
+  args: Array<string>;
+};
+
+type AnalyzedCommand = {
+  segments: Array<CommandSegment>;
+  writes: Array<string>;
+  /**
+   * False when the command uses shell constructs we do not model (subshells,
+   * command substitution, …). Such commands can be denied or sent to the
+   * user by a rule but never allowed.
+   */
+  fullyUnderstood: boolean;
+};
+
+const SEGMENT_OPERATORS = new Set(["&&", "||", "|", ";"]);
+const REDIRECT_OPERATORS = new Set([">", ">>", ">|", "&>"]);
+
+function analyzeCommand(
+  command: ReadonlyArray<string>,
+  workdir: string,
+): AnalyzedCommand {
+  if (command[0] === "apply_patch" && typeof command[1] === "string") {
+    const patch = command[1];
+    return {
+      segments: [{ program: "apply_patch", command: "apply_patch", args: [] }],
+      writes: [
+        ...identify_files_added(patch),
+        ...identify_files_needed(patch),
+        ...patch
+          .split("\n")
+          .filter((line) => line.startsWith(MOVE_FILE_TO_PREFIX))
+          .map((line) => line.slice(MOVE_FILE_TO_PREFIX.length)),
+      ].map((p) => resolve(workdir, p)),
+      fullyUnderstood: true,
+    };
+  }
+
+  if (
+    (command[0] === "bash" || command[0] === "sh") &&
+    command[1] === "-lc" &&
+    typeof command[2] === "string" &&
+    command.length === 3
+  ) {
+    if (command[2].trimStart().startsWith("apply_patch")) {
+      return {
+        segments: [
+          { program: "apply_patch", command: "apply_patch", args: [] },
+        ],
+        writes: [],
+        fullyUnderstood: false,
+      };
+    }
+    let parts: Array<ParseEntry>;
+    try {
+      parts = parse(command[2], process.env);
+    } catch {
+      return { segments: [], writes: [], fullyUnderstood: false };
+    }
+    return analyzeShellExpression(parts, workdir);
+  }
+
+  return {
+    segments: [
+      {
+        program: basename(command[0] ?? ""),
+        command: command[0] ?? "",
+        args: command.slice(1),
+      },
+    ],
+    writes: [],
+    fullyUnderstood: true,
+  };
+}
+
+function analyzeShellExpression(
+  parts: ReadonlyArray<ParseEntry>,
+  workdir: string,
+): AnalyzedCommand {
+  const segments: Array<CommandSegment> = [];
+  const writes: Array<string> = [];
+  let fullyUnderstood = true;
+  let current: Array<string> = [];
+  let redirectPending = false;
+
+  const flush = () => {
+    if (current.length > 0) {
+      segments.push({
+        program: basename(current[0]!),
+        command: current[0]!,
+        args: current.slice(1),
+      });
+    }
+    current = [];
+  };
+
+  for (const part of parts) {
+    const { op, pattern } =
+      typeof part === "object" && "op" in part
+        ? (part as { op: string; pattern?: string })
+        : { op: undefined, pattern: undefined };
+    let word: string | undefined;
+    if (typeof part === "string") {
+      word = part;
+    } else if (op === "glob" && pattern !== undefined) {
+      word = pattern;
+    } else if (op !== undefined && SEGMENT_OPERATORS.has(op)) {
+      flush();
+      continue;
+    } else if (op !== undefined && REDIRECT_OPERATORS.has(op)) {
+      redirectPending = true;
+      continue;
+    } else {
+      fullyUnderstood = false;
+      continue;
+    }
+
+    if (redirectPending) {
+      redirectPending = false;
+      if (!word.startsWith("&")) {
+        writes.push(resolve(workdir, expandHome(word)));
+      }
+    } else if (word === "(" || word === ")" || word === "{" || word === "}") {
+      fullyUnderstood = false;
+    } else {
+      current.push(word);
+    }
+  }
+  flush();
+
+  return { segments, writes, fullyUnderstood };
+}
+
+/**
+ * Whether `command` writes a policy file, as an `apply_patch` target or with
+ * a shell redirection.
+ */
+export function commandWritesPolicyFile(
+  command: ReadonlyArray<string>,
+  workdir: string | undefined,
+): boolean {
+  const { writes } = analyzeCommand(command, resolve(workdir ?? process.cwd()));
+  return writes.some(
+    (target) =>
+      basename(dirname(target)).toLowerCase() === POLICY_FILE_DIR &&
+      POLICY_FILE_NAMES.includes(basename(target).toLowerCase()),
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Matching
+// ---------------------------------------------------------------------------
+
+function expandHome(p: string): string {
+  return p === "~" || p.startsWith("~/") ? join(homedir(), p.slice(1)) : p;
+}
+
+const toArray = (value: string | Array<string>): Array<string> =>
+  Array.isArray(value) ? value : [value];
+
+/**
+ * Translate a glob into a RegExp. `**` matches across path separators, `*`
+ * and `?` do not unless `crossSeparators` is set (used for argv patterns,
+ * which are not paths).
+ */
+export function globToRegExp(glob: string, crossSeparators = false): RegExp {
+  const star = crossSeparators ? ".*" : "[^/]*";
+  const single = crossSeparators ? "." : "[^/]";
+  let source = "";
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob[i]!;
+    if (c === "*" && glob[i + 1] === "*") {
+      // `**/` also matches zero directories.
+      if (glob[i + 2] === "/") {
+        source += "(?:.*/)?";
+        i += 2;
+      } else {
+        source += ".*";
+        i += 1;
+      }
+    } else if (c === "*") {
+      source += star;
+    } else if (c === "?") {
+      source += single;
+    } else {
+      source += c.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+function matchesPathGlob(
+  patterns: string | Array<string>,
+  path: string,
+  root: string,
+): boolean {
+  return toArray(patterns).some((pattern) => {
+    const expanded = expandHome(pattern);
+    const absolute = isAbsolute(expanded) ? expanded : join(root, expanded);
+    return globToRegExp(absolute).test(path);
+  });
+}
+
+function isInside(dir: string, path: string): boolean {
+  const rel = relative(dir, path);
+  return rel === "" || (!rel.startsWith("..") && !isAbsolute(rel));
+}
+
+function ruleMatchesSegment(
+  rule: PolicyRule,
+  segment: CommandSegment | undefined,
+  command: AnalyzedCommand,
+  workdir: string,
+  root: string,
+  writableRoots: ReadonlyArray<string>,
+): boolean {
+  if (rule.program !== undefined) {
+    const program = rule.exact ? segment?.command : segment?.program;
+    if (program === undefined || !toArray(rule.program).includes(program)) {
+      return false;
+    }
+  }
+  if (rule.exact) {
+    const argv = rule.argv ?? [];
+    if (
+      !segment ||
+      segment.args.length !== argv.length ||
+      argv.some((arg, i) => arg !== segment.args[i])
+    ) {
+      return false;
+    }
+  } else if (rule.argv !== undefined) {
+    if (!segment || segment.args.length < rule.argv.length) {
+      return false;
+    }
+    const argsMatch = rule.argv.every((pattern, i) =>
+      globToRegExp(pattern, true).test(segment.args[i]!),
+    );
+    if (!argsMatch) {
+      return false;
+    }
+  }
+  if (
+    rule.workdir !== undefined &&
+    !matchesPathGlob(rule.workdir, workdir, root)
+  ) {
+    return false;
+  }
+  if (rule.writes !== undefined) {
+    if (command.writes.length === 0) {
+      return false;
+    }
+    const matches = (target: string) =>
+      matchesPathGlob(rule.writes!, target, root);
+    return rule.action === "allow"
+      ? command.writes.every(matches)
+      : command.writes.some(matches);
+  }
+  if (rule.action === "allow") {
+    // An allowed `cat` must not append to `~/.bashrc`.
+    return command.writes.every(
+      (target) =>
+        target === "/dev/null" ||
+        [root, ...writableRoots].some((dir) => isInside(dir, target)),
+    );
+  }
+  return true;
+}
+
+/**
+ * Evaluate `file`'s rules against `command`. `deny` takes precedence over
+ * `ask`, which takes precedence over `allow`. For compound shell commands an
+ * `allow` decision requires every segment to be allowed, while a single
+ * denied (or ask) segment is enough to deny (or ask for) the whole command.
+ * Besides the project, `allow` rules let the command write to
+ * `writableRoots`. Returns `undefined` if no rule applies.
+ */
+export function evaluatePolicy(
+  file: PolicyFile,
+  command: ReadonlyArray<string>,
+  workdir: string | undefined,
+  writableRoots: ReadonlyArray<string> = [],
+): PolicyDecision | undefined {
+  if (file.rules.length === 0) {
+    return undefined;
+  }
+  const cwd = resolve(workdir ?? process.cwd());
+  const analyzed = analyzeCommand(command, cwd);
+  // Rules that only constrain `workdir` or `writes` still need a segment to
+  // be evaluated against.
+  const segments: Array<CommandSegment | undefined> =
+    analyzed.segments.length > 0 ? analyzed.segments : [undefined];
+
+  const firstMatch = (action: PolicyAction, segment?: CommandSegment) =>
+    file.rules.find(
+      (rule) =>
+        rule.action === action &&
+        ruleMatchesSegment(
+          rule,
+          segment,
+          analyzed,
+          cwd,
+          file.root,
+          writableRoots,
+        ),
+    );
+
+  for (const action of ["deny", "ask"] as const) {
+    for (const segment of segments) {
+      const rule = firstMatch(action, segment);
+      if (rule) {
+        return { action, rule, path: file.path };
+      }
+    }
+  }
+
+  if (!analyzed.fullyUnderstood) {
+    return undefined;
+  }
+  const allowRules = segments.map((segment) => firstMatch("allow", segment));
+  if (allowRules.every((rule) => rule !== undefined)) {
+    return { action: "allow", rule: allowRules[0]!, path: file.path };
+  }
+  return undefined;
+}
+
+/**
+ * The rule persisted when the user chooses "always allow in this project":
+ * exactly this command line, e.g. `rm -rf build` ->
+ * `{ program: rm, argv: [-rf, build], exact: true }`, so that approving it
+ * once does not allow every `rm`.
+ */
+export function allowRuleForCommand(
+  command: ReadonlyArray<string>,
+): PolicyRule | undefined {
+  const { segments, fullyUnderstood } = analyzeCommand(command, process.cwd());
+  const [segment] = segments;
+  if (!segment || segments.length !== 1 || !fullyUnderstood) {
+    return undefined;
+  }
+  if (segment.program === "apply_patch") {
+    return undefined;
+  }
+  return {
+    action: "allow",
+    program: segment.command,
+    ...(segment.args.length > 0 && { argv: segment.args }),
+    exact: true,
+  };
+}
+
+/** The command line an exact allow rule allows, as shown to the user. */
+export function formatAllowRule(rule: PolicyRule): string {
+  return quote([...toArray(rule.program ?? []), ...(rule.argv ?? [])]);
+}
@@ -0,0 +1,67 @@
+import type { AppConfig } from "../config.js";
+import type { ProviderAdapterName } from "../providers.js";
+import type { ResponseCreateInput, ResponseEvent } from "../responses.js";
+import type OpenAI from "openai";
+
+import { providers } from "../providers.js";
+import { anthropicAdapter } from "./anthropic.js";
+import { openAiChatAdapter } from "./openai-chat.js";
+import { ollamaAdapter } from "./ollama.js";
+
+/**
+ * Translates a Responses API request into a provider's own wire format and
+ * the provider's answer back into the `ResponseEvent` stream `AgentLoop`
+ * consumes. Adapters talk to `client.baseURL` with `client.apiKey`, so the
+ * provider's base URL and key are resolved the same way for every adapter.
+ */
+export interface ProviderAdapter {
+  createResponseStream(
+    client: OpenAI,
+    input: ResponseCreateInput,
+    config: AppConfig,
+    signal: AbortSignal,
+  ): Promise<AsyncGenerator<ResponseEvent>>;
+}
+
+const adapters: Record<ProviderAdapterName, ProviderAdapter> = {
+  "openai-chat": openAiChatAdapter,
+  "ollama": ollamaAdapter,
+  "anthropic": anthropicAdapter,
+};
+
+/** The adapter configured for `provider`, `openai-chat` by default. */
+export function getProviderAdapter(
+  provider: string = "openai",
+  config: Pick<AppConfig, "providers"> = {},
+): ProviderAdapter {
+  const key = provider.toLowerCase();
+  const name =
+    config.providers?.[key]?.adapter ??
+    providers[key]?.adapter ??
+    "openai-chat";
+  const adapter = adapters[name];
+  if (!adapter) {
+    throw new Error(
+      `Unknown adapter "${String(name)}" for provider '${provider}' (expected one of: ${Object.keys(adapters).join(", ")}).`,
+    );
+  }
+  return adapter;
+}
+
+/**
+ * Create a streaming response with the adapter of `config.provider`. The
+ * returned stream has a `controller` that aborts the request, which is what
+ * `AgentLoop.cancel()` calls.
+ */
+export async function createResponseStream(
+  client: OpenAI,
+  input: ResponseCreateInput,
+  config: AppConfig,
+): Promise<AsyncGenerator<ResponseEvent> & { controller: AbortController }> {
+  const controller = new AbortController();
+  const stream = await getProviderAdapter(
+    config.provider,
+    config,
+  ).createResponseStream(client, input, config, controller.signal);
+  return Object.assign(stream, { controller });
+}
@@ -0,0 +1,236 @@
+import type { ResponseEvent } from "../responses.js";
+import type { ProviderAdapter } from "./adapter.js";
+import type { ResponseInputItem } from "openai/resources/responses/responses";
+
+import { ProviderHttpError, postJson, readLines } from "./http.js";
+import {
+  ResponseStreamWriter,
+  contentImages,
+  contentText,
+  conversationItems,
+  functionTools,
+  parseArguments,
+} from "./response-stream.js";
+
+const ANTHROPIC_VERSION = "2023-06-01";
+const DEFAULT_MAX_TOKENS = 8192;
+
+export type AnthropicContentBlock =
+  | { type: "text"; text: string }
+  | {
+      type: "image";
+      source: { type: "base64"; media_type: string; data: string };
+    }
+  | {
+      type: "tool_use";
+      id: string;
+      name: string;
+      input: Record<string, unknown>;
+    }
+  | { type: "tool_result"; tool_use_id: string; content: string };
+
+export type AnthropicMessage = {
+  role: "user" | "assistant";
+  content: Array<AnthropicContentBlock>;
+};
+
+/** The server-sent events of a streaming `/messages` request we act on. */
+type AnthropicStreamEvent = {
+  type: string;
+  index?: number;
+  message?: { model?: string; usage?: { input_tokens?: number } };
+  content_block?: { type: string; id?: string; name?: string };
+  delta?: { type: string; text?: string; partial_json?: string };
+  usage?: { output_tokens?: number };
+  error?: { type?: string; message?: string };
+};
+
+/** HTTP status matching an `error` event, so overload and rate limits retry. */
+const STREAM_ERROR_STATUS: Record<string, number> = {
+  rate_limit_error: 429,
+  api_error: 500,
+  overloaded_error: 529,
+};
+
+/**
+ * Messages APIs in the style of Anthropic's: a separate `system` prompt,
+ * strictly alternating user and assistant turns, and tool calls as
+ * `tool_use` / `tool_result` content blocks.
+ */
+export const anthropicAdapter: ProviderAdapter = {
+  async createResponseStream(client, input, config, signal) {
+    const items = conversationItems(input);
+    const { system, messages } = toAnthropicMessages(input.instructions, items);
+    const tools = functionTools(input.tools);
+    const res = await postJson(
+      `${client.baseURL.replace(/\/+$/, "")}/messages`,
+      {
+        model: input.model,
+        ...(system && { system }),
+        messages,
+        ...(tools.length > 0 && {
+          tools: tools.map((tool) => ({
+            name: tool.name,
+            description: tool.description ?? "",
+            input_schema: tool.parameters ?? { type: "object", properties: {} },
+          })),
+        }),
+        max_tokens:
+          input.max_output_tokens ??
+          input.max_tokens ??
+          config.max_tokens ??
+          DEFAULT_MAX_TOKENS,
+        temperature: input.temperature ?? config.temperature,
+        top_p: input.top_p ?? config.top_p,
+        stream: true,
+      },
+      { "x-api-key": client.apiKey, "anthropic-version": ANTHROPIC_VERSION },
+      signal,
+    );
+    return anthropicEvents(res, new ResponseStreamWriter(input, items));
+  },
+};
+
+/**
+ * Split a conversation into the system prompt and the turns of a messages
+ * request. Consecutive items of the same role are merged into one turn, as
+ * the API requires turns to alternate.
+ */
+export function toAnthropicMessages(
+  instructions: string | null | undefined,
+  items: ReadonlyArray<ResponseInputItem>,
+): { system: string; messages: Array<AnthropicMessage> } {
+  const system: Array<string> = instructions ? [instructions] : [];
+  const messages: Array<AnthropicMessage> = [];
+  const add = (
+    role: AnthropicMessage["role"],
+    blocks: Array<AnthropicContentBlock>,
+  ) => {
+    if (blocks.length === 0) {
+      return;
+    }
+    const last = messages[messages.length - 1];
+    if (last?.role === role) {
+      last.content.push(...blocks);
+    } else {
+      messages.push({ role, content: blocks });
+    }
+  };
+
+  for (const item of items) {
+    if (item.type === "function_call") {
+      add("assistant", [
+        {
+          type: "tool_use",
+          id: item.call_id,
+          name: item.name,
+          input: parseArguments(item.arguments),
+        },
+      ]);
+    } else if (item.type === "function_call_output") {
+      add("user", [
+        {
+          type: "tool_result",
+          tool_use_id: item.call_id,
+          content: item.output,
+        },
+      ]);
+    } else if ("role" in item && (!item.type || item.type === "message")) {
+      const text = contentText(item.content);
+      if (item.role !== "user" && item.role !== "assistant") {
+        if (text) {
+          system.push(text);
+        }
+        continue;
+      }
+      add(item.role, [
+        ...contentImages(item.content).map(
+          (image): AnthropicContentBlock => ({
+            type: "image",
+            source: {
+              type: "base64",
+              media_type: image.mediaType,
+              data: image.data,
+            },
+          }),
+        ),
+        ...(text ? [{ type: "text" as const, text }] : []),
+      ]);
+    }
+  }
+  return { system: system.join("\n\n"), messages };
+}
+
+async function* anthropicEvents(
+  res: Response,
+  writer: ResponseStreamWriter,
+): AsyncGenerator<ResponseEvent, void, undefined> {
+  yield* writer.start();
+  const toolUses = new Map<
+    number,
+    { id?: string; name: string; json: string }
+  >();
+  let inputTokens = 0;
+  let outputTokens = 0;
+
+  for await (const line of readLines(res)) {
+    if (!line.startsWith("data:")) {
+      continue;
+    }
+    const event = JSON.parse(line.slice(5)) as AnthropicStreamEvent;
+    const index = event.index ?? 0;
+    switch (event.type) {
+      case "message_start":
+        if (event.message?.model) {
+          writer.setModel(event.message.model);
+        }
+        inputTokens = event.message?.usage?.input_tokens ?? 0;
+        break;
+      case "content_block_start":
+        if (event.content_block?.type === "tool_use") {
+          toolUses.set(index, {
+            id: event.content_block.id,
+            name: event.content_block.name ?? "",
+            json: "",
+          });
+        }
+        break;
+      case "content_block_delta":
+        if (event.delta?.type === "text_delta") {
+          yield* writer.textDelta(event.delta.text ?? "");
+        } else if (event.delta?.type === "input_json_delta") {
+          const toolUse = toolUses.get(index);
+          if (toolUse) {
+            toolUse.json += event.delta.partial_json ?? "";
+          }
+        }
+        break;
+      case "content_block_stop": {
+        const toolUse = toolUses.get(index);
+        if (toolUse) {
+          toolUses.delete(index);
+          yield* writer.toolCall({
+            callId: toolUse.id,
+            name: toolUse.name,
+            arguments: toolUse.json || "{}",
+          });
+        }
+        break;
+      }
+      case "message_delta":
+        outputTokens = event.usage?.output_tokens ?? outputTokens;
+        break;
+      case "error": {
+        const message = `Anthropic: ${event.error?.message ?? "stream error"}`;
+        const status = STREAM_ERROR_STATUS[event.error?.type ?? ""];
+        throw status
+          ? new ProviderHttpError(status, message)
+          : new Error(message);
+      }
+      default:
+        break;
+    }
+  }
+  writer.setUsage(inputTokens, outputTokens);
+  yield* writer.finish();
+}
@@ -0,0 +1,61 @@
+import { log } from "../logger/log.js";
+
+/**
+ * A provider answered with an HTTP error. `status` is read by the retry
+ * logic in `AgentLoop`, which retries on 429 and 5xx like it does for the
+ * errors thrown by the OpenAI SDK.
+ */
+export class ProviderHttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+  ) {
+    super(message);
+    this.name = "ProviderHttpError";
+  }
+}
+
+/** POST `body` as JSON and return the (streaming) response. */
+export async function postJson(
+  url: string,
+  body: unknown,
+  headers: Record<string, string>,
+  signal?: AbortSignal,
+): Promise<Response> {
+  log(`[provider-adapters] POST ${url}`);
+  const res = await fetch(url, {
+    method: "POST",
+    headers: { "content-type": "application/json", ...headers },
+    body: JSON.stringify(body),
+    signal,
+  });
+  if (!res.ok) {
+    const text = await res.text().catch(() => "");
+    throw new ProviderHttpError(
+      res.status,
+      `${url} returned ${res.status} ${res.statusText}${text ? `: ${text.trim()}` : ""}`,
+    );
+  }
+  return res;
+}
+
+/** The lines of a streaming response body, without line terminators. */
+export async function* readLines(res: Response): AsyncGenerator<string> {
+  if (!res.body) {
+    return;
+  }
+  const decoder = new TextDecoder();
+  let buffer = "";
+  for await (const chunk of res.body as unknown as AsyncIterable<Uint8Array>) {
+    buffer += decoder.decode(chunk, { stream: true });
+    let newline: number;
+    while ((newline = buffer.indexOf("\n")) !== -1) {
+      yield buffer.slice(0, newline).replace(/\r$/, "");
+      buffer = buffer.slice(newline + 1);
+    }
+  }
+  buffer += decoder.decode();
+  if (buffer !== "") {
+    yield buffer;
+  }
+}
@@ -0,0 +1,149 @@
+import type { ResponseEvent } from "../responses.js";
+import type { ProviderAdapter } from "./adapter.js";
+import type { ResponseInputItem } from "openai/resources/responses/responses";
+
+import { postJson, readLines } from "./http.js";
+import {
+  ResponseStreamWriter,
+  contentImages,
+  contentText,
+  conversationItems,
+  functionTools,
+  parseArguments,
+} from "./response-stream.js";
+
+type OllamaToolCall = {
+  function: { name: string; arguments?: Record<string, unknown> };
+};
+
+export type OllamaMessage = {
+  role: "system" | "user" | "assistant" | "tool";
+  content: string;
+  images?: Array<string>;
+  tool_calls?: Array<OllamaToolCall>;
+  tool_name?: string;
+};
+
+/** One line of the NDJSON stream of `/api/chat`. */
+type OllamaChunk = {
+  model?: string;
+  message?: { content?: string; tool_calls?: Array<OllamaToolCall> };
+  done?: boolean;
+  prompt_eval_count?: number;
+  eval_count?: number;
+  error?: string;
+};
+
+/**
+ * Ollama's native `/api/chat` API. Unlike its OpenAI compatible endpoint it
+ * streams tool calls, so tools work with streaming on every model that
+ * supports them. The provider's base URL may include the `/v1` suffix of the
+ * compatible endpoint; it is removed.
+ */
+export const ollamaAdapter: ProviderAdapter = {
+  async createResponseStream(client, input, config, signal) {
+    const items = conversationItems(input);
+    const tools = functionTools(input.tools);
+    const root = client.baseURL.replace(/\/+$/, "").replace(/\/v1$/, "");
+    const res = await postJson(
+      `${root}/api/chat`,
+      {
+        model: input.model,
+        messages: toOllamaMessages(input.instructions, items),
+        ...(tools.length > 0 && {
+          tools: tools.map((tool) => ({
+            type: "function",
+            function: {
+              name: tool.name,
+              description: tool.description ?? "",
+              parameters: tool.parameters ?? {},
+            },
+          })),
+        }),
+        stream: true,
+        options: {
+          temperature: input.temperature ?? config.temperature,
+          top_p: input.top_p ?? config.top_p,
+          num_predict: input.max_tokens ?? config.max_tokens,
+        },
+      },
+      client.apiKey ? { authorization: `Bearer ${client.apiKey}` } : {},
+      signal,
+    );
+    return ollamaEvents(res, new ResponseStreamWriter(input, items));
+  },
+};
+
+export function toOllamaMessages(
+  instructions: string | null | undefined,
+  items: ReadonlyArray<ResponseInputItem>,
+): Array<OllamaMessage> {
+  const messages: Array<OllamaMessage> = instructions
+    ? [{ role: "system", content: instructions }]
+    : [];
+  const callNames = new Map<string, string>();
+  for (const item of items) {
+    if (item.type === "function_call") {
+      callNames.set(item.call_id, item.name);
+      const call = {
+        function: {
+          name: item.name,
+          arguments: parseArguments(item.arguments),
+        },
+      };
+      const last = messages[messages.length - 1];
+      if (last?.role === "assistant") {
+        last.tool_calls = [...(last.tool_calls ?? []), call];
+      } else {
+        messages.push({ role: "assistant", content: "", tool_calls: [call] });
+      }
+    } else if (item.type === "function_call_output") {
+      messages.push({
+        role: "tool",
+        content: item.output,
+        tool_name: callNames.get(item.call_id),
+      });
+    } else if ("role" in item && (!item.type || item.type === "message")) {
+      const images = contentImages(item.content).map((image) => image.data);
+      messages.push({
+        role:
+          item.role === "user" || item.role === "assistant"
+            ? item.role
+            : "system",
+        content: contentText(item.content),
+        ...(images.length > 0 && { images }),
+      });
+    }
+  }
+  return messages;
+}
+
+async function* ollamaEvents(
+  res: Response,
+  writer: ResponseStreamWriter,
+): AsyncGenerator<ResponseEvent, void, undefined> {
+  yield* writer.start();
+  for await (const line of readLines(res)) {
+    if (line.trim() === "") {
+      continue;
+    }
+    const chunk = JSON.parse(line) as OllamaChunk;
+    if (chunk.error) {
+      throw new Error(`Ollama: ${chunk.error}`);
+    }
+    if (chunk.model) {
+      writer.setModel(chunk.model);
+    }
+    yield* writer.textDelta(chunk.message?.content ?? "");
+    for (const call of chunk.message?.tool_calls ?? []) {
+      yield* writer.toolCall({
+        name: call.function.name,
+        arguments: JSON.stringify(call.function.arguments ?? {}),
+      });
+    }
+    if (chunk.done) {
+      writer.setUsage(chunk.prompt_eval_count ?? 0, chunk.eval_count ?? 0);
+    }
+  }
+  yield* writer.finish();
+}
@@ -0,0 +1,14 @@
+import type { ProviderAdapter } from "./adapter.js";
+
+import { responsesCreateViaChatCompletions } from "../responses.js";
+
+/** Providers with an OpenAI compatible chat completions API. */
+export const openAiChatAdapter: ProviderAdapter = {
+  createResponseStream(client, input, config) {
+    return responsesCreateViaChatCompletions(
+      client,
+      { ...input, stream: true },
+      config,
+    );
+  },
+};
@@ -0,0 +1,278 @@
+import type {
+  ResponseCreateInput,
+  ResponseEvent,
+  ResponseOutput,
+} from "../responses.js";
+import type {
+  FunctionTool,
+  ResponseFunctionToolCall,
+  ResponseInputItem,
+  ResponseOutputItem,
+  ResponseOutputMessage,
+  ResponseUsage,
+} from "openai/resources/responses/responses";
+
+import { log } from "../logger/log.js";
+import { randomUUID } from "crypto";
+
+/**
+ * The conversation up to and including each response created by an adapter,
+ * keyed by response id, so `previous_response_id` works as it does against
+ * the Responses API.
+ */
+const conversations = new Map<string, Array<ResponseInputItem>>();
+
+export function newId(prefix: string): string {
+  return `${prefix}_${randomUUID().replaceAll("-", "").slice(0, 24)}`;
+}
+
+/** The whole conversation for `input`: earlier turns, then the new input. */
+export function conversationItems(
+  input: ResponseCreateInput,
+): Array<ResponseInputItem> {
+  const previous = input.previous_response_id
+    ? (conversations.get(input.previous_response_id) ?? [])
+    : [];
+  const current: Array<ResponseInputItem> =
+    typeof input.input === "string"
+      ? [{ role: "user", content: input.input }]
+      : input.input;
+  return [...previous, ...current];
+}
+
+/** A message's text, whether its content is a string or a list of parts. */
+export function contentText(content: unknown): string {
+  if (typeof content === "string") {
+    return content;
+  }
+  if (!Array.isArray(content)) {
+    return "";
+  }
+  return content
+    .map((part: { type?: string; text?: unknown; refusal?: unknown }) =>
+      typeof part.text === "string"
+        ? part.text
+        : typeof part.refusal === "string"
+          ? part.refusal
+          : "",
+    )
+    .join("");
+}
+
+/** Base64 images (`data:` URLs) attached to a message, for native APIs. */
+export function contentImages(
+  content: unknown,
+): Array<{ mediaType: string; data: string }> {
+  if (!Array.isArray(content)) {
+    return [];
+  }
+  const images: Array<{ mediaType: string; data: string }> = [];
+  for (const part of content as Array<{ type?: string; image_url?: unknown }>) {
+    const match =
+      part.type === "input_image" && typeof part.image_url === "string"
+        ? /^data:([^;]+);base64,(.*)$/s.exec(part.image_url)
+        : null;
+    if (match) {
+      images.push({ mediaType: match[1]!, data: match[2]! });
+    }
+  }
+  return images;
+}
+
+/**
+ * The function tools of a request. Hosted tools such as web search only
+ * exist on OpenAI's API and are left out.
+ */
+export function functionTools(
+  tools: ResponseCreateInput["tools"],
+): Array<FunctionTool> {
+  const result: Array<FunctionTool> = [];
+  for (const tool of tools ?? []) {
+    if (tool.type === "function") {
+      result.push(tool);
+    } else {
+      log(`[provider-adapters] Skipping unsupported tool type ${tool.type}`);
+    }
+  }
+  return result;
+}
+
+/** Parse tool-call arguments; providers with native APIs want an object. */
+export function parseArguments(args: string): Record<string, unknown> {
+  try {
+    const parsed: unknown = JSON.parse(args || "{}");
+    return parsed && typeof parsed === "object"
+      ? (parsed as Record<string, unknown>)
+      : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Turns what an adapter reads from its provider (text deltas, complete tool
+ * calls, token counts) into the `ResponseEvent` stream `AgentLoop` consumes,
+ * and remembers the conversation when the response completes.
+ */
+export class ResponseStreamWriter {
+  private readonly responseId = newId("resp");
+  private readonly messageId = newId("msg");
+  private readonly createdAt = Math.floor(Date.now() / 1000);
+  private text = "";
+  private readonly calls: Array<ResponseFunctionToolCall> = [];
+  private usage: ResponseUsage | undefined;
+  private model: string;
+
+  constructor(
+    private readonly input: ResponseCreateInput,
+    /** The conversation sent to the provider, see `conversationItems()`. */
+    private readonly items: Array<ResponseInputItem>,
+  ) {
+    this.model = input.model;
+  }
+
+  start(): Array<ResponseEvent> {
+    const response = this.response("in_progress", []);
+    return [
+      { type: "response.created", response },
+      { type: "response.in_progress", response },
+    ];
+  }
+
+  textDelta(delta: string): Array<ResponseEvent> {
+    if (delta === "") {
+      return [];
+    }
+    const events: Array<ResponseEvent> = [];
+    if (this.text === "") {
+      events.push({
+        type: "response.content_part.added",
+        item_id: this.messageId,
+        output_index: 0,
+        content_index: 0,
+        part: { type: "output_text", text: "", annotations: [] },
+      });
+    }
+    this.text += delta;
+    events.push({
+      type: "response.output_text.delta",
+      item_id: this.messageId,
+      output_index: 0,
+      content_index: 0,
+      delta,
+    });
+    return events;
+  }
+
+  /** A tool call whose arguments are complete. */
+  toolCall(call: {
+    callId?: string;
+    name: string;
+    arguments: string;
+  }): Array<ResponseEvent> {
+    const item: ResponseFunctionToolCall = {
+      type: "function_call",
+      id: newId("fc"),
+      call_id: call.callId || newId("call"),
+      name: call.name,
+      arguments: call.arguments,
+      status: "completed",
+    };
+    this.calls.push(item);
+    const outputIndex = this.calls.length;
+    return [
+      {
+        type: "response.output_item.added",
+        output_index: outputIndex,
+        item: { ...item, arguments: "", status: "in_progress" },
+      },
+      {
+        type: "response.function_call_arguments.done",
+        item_id: item.id!,
+        output_index: outputIndex,
+        content_index: 0,
+        arguments: item.arguments,
+      },
+      {
+        type: "response.output_item.done",
+        output_index: outputIndex,
+        item: { ...item },
+      },
+    ];
+  }
+
+  setModel(model: string): void {
+    this.model = model;
+  }
+
+  setUsage(inputTokens: number, outputTokens: number): void {
+    this.usage = {
+      input_tokens: inputTokens,
+      input_tokens_details: { cached_tokens: 0 },
+      output_tokens: outputTokens,
+      output_tokens_details: { reasoning_tokens: 0 },
+      total_tokens: inputTokens + outputTokens,
+    };
+  }
+
+  finish(): Array<ResponseEvent> {
+    const events: Array<ResponseEvent> = [];
+    const output: Array<ResponseOutputItem> = [];
+    if (this.text !== "") {
+      const message: ResponseOutputMessage = {
+        type: "message",
+        id: this.messageId,
+        status: "completed",
+        role: "assistant",
+        content: [{ type: "output_text", text: this.text, annotations: [] }],
+      };
+      output.push(message);
+      events.push({
+        type: "response.output_text.done",
+        item_id: this.messageId,
+        output_index: 0,
+        content_index: 0,
+        text: this.text,
+      });
+    }
+    output.push(...this.calls);
+
+    conversations.set(this.responseId, [...this.items, ...output]);
+    events.push({
+      type: "response.completed",
+      response: this.response("completed", output),
+    });
+    return events;
+  }
+
+  private response(
+    status: "in_progress" | "completed",
+    output: Array<ResponseOutputItem>,
+  ): ResponseOutput {
+    const { input } = this;
+    return {
+      id: this.responseId,
+      object: "response",
+      created_at: this.createdAt,
+      status,
+      error: null,
+      incomplete_details: null,
+      instructions: input.instructions ?? null,
+      metadata: input.metadata ?? {},
+      model: this.model,
+      output,
+      output_text: this.text,
+      parallel_tool_calls: input.parallel_tool_calls ?? false,
+      previous_response_id: input.previous_response_id ?? null,
+      reasoning: null,
+      temperature: input.temperature ?? null,
+      text: { format: { type: "text" } },
+      tool_choice: input.tool_choice ?? "auto",
+      tools: input.tools ?? [],
+      top_p: input.top_p ?? null,
+      truncation: input.truncation ?? "disabled",
+      usage: this.usage,
+      user: input.user ?? undefined,
+    };
+  }
+}
@@ -1,9 +1,22 @@
+/**
+ * Wire format a provider speaks. `openai-chat` (the default) is the OpenAI
+ * chat completions API; see `utils/provider-adapters/`.
+ */
+export type ProviderAdapterName = "openai-chat" | "ollama" | "anthropic";
+
 export type ProviderConfig = {
   name: string;
   baseURL: string;
   envKey: string;
   defaultModel: string;
   models?: string[]; // Optional list of available models
+  adapter?: ProviderAdapterName;
+  /**
+   * Whether the provider accepts `stream_options.include_usage`, so that
+   * streamed chat completions report their usage. Some providers reject
+   * the request when it is set.
+   */
+  streamUsage?: boolean;
 };
 
 export const providers: Record<string, ProviderConfig> = {
@@ -13,24 +26,28 @@ export const providers: Record<string, ProviderConfig> = {
     envKey: "OPENAI_API_KEY",
     defaultModel: "gpt-4.1",
     models: ["gpt-4.1", "gpt-4.1-nano", "gpt-4-turbo", "gpt-4o", "gpt-3.5-turbo"],
+    streamUsage: true,
   },
   openrouter: {
     name: "OpenRouter",
     baseURL: "https://openrouter.ai/api/v1",
     envKey: "OPENROUTER_API_KEY",
     defaultModel: "nous-hermes-2-mixtral-8x7b-dpo", // Example, user should verify
+    streamUsage: true,
   },
   azure: {
     name: "AzureOpenAI",
     baseURL: "https://YOUR_PROJECT_NAME.openai.azure.com/openai",
     envKey: "AZURE_OPENAI_API_KEY",
     defaultModel: "gpt-35-turbo", // Example, user needs to deploy a model
+    streamUsage: true,
   },
   gemini: {
     name: "Gemini",
     baseURL: "https://generativelanguage.googleapis.com/v1beta/openai",
     envKey: "GEMINI_API_KEY",
     defaultModel: "gemini-pro", // Example
+    streamUsage: true,
   },
   ollama: {
     name: "Ollama",
@@ -49,6 +66,7 @@ export const providers: Record<string, ProviderConfig> = {
     baseURL: "https://api.deepseek.com",
     envKey: "DEEPSEEK_API_KEY",
     defaultModel: "deepseek-chat",
+    streamUsage: true,
   },
   xai: {
     name: "xAI",
@@ -62,6 +80,13 @@ export const providers: Record<string, ProviderConfig> = {
     envKey: "GROQ_API_KEY",
     defaultModel: "llama3-8b-8192", // Example
   },
+  anthropic: {
+    name: "Anthropic",
+    baseURL: "https://api.anthropic.com/v1",
+    envKey: "ANTHROPIC_API_KEY",
+    defaultModel: "claude-3-7-sonnet-latest",
+    adapter: "anthropic",
+  },
   arceeai: {
     name: "ArceeAI",
     baseURL: "https://conductor.arcee.ai/v1",
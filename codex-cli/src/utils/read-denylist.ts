@@ -0,0 +1,256 @@
+import type { ParseEntry } from "shell-quote";
+
+import { globToRegExp } from "./policy-file.js";
+import { existsSync, readdirSync, statSync } from "fs";
+import { homedir } from "os";
+import { basename, dirname, isAbsolute, join, resolve } from "path";
+import { parse } from "shell-quote";
+
+// ---------------------------------------------------------------------------
+// Paths the agent must not read (`readDenylist` in the config)
+//
+// Entries are paths or globs in the syntax of `.codex/policy.yaml`. A match
+// also covers everything below it. Relative entries resolve against the
+// working directory, except for globs starting with `**/`, which match at
+// any depth anywhere. The denylist is enforced in three places:
+//
+// - `canAutoApprove()` does not auto-approve "known safe" read commands such
+//   as `cat` or `grep` that read a denied path
+// - the sandboxes hide denied paths (Seatbelt denies reading them, the Linux
+//   sandbox mounts empty files and directories over them)
+// - `redactSecrets()` scrubs credentials from whatever gets through
+// ---------------------------------------------------------------------------
+
+export const DEFAULT_READ_DENYLIST: ReadonlyArray<string> = [
+  "~/.ssh",
+  "~/.gnupg",
+  "~/.aws",
+  "~/.azure",
+  "~/.config/gcloud",
+  "~/.kube",
+  "~/.docker/config.json",
+  "~/.netrc",
+  "~/.codex",
+  "**/.env",
+  "**/.env.local",
+  "**/.env.*.local",
+  "**/.env.production",
+];
+
+/** Upper bound for the directory entries visited when expanding globs. */
+const MAX_WALK_ENTRIES = 20_000;
+const MAX_WALK_DEPTH = 8;
+const SKIPPED_DIRECTORIES = new Set(["node_modules", ".git"]);
+const SEGMENT_OPERATORS = new Set(["&&", "||", "|", ";", "&"]);
+
+export type DeniedPath = {
+  path: string;
+  directory: boolean;
+};
+
+function expandHome(p: string): string {
+  return p === "~" || p.startsWith("~/") ? join(homedir(), p.slice(1)) : p;
+}
+
+function isGlob(entry: string): boolean {
+  return /[*?]/.test(entry);
+}
+
+/** The absolute path or glob an entry stands for in `workdir`. */
+export function readDenylistEntryToAbsolute(
+  entry: string,
+  workdir: string,
+): string {
+  const expanded = expandHome(entry);
+  return isAbsolute(expanded) || expanded.startsWith("**/")
+    ? expanded
+    : resolve(workdir, expanded);
+}
+
+/** `p` and all of its ancestors. */
+function selfAndAncestors(p: string): Array<string> {
+  const paths = [p];
+  for (
+    let dir = dirname(p);
+    dir !== paths[paths.length - 1];
+    dir = dirname(dir)
+  ) {
+    paths.push(dir);
+  }
+  return paths;
+}
+
+export function isReadDenied(
+  path: string,
+  workdir: string,
+  denylist: ReadonlyArray<string>,
+): boolean {
+  const candidates = selfAndAncestors(resolve(workdir, expandHome(path)));
+  return denylist.some((entry) => {
+    const absolute = readDenylistEntryToAbsolute(entry, workdir);
+    if (!isGlob(absolute)) {
+      return candidates.includes(resolve(absolute));
+    }
+    const re = globToRegExp(absolute);
+    return candidates.some((candidate) => re.test(candidate));
+  });
+}
+
+/**
+ * The denied paths that exist in the file system: literal entries as they
+ * are, globs expanded below `roots`. Entries that contain `workdir` are left
+ * out, hiding them would hide the project itself.
+ */
+export function findDeniedPaths(
+  denylist: ReadonlyArray<string>,
+  roots: ReadonlyArray<string>,
+  workdir: string,
+): Array<DeniedPath> {
+  const found = new Map<string, DeniedPath>();
+  const add = (path: string) => {
+    try {
+      found.set(path, { path, directory: statSync(path).isDirectory() });
+    } catch {
+      // Vanished or unreadable, nothing to hide.
+    }
+  };
+
+  const globs: Array<RegExp> = [];
+  for (const entry of denylist) {
+    const absolute = readDenylistEntryToAbsolute(entry, workdir);
+    if (isGlob(absolute)) {
+      globs.push(globToRegExp(absolute));
+    } else if (existsSync(absolute)) {
+      add(resolve(absolute));
+    }
+  }
+
+  if (globs.length > 0) {
+    let visited = 0;
+    const walk = (dir: string, depth: number) => {
+      let names: Array<string>;
+      try {
+        names = readdirSync(dir);
+      } catch {
+        return;
+      }
+      for (const name of names) {
+        if (++visited > MAX_WALK_ENTRIES) {
+          return;
+        }
+        const path = join(dir, name);
+        if (globs.some((re) => re.test(path))) {
+          add(path);
+        } else if (
+          depth < MAX_WALK_DEPTH &&
+          !SKIPPED_DIRECTORIES.has(name) &&
+          isDirectory(path)
+        ) {
+          walk(path, depth + 1);
+        }
+      }
+    };
+    for (const root of new Set(roots.map((r) => resolve(r)))) {
+      walk(root, 0);
+    }
+  }
+
+  const project = resolve(workdir);
+  return [...found.values()].filter(
+    ({ path }) => !selfAndAncestors(project).includes(path),
+  );
+}
+
+function isDirectory(path: string): boolean {
+  try {
+    return statSync(path).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The first denied path a command reads, judging from its arguments. Search
+ * commands that recurse into a directory read everything below it.
+ */
+export function commandReadsDeniedPath(
+  command: ReadonlyArray<string>,
+  workdir: string,
+  denylist: ReadonlyArray<string>,
+): string | null {
+  if (denylist.length === 0) {
+    return null;
+  }
+  for (const segment of commandSegments(command)) {
+    const [program, ...args] = segment;
+    const paths = args
+      .filter((arg) => !arg.startsWith("-") || arg.includes("="))
+      .map((arg) =>
+        arg.startsWith("-") ? arg.slice(arg.indexOf("=") + 1) : arg,
+      );
+    for (const p of paths) {
+      if (isReadDenied(p, workdir, denylist)) {
+        return p;
+      }
+    }
+
+    const recursive =
+      program === "rg" ||
+      (program === "grep" &&
+        args.some(
+          (arg) => /^-[a-zA-Z]*[rR]/.test(arg) || arg === "--recursive",
+        ));
+    if (recursive) {
+      const dirs = paths.filter((p) =>
+        isDirectory(resolve(workdir, expandHome(p))),
+      );
+      const searched = dirs.length > 0 || program !== "rg" ? dirs : ["."];
+      for (const dir of searched) {
+        const root = resolve(workdir, expandHome(dir));
+        const [denied] = findDeniedPaths(denylist, [root], workdir).filter(
+          ({ path }) => path.startsWith(`${root}/`),
+        );
+        if (denied) {
+          return denied.path;
+        }
+      }
+    }
+  }
+  return null;
+}
+
+/** The program and arguments of each command in a (`bash -lc`) command. */
+function commandSegments(command: ReadonlyArray<string>): Array<Array<string>> {
+  if (
+    (command[0] === "bash" || command[0] === "sh") &&
+    command[1] === "-lc" &&
+    typeof command[2] === "string"
+  ) {
+    let parts: Array<ParseEntry>;
+    try {
+      parts = parse(command[2], process.env);
+    } catch {
+      return [];
+    }
+    const segments: Array<Array<string>> = [[]];
+    for (const part of parts) {
+      const { op, pattern } =
+        typeof part === "object" && "op" in part
+          ? (part as { op: string; pattern?: string })
+          : { op: undefined, pattern: undefined };
+      if (typeof part === "string") {
+        segments[segments.length - 1]!.push(part);
+      } else if (op === "glob" && pattern !== undefined) {
+        segments[segments.length - 1]!.push(pattern);
+      } else if (op !== undefined && SEGMENT_OPERATORS.has(op)) {
+        segments.push([]);
+      }
+    }
+    return segments
+      .filter((segment) => segment.length > 0)
+      .map(([program, ...args]) => [basename(program!), ...args]);
+  }
+  return command.length > 0
+    ? [[basename(command[0]!), ...command.slice(1)]]
+    : [];
+}
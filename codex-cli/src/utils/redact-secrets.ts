@@ -0,0 +1,65 @@
+export const REDACTED = "[REDACTED]";
+
+/** Credentials with a recognizable shape. */
+const SECRET_PATTERNS: ReadonlyArray<RegExp> = [
+  // PEM private keys, including the armor lines.
+  /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g,
+  // OpenAI and Anthropic API keys.
+  /\bsk-(?:ant-|proj-)?[A-Za-z0-9_-]{20,}/g,
+  // AWS access key ids.
+  /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g,
+  // GitHub tokens.
+  /\bgh[pousr]_[A-Za-z0-9]{36,}\b/g,
+  /\bgithub_pat_[A-Za-z0-9_]{40,}\b/g,
+  // Slack tokens.
+  /\bxox[abprs]-[A-Za-z0-9-]{10,}/g,
+  // Google API keys.
+  /\bAIza[0-9A-Za-z_-]{35}\b/g,
+  // Bearer tokens in HTTP headers.
+  /(?<=\bBearer\s+)[A-Za-z0-9._~+/-]{16,}=*/gi,
+];
+
+/**
+ * `NAME=value` assignments (as in `.env` files or `env` output) where the
+ * upper case name says the value is a secret. The name is kept.
+ */
+const SECRET_ASSIGNMENT =
+  /^(\s*(?:export\s+)?[A-Z0-9_]*(?:SECRET|TOKEN|PASSWORD|PASSWD|API_KEY|APIKEY|ACCESS_KEY|PRIVATE_KEY)[A-Z0-9_]*\s*[=:]\s*)(["']?)([^\s"']{4,})\2/gm;
+
+const SECRET_ENV_NAME = /SECRET|TOKEN|PASSWORD|PASSWD|API_?KEY|ACCESS_KEY/i;
+
+/** Shorter values are too likely to occur by accident. */
+const MIN_ENV_SECRET_LENGTH = 8;
+
+/**
+ * Replace credentials in tool output with `[REDACTED]` before it is sent to
+ * the model: the values of secret looking environment variables of this
+ * process, well-known token formats and secret `NAME=value` assignments.
+ */
+export function redactSecrets(
+  text: string,
+  env: NodeJS.ProcessEnv = process.env,
+): string {
+  let redacted = text;
+  const envSecrets = Object.entries(env)
+    .filter(
+      ([name, value]) =>
+        SECRET_ENV_NAME.test(name) &&
+        value !== undefined &&
+        value.length >= MIN_ENV_SECRET_LENGTH,
+    )
+    .map(([, value]) => value!)
+    // Longest first so that a secret containing another one is fully replaced.
+    .sort((a, b) => b.length - a.length);
+  for (const secret of envSecrets) {
+    redacted = redacted.split(secret).join(REDACTED);
+  }
+  for (const pattern of SECRET_PATTERNS) {
+    redacted = redacted.replace(pattern, REDACTED);
+  }
+  return redacted.replace(
+    SECRET_ASSIGNMENT,
+    (match, prefix: string, quote: string, value: string) =>
+      value === REDACTED ? match : `${prefix}${quote}${REDACTED}${quote}`,
+  );
+}
@@ -2,6 +2,7 @@ import type { AppConfig } from "./config.js";
 import { completionsCreate } from "./completions.js";
 import { loadConfig } from "./config.js";
 import { openAiModelInfo } from "./model-info.js"; // Added import
+import { providers } from "./providers.js";
 import OpenAI from "openai";
 import type {
   ChatCompletionMessageParam,
@@ -13,6 +14,10 @@ import type {
   ChatCompletionToolChoiceOption,
 } from "openai/resources/chat/completions";
 
+import type { EstimatedResponseUsage } from "./token-usage.js";
+import type { CompletionUsage } from "openai/resources/completions";
+
+import { approximateChatMessagesTokens } from "./approximate-tokens-used.js";
 import { log } from "./logger/log";
 import type {
   ResponseCreateParams,
@@ -277,6 +282,11 @@ const createCompletion = async (
     }
   }
 
+  // Streamed completions only report their usage when asked to.
+  if (chatInputParams.stream && acceptsStreamUsage(sessionConfig)) {
+    chatInputParams.stream_options = { include_usage: true };
+  }
+
   // By checking the stream property, we help TypeScript resolve the correct overload.
   if (chatInputParams.stream) {
     return completionsCreate(openai, chatInputParams, sessionConfig);
@@ -285,6 +295,53 @@ const createCompletion = async (
   }
 };
 
+/**
+ * Whether the provider of `config` accepts `stream_options.include_usage`,
+ * see `ProviderConfig.streamUsage`.
+ */
+function acceptsStreamUsage(config: AppConfig): boolean {
+  const key = (config.provider ?? "openai").toLowerCase();
+  return (
+    config.providers?.[key]?.streamUsage ?? providers[key]?.streamUsage ?? false
+  );
+}
+
+/**
+ * The usage of a chat completion in the shape of the Responses API. When the
+ * provider reports none, the request and the reply are counted locally with
+ * the tokenizer of `model`, if it is known.
+ */
+function toResponseUsage(
+  usage: CompletionUsage | null | undefined,
+  model: string,
+  messages: Array<ChatCompletionMessageParam>,
+  reply: ChatCompletionMessageParam,
+): EstimatedResponseUsage {
+  if (usage) {
+    return {
+      input_tokens: usage.prompt_tokens,
+      input_tokens_details: {
+        cached_tokens: usage.prompt_tokens_details?.cached_tokens ?? 0,
+      },
+      output_tokens: usage.completion_tokens,
+      output_tokens_details: {
+        reasoning_tokens: usage.completion_tokens_details?.reasoning_tokens ?? 0,
+      },
+      total_tokens: usage.total_tokens,
+    };
+  }
+  const inputTokens = approximateChatMessagesTokens(messages, model);
+  const outputTokens = approximateChatMessagesTokens([reply], model);
+  return {
+    input_tokens: inputTokens,
+    input_tokens_details: { cached_tokens: 0 },
+    output_tokens: outputTokens,
+    output_tokens_details: { reasoning_tokens: 0 },
+    total_tokens: inputTokens + outputTokens,
+    estimated: true,
+  };
+}
+
 // Non-streaming implementation
 async function nonStreamResponses(
   input: ResponseCreateInput,
@@ -352,15 +409,7 @@ async function nonStreamResponses(
       tools: input.tools ?? [],
       top_p: input.top_p ?? null,
       truncation: input.truncation ?? ("disabled" as const),
-      usage: chatResponse.usage
-        ? {
-            input_tokens: chatResponse.usage.prompt_tokens,
-            input_tokens_details: { cached_tokens: 0 },
-            output_tokens: chatResponse.usage.completion_tokens,
-            output_tokens_details: { reasoning_tokens: 0 },
-            total_tokens: chatResponse.usage.total_tokens,
-          }
-        : undefined,
+      usage: toResponseUsage(chatResponse.usage, input.model, fullMessages, assistantMessage),
       user: input.user ?? undefined,
       metadata: input.metadata ?? {},
       output_text: assistantMessage.content || "",
@@ -426,7 +475,7 @@ async function* streamResponses(
   let textContentAdded = false;
   let textContent = "";
   const toolCalls = new Map<number, ToolCallData>();
-  let usage: import("openai/resources/responses/responses").ResponseUsage | null = null;
+  let usage: CompletionUsage | null = null;
   const finalOutputItemAccumulator: Array<import("openai/resources/responses/responses").ResponseOutputItem> = [];
   let currentModel = input.model; // Initialize with input model
 
@@ -468,19 +517,15 @@ async function* streamResponses(
     for await (const chunk of completionStream) {
       if (chunk.model) currentModel = chunk.model; // Update model if present in chunk
 
-      const choice = chunk.choices?.[0];
-      if (!choice) continue;
-
+      // With `include_usage` the usage arrives in a final chunk without
+      // choices.
       if (chunk.usage) {
-        usage = {
-          input_tokens: chunk.usage.prompt_tokens,
-          input_tokens_details: { cached_tokens: 0 },
-          output_tokens: chunk.usage.completion_tokens,
-          output_tokens_details: { reasoning_tokens: 0 },
-          total_tokens: chunk.usage.total_tokens,
-        };
+        usage = chunk.usage;
       }
 
+      const choice = chunk.choices?.[0];
+      if (!choice) continue;
+
       if (choice.delta.tool_calls && choice.delta.tool_calls.length > 0) {
         for (const tcDelta of choice.delta.tool_calls) {
           if (tcDelta.index === undefined) continue; // Should not happen with SDK v4
@@ -629,7 +674,11 @@ async function* streamResponses(
       status: "completed" as const,
       model: currentModel,
       output: finalOutputItemAccumulator,
-      usage: usage ?? undefined,
+      usage: toResponseUsage(usage, currentModel, fullMessages, {
+        role: "assistant",
+        content: textContent,
+        tool_calls: toolCallsForHistory.length > 0 ? toolCallsForHistory : undefined,
+      }),
       output_text: textContent,
       error: null,
       incomplete_details: null,
@@ -1,3 +1,6 @@
+import type { ApprovalPolicy } from "../approvals.js";
+import type { SessionUsage } from "./token-usage.js";
+
 export const ORIGIN = "codex_cli_ts";
 
 export type TerminalChatSession = {
@@ -9,10 +12,16 @@ export type TerminalChatSession = {
   version: string;
   /** The model used for the conversation */
   model: string;
+  /** The provider serving `model`, restored by `--resume` */
+  provider?: string;
+  /** The approval mode the session ran with, restored by `--resume` */
+  approvalMode?: ApprovalPolicy;
   /** ISO timestamp noting when the session was persisted */
   timestamp: string;
   /** Optional custom instructions that were active for the run */
   instructions: string;
+  /** Token usage and estimated cost of the turns, restored by `--resume` */
+  usage?: SessionUsage;
 };
 
 let sessionId = "";
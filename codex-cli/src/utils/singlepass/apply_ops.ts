@@ -0,0 +1,83 @@
+import type { FileOperation } from "./file_ops";
+import type { Checkpoint, CheckpointStore } from "../agent/checkpoints";
+
+import { defaultCheckpointStore } from "../agent/checkpoints";
+import * as fsPromises from "fs/promises";
+import path from "path";
+
+/** A file operation that could not be written to disk. */
+export interface FailedFileOperation {
+  path: string;
+  message: string;
+}
+
+/**
+ * Returns the file contents (keyed by absolute path) after applying `ops`
+ * in order, without touching the disk. A moved file keeps its content unless
+ * the operation also provides updated content.
+ */
+export function applyOpsToContents(
+  contents: Record<string, string>,
+  ops: Array<FileOperation>,
+): Record<string, string> {
+  const result = { ...contents };
+  for (const op of ops) {
+    if (op.delete) {
+      delete result[op.path];
+    } else if (op.move_to) {
+      const content = op.updated_full_content ?? result[op.path] ?? "";
+      delete result[op.path];
+      result[op.move_to] = content;
+    } else {
+      result[op.path] = op.updated_full_content ?? "";
+    }
+  }
+  return result;
+}
+
+/**
+ * Writes `ops` to disk and records the files they touched as a checkpoint,
+ * so that `/undo` (or the agent's `/checkpoints`) can roll them back.
+ * Operations that fail are reported and do not stop the others.
+ */
+export async function applyFileOps(
+  ops: Array<FileOperation>,
+  description: string,
+  checkpoints: CheckpointStore = defaultCheckpointStore,
+): Promise<{
+  checkpoint: Checkpoint | undefined;
+  failed: Array<FailedFileOperation>;
+}> {
+  const snapshot = checkpoints.snapshotFiles(
+    ops.flatMap((op) => (op.move_to ? [op.path, op.move_to] : [op.path])),
+  );
+  const failed: Array<FailedFileOperation> = [];
+
+  for (const op of ops) {
+    try {
+      if (op.delete) {
+        await fsPromises.rm(op.path, { force: true });
+      } else if (op.move_to) {
+        const content =
+          op.updated_full_content ?? (await fsPromises.readFile(op.path));
+        await fsPromises.mkdir(path.dirname(op.move_to), { recursive: true });
+        await fsPromises.writeFile(op.move_to, content);
+        await fsPromises.rm(op.path, { force: true });
+      } else {
+        await fsPromises.mkdir(path.dirname(op.path), { recursive: true });
+        await fsPromises.writeFile(
+          op.path,
+          op.updated_full_content ?? "",
+          "utf-8",
+        );
+      }
+    } catch (err) {
+      failed.push({
+        path: op.path,
+        message: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+
+  return { checkpoint: checkpoints.record(description, snapshot), failed };
+}
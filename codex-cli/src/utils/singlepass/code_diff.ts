@@ -1,6 +1,7 @@
 import type { EditedFiles, FileOperation } from "./file_ops";
 
 import { createTwoFilesPatch } from "diff";
+import path from "path";
 
 /**************************************
  * ANSI color codes for output styling
@@ -91,6 +92,43 @@ function generateDiffHeader(fileOp: FileOperation): string {
   return separatorLine + headerLine + "\n" + subSeparatorLine;
 }
 
+/****************************************************************
+ * Header and colored diff for a single file operation, or null
+ * when it does not change anything.
+ ****************************************************************/
+export function generateFileOpDiff(
+  fileOp: FileOperation,
+  originalFileContents: Record<string, string>,
+): string | null {
+  const diffHeader = generateDiffHeader(fileOp);
+
+  if (fileOp.delete) {
+    // file will be deleted
+    return diffHeader + "File will be deleted.\n\n";
+  } else if (fileOp.move_to) {
+    return diffHeader + `File will be moved to: ${fileOp.move_to}\n\n`;
+  }
+
+  // otherwise it's an update
+  const originalContent = originalFileContents[fileOp.path] ?? "";
+  const updatedContent = fileOp.updated_full_content ?? "";
+
+  if (originalContent === updatedContent) {
+    // no changes => skip
+    return null;
+  }
+
+  const diffOutput = generateFileDiff(
+    originalContent,
+    updatedContent,
+    fileOp.path,
+  );
+  if (!diffOutput.trim()) {
+    return null;
+  }
+  return diffHeader + generateColoredDiff(diffOutput) + "\n";
+}
+
 /****************************************************************
  * Summarize diffs for each file operation that has differences.
  * akin to generate_diff_summary(edited_files, original_files)
@@ -103,42 +141,59 @@ export function generateDiffSummary(
   const opsToApply: Array<FileOperation> = [];
 
   for (const fileOp of editedFiles.ops) {
-    const diffHeader = generateDiffHeader(fileOp);
-
-    if (fileOp.delete) {
-      // file will be deleted
-      combinedDiffs += diffHeader + "File will be deleted.\n\n";
+    const diff = generateFileOpDiff(fileOp, originalFileContents);
+    if (diff !== null) {
+      combinedDiffs += diff;
       opsToApply.push(fileOp);
-      continue;
-    } else if (fileOp.move_to) {
-      combinedDiffs +=
-        diffHeader + `File will be moved to: ${fileOp.move_to}\n\n`;
-      opsToApply.push(fileOp);
-      continue;
     }
+  }
 
-    // otherwise it's an update
-    const originalContent = originalFileContents[fileOp.path] ?? "";
-    const updatedContent = fileOp.updated_full_content ?? "";
+  return [combinedDiffs, opsToApply];
+}
 
-    if (originalContent === updatedContent) {
-      // no changes => skip
+/****************************************************************
+ * A unified patch of the changes from `originalFileContents` to
+ * `updatedFileContents` (both keyed by absolute path, a missing
+ * key meaning the file does not exist) with paths relative to
+ * `rootPath`, which can be applied with `git apply`.
+ ****************************************************************/
+export function generateUnifiedPatch(
+  originalFileContents: Record<string, string>,
+  updatedFileContents: Record<string, string>,
+  rootPath: string,
+): string {
+  const paths = [
+    ...new Set([
+      ...Object.keys(originalFileContents),
+      ...Object.keys(updatedFileContents),
+    ]),
+  ].sort();
+
+  let patch = "";
+  for (const filePath of paths) {
+    const before = originalFileContents[filePath];
+    const after = updatedFileContents[filePath];
+    if (before === after) {
       continue;
     }
-
-    const diffOutput = generateFileDiff(
-      originalContent,
-      updatedContent,
-      fileOp.path,
-    );
-    if (diffOutput.trim()) {
-      const coloredDiff = generateColoredDiff(diffOutput);
-      combinedDiffs += diffHeader + coloredDiff + "\n";
-      opsToApply.push(fileOp);
-    }
+    const relative = path
+      .relative(rootPath, filePath)
+      .split(path.sep)
+      .join("/");
+    patch += createTwoFilesPatch(
+      before === undefined ? "/dev/null" : `a/${relative}`,
+      after === undefined ? "/dev/null" : `b/${relative}`,
+      before ?? "",
+      after ?? "",
+      undefined,
+      undefined,
+      { context: 3 },
+    )
+      // Only the `---`/`+++` headers are needed; git does not know the
+      // `Index:` line the diff package starts with.
+      .replace(/^Index: .*\n=+\n/, "");
   }
-
-  return [combinedDiffs, opsToApply];
+  return patch;
 }
 
 /****************************************************************
@@ -63,3 +63,26 @@ function renderFilesToXml(files: Array<FileContent>): string {
 
   return `<files>\n${fileContents}\n</files>`;
 }
+
+/**
+ * Renders the follow-up message asking the model to rework its proposed
+ * changes to `paths` according to the user's feedback. The files in the task
+ * context already include the changes the user accepted.
+ */
+export function renderRevisionRequest(
+  feedback: string,
+  paths: Array<string>,
+): string {
+  return `
+  The user reviewed your changes and wants the changes to these files revised:
+  ${paths.map((p) => `- ${p}`).join("\n  ")}
+
+  # Feedback
+  ${feedback}
+
+  # IMPORTANT OUTPUT REQUIREMENTS
+  - ONLY produce operations for the files listed above; changes to any other file are discarded.
+  - Base your changes on the file contents given in the task above, your earlier proposal for these files was NOT applied.
+  - ALWAYS INCLUDE THE COMPLETE UPDATED VERSION OF EVERY FILE you modify.
+   `;
+}
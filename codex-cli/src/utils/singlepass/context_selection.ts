@@ -0,0 +1,413 @@
+import type { FileContent } from "./context_files.js";
+
+import { approximateTextTokens } from "../approximate-tokens-used.js";
+import { maxTokensForModel } from "../model-utils.js";
+import { execFileSync } from "child_process";
+import path from "path";
+
+/**
+ * Share of the model's context window the files may take. The rest is left
+ * for the instructions and for the response, which repeats every edited file
+ * in full.
+ */
+const CONTEXT_WINDOW_SHARE = 0.6;
+/** How many of the most relevant files pass relevance on to their imports. */
+const IMPORT_SEEDS = 10;
+/** Share of a file's score given to the files it imports or is imported by. */
+const IMPORT_PROPAGATION = 0.3;
+/** How many commits count as recent changes. */
+const RECENT_COMMITS = 20;
+
+const STOP_WORDS = new Set(
+  `the and for with that this from into when then than them they there their
+  what which while where will would should could have has had not but all any
+  can its use used using make makes add adds change changes update updates fix
+  fixes file files code please also some more only just like instead about
+  each every other same new old out our your you are was were been being does
+  did done get set let want need sure don doesn isn`.split(/\s+/),
+);
+
+/** A file in the full-context candidates, with why it is (not) relevant. */
+export interface RankedFile {
+  path: string;
+  tokens: number;
+  score: number;
+  /** Why the file got its score, most important first. */
+  reasons: Array<string>;
+  pinned: boolean;
+}
+
+export interface ContextSelection {
+  /** The files to put in the context, most relevant first. */
+  included: Array<RankedFile>;
+  /** The files that did not fit, most relevant first. */
+  excluded: Array<RankedFile>;
+  budgetTokens: number;
+  usedTokens: number;
+}
+
+export interface RecentChanges {
+  /** Files with uncommitted changes, absolute paths. */
+  uncommitted: Array<string>;
+  /** Files changed in the last commits, absolute paths, most recent first. */
+  committed: Array<string>;
+}
+
+/** Tokens of the context window the files may use with `model`. */
+export function contextBudgetForModel(model: string): number {
+  return Math.floor(maxTokensForModel(model) * CONTEXT_WINDOW_SHARE);
+}
+
+/**
+ * Whether `filePath` is pinned, either itself or through a pinned directory.
+ * Pins are absolute paths.
+ */
+export function isPinned(filePath: string, pins: Iterable<string>): boolean {
+  for (const pin of pins) {
+    if (filePath === pin || filePath.startsWith(pin + path.sep)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Ranks `files` by relevance to `prompt` and packs the most relevant ones
+ * into `budgetTokens`. Relevance comes from file paths and contents matching
+ * the words and identifiers in the prompt, recent git changes, and imports
+ * of the most relevant files. Pinned files are always included, even when
+ * they do not fit; files that are not relevant at all are still included
+ * while there is room, smallest first, so a repository that fits is sent
+ * whole as before.
+ */
+export function selectContext(
+  files: Array<FileContent>,
+  {
+    prompt,
+    rootPath,
+    budgetTokens,
+    pins = [],
+    recentChanges = { uncommitted: [], committed: [] },
+  }: {
+    prompt: string;
+    rootPath: string;
+    budgetTokens: number;
+    pins?: Iterable<string>;
+    recentChanges?: RecentChanges;
+  },
+): ContextSelection {
+  const pinList = [...pins];
+  const ranked = rankFiles(files, prompt, rootPath, recentChanges).map(
+    (file) => ({ ...file, pinned: isPinned(file.path, pinList) }),
+  );
+  ranked.sort(
+    (a, b) =>
+      Number(b.pinned) - Number(a.pinned) ||
+      b.score - a.score ||
+      a.tokens - b.tokens ||
+      a.path.localeCompare(b.path),
+  );
+
+  const included: Array<RankedFile> = [];
+  const excluded: Array<RankedFile> = [];
+  let usedTokens = 0;
+  for (const file of ranked) {
+    if (file.pinned || usedTokens + file.tokens <= budgetTokens) {
+      included.push(file);
+      usedTokens += file.tokens;
+    } else {
+      excluded.push(file);
+    }
+  }
+  return { included, excluded, budgetTokens, usedTokens };
+}
+
+/**
+ * Files changed in the working tree and in the last commits below
+ * `rootPath`, or nothing when it is not in a git repository.
+ */
+export function getRecentChanges(rootPath: string): RecentChanges {
+  const list = (args: Array<string>): Array<string> => {
+    try {
+      return execFileSync("git", args, {
+        cwd: rootPath,
+        encoding: "utf8",
+        stdio: ["ignore", "pipe", "ignore"],
+        timeout: 10_000,
+      })
+        .split("\n")
+        .filter((line) => line !== "")
+        .map((line) => path.resolve(rootPath, line));
+    } catch {
+      return [];
+    }
+  };
+  const uncommitted = [
+    ...list(["diff", "--name-only", "--relative", "HEAD"]),
+    ...list(["ls-files", "--others", "--exclude-standard"]),
+  ];
+  const committed = list([
+    "log",
+    `-${RECENT_COMMITS}`,
+    "--name-only",
+    "--relative",
+    "--format=",
+  ]);
+  return {
+    uncommitted: [...new Set(uncommitted)],
+    committed: [...new Set(committed)],
+  };
+}
+
+type Scored = Omit<RankedFile, "pinned">;
+
+function rankFiles(
+  files: Array<FileContent>,
+  prompt: string,
+  rootPath: string,
+  recentChanges: RecentChanges,
+): Array<Scored> {
+  const { words, symbols } = promptTerms(prompt);
+  const uncommitted = new Set(recentChanges.uncommitted);
+  const committed = new Map(
+    recentChanges.committed.map((p, i) => [p, i] as const),
+  );
+
+  const scored = new Map<string, Scored>();
+  for (const file of files) {
+    const entry: Scored = {
+      path: file.path,
+      tokens: approximateTextTokens(file.content),
+      score: 0,
+      reasons: [],
+    };
+    const add = (points: number, reason: string) => {
+      entry.score += points;
+      entry.reasons.push(reason);
+    };
+
+    // Path matches.
+    const relative = path.relative(rootPath, file.path).toLowerCase();
+    const segments = relative.split(path.sep);
+    const baseParts = splitIdentifier(
+      path.basename(file.path).replace(/\.[^.]*$/, ""),
+    );
+    for (const word of words) {
+      if (baseParts.includes(word)) {
+        add(10, `name matches "${word}"`);
+      } else if (segments.slice(0, -1).includes(word)) {
+        add(4, `directory matches "${word}"`);
+      } else if (word.length >= 4 && relative.includes(word)) {
+        add(2, `path contains "${word}"`);
+      }
+    }
+
+    // Identifiers from the prompt in the content.
+    for (const symbol of symbols) {
+      const count = countOccurrences(file.content, symbol);
+      if (count === 0) {
+        continue;
+      }
+      if (definesSymbol(file.content, symbol)) {
+        add(12, `defines \`${symbol}\``);
+      } else {
+        add(4 + Math.log2(1 + count), `mentions \`${symbol}\``);
+      }
+    }
+
+    // Plain words in the content count for little, they are common.
+    let wordPoints = 0;
+    const lowerContent = file.content.toLowerCase();
+    for (const word of words) {
+      wordPoints += Math.min(countOccurrences(lowerContent, word), 5) * 0.2;
+    }
+    if (wordPoints > 0) {
+      entry.score += wordPoints;
+    }
+
+    // Recent changes.
+    if (uncommitted.has(file.path)) {
+      add(6, "uncommitted changes");
+    } else if (committed.has(file.path)) {
+      const rank = committed.get(file.path)!;
+      add(3 * (1 - rank / Math.max(committed.size, 1)), "recently changed");
+    }
+
+    scored.set(file.path, entry);
+  }
+
+  propagateThroughImports(files, scored, rootPath);
+  return [...scored.values()];
+}
+
+/** Give the imports and importers of the most relevant files a share of their score. */
+function propagateThroughImports(
+  files: Array<FileContent>,
+  scored: Map<string, Scored>,
+  rootPath: string,
+): void {
+  const seeds = [...scored.values()]
+    .filter((f) => f.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, IMPORT_SEEDS);
+  if (seeds.length === 0) {
+    return;
+  }
+  const seedScores = new Map(seeds.map((s) => [s.path, s.score] as const));
+  const bonus = new Map<string, { points: number; reason: string }>();
+  const give = (to: string, points: number, reason: string) => {
+    const current = bonus.get(to);
+    if (!current || current.points < points) {
+      bonus.set(to, { points, reason });
+    }
+  };
+
+  for (const file of files) {
+    for (const imported of resolveImports(file, scored)) {
+      const importerScore = seedScores.get(file.path);
+      if (importerScore !== undefined) {
+        give(
+          imported,
+          importerScore * IMPORT_PROPAGATION,
+          `imported by ${path.relative(rootPath, file.path)}`,
+        );
+      }
+      const importedScore = seedScores.get(imported);
+      if (importedScore !== undefined) {
+        give(
+          file.path,
+          importedScore * IMPORT_PROPAGATION,
+          `imports ${path.relative(rootPath, imported)}`,
+        );
+      }
+    }
+  }
+
+  for (const [filePath, { points, reason }] of bonus) {
+    const entry = scored.get(filePath)!;
+    entry.score += points;
+    entry.reasons.push(reason);
+  }
+}
+
+const IMPORT_PATTERNS = [
+  // import x from "./a", export * from "./a", import "./a"
+  /\b(?:import|export)\b[^'"`;]*?\bfrom\s*["']([^"']+)["']/g,
+  /\bimport\s*["']([^"']+)["']/g,
+  // require("./a"), import("./a")
+  /\b(?:require|import)\s*\(\s*["']([^"']+)["']\s*\)/g,
+  // from .a import b (Python)
+  /^\s*from\s+(\.+[\w.]*)\s+import\b/gm,
+];
+
+const RESOLVE_EXTENSIONS = [
+  "",
+  ".ts",
+  ".tsx",
+  ".js",
+  ".jsx",
+  ".mjs",
+  ".cjs",
+  ".py",
+  "/index.ts",
+  "/index.tsx",
+  "/index.js",
+  "/__init__.py",
+];
+
+/** The files among the candidates that `file` imports with relative paths. */
+function resolveImports(
+  file: FileContent,
+  candidates: Map<string, unknown>,
+): Set<string> {
+  const result = new Set<string>();
+  const dir = path.dirname(file.path);
+  for (const pattern of IMPORT_PATTERNS) {
+    for (const match of file.content.matchAll(pattern)) {
+      let specifier = match[1]!;
+      if (/^\.+[\w.]*$/.test(specifier) && !specifier.includes("/")) {
+        // Python: `..pkg.mod` is `../pkg/mod`.
+        const dots = /^\.+/.exec(specifier)![0].length;
+        const rest = specifier.slice(dots).split(".").filter(Boolean);
+        specifier = ["."].concat(Array(dots - 1).fill(".."), rest).join("/");
+      }
+      if (!specifier.startsWith(".")) {
+        continue;
+      }
+      // TypeScript sources import their siblings with a `.js` extension.
+      const base = path.resolve(dir, specifier).replace(/\.js$/, "");
+      const resolved = RESOLVE_EXTENSIONS.map((ext) => base + ext).find(
+        (candidate) => candidate !== file.path && candidates.has(candidate),
+      );
+      if (resolved) {
+        result.add(resolved);
+      }
+    }
+  }
+  return result;
+}
+
+/**
+ * The words of the prompt worth looking for, lowercased, and the
+ * identifiers in it: words in backticks or that look like code
+ * (`camelCase`, `snake_case`, `a.b`).
+ */
+export function promptTerms(prompt: string): {
+  words: Array<string>;
+  symbols: Array<string>;
+} {
+  const symbols = new Set<string>();
+  for (const match of prompt.matchAll(/`([^`\s]+)`/g)) {
+    const identifier = /[A-Za-z_$][\w$]*/.exec(match[1]!.split(".").pop()!);
+    if (identifier && identifier[0].length >= 3) {
+      symbols.add(identifier[0]);
+    }
+  }
+  for (const match of prompt.matchAll(/[A-Za-z_$][\w$]*/g)) {
+    const token = match[0];
+    if (
+      token.length >= 3 &&
+      (/[a-z][A-Z]/.test(token) || /[A-Za-z]_[A-Za-z]/.test(token))
+    ) {
+      symbols.add(token);
+    }
+  }
+
+  const words = new Set<string>();
+  for (const match of prompt.matchAll(/[A-Za-z][A-Za-z0-9_]*/g)) {
+    for (const part of splitIdentifier(match[0])) {
+      if (part.length >= 3 && !STOP_WORDS.has(part)) {
+        words.add(part);
+      }
+    }
+  }
+  return { words: [...words], symbols: [...symbols] };
+}
+
+/** `parseApplyPatch` and `parse_apply_patch` become `parse`, `apply`, `patch`. */
+function splitIdentifier(name: string): Array<string> {
+  return name
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+function countOccurrences(text: string, needle: string): number {
+  let count = 0;
+  for (
+    let i = text.indexOf(needle);
+    i !== -1;
+    i = text.indexOf(needle, i + needle.length)
+  ) {
+    count += 1;
+  }
+  return count;
+}
+
+function definesSymbol(content: string, symbol: string): boolean {
+  const escaped = symbol.replace(/[$]/g, "\\$");
+  return new RegExp(
+    `\\b(?:function\\*?|class|interface|type|enum|const|let|var|def|fn|struct|trait)\\s+${escaped}\\b`,
+  ).test(content);
+}
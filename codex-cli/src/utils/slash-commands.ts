@@ -91,5 +91,38 @@ export const SLASH_COMMANDS: Array<SlashCommand> = [
       );
     },
   },
+  {
+    command: "/undo",
+    description:
+      "Roll back the agent's last file change. Optional: /undo [count | checkpoint name]",
+  },
+  {
+    command: "/checkpoints",
+    description:
+      "List checkpoints of the agent's file changes. Optional: /checkpoints [name] to name the current state",
+  },
+  {
+    command: "/commit",
+    description:
+      "Commit all changes on the session branch. Optional: /commit [message]",
+  },
+  {
+    command: "/squash",
+    description:
+      "Squash the session branch into a single commit. Optional: /squash [message]",
+  },
+  {
+    command: "/pr-summary",
+    description: "Summarize the session branch for a pull request",
+  },
+  {
+    command: "/attach",
+    description:
+      "Take over the terminal of a background process. Optional: /attach [id]",
+  },
+  {
+    command: "/context",
+    description: "Show the project docs (AGENTS.md) the agent follows",
+  },
   { command: "/web", description: "Toggle web access" },
 ];
@@ -0,0 +1,120 @@
+import type { AppRollout } from "../../app.js";
+import type {
+  ResponseInputItem,
+  ResponseItem,
+} from "openai/resources/responses/responses";
+
+import { SESSIONS_ROOT } from "./save-rollout.js";
+import fs from "fs";
+import path from "path";
+
+/** `rollout-<date>-<session id>.json`, as written by `saveRollout()`. */
+const ROLLOUT_FILENAME = /^rollout-\d{4}-\d{2}-\d{2}-(.+)\.json$/;
+
+/**
+ * Find the rollout file for `idOrPath`: either a path to a rollout file or
+ * the id (or a unique prefix of it) of a session saved in `sessionsRoot`.
+ * When a session was saved on several days the most recent file wins.
+ */
+export function resolveRolloutPath(
+  idOrPath: string,
+  sessionsRoot: string = SESSIONS_ROOT,
+): string | undefined {
+  const asPath = path.resolve(idOrPath);
+  if (fs.existsSync(asPath) && fs.statSync(asPath).isFile()) {
+    return asPath;
+  }
+
+  let entries: Array<string>;
+  try {
+    entries = fs.readdirSync(sessionsRoot);
+  } catch {
+    return undefined;
+  }
+  const matches = entries
+    .map((name) => [ROLLOUT_FILENAME.exec(name)?.[1], name] as const)
+    .filter(([id]) => id?.startsWith(idOrPath));
+  if (matches.length === 0 || new Set(matches.map(([id]) => id)).size > 1) {
+    return undefined;
+  }
+  return matches
+    .map(([, name]) => path.join(sessionsRoot, name))
+    .map((p) => ({ p, mtime: fs.statSync(p).mtimeMs }))
+    .sort((a, b) => b.mtime - a.mtime)[0]!.p;
+}
+
+/**
+ * Load a saved session for `--resume`. Throws an `Error` with a message
+ * suitable for the user when the session cannot be found or read.
+ */
+export function loadRollout(
+  idOrPath: string,
+  sessionsRoot: string = SESSIONS_ROOT,
+): AppRollout & { path: string } {
+  const filePath = resolveRolloutPath(idOrPath, sessionsRoot);
+  if (!filePath) {
+    throw new Error(
+      `No saved session matches "${idOrPath}" (looked in ${sessionsRoot}).`,
+    );
+  }
+  let data: Partial<AppRollout>;
+  try {
+    data = JSON.parse(
+      fs.readFileSync(filePath, "utf-8"),
+    ) as Partial<AppRollout>;
+  } catch (err) {
+    throw new Error(`Could not read session file ${filePath}: ${String(err)}`);
+  }
+  if (!data.session || !Array.isArray(data.items)) {
+    throw new Error(`${filePath} is not a Codex session file.`);
+  }
+  return { session: data.session, items: data.items, path: filePath };
+}
+
+const isToolCall = (item: ResponseItem): boolean =>
+  item.type === "function_call" || item.type === "local_shell_call";
+
+const isToolOutput = (item: ResponseItem): boolean =>
+  (item.type as string) === "function_call_output" ||
+  (item.type as string) === "local_shell_call_output";
+
+const callIdOf = (item: ResponseItem): unknown =>
+  (item as { call_id?: unknown }).call_id;
+
+/**
+ * Turn the items of a saved session into the input that continues the
+ * conversation: UI-only items (system messages, reasoning) are dropped, as
+ * are tool calls that never got an output (e.g. the session was quit while
+ * waiting for approval), and fields the API does not accept are removed.
+ */
+export function rolloutToTranscript(
+  items: ReadonlyArray<ResponseItem>,
+): Array<ResponseInputItem> {
+  const callIds = new Set<unknown>();
+  const outputIds = new Set<unknown>();
+  for (const item of items) {
+    if (isToolCall(item)) {
+      callIds.add(callIdOf(item));
+    } else if (isToolOutput(item)) {
+      outputIds.add(callIdOf(item));
+    }
+  }
+
+  const transcript: Array<ResponseInputItem> = [];
+  for (const item of items) {
+    if (
+      (item.type as string) === "reasoning" ||
+      (item.type === "message" && (item.role as string) === "system") ||
+      (isToolCall(item) && !outputIds.has(callIdOf(item))) ||
+      (isToolOutput(item) && !callIds.has(callIdOf(item)))
+    ) {
+      continue;
+    }
+    const clean = { ...item } as Record<string, unknown>;
+    delete clean["id"];
+    delete clean["status"];
+    delete clean["duration_ms"];
+    transcript.push(clean as unknown as ResponseInputItem);
+  }
+  return transcript;
+}
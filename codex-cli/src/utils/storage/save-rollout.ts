@@ -1,16 +1,27 @@
+import type { TerminalChatSession } from "../session.js";
 import type { ResponseItem } from "openai/resources/responses/responses";
 
-import { loadConfig } from "../config";
+import { CLI_VERSION } from "../../version.js";
 import { log } from "../logger/log.js";
 import fs from "fs/promises";
 import os from "os";
 import path from "path";
 
-const SESSIONS_ROOT = path.join(os.homedir(), ".codex", "sessions");
+export const SESSIONS_ROOT = path.join(os.homedir(), ".codex", "sessions");
+
+/**
+ * Session settings that are stored next to the items so `--resume` can
+ * restore them.
+ */
+export type RolloutMeta = Pick<
+  TerminalChatSession,
+  "model" | "provider" | "approvalMode" | "instructions" | "usage"
+>;
 
 async function saveRolloutAsync(
   sessionId: string,
   items: Array<ResponseItem>,
+  meta: RolloutMeta,
 ): Promise<void> {
   await fs.mkdir(SESSIONS_ROOT, { recursive: true });
 
@@ -18,7 +29,6 @@ async function saveRolloutAsync(
   const ts = timestamp.replace(/[:.]/g, "-").slice(0, 10);
   const filename = `rollout-${ts}-${sessionId}.json`;
   const filePath = path.join(SESSIONS_ROOT, filename);
-  const config = loadConfig();
 
   try {
     await fs.writeFile(
@@ -28,7 +38,8 @@ async function saveRolloutAsync(
           session: {
             timestamp,
             id: sessionId,
-            instructions: config.instructions,
+            version: CLI_VERSION,
+            ...meta,
           },
           items,
         },
@@ -45,8 +56,9 @@ async function saveRolloutAsync(
 export function saveRollout(
   sessionId: string,
   items: Array<ResponseItem>,
+  meta: RolloutMeta,
 ): void {
   // Best-effort. We also do not log here in case of failure as that should be taken care of
   // by `saveRolloutAsync` already.
-  saveRolloutAsync(sessionId, items).catch(() => {});
+  saveRolloutAsync(sessionId, items, meta).catch(() => {});
 }
@@ -0,0 +1,155 @@
+import path from "path";
+
+export type HighlightKind = "keyword" | "string" | "comment" | "number";
+
+export type HighlightToken = { text: string; kind?: HighlightKind };
+
+type Language = { lineComment: string; keywords: ReadonlySet<string> };
+
+const words = (s: string): ReadonlySet<string> => new Set(s.split(/\s+/));
+
+const JS: Language = {
+  lineComment: "//",
+  keywords: words(
+    "abstract as async await break case catch class const continue debugger declare default delete do else enum export extends false finally for from function get if implements import in instanceof interface let namespace new null of private protected public readonly return set static super switch this throw true try type typeof undefined var void while with yield",
+  ),
+};
+
+const C_LIKE: Language = {
+  lineComment: "//",
+  keywords: words(
+    "auto bool boolean break case catch char class const continue default delete do double else enum extern false final float for goto if import int long namespace new null nullptr package private protected public return short signed sizeof static struct switch template this throw true try typedef union unsigned using var virtual void volatile while",
+  ),
+};
+
+const GO: Language = {
+  lineComment: "//",
+  keywords: words(
+    "break case chan const continue default defer else fallthrough false for func go goto if import interface map nil package range return select struct switch true type var",
+  ),
+};
+
+const RUST: Language = {
+  lineComment: "//",
+  keywords: words(
+    "as async await break const continue crate dyn else enum extern false fn for if impl in let loop match mod move mut pub ref return self Self static struct super trait true type unsafe use where while",
+  ),
+};
+
+const PYTHON: Language = {
+  lineComment: "#",
+  keywords: words(
+    "and as assert async await break class continue def del elif else except False finally for from global if import in is lambda None nonlocal not or pass raise return self True try while with yield",
+  ),
+};
+
+const RUBY: Language = {
+  lineComment: "#",
+  keywords: words(
+    "begin class def do else elsif end ensure false if module next nil require rescue return self true unless until when while yield",
+  ),
+};
+
+const SHELL: Language = {
+  lineComment: "#",
+  keywords: words(
+    "case do done elif else esac export fi for function if in local return then until while",
+  ),
+};
+
+const HASH_COMMENTS: Language = { lineComment: "#", keywords: words("") };
+
+const LANGUAGES: Record<string, Language> = {
+  ".js": JS,
+  ".jsx": JS,
+  ".mjs": JS,
+  ".cjs": JS,
+  ".ts": JS,
+  ".tsx": JS,
+  ".mts": JS,
+  ".cts": JS,
+  ".c": C_LIKE,
+  ".h": C_LIKE,
+  ".cc": C_LIKE,
+  ".cpp": C_LIKE,
+  ".hpp": C_LIKE,
+  ".cs": C_LIKE,
+  ".java": C_LIKE,
+  ".kt": C_LIKE,
+  ".scala": C_LIKE,
+  ".swift": C_LIKE,
+  ".go": GO,
+  ".rs": RUST,
+  ".py": PYTHON,
+  ".rb": RUBY,
+  ".sh": SHELL,
+  ".bash": SHELL,
+  ".zsh": SHELL,
+  ".yaml": HASH_COMMENTS,
+  ".yml": HASH_COMMENTS,
+  ".toml": HASH_COMMENTS,
+};
+
+const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+
+/**
+ * Splits a line of source code into tokens to color. The language is guessed
+ * from the extension of `filePath`; lines of unknown languages are a single
+ * plain token.
+ *
+ * Lines are highlighted on their own, so the continuation lines of block
+ * comments and multi-line strings are not recognized.
+ */
+export function highlightLine(
+  line: string,
+  filePath: string,
+): Array<HighlightToken> {
+  const language = LANGUAGES[path.extname(filePath).toLowerCase()];
+  if (!language || line === "") {
+    return [{ text: line }];
+  }
+
+  const pattern = new RegExp(
+    [
+      `(${escapeRegExp(language.lineComment)}.*$)`,
+      `("(?:[^"\\\\]|\\\\.)*"?|'(?:[^'\\\\]|\\\\.)*'?|\`(?:[^\`\\\\]|\\\\.)*\`?)`,
+      `(\\b\\d[\\w.]*)`,
+      `([A-Za-z_$][\\w$]*)`,
+    ].join("|"),
+    "g",
+  );
+
+  const tokens: Array<HighlightToken> = [];
+  const push = (text: string, kind?: HighlightKind) => {
+    const last = tokens[tokens.length - 1];
+    if (last && last.kind === kind) {
+      last.text += text;
+    } else {
+      tokens.push({ text, kind });
+    }
+  };
+
+  let index = 0;
+  for (const match of line.matchAll(pattern)) {
+    if (match.index > index) {
+      push(line.slice(index, match.index));
+    }
+    const [text, comment, str, num, word] = match;
+    if (comment) {
+      push(text, "comment");
+    } else if (str) {
+      push(text, "string");
+    } else if (num) {
+      push(text, "number");
+    } else if (word && language.keywords.has(word)) {
+      push(text, "keyword");
+    } else {
+      push(text);
+    }
+    index = match.index + text.length;
+  }
+  if (index < line.length) {
+    push(line.slice(index));
+  }
+  return tokens;
+}
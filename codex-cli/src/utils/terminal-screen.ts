@@ -0,0 +1,322 @@
+/**
+ * A minimal terminal emulator: it applies the output of a program running in
+ * a PTY to a grid of characters so that the screen can be shown to the model
+ * or the user as plain text. It understands cursor movement, erasing,
+ * scrolling and the alternate screen, which is enough for prompts, progress
+ * bars, REPLs and most full-screen programs. Colors and other attributes are
+ * dropped.
+ */
+export class TerminalScreen {
+  private grid: Array<Array<string>>;
+  private row = 0;
+  private col = 0;
+  private savedCursor = { row: 0, col: 0 };
+  /** The main screen while the alternate screen is shown. */
+  private mainScreen: Array<Array<string>> | null = null;
+  /** An unfinished escape sequence from the previous `write()`. */
+  private pending = "";
+
+  constructor(
+    readonly cols = 80,
+    readonly rows = 24,
+  ) {
+    this.grid = this.blankGrid();
+  }
+
+  write(data: string): void {
+    const text = this.pending + data;
+    this.pending = "";
+    let i = 0;
+    while (i < text.length) {
+      const ch = text[i]!;
+      if (ch === "\x1b") {
+        const consumed = this.escape(text, i);
+        if (consumed === 0) {
+          this.pending = text.slice(i);
+          return;
+        }
+        i += consumed;
+        continue;
+      }
+      this.control(ch);
+      i += 1;
+    }
+  }
+
+  /** The rows of the screen without trailing whitespace. */
+  lines(): Array<string> {
+    return this.grid.map((row) => row.join("").trimEnd());
+  }
+
+  /** The screen as text, without the empty rows at the bottom. */
+  text(): string {
+    const lines = this.lines();
+    while (lines.length > 0 && lines.at(-1) === "") {
+      lines.pop();
+    }
+    return lines.join("\n");
+  }
+
+  cursor(): { row: number; col: number } {
+    return { row: this.row, col: Math.min(this.col, this.cols - 1) };
+  }
+
+  private control(ch: string): void {
+    switch (ch) {
+      case "\r":
+        this.col = 0;
+        break;
+      case "\n":
+      case "\v":
+      case "\f":
+        this.lineFeed();
+        break;
+      case "\b":
+        this.col = Math.max(0, Math.min(this.col, this.cols - 1) - 1);
+        break;
+      case "\t":
+        this.col = Math.min(this.cols - 1, (Math.floor(this.col / 8) + 1) * 8);
+        break;
+      default:
+        if (ch >= " " && ch !== "\x7f") {
+          this.print(ch);
+        }
+    }
+  }
+
+  private print(ch: string): void {
+    if (this.col >= this.cols) {
+      this.col = 0;
+      this.lineFeed();
+    }
+    this.grid[this.row]![this.col] = ch;
+    this.col += 1;
+  }
+
+  private lineFeed(): void {
+    if (this.row === this.rows - 1) {
+      this.scrollUp(1);
+    } else {
+      this.row += 1;
+    }
+  }
+
+  /**
+   * Handle the escape sequence at `text[start]`. Returns the number of
+   * characters it spans, or 0 when it is cut off at the end of `text`.
+   */
+  private escape(text: string, start: number): number {
+    const next = text[start + 1];
+    if (next === undefined) {
+      return 0;
+    }
+    if (next === "[") {
+      // Parameters, intermediate bytes and the final byte after `ESC [`.
+      const body = text.slice(start + 2);
+      const match = /^([?>=!]?)([\d;:]*)[ -/]*([@-~])/.exec(body);
+      if (!match) {
+        // Wait for the rest unless this is not a CSI sequence after all.
+        return /^[?>=!]?[\d;:]*[ -/]*$/.test(body) ? 0 : 2;
+      }
+      const [sequence, prefix, params, final] = match;
+      this.csi(
+        prefix!,
+        params!.split(";").map((p) => parseInt(p, 10)),
+        final!,
+      );
+      return 2 + sequence.length;
+    }
+    if (next === "]" || next === "P" || next === "_" || next === "^") {
+      // OSC, DCS and friends end with BEL or ST; nothing to show.
+      const rest = text.slice(start + 2);
+      const bel = rest.indexOf("\x07");
+      const st = rest.indexOf("\x1b\\");
+      if (bel === -1 && st === -1) {
+        return 0;
+      }
+      return bel !== -1 && (st === -1 || bel < st) ? 2 + bel + 1 : 2 + st + 2;
+    }
+    if ("()*+".includes(next)) {
+      // Character set selection takes one more character.
+      return text[start + 2] === undefined ? 0 : 3;
+    }
+    switch (next) {
+      case "7":
+        this.savedCursor = { row: this.row, col: this.col };
+        break;
+      case "8":
+        ({ row: this.row, col: this.col } = this.savedCursor);
+        break;
+      case "M":
+        if (this.row === 0) {
+          this.scrollDown(1);
+        } else {
+          this.row -= 1;
+        }
+        break;
+      case "D":
+        this.lineFeed();
+        break;
+      case "E":
+        this.col = 0;
+        this.lineFeed();
+        break;
+      case "c":
+        this.grid = this.blankGrid();
+        this.row = this.col = 0;
+        break;
+    }
+    return 2;
+  }
+
+  private csi(prefix: string, params: Array<number>, final: string): void {
+    const n = (index = 0, fallback = 1) => {
+      const value = params[index];
+      return value === undefined || isNaN(value) || value === 0
+        ? fallback
+        : value;
+    };
+    const mode = isNaN(params[0]!) ? 0 : params[0]!;
+    this.col = Math.min(this.col, this.cols - 1);
+
+    switch (final) {
+      case "A":
+        this.row = Math.max(0, this.row - n());
+        break;
+      case "B":
+      case "e":
+        this.row = Math.min(this.rows - 1, this.row + n());
+        break;
+      case "C":
+      case "a":
+        this.col = Math.min(this.cols - 1, this.col + n());
+        break;
+      case "D":
+        this.col = Math.max(0, this.col - n());
+        break;
+      case "E":
+        this.row = Math.min(this.rows - 1, this.row + n());
+        this.col = 0;
+        break;
+      case "F":
+        this.row = Math.max(0, this.row - n());
+        this.col = 0;
+        break;
+      case "G":
+      case "`":
+        this.col = Math.min(this.cols - 1, n() - 1);
+        break;
+      case "d":
+        this.row = Math.min(this.rows - 1, n() - 1);
+        break;
+      case "H":
+      case "f":
+        this.row = Math.min(this.rows - 1, n(0) - 1);
+        this.col = Math.min(this.cols - 1, n(1) - 1);
+        break;
+      case "J":
+        if (mode === 0) {
+          this.eraseLine(this.row, this.col, this.cols);
+          for (let r = this.row + 1; r < this.rows; r++) {
+            this.eraseLine(r, 0, this.cols);
+          }
+        } else if (mode === 1) {
+          for (let r = 0; r < this.row; r++) {
+            this.eraseLine(r, 0, this.cols);
+          }
+          this.eraseLine(this.row, 0, this.col + 1);
+        } else {
+          this.grid = this.blankGrid();
+        }
+        break;
+      case "K":
+        if (mode === 0) {
+          this.eraseLine(this.row, this.col, this.cols);
+        } else if (mode === 1) {
+          this.eraseLine(this.row, 0, this.col + 1);
+        } else {
+          this.eraseLine(this.row, 0, this.cols);
+        }
+        break;
+      case "X":
+        this.eraseLine(this.row, this.col, this.col + n());
+        break;
+      case "P": {
+        const line = this.grid[this.row]!;
+        line.splice(this.col, n());
+        line.push(...Array<string>(this.cols - line.length).fill(" "));
+        break;
+      }
+      case "@": {
+        const line = this.grid[this.row]!;
+        line.splice(this.col, 0, ...Array<string>(n()).fill(" "));
+        line.length = this.cols;
+        break;
+      }
+      case "L":
+        this.grid.splice(this.row, 0, ...this.blankRows(n()));
+        this.grid.length = this.rows;
+        break;
+      case "M":
+        this.grid.splice(this.row, n());
+        this.grid.push(...this.blankRows(this.rows - this.grid.length));
+        break;
+      case "S":
+        this.scrollUp(n());
+        break;
+      case "T":
+        this.scrollDown(n());
+        break;
+      case "s":
+        this.savedCursor = { row: this.row, col: this.col };
+        break;
+      case "u":
+        ({ row: this.row, col: this.col } = this.savedCursor);
+        break;
+      case "h":
+      case "l":
+        if (prefix === "?" && [47, 1047, 1049].includes(mode)) {
+          this.alternateScreen(final === "h");
+        }
+        break;
+      // Colors (m), scroll regions (r) and other modes are ignored.
+    }
+  }
+
+  private alternateScreen(enable: boolean): void {
+    if (enable && !this.mainScreen) {
+      this.mainScreen = this.grid;
+      this.grid = this.blankGrid();
+    } else if (!enable && this.mainScreen) {
+      this.grid = this.mainScreen;
+      this.mainScreen = null;
+    }
+  }
+
+  private eraseLine(row: number, from: number, to: number): void {
+    const line = this.grid[row]!;
+    for (let c = from; c < Math.min(to, this.cols); c++) {
+      line[c] = " ";
+    }
+  }
+
+  private scrollUp(count: number): void {
+    this.grid.splice(0, Math.min(count, this.rows));
+    this.grid.push(...this.blankRows(this.rows - this.grid.length));
+  }
+
+  private scrollDown(count: number): void {
+    this.grid.unshift(...this.blankRows(Math.min(count, this.rows)));
+    this.grid.length = this.rows;
+  }
+
+  private blankGrid(): Array<Array<string>> {
+    return this.blankRows(this.rows);
+  }
+
+  private blankRows(count: number): Array<Array<string>> {
+    return Array.from({ length: count }, () =>
+      Array<string>(this.cols).fill(" "),
+    );
+  }
+}
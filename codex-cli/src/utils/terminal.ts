@@ -8,6 +8,25 @@ let inkRenderer: Instance | null = null;
 // Ctrl‑C handler and the process "exit" event) both attempt to tidy up.
 let didRunOnExit = false;
 
+let ctrlCHandler: (() => void) | null = null;
+
+/**
+ * Let the UI take Ctrl‑C while `handler` is set, e.g. to stop a running
+ * command instead of quitting. Pass `null` to quit on Ctrl‑C again.
+ */
+export function setCtrlCHandler(handler: (() => void) | null): void {
+  ctrlCHandler = handler;
+}
+
+/** Returns `false` when Ctrl‑C should quit. */
+export function handleCtrlC(): boolean {
+  if (!ctrlCHandler) {
+    return false;
+  }
+  ctrlCHandler();
+  return true;
+}
+
 export function setInkRenderer(renderer: Instance): void {
   inkRenderer = renderer;
 
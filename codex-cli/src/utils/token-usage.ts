@@ -0,0 +1,213 @@
+import type { ResponseUsage } from "openai/resources/responses/responses.mjs";
+
+import { pricingForModel } from "./model-info.js";
+
+/** The token counts of the Responses API `usage` field, flattened. */
+export type TokenUsage = {
+  input_tokens: number;
+  /** Input tokens served from the prompt cache, part of `input_tokens`. */
+  cached_input_tokens: number;
+  output_tokens: number;
+  /** Reasoning tokens, part of `output_tokens`. */
+  reasoning_output_tokens: number;
+  total_tokens: number;
+};
+
+/**
+ * The `usage` of a response whose provider did not report one. The chat
+ * completions bridge then counts the tokens locally and sets `estimated`.
+ */
+export type EstimatedResponseUsage = ResponseUsage & { estimated?: boolean };
+
+/** The usage of the model requests made for one user message. */
+export type TurnUsage = TokenUsage & {
+  model: string;
+  /** Number of model responses in the turn. */
+  requests: number;
+  /**
+   * Set when the provider did not report the usage of some responses and
+   * their tokens were counted locally with `approximateChatMessagesTokens()`,
+   * which adds approximate message overhead and, for models of other
+   * providers, falls back to a heuristic instead of the model's tokenizer.
+   * The cost is then an estimate as well.
+   */
+  estimated?: boolean;
+  /** Estimated cost in USD; absent when the model is not in the price table. */
+  cost_usd?: number;
+};
+
+/** The usage of a session, as persisted in the saved rollout. */
+export type SessionUsage = {
+  turns: Array<TurnUsage>;
+};
+
+/** Totals over several turns. */
+export type UsageTotals = TokenUsage & {
+  estimated?: boolean;
+  /** The cost of the turns whose model has a known price. */
+  cost_usd?: number;
+  /** Set when some turns used a model without a known price. */
+  cost_unknown?: boolean;
+};
+
+export function emptyTokenUsage(): TokenUsage {
+  return {
+    input_tokens: 0,
+    cached_input_tokens: 0,
+    output_tokens: 0,
+    reasoning_output_tokens: 0,
+    total_tokens: 0,
+  };
+}
+
+export function tokenUsageFromResponse(usage: ResponseUsage): TokenUsage {
+  return {
+    input_tokens: usage.input_tokens ?? 0,
+    cached_input_tokens: usage.input_tokens_details?.cached_tokens ?? 0,
+    output_tokens: usage.output_tokens ?? 0,
+    reasoning_output_tokens: usage.output_tokens_details?.reasoning_tokens ?? 0,
+    total_tokens: usage.total_tokens ?? 0,
+  };
+}
+
+export function addTokenUsage(a: TokenUsage, b: TokenUsage): TokenUsage {
+  return {
+    input_tokens: a.input_tokens + b.input_tokens,
+    cached_input_tokens: a.cached_input_tokens + b.cached_input_tokens,
+    output_tokens: a.output_tokens + b.output_tokens,
+    reasoning_output_tokens:
+      a.reasoning_output_tokens + b.reasoning_output_tokens,
+    total_tokens: a.total_tokens + b.total_tokens,
+  };
+}
+
+/**
+ * The cost of `usage` in USD at the list price of `model`, or `undefined`
+ * when the price of the model is not known.
+ */
+export function estimateCost(
+  model: string,
+  usage: TokenUsage,
+): number | undefined {
+  const pricing = pricingForModel(model);
+  if (!pricing) {
+    return undefined;
+  }
+  const uncached = usage.input_tokens - usage.cached_input_tokens;
+  return (
+    (uncached * pricing.input +
+      usage.cached_input_tokens * (pricing.cachedInput ?? pricing.input) +
+      usage.output_tokens * pricing.output) /
+    1_000_000
+  );
+}
+
+export function totalUsage(turns: ReadonlyArray<TurnUsage>): UsageTotals {
+  let tokens = emptyTokenUsage();
+  let cost: number | undefined;
+  let estimated = false;
+  let costUnknown = false;
+  for (const turn of turns) {
+    tokens = addTokenUsage(tokens, turn);
+    if (turn.cost_usd !== undefined) {
+      cost = (cost ?? 0) + turn.cost_usd;
+    } else {
+      costUnknown = true;
+    }
+    estimated ||= turn.estimated === true;
+  }
+  return {
+    ...tokens,
+    ...(cost !== undefined && { cost_usd: cost }),
+    ...(costUnknown && { cost_unknown: costUnknown }),
+    ...(estimated && { estimated }),
+  };
+}
+
+/**
+ * Collects the usage reported for every model response of a session, grouped
+ * into turns. It is shared by the agents of a session so that switching the
+ * model keeps the totals, and restored from the rollout on `--resume`.
+ */
+export class SessionUsageTracker {
+  private readonly turns: Array<TurnUsage>;
+  private turnStarted = false;
+
+  constructor(initial?: SessionUsage) {
+    this.turns = initial?.turns.map((turn) => ({ ...turn })) ?? [];
+  }
+
+  /**
+   * Starts a new turn. The turn is only added once a response reports
+   * usage, so a canceled request does not leave an empty turn behind.
+   */
+  startTurn(): void {
+    this.turnStarted = true;
+  }
+
+  record(model: string, usage: EstimatedResponseUsage): void {
+    let turn = this.turns[this.turns.length - 1];
+    if (this.turnStarted || !turn || turn.model !== model) {
+      turn = { ...emptyTokenUsage(), model, requests: 0 };
+      this.turns.push(turn);
+      this.turnStarted = false;
+    }
+    Object.assign(turn, addTokenUsage(turn, tokenUsageFromResponse(usage)));
+    turn.requests += 1;
+    if (usage.estimated) {
+      turn.estimated = true;
+    }
+    const cost = estimateCost(model, turn);
+    if (cost !== undefined) {
+      turn.cost_usd = cost;
+    }
+  }
+
+  snapshot(): SessionUsage {
+    return { turns: this.turns.map((turn) => ({ ...turn })) };
+  }
+}
+
+/** `950`, `12.3k` or `1.2M`. */
+export function formatTokenCount(tokens: number): string {
+  if (tokens < 1000) {
+    return String(tokens);
+  }
+  if (tokens < 1_000_000) {
+    return `${(tokens / 1000).toFixed(1)}k`;
+  }
+  return `${(tokens / 1_000_000).toFixed(1)}M`;
+}
+
+export function formatCost(costUsd: number): string {
+  return costUsd < 0.01 ? `$${costUsd.toFixed(4)}` : `$${costUsd.toFixed(2)}`;
+}
+
+/**
+ * One line such as `12.3k in (8.0k cached) · 1.2k out (512 reasoning) · ~$0.03`.
+ * Counts estimated locally are prefixed with `~` and the line ends with
+ * `(estimated)`, as is the cost derived from them. Models without a known
+ * price show `cost unknown`, or `+ unknown` after the cost of the others.
+ */
+export function formatUsage(usage: UsageTotals): string {
+  const approx = usage.estimated ? "~" : "";
+  const parts = [
+    `${approx}${formatTokenCount(usage.input_tokens)} in` +
+      (usage.cached_input_tokens > 0
+        ? ` (${formatTokenCount(usage.cached_input_tokens)} cached)`
+        : ""),
+    `${approx}${formatTokenCount(usage.output_tokens)} out` +
+      (usage.reasoning_output_tokens > 0
+        ? ` (${formatTokenCount(usage.reasoning_output_tokens)} reasoning)`
+        : ""),
+  ];
+  if (usage.cost_usd === undefined) {
+    parts.push("cost unknown");
+  } else {
+    parts.push(
+      `~${formatCost(usage.cost_usd)}` +
+        (usage.cost_unknown ? " + unknown" : ""),
+    );
+  }
+  return parts.join(" · ") + (usage.estimated ? " (estimated)" : "");
+}
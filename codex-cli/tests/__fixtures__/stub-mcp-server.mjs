@@ -0,0 +1,69 @@
+/* global process */
+/* eslint-disable @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-unsafe-member-access */
+// Minimal stdio MCP server used by tests/mcp-client.test.ts. It exposes an
+// `echo` tool (read-only) and a `fail` tool that always reports an error.
+import { createInterface } from "readline";
+
+const tools = [
+  {
+    name: "echo",
+    description: "Echo the given text",
+    inputSchema: {
+      type: "object",
+      properties: { text: { type: "string" } },
+      required: ["text"],
+    },
+    annotations: { readOnlyHint: true },
+  },
+  {
+    name: "fail",
+    description: "Always fails",
+    inputSchema: { type: "object", properties: {} },
+  },
+];
+
+function reply(id, result) {
+  process.stdout.write(JSON.stringify({ jsonrpc: "2.0", id, result }) + "\n");
+}
+
+createInterface({ input: process.stdin }).on("line", (line) => {
+  const { id, method, params } = JSON.parse(line);
+  switch (method) {
+    case "initialize":
+      process.stderr.write("stub server starting\n");
+      reply(id, {
+        protocolVersion: params.protocolVersion,
+        capabilities: { tools: {} },
+        serverInfo: { name: "stub", version: "0.0.0" },
+      });
+      break;
+    case "tools/list":
+      // Split the list over two pages to exercise cursor handling.
+      if (params.cursor) {
+        reply(id, { tools: tools.slice(1) });
+      } else {
+        reply(id, { tools: tools.slice(0, 1), nextCursor: "page-2" });
+      }
+      break;
+    case "tools/call":
+      if (params.name === "echo") {
+        reply(id, { content: [{ type: "text", text: params.arguments.text }] });
+      } else {
+        reply(id, {
+          content: [{ type: "text", text: "something went wrong" }],
+          isError: true,
+        });
+      }
+      break;
+    default:
+      if (id !== undefined) {
+        process.stdout.write(
+          JSON.stringify({
+            jsonrpc: "2.0",
+            id,
+            error: { code: -32601, message: `Unknown method ${method}` },
+          }) + "\n",
+        );
+      }
+  }
+});
@@ -0,0 +1,111 @@
+import type { AppConfig } from "../src/utils/config.js";
+import type { ResponseEvent } from "../src/utils/responses.js";
+import type { ResponseInputItem } from "openai/resources/responses/responses.mjs";
+
+import { describe, it, expect, vi } from "vitest";
+
+const PATCH = "*** Begin Patch\n*** Add File: a.txt\n+a\n*** End Patch";
+
+const commitPatch = vi.fn(
+  (_patch: string, _workdir?: string, _message?: string) => "abc1234",
+);
+
+// The model answers with an explanation and a `local_shell` call applying a
+// patch, then ends the run.
+const turns: Array<Array<Record<string, unknown>>> = [
+  [
+    {
+      type: "message",
+      id: "msg_1",
+      role: "assistant",
+      content: [{ type: "output_text", text: "Add a.txt" }],
+    },
+    {
+      type: "local_shell_call",
+      id: "lsh_1",
+      call_id: "call_1",
+      status: "completed",
+      action: {
+        type: "exec",
+        command: ["apply_patch", PATCH],
+        working_directory: "/repo",
+      },
+    },
+  ],
+  [],
+];
+
+vi.mock("../src/utils/provider-adapters/adapter.js", () => ({
+  createResponseStream: () => {
+    const output = turns.shift() ?? [];
+    const events = [
+      {
+        type: "response.completed",
+        response: { id: `resp_${turns.length}`, status: "completed", output },
+      } as unknown as ResponseEvent,
+    ];
+    return Promise.resolve(
+      Object.assign(events, { controller: new AbortController() }),
+    );
+  },
+}));
+
+vi.mock(
+  "../src/utils/agent/handle-exec-command.js",
+  async (importOriginal) => ({
+    ...(await importOriginal<
+      typeof import("../src/utils/agent/handle-exec-command.js")
+    >()),
+    handleExecCommand: () =>
+      Promise.resolve({
+        outputText: "Done!",
+        metadata: { exitCode: 0, durationMs: 0 },
+        appliedPatch: PATCH,
+      }),
+  }),
+);
+
+vi.mock("../src/utils/git-session.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../src/utils/git-session.js")>()),
+  getGitSession: () => ({ autoCommit: true, commitPatch }),
+}));
+
+vi.mock("../src/utils/agent/log.js", () => ({
+  __esModule: true,
+  log: () => {},
+  isLoggingEnabled: () => false,
+}));
+
+import { AgentLoop } from "../src/utils/agent/agent-loop.js";
+
+describe("AgentLoop local_shell calls", () => {
+  it("commit applied patches in a git session", async () => {
+    const agent = new AgentLoop({
+      model: "codex-mini-latest",
+      instructions: "",
+      config: {
+        model: "codex-mini-latest",
+        instructions: "",
+        notify: false,
+        apiKey: "test-key",
+      } as AppConfig,
+      approvalPolicy: "full-auto",
+      additionalWritableRoots: [],
+      onItem: () => {},
+      onLoading: () => {},
+      getCommandConfirmation: () => Promise.resolve({ review: "yes" as never }),
+      onLastResponseId: () => {},
+    });
+
+    const input: Array<ResponseInputItem> = [
+      {
+        type: "message",
+        role: "user",
+        content: [{ type: "input_text", text: "add a.txt" }],
+      },
+    ];
+    await agent.run(input);
+
+    expect(commitPatch).toHaveBeenCalledWith(PATCH, "/repo", "Add a.txt");
+  });
+});
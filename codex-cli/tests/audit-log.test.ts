@@ -0,0 +1,137 @@
+import type { AppConfig } from "../src/utils/config.js";
+
+import { ReviewDecision } from "../src/utils/agent/review.js";
+import { handleExecCommand } from "../src/utils/agent/handle-exec-command.js";
+import {
+  auditQueryFromFlags,
+  filterAuditLog,
+  formatAuditEntry,
+  readAuditLog,
+  recordAuditEntry,
+} from "../src/utils/logger/audit-log.js";
+import { setSessionId } from "../src/utils/session.js";
+import { appendFileSync, mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+
+let dir: string;
+let file: string;
+let config: AppConfig;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), "codex-audit-"));
+  file = join(dir, "audit.jsonl");
+  config = {
+    model: "any",
+    instructions: "",
+    notify: false,
+    auditLog: { path: file },
+  } as AppConfig;
+  setSessionId("0123456789abcdef");
+});
+
+afterEach(() => {
+  setSessionId("");
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe("audit log", () => {
+  it("appends entries and skips lines it cannot parse", () => {
+    recordAuditEntry(config, {
+      cwd: dir,
+      argv: ["ls", "-la"],
+      sandbox: "none",
+      approval: { decision: "auto-approved", by: "policy" },
+      exitCode: 0,
+      durationMs: 1500,
+    });
+    appendFileSync(file, "{not json\n");
+
+    const entries = readAuditLog(file);
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toMatchObject({
+      sessionId: "0123456789abcdef",
+      argv: ["ls", "-la"],
+    });
+    expect(formatAuditEntry(entries[0]!)).toContain(
+      `01234567  auto-approved by policy  sandbox=none  exit 0 in 1.5s  ${dir}$ ls -la`,
+    );
+  });
+
+  it("writes nothing when disabled", () => {
+    recordAuditEntry(
+      { auditLog: { enabled: false, path: file } },
+      {
+        cwd: dir,
+        argv: ["ls"],
+        sandbox: "none",
+        approval: { decision: "auto-approved", by: "policy" },
+      },
+    );
+    expect(readAuditLog(file)).toEqual([]);
+  });
+
+  it("filters by session, date and command", () => {
+    const entry = (sessionId: string, timestamp: string, cmd: string) => ({
+      sessionId,
+      timestamp,
+      cwd: dir,
+      argv: ["bash", "-lc", cmd],
+      sandbox: "none",
+      approval: { decision: "auto-approved" as const, by: "policy" as const },
+    });
+    const entries = [
+      entry("aaa111", "2025-05-01T10:00:00.000Z", "npm test"),
+      entry("aaa111", "2025-05-02T10:00:00.000Z", "git push"),
+      entry("bbb222", "2025-05-03T10:00:00.000Z", "npm test"),
+    ];
+    const run = (flags: Parameters<typeof auditQueryFromFlags>[0]) =>
+      filterAuditLog(entries, auditQueryFromFlags(flags)).map((e) =>
+        e.timestamp.slice(0, 10),
+      );
+
+    expect(run({ session: "aaa" })).toEqual(["2025-05-01", "2025-05-02"]);
+    expect(run({ command: "npm test" })).toEqual(["2025-05-01", "2025-05-03"]);
+    // A plain date for --until includes that day.
+    expect(run({ since: "2025-05-02", until: "2025-05-02" })).toEqual([
+      "2025-05-02",
+    ]);
+    expect(() => auditQueryFromFlags({ since: "yesterday-ish" })).toThrow(
+      /Invalid date for --since/,
+    );
+  });
+});
+
+describe("handleExecCommand()", () => {
+  it("records executed and rejected commands with the approval", async () => {
+    await handleExecCommand(
+      { cmd: ["ls"], workdir: dir, timeoutInMillis: 10_000 },
+      config,
+      "suggest",
+      [],
+      () => Promise.resolve({ review: ReviewDecision.YES }),
+    );
+    await handleExecCommand(
+      { cmd: ["touch", "x"], workdir: dir, timeoutInMillis: 10_000 },
+      config,
+      "suggest",
+      [],
+      () => Promise.resolve({ review: ReviewDecision.NO_CONTINUE }),
+    );
+
+    const [ls, touch] = readAuditLog(file);
+    expect(ls).toMatchObject({
+      cwd: dir,
+      argv: ["ls"],
+      approval: { decision: "auto-approved", by: "policy" },
+      exitCode: 0,
+    });
+    expect(ls!.durationMs).toBeGreaterThanOrEqual(0);
+    expect(touch).toMatchObject({
+      argv: ["touch", "x"],
+      approval: { decision: ReviewDecision.NO_CONTINUE, by: "user" },
+    });
+    expect(touch!.exitCode).toBeUndefined();
+  });
+});
@@ -0,0 +1,152 @@
+import type { ApprovalPolicy, SafetyAssessment } from "../src/approvals.js";
+import type { AppConfig } from "../src/utils/config.js";
+
+import {
+  BackgroundProcesses,
+  keysToInput,
+} from "../src/utils/agent/background-processes.js";
+import { handleBackgroundExecCommand } from "../src/utils/agent/handle-exec-command.js";
+import { ReviewDecision } from "../src/utils/agent/review.js";
+import { describe, it, expect, afterEach } from "vitest";
+
+const ECHO_LINES = [
+  process.execPath,
+  "-e",
+  'console.log("ready"); process.stdin.on("data", (d) => console.log("got " + d.toString().trim()))',
+];
+
+const config = {
+  model: "any",
+  instructions: "",
+  notify: false,
+  auditLog: { enabled: false },
+} as AppConfig;
+
+let processes: BackgroundProcesses;
+
+afterEach(() => {
+  processes?.killAll();
+});
+
+describe("BackgroundProcesses", () => {
+  it("reads output incrementally and writes to stdin", async () => {
+    processes = new BackgroundProcesses();
+    const { id } = processes.start(ECHO_LINES);
+
+    const first = await processes.read(id, 10_000);
+    expect(first).toMatchObject({ output: "ready\n", running: true });
+
+    processes.write(id, "hello\n");
+    const second = await processes.read(id, 10_000);
+    expect(second.output).toBe("got hello\n");
+    expect(processes.list()[0]).toMatchObject({ id, lastLine: "got hello" });
+
+    const info = await processes.kill(id);
+    expect(info.exitCode).toBe(143);
+    expect(() => processes.write(id, "again\n")).toThrow(/not running/);
+  });
+
+  it("reports the exit of a process that finished", async () => {
+    processes = new BackgroundProcesses();
+    const { id } = processes.start(["sh", "-c", "echo done; exit 3"]);
+    let result = await processes.read(id, 10_000);
+    while (result.running) {
+      // eslint-disable-next-line no-await-in-loop
+      result = await processes.read(id, 10_000);
+    }
+    expect(result.exitCode).toBe(3);
+  });
+
+  it("stops everything on killAll()", async () => {
+    processes = new BackgroundProcesses();
+    const { id } = processes.start(["sleep", "100"]);
+    const changed = new Promise<void>((resolve) =>
+      processes.subscribe(() => resolve()),
+    );
+    processes.killAll();
+    await changed;
+    expect(processes.list()).toMatchObject([{ id, exitCode: 143 }]);
+  });
+
+  it.skipIf(process.platform === "win32")(
+    "runs processes in a pseudo-terminal with tty",
+    async () => {
+      processes = new BackgroundProcesses();
+      const { id } = processes.start(
+        [
+          "sh",
+          "-c",
+          'test -t 0 && echo "is a tty"; read answer; echo "got $answer"',
+        ],
+        { tty: true },
+      );
+      let output = "";
+      while (!output.includes("is a tty")) {
+        // eslint-disable-next-line no-await-in-loop
+        output += (await processes.read(id, 10_000)).output;
+      }
+      processes.write(id, "yes" + keysToInput(["Enter"]));
+      while (!output.includes("got yes")) {
+        // eslint-disable-next-line no-await-in-loop
+        output += (await processes.read(id, 10_000)).output;
+      }
+      expect(processes.screen(id).text).toBe("is a tty\nyes\ngot yes");
+    },
+  );
+
+  it("translates key names", () => {
+    expect(keysToInput(["Up", "Ctrl-C", "Enter"])).toBe("\x1b[A\x03\r");
+    expect(() => keysToInput(["Hyper"])).toThrow(/unknown key 'Hyper'/);
+  });
+
+  it("rejects unknown ids", async () => {
+    processes = new BackgroundProcesses();
+    await expect(processes.read("bg-42")).rejects.toThrow(/bg-42/);
+  });
+});
+
+describe("handleBackgroundExecCommand()", () => {
+  const start = (
+    cmd: Array<string>,
+    review: ReviewDecision,
+    asked: Array<SafetyAssessment>,
+    policy: ApprovalPolicy = "full-auto",
+  ) =>
+    handleBackgroundExecCommand(
+      { cmd, workdir: process.cwd(), timeoutInMillis: undefined },
+      processes,
+      config,
+      policy,
+      [],
+      (assessment) => {
+        asked.push(assessment);
+        return Promise.resolve({ review });
+      },
+    );
+
+  it("asks before running a command unsandboxed in full-auto mode", async () => {
+    processes = new BackgroundProcesses();
+    const asked: Array<SafetyAssessment> = [];
+
+    const denied = await start(
+      ["sleep", "100"],
+      ReviewDecision.NO_CONTINUE,
+      asked,
+    );
+    expect(denied.outputText).toBe("aborted");
+    expect(asked.map((a) => a.type)).toEqual(["unsandboxed"]);
+    expect(processes.list()).toEqual([]);
+
+    const started = await start(["sleep", "100"], ReviewDecision.YES, asked);
+    expect(started.metadata).toMatchObject({ id: "bg-1" });
+    expect(processes.list()).toHaveLength(1);
+  });
+
+  it("starts known-safe commands without asking", async () => {
+    processes = new BackgroundProcesses();
+    const asked: Array<SafetyAssessment> = [];
+    await start(["ls"], ReviewDecision.NO_EXIT, asked, "suggest");
+    expect(asked).toEqual([]);
+    expect(processes.list()).toHaveLength(1);
+  });
+});
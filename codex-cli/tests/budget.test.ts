@@ -0,0 +1,124 @@
+import { BudgetGuard, formatBudgetUsage } from "../src/utils/budget.js";
+import { SessionUsageTracker } from "../src/utils/token-usage.js";
+import { mkdtempSync, readdirSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+
+function usage(input: number, output: number) {
+  return {
+    input_tokens: input,
+    input_tokens_details: { cached_tokens: 0 },
+    output_tokens: output,
+    output_tokens_details: { reasoning_tokens: 0 },
+    total_tokens: input + output,
+  };
+}
+
+let usageDir: string;
+
+beforeEach(() => {
+  usageDir = mkdtempSync(join(tmpdir(), "codex-budget-"));
+});
+
+afterEach(() => {
+  rmSync(usageDir, { recursive: true, force: true });
+});
+
+describe("BudgetGuard", () => {
+  it("warns once past the soft threshold and stops at the limit", () => {
+    const session = new SessionUsageTracker();
+    const guard = new BudgetGuard(
+      { session: { tokens: 1000 } },
+      session,
+      usageDir,
+    );
+    expect(guard.check()).toEqual({ warnings: [] });
+
+    session.record("gpt-4.1", usage(800, 50));
+    expect(guard.check().warnings).toEqual([
+      { scope: "session", unit: "tokens", used: 850, limit: 1000 },
+    ]);
+    expect(guard.check()).toEqual({ warnings: [] });
+
+    session.record("gpt-4.1", usage(100, 50));
+    const { exceeded } = guard.check();
+    expect(exceeded).toEqual({
+      scope: "session",
+      unit: "tokens",
+      used: 1000,
+      limit: 1000,
+    });
+
+    guard.allowOverrun(exceeded!);
+    expect(guard.check()).toEqual({ warnings: [] });
+  });
+
+  it("limits the estimated cost", () => {
+    const session = new SessionUsageTracker();
+    const guard = new BudgetGuard({ session: { usd: 1 } }, session, usageDir);
+    // 500k input tokens of gpt-4.1 cost $1.
+    session.record("gpt-4.1", usage(500_000, 0));
+    expect(guard.check().exceeded?.unit).toBe("usd");
+  });
+
+  it("adds up the usage of all sessions of the day", () => {
+    const config = { daily: { tokens: 1000 } };
+    const now = () => new Date(2025, 4, 17, 12);
+    const first = new BudgetGuard(
+      config,
+      new SessionUsageTracker(),
+      usageDir,
+      now,
+    );
+    const second = new BudgetGuard(
+      config,
+      new SessionUsageTracker(),
+      usageDir,
+      now,
+    );
+
+    first.recordResponse("gpt-4.1", usage(400, 100));
+    second.recordResponse("gpt-4.1", usage(400, 100));
+
+    expect(readdirSync(usageDir)).toEqual(["2025-05-17.jsonl"]);
+    expect(second.check().exceeded).toMatchObject({
+      scope: "daily",
+      used: 1000,
+    });
+
+    const nextDay = new BudgetGuard(
+      config,
+      new SessionUsageTracker(),
+      usageDir,
+      () => new Date(2025, 4, 18, 9),
+    );
+    expect(nextDay.check()).toEqual({ warnings: [] });
+  });
+
+  it("keeps no daily log without a daily limit", () => {
+    const guard = new BudgetGuard(
+      { session: { tokens: 1000 } },
+      new SessionUsageTracker(),
+      usageDir,
+    );
+    guard.recordResponse("gpt-4.1", usage(400, 100));
+    expect(readdirSync(usageDir)).toEqual([]);
+  });
+});
+
+describe("formatBudgetUsage", () => {
+  it("describes the limit", () => {
+    expect(
+      formatBudgetUsage({ scope: "daily", unit: "usd", used: 4.12, limit: 5 }),
+    ).toBe("Daily spending budget: $4.12 of $5.00 used (82%)");
+    expect(
+      formatBudgetUsage({
+        scope: "session",
+        unit: "tokens",
+        used: 850_000,
+        limit: 1_000_000,
+      }),
+    ).toBe("Session token budget: 850.0k of 1.0M used (85%)");
+  });
+});
@@ -0,0 +1,133 @@
+import {
+  CheckpointStore,
+  describeRestore,
+  filesTouchedByPatch,
+  MAX_TREE_FILES,
+} from "../src/utils/agent/checkpoints.js";
+import { execApplyPatch } from "../src/utils/agent/exec.js";
+import {
+  existsSync,
+  mkdtempSync,
+  readFileSync,
+  readdirSync,
+  rmSync,
+  writeFileSync,
+} from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+
+let dir: string;
+let store: CheckpointStore;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), "codex-checkpoints-"));
+  store = new CheckpointStore();
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+const read = (name: string) => readFileSync(join(dir, name), "utf8");
+
+function applyPatch(patch: string) {
+  const snapshot = store.snapshotFiles(filesTouchedByPatch(patch, dir));
+  expect(execApplyPatch(patch, dir).exitCode).toBe(0);
+  return store.record("apply_patch", snapshot);
+}
+
+describe("CheckpointStore", () => {
+  it("rolls back applied patches in reverse order", () => {
+    writeFileSync(join(dir, "a.txt"), "one\n");
+
+    applyPatch(
+      "*** Begin Patch\n*** Update File: a.txt\n@@\n-one\n+two\n*** End Patch",
+    );
+    applyPatch(
+      "*** Begin Patch\n*** Add File: b.txt\n+new\n*** Update File: a.txt\n@@\n-two\n+three\n*** End Patch",
+    );
+    expect(store.list()).toHaveLength(2);
+
+    const result = store.undo();
+    expect(result.reverted.map((c) => c.id)).toEqual([2]);
+    expect(read("a.txt")).toBe("two\n");
+    expect(existsSync(join(dir, "b.txt"))).toBe(false);
+
+    store.undo();
+    expect(read("a.txt")).toBe("one\n");
+    expect(store.list()).toHaveLength(0);
+    expect(store.undo().reverted).toEqual([]);
+  });
+
+  it("does not record patches that changed nothing", () => {
+    writeFileSync(join(dir, "a.txt"), "one\n");
+    const snapshot = store.snapshotFiles([join(dir, "a.txt")]);
+    expect(store.record("apply_patch", snapshot)).toBeUndefined();
+  });
+
+  it("restores to a named checkpoint", () => {
+    writeFileSync(join(dir, "a.txt"), "one\n");
+    applyPatch(
+      "*** Begin Patch\n*** Update File: a.txt\n@@\n-one\n+two\n*** End Patch",
+    );
+    store.mark("before-refactor");
+    applyPatch(
+      "*** Begin Patch\n*** Update File: a.txt\n@@\n-two\n+three\n*** End Patch",
+    );
+    applyPatch("*** Begin Patch\n*** Delete File: a.txt\n*** End Patch");
+
+    const result = store.restoreTo("before-refactor")!;
+    expect(result.reverted).toHaveLength(2);
+    expect(read("a.txt")).toBe("two\n");
+    expect(store.list().map((c) => c.name)).toEqual([
+      undefined,
+      "before-refactor",
+    ]);
+    expect(store.restoreTo("missing")).toBeUndefined();
+
+    expect(describeRestore(result, dir)).toContain("a.txt");
+  });
+
+  it("detects files changed by a command below the captured tree", async () => {
+    writeFileSync(join(dir, "keep.txt"), "keep");
+    writeFileSync(join(dir, "edit.txt"), "before");
+    writeFileSync(join(dir, "gone.txt"), "gone");
+
+    const capture = await store.captureTree(dir);
+    writeFileSync(join(dir, "edit.txt"), "after, and longer");
+    rmSync(join(dir, "gone.txt"));
+    writeFileSync(join(dir, "created.txt"), "created");
+    const checkpoint = (await store.recordTree("make", capture))!;
+
+    expect(checkpoint.files.map((f) => f.path).sort()).toEqual(
+      ["created.txt", "edit.txt", "gone.txt"].map((f) => join(dir, f)),
+    );
+
+    store.undo();
+    expect(read("edit.txt")).toBe("before");
+    expect(read("gone.txt")).toBe("gone");
+    expect(existsSync(join(dir, "created.txt"))).toBe(false);
+    expect(read("keep.txt")).toBe("keep");
+  });
+
+  it("only diffs the captured files of a tree that is too large", async () => {
+    for (let i = 0; i <= MAX_TREE_FILES; i++) {
+      writeFileSync(join(dir, `${i}.txt`), String(i));
+    }
+
+    const capture = await store.captureTree(dir);
+    expect(capture.truncated).toBe(true);
+    const [captured] = capture.entries.keys();
+    writeFileSync(captured!, "edited");
+    writeFileSync(join(dir, "created.txt"), "created");
+    const checkpoint = (await store.recordTree("make", capture))!;
+
+    // Files the capture did not reach must not be mistaken for new files,
+    // or undoing the command would delete them.
+    expect(checkpoint.files.map((f) => f.path)).toEqual([captured]);
+    store.undo();
+    expect(existsSync(join(dir, "created.txt"))).toBe(true);
+    expect(readdirSync(dir)).toHaveLength(MAX_TREE_FILES + 2);
+  });
+});
@@ -0,0 +1,75 @@
+import type { AppConfig } from "../src/utils/config.js";
+
+import {
+  CommandOutputStore,
+  defaultCommandOutputStore,
+} from "../src/utils/agent/command-output-store.js";
+import { exec as rawExec } from "../src/utils/agent/sandbox/raw-exec.js";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+
+let root: string;
+
+beforeEach(() => {
+  root = mkdtempSync(join(tmpdir(), "codex-output-store-"));
+});
+
+afterEach(() => {
+  rmSync(root, { recursive: true, force: true });
+});
+
+function storeWith(text: string): { store: CommandOutputStore; id: string } {
+  const store = new CommandOutputStore(root);
+  const { id, path } = store.allocate();
+  writeFileSync(path, text);
+  return { store, id };
+}
+
+describe("CommandOutputStore", () => {
+  it("pages through an output with line numbers", async () => {
+    const { store, id } = storeWith("a\nb\nc\nd\ne\n");
+    expect(id).toBe("out-1");
+    expect(await store.read(id, { offset: 2, limit: 2 })).toEqual({
+      text: "2: b\n3: c",
+      totalLines: 5,
+    });
+  });
+
+  it("returns the lines matching a pattern", async () => {
+    const { store, id } = storeWith(
+      "ok 1\nnot ok 2 - adds\nok 3\nnot ok 4 - subtracts\n",
+    );
+    const page = await store.read(id, { pattern: "^not ok" });
+    expect(page.text).toBe("2: not ok 2 - adds\n4: not ok 4 - subtracts");
+  });
+
+  it("rejects unknown ids", async () => {
+    const store = new CommandOutputStore(root);
+    await expect(store.read("out-7")).rejects.toThrow("no output with id");
+  });
+
+  it("holds the full output of a truncated command", async () => {
+    const config = {
+      model: "any",
+      instructions: "",
+      tools: { shell: { maxBytes: 10_000, maxLines: 10 } },
+    } as AppConfig;
+    const result = await rawExec(
+      ["node", "-e", "for (let i = 1; i <= 100; i++) console.log('n' + i);"],
+      {},
+      config,
+    );
+
+    const id = /The full output is (out-\d+)/.exec(result.stdout)?.[1];
+    expect(id).toBeDefined();
+    // The file is written as the output streams in.
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    const page = await defaultCommandOutputStore.read(id!, {
+      offset: 50,
+      limit: 1,
+    });
+    expect(page).toEqual({ text: "50: n50", totalLines: 100 });
+  });
+});
@@ -0,0 +1,134 @@
+import type { AppConfig } from "../src/utils/config.js";
+import type { ExecResult } from "../src/utils/agent/sandbox/interface.js";
+import type { SpawnOptions } from "child_process";
+
+import {
+  containerMounts,
+  containerRunArgs,
+  execInContainer,
+} from "../src/utils/agent/sandbox/container.js";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const rawExec = vi.hoisted(() =>
+  vi.fn<
+    (
+      cmd: Array<string>,
+      opts: SpawnOptions,
+      config: AppConfig,
+      abortSignal?: AbortSignal,
+    ) => Promise<ExecResult>
+  >(),
+);
+
+vi.mock("../src/utils/agent/sandbox/raw-exec.js", () => ({ exec: rawExec }));
+
+const ok = (stdout = ""): Promise<ExecResult> =>
+  Promise.resolve({ stdout, stderr: "", exitCode: 0 });
+
+const config = (image: string): AppConfig =>
+  ({
+    model: "any",
+    instructions: "",
+    notify: false,
+    readDenylist: [] as Array<string>,
+    containerSandbox: { enabled: true, runtime: "docker", image },
+  }) as AppConfig;
+
+beforeEach(() => {
+  rawExec.mockReset();
+  rawExec.mockImplementation((cmd) => ok(cmd[1] === "exec" ? "hi" : "id"));
+});
+
+describe("execInContainer()", () => {
+  it("starts one container per session and runs commands in it", async () => {
+    const cfg = config("alpine:3");
+    const first = await execInContainer(
+      ["echo", "hi"],
+      { cwd: process.cwd(), timeout: 10_000 },
+      [],
+      cfg,
+    );
+    await execInContainer(["ls"], { timeout: 10_000 }, [], cfg);
+
+    expect(first.stdout).toBe("hi");
+    const runs = rawExec.mock.calls.filter(([cmd]) => cmd[1] === "run");
+    expect(runs).toHaveLength(1);
+    expect(runs[0]![0]).toEqual(
+      expect.arrayContaining([
+        "docker",
+        "--network",
+        "none",
+        "--volume",
+        `${process.cwd()}:${process.cwd()}`,
+        "alpine:3",
+      ]),
+    );
+
+    const execs = rawExec.mock.calls.filter(([cmd]) => cmd[1] === "exec");
+    expect(execs).toHaveLength(2);
+    const [cmd, opts] = execs[0]!;
+    expect(cmd.slice(0, 6)).toEqual([
+      "docker",
+      "exec",
+      "--workdir",
+      process.cwd(),
+      expect.stringMatching(/^codex-sandbox-/),
+      "setsid",
+    ]);
+    expect(cmd.slice(-2)).toEqual(["echo", "hi"]);
+    // The timeout is enforced inside the container, not on the client.
+    expect(opts.timeout).toBeUndefined();
+  });
+
+  it("kills the command inside the container on timeout", async () => {
+    rawExec.mockImplementation((cmd, _opts, _config, signal) =>
+      cmd[1] === "exec" && cmd.includes("setsid")
+        ? new Promise((resolve) =>
+            signal?.addEventListener("abort", () =>
+              resolve({ stdout: "", stderr: "", exitCode: 143 }),
+            ),
+          )
+        : ok(),
+    );
+    const result = await execInContainer(
+      ["sleep", "100"],
+      { timeout: 50 },
+      [],
+      config("alpine:timeout"),
+    );
+
+    expect(result.exitCode).toBe(143);
+    const kill = rawExec.mock.calls.find(([cmd]) =>
+      cmd.some((arg) => arg.startsWith("kill -TERM")),
+    );
+    expect(kill).toBeDefined();
+  });
+});
+
+describe("containerMounts()", () => {
+  it("covers denied paths in the mounted directories", () => {
+    const dir = mkdtempSync(join(tmpdir(), "codex-container-"));
+    try {
+      writeFileSync(join(dir, ".env"), "TOKEN=x");
+      const mounts = containerMounts(dir, [], ["**/.env"]);
+      expect(mounts).toEqual([
+        { path: dir, readOnly: false },
+        { path: join(dir, ".env"), readOnly: true, hidden: "file" },
+      ]);
+      expect(
+        containerRunArgs("podman", "c", { network: true }, mounts, dir),
+      ).toEqual(
+        expect.arrayContaining([
+          "--userns",
+          "keep-id",
+          `/dev/null:${join(dir, ".env")}:ro`,
+        ]),
+      );
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,115 @@
+import type { AppConfig } from "../src/utils/config.js";
+import type { ResponseInputItem } from "openai/resources/responses/responses.mjs";
+
+import {
+  COMPACTED_SUMMARY_PREFIX,
+  compactConversation,
+  findCompactionCut,
+  shouldAutoCompact,
+} from "../src/utils/agent/context-compaction.js";
+import { describe, it, expect, vi } from "vitest";
+
+// gpt-4.1 has a context window of ~1M tokens; use a 128k fallback model so
+// the numbers below stay readable.
+const MODEL = "some-unknown-model";
+
+const user = (text: string): ResponseInputItem => ({
+  type: "message",
+  role: "user",
+  content: [{ type: "input_text", text }],
+});
+
+const call = (id: string): ResponseInputItem => ({
+  type: "function_call",
+  call_id: id,
+  name: "shell",
+  arguments: '{"command":["ls"]}',
+});
+
+const output = (id: string, text: string): ResponseInputItem => ({
+  type: "function_call_output",
+  call_id: id,
+  output: text,
+});
+
+describe("shouldAutoCompact()", () => {
+  it("compacts once less than the threshold is left", () => {
+    expect(shouldAutoCompact(100_000, MODEL, {})).toBe(false);
+    expect(shouldAutoCompact(110_000, MODEL, {})).toBe(true);
+    expect(
+      shouldAutoCompact(100_000, MODEL, { autoCompact: { threshold: 25 } }),
+    ).toBe(true);
+    expect(
+      shouldAutoCompact(120_000, MODEL, { autoCompact: { enabled: false } }),
+    ).toBe(false);
+  });
+});
+
+describe("findCompactionCut()", () => {
+  it("keeps as many trailing items as fit the budget", () => {
+    const items = [user("a".repeat(400)), user("b".repeat(400)), user("c")];
+    expect(findCompactionCut(items, 150)).toBe(1);
+    expect(findCompactionCut(items, 10)).toBe(2);
+  });
+
+  it("never separates a tool output from its call", () => {
+    const items = [user("start"), call("1"), output("1", "x".repeat(580))];
+    expect(findCompactionCut(items, 150)).toBe(1);
+  });
+
+  it("keeps all parallel calls whose outputs are kept", () => {
+    const items = [
+      user("start"),
+      call("1"),
+      call("2"),
+      output("1", "x".repeat(580)),
+      output("2", "y".repeat(40)),
+    ];
+    // Only the outputs fit the budget, but both calls must stay with them.
+    expect(findCompactionCut(items, 150)).toBe(1);
+    // Cutting at the second output keeps the first output, and so the first
+    // call, as well.
+    expect(findCompactionCut(items, 40)).toBe(1);
+  });
+
+  it("keeps everything from maxIndex on", () => {
+    const items = [user("a"), user("b"), user("c".repeat(4000))];
+    expect(findCompactionCut(items, 10, 1)).toBe(1);
+  });
+});
+
+describe("compactConversation()", () => {
+  it("replaces older items with a summary", async () => {
+    const summarize = vi.fn().mockResolvedValue("did things");
+    const older = [user("x".repeat(200_000))];
+    const recent = [call("1"), output("1", "ok"), user("next")];
+
+    const result = await compactConversation([...older, ...recent], {
+      model: MODEL,
+      config: { flexMode: false } as AppConfig,
+      summarize,
+    });
+
+    expect(summarize).toHaveBeenCalledWith(
+      older,
+      MODEL,
+      false,
+      expect.anything(),
+    );
+    expect(result).toEqual([
+      user(`${COMPACTED_SUMMARY_PREFIX}\n\ndid things`),
+      ...recent,
+    ]);
+  });
+
+  it("returns undefined when there is nothing to summarize", async () => {
+    const summarize = vi.fn();
+    const result = await compactConversation([user("hi")], {
+      model: MODEL,
+      config: {} as AppConfig,
+      summarize,
+    });
+    expect(result).toBeUndefined();
+    expect(summarize).not.toHaveBeenCalled();
+  });
+});
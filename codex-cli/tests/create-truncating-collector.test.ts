@@ -1,5 +1,8 @@
 import { PassThrough } from "stream";
 import { once } from "events";
+import { existsSync, mkdtempSync, readFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
 import { describe, it, expect } from "vitest";
 import { createTruncatingCollector } from "../src/utils/agent/sandbox/create-truncating-collector.js";
 
@@ -53,3 +56,86 @@ describe("createTruncatingCollector", () => {
     expect(collector.hit).toBe(true);
   });
 });
+
+describe("createTruncatingCollector with the head-tail strategy", () => {
+  const lines = (from: number, to: number) =>
+    Array.from({ length: to - from + 1 }, (_, i) => `line ${from + i}\n`).join(
+      "",
+    );
+
+  it("keeps the start and the end of the output", async () => {
+    const stream = new PassThrough();
+    const collector = createTruncatingCollector(stream, 10_000, 6, {
+      strategy: "head-tail",
+    });
+    stream.write(Buffer.from(lines(1, 50)));
+    stream.end(Buffer.from(lines(51, 100)));
+    await once(stream, "end");
+    expect(collector.getString()).toBe(
+      lines(1, 3) + "[... 94 lines (746 bytes) omitted ...]\n" + lines(98, 100),
+    );
+    expect(collector.hit).toBe(true);
+  });
+
+  it("keeps lines that look like errors from the middle", async () => {
+    const stream = new PassThrough();
+    const collector = createTruncatingCollector(stream, 10_000, 20, {
+      strategy: "head-tail",
+    });
+    stream.end(
+      Buffer.from(
+        lines(1, 40) + "FAIL tests/a.test.ts\n" + lines(42, 60) + lines(61, 80),
+      ),
+    );
+    await once(stream, "end");
+    const text = collector.getString();
+    expect(text).toContain(
+      "omitted; these lines among them look like errors:]\n[line 41] FAIL tests/a.test.ts\n[... end of omitted lines ...]\n",
+    );
+    expect(text.startsWith(lines(1, 10))).toBe(true);
+    expect(text.endsWith(lines(72, 80))).toBe(true);
+  });
+
+  it("keeps the end of output without newlines", async () => {
+    const stream = new PassThrough();
+    const collector = createTruncatingCollector(stream, 10, 100, {
+      strategy: "head-tail",
+    });
+    stream.end(Buffer.from("abcdefghijklmnopqrstuvwxyz"));
+    await once(stream, "end");
+    expect(collector.getString()).toBe(
+      "[... 16 bytes omitted ...]\nqrstuvwxyz",
+    );
+    expect(collector.hit).toBe(true);
+  });
+
+  it("saves the full output once the limits are exceeded", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "codex-collector-"));
+    const file = join(dir, "out.log");
+    try {
+      const small = new PassThrough();
+      const untouched = createTruncatingCollector(small, 1000, 100, {
+        strategy: "head-tail",
+        fullOutputPath: () => join(dir, "unused.log"),
+      });
+      small.end(Buffer.from("ok\n"));
+      await once(small, "end");
+      expect(untouched.hit).toBe(false);
+      expect(existsSync(join(dir, "unused.log"))).toBe(false);
+
+      const stream = new PassThrough();
+      createTruncatingCollector(stream, 1000, 4, {
+        strategy: "head-tail",
+        fullOutputPath: () => file,
+      });
+      stream.write(Buffer.from(lines(1, 3)));
+      stream.write(Buffer.from(lines(4, 20)));
+      stream.end(Buffer.from(lines(21, 30)));
+      await once(stream, "end");
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      expect(readFileSync(file, "utf8")).toBe(lines(1, 30));
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
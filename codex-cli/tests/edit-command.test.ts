@@ -0,0 +1,139 @@
+import type { AppConfig } from "../src/utils/config.js";
+
+import {
+  commandToEditableText,
+  describeEditedCommand,
+  editableTextToCommand,
+} from "../src/utils/agent/edit-command.js";
+import { handleExecCommand } from "../src/utils/agent/handle-exec-command.js";
+import { ReviewDecision } from "../src/utils/agent/review.js";
+import { existsSync, mkdtempSync, readFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+
+describe("commandToEditableText / editableTextToCommand", () => {
+  it("round-trips plain commands", () => {
+    const { text, extension } = commandToEditableText(["grep", "-r", "a b"]);
+    expect(text).toBe("grep -r 'a b'\n");
+    expect(extension).toBe(".sh");
+    expect(editableTextToCommand("grep -rn 'a b'\n", ["grep"])).toEqual([
+      "grep",
+      "-rn",
+      "a b",
+    ]);
+  });
+
+  it("runs command lines that need a shell with bash", () => {
+    expect(editableTextToCommand("ls | wc -l", ["ls"])).toEqual([
+      "bash",
+      "-lc",
+      "ls | wc -l",
+    ]);
+    expect(editableTextToCommand("echo $HOME", ["echo"])).toEqual([
+      "bash",
+      "-lc",
+      "echo $HOME",
+    ]);
+  });
+
+  it("keeps the shape of shell invocations and patches", () => {
+    expect(commandToEditableText(["bash", "-lc", "npm test"]).text).toBe(
+      "npm test\n",
+    );
+    expect(
+      editableTextToCommand("npm test -- --run\n", ["bash", "-lc", "npm test"]),
+    ).toEqual(["bash", "-lc", "npm test -- --run"]);
+
+    const patch = "*** Begin Patch\n*** Add File: a\n+a\n*** End Patch";
+    expect(commandToEditableText(["apply_patch", patch])).toEqual({
+      text: patch,
+      extension: ".patch",
+    });
+    expect(editableTextToCommand(patch + "\n", ["apply_patch", "x"])).toEqual([
+      "apply_patch",
+      patch,
+    ]);
+  });
+
+  it("returns undefined for an empty text", () => {
+    expect(editableTextToCommand(" \n", ["ls"])).toBeUndefined();
+  });
+
+  it("tells the model what ran instead", () => {
+    expect(
+      describeEditedCommand(["bash", "-lc", "rm -rf build"], ["rm", "-r", "x"]),
+    ).toBe(
+      [
+        "The user edited your command before approving it.",
+        "Original: rm -rf build",
+        "Ran instead: rm -r x",
+        "Do not run the original command again.",
+      ].join("\n"),
+    );
+  });
+});
+
+describe("handleExecCommand() with an edited command", () => {
+  let dir: string;
+  let config: AppConfig;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "codex-edit-command-"));
+    config = {
+      model: "any",
+      instructions: "",
+      notify: false,
+      auditLog: { enabled: false },
+    } as AppConfig;
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("runs the edited command instead and says so", async () => {
+    let editable: boolean | undefined;
+    const result = await handleExecCommand(
+      { cmd: ["touch", "original"], workdir: dir, timeoutInMillis: 10_000 },
+      config,
+      "suggest",
+      [],
+      (_assessment, _command, _applyPatch, options) => {
+        editable = options?.editable;
+        return Promise.resolve({
+          review: ReviewDecision.EDIT,
+          editedCommand: ["touch", "edited"],
+        });
+      },
+    );
+
+    expect(editable).toBe(true);
+    expect(existsSync(join(dir, "original"))).toBe(false);
+    expect(existsSync(join(dir, "edited"))).toBe(true);
+    expect(result.outputText).toContain("Ran instead: touch edited");
+  });
+
+  it("applies an edited patch", async () => {
+    const patch = (content: string) =>
+      `*** Begin Patch\n*** Add File: notes.txt\n+${content}\n*** End Patch`;
+    const result = await handleExecCommand(
+      {
+        cmd: ["apply_patch", patch("original")],
+        workdir: dir,
+        timeoutInMillis: 10_000,
+      },
+      config,
+      "suggest",
+      [],
+      () =>
+        Promise.resolve({
+          review: ReviewDecision.EDIT,
+          editedCommand: ["apply_patch", patch("edited")],
+        }),
+    );
+
+    expect(readFileSync(join(dir, "notes.txt"), "utf8")).toBe("edited");
+    expect(result.outputText).toContain("This patch was applied instead:");
+  });
+});
@@ -0,0 +1,69 @@
+import type { AppConfig } from "../src/utils/config.js";
+
+import { handleExecCommand } from "../src/utils/agent/handle-exec-command.js";
+import { ReviewDecision } from "../src/utils/agent/review.js";
+import { exec as rawExec } from "../src/utils/agent/sandbox/raw-exec.js";
+import { describe, it, expect } from "vitest";
+
+const config = (overrides: Partial<AppConfig> = {}) =>
+  ({
+    model: "any",
+    instructions: "",
+    notify: false,
+    auditLog: { enabled: false },
+    ...overrides,
+  }) as AppConfig;
+
+const countTo = (n: number) => [
+  "node",
+  "-e",
+  `for (let i = 1; i <= ${n}; i++) console.log(i); console.error("done");`,
+];
+
+describe("streaming command output", () => {
+  it("passes all output to the listener but truncates the result", async () => {
+    const streamed = { stdout: "", stderr: "" };
+    const result = await rawExec(
+      countTo(50),
+      {},
+      config({ tools: { shell: { maxBytes: 10_000, maxLines: 5 } } }),
+      undefined,
+      (chunk, stream) => {
+        streamed[stream] += chunk;
+      },
+    );
+
+    expect(streamed.stdout.trim().split("\n")).toHaveLength(50);
+    expect(streamed.stderr).toBe("done\n");
+    expect(result.exitCode).toBe(0);
+    expect(result.stdout).toContain(
+      "[Output truncated: too many lines or bytes",
+    );
+    expect(result.stdout).not.toMatch(/^25$/m);
+  });
+
+  it("starts reporting once the command was approved", async () => {
+    const events: Array<string> = [];
+    const result = await handleExecCommand(
+      { cmd: countTo(2), workdir: undefined, timeoutInMillis: 10_000 },
+      config(),
+      "suggest",
+      [],
+      () => {
+        events.push("confirm");
+        return Promise.resolve({ review: ReviewDecision.YES });
+      },
+      undefined,
+      {
+        onStart: () => events.push("start"),
+        onOutput: (chunk) => events.push(chunk),
+      },
+    );
+
+    expect(result.outputText).toBe("1\n2\n");
+    expect(events[0]).toBe("confirm");
+    expect(events[1]).toBe("start");
+    expect(events.slice(2).join("")).toContain("1\n2\n");
+    expect(events.slice(2).join("")).toContain("done\n");
+  });
+});
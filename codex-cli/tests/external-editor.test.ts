@@ -0,0 +1,39 @@
+import { editInEditor } from "../src/utils/external-editor.js";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+
+describe("editInEditor()", () => {
+  let dir: string;
+  let editor: string | undefined;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "codex editor "));
+    editor = process.env["EDITOR"];
+  });
+
+  afterEach(() => {
+    if (editor === undefined) {
+      delete process.env["EDITOR"];
+    } else {
+      process.env["EDITOR"] = editor;
+    }
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("passes the arguments of $EDITOR to the editor", () => {
+    const edited = join(dir, "edited.txt");
+    writeFileSync(edited, "edited\n");
+    // The "editor" overwrites the file with the edited text.
+    process.env["EDITOR"] = `cp '${edited}'`;
+
+    expect(editInEditor("original\n", ".txt")).toBe("edited\n");
+  });
+
+  it("returns undefined when the editor fails", () => {
+    process.env["EDITOR"] = "false";
+
+    expect(editInEditor("original\n", ".txt")).toBeUndefined();
+  });
+});
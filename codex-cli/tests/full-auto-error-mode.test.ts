@@ -0,0 +1,150 @@
+import type { AppConfig } from "../src/utils/config.js";
+import type { SafetyAssessment } from "../src/approvals.js";
+import type { SandboxFailureCount } from "../src/utils/agent/handle-exec-command.js";
+
+import { FullAutoErrorMode } from "../src/utils/auto-approval-mode.js";
+import { handleExecCommand } from "../src/utils/agent/handle-exec-command.js";
+import { ReviewDecision } from "../src/utils/agent/review.js";
+import { SandboxType } from "../src/utils/agent/sandbox/interface.js";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+const execMock = vi.hoisted(() => vi.fn());
+
+vi.mock("../src/utils/agent/exec.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../src/utils/agent/exec.js")>()),
+  exec: execMock,
+}));
+
+let dir: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), "codex-full-auto-"));
+  execMock.mockReset();
+  // Fails in the sandbox, succeeds outside of it.
+  execMock.mockImplementation((_input: unknown, sandbox: SandboxType) =>
+    Promise.resolve(
+      sandbox === SandboxType.NONE
+        ? { stdout: "built", stderr: "", exitCode: 0 }
+        : { stdout: "", stderr: "make: Operation not permitted", exitCode: 2 },
+    ),
+  );
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+const config = (overrides: Partial<AppConfig> = {}) =>
+  ({
+    model: "any",
+    instructions: "",
+    notify: false,
+    auditLog: { enabled: false },
+    ...overrides,
+  }) as AppConfig;
+
+const run = (
+  cfg: AppConfig,
+  confirm: (assessment: SafetyAssessment) => ReviewDecision,
+  failures?: SandboxFailureCount,
+) =>
+  handleExecCommand(
+    { cmd: ["make", "build"], workdir: dir, timeoutInMillis: 10_000 },
+    cfg,
+    "full-auto",
+    [],
+    (assessment) => Promise.resolve({ review: confirm(assessment) }),
+    undefined,
+    undefined,
+    failures,
+  );
+
+describe("full-auto error mode", () => {
+  it("hands failures to the model by default", async () => {
+    const confirm = vi.fn(() => ReviewDecision.YES);
+    const result = await run(config(), confirm);
+
+    expect(confirm).not.toHaveBeenCalled();
+    expect(result.metadata["exitCode"]).toBe(2);
+  });
+
+  it("hands failures to the model with ignore-and-continue", async () => {
+    const confirm = vi.fn(() => ReviewDecision.YES);
+    const result = await run(
+      config({ fullAutoErrorMode: FullAutoErrorMode.IGNORE_AND_CONTINUE }),
+      confirm,
+    );
+
+    expect(confirm).not.toHaveBeenCalled();
+    expect(execMock).toHaveBeenCalledTimes(1);
+    expect(result.metadata["exitCode"]).toBe(2);
+    expect(result.additionalItems).toBeUndefined();
+  });
+
+  it("asks the user and retries without the sandbox", async () => {
+    const confirm = vi.fn(
+      (_assessment: SafetyAssessment) => ReviewDecision.YES,
+    );
+    const result = await run(
+      config({ fullAutoErrorMode: FullAutoErrorMode.ASK_USER }),
+      confirm,
+    );
+
+    expect(confirm).toHaveBeenCalledTimes(1);
+    const [assessment] = confirm.mock.calls[0]!;
+    expect(assessment).toMatchObject({ type: "sandbox-failure", exitCode: 2 });
+    expect(
+      assessment.type === "sandbox-failure" ? assessment.reason : "",
+    ).toContain("probably blocked it");
+    expect(
+      execMock.mock.calls.map(([, sandbox]) => sandbox as SandboxType),
+    ).toEqual([SandboxType.LINUX_LANDLOCK, SandboxType.NONE]);
+    expect(result.outputText).toBe("built");
+  });
+
+  it("only asks when the sandbox seems to have blocked the command", async () => {
+    execMock.mockResolvedValue({ stdout: "", stderr: "", exitCode: 1 });
+    const confirm = vi.fn(() => ReviewDecision.YES);
+    const result = await run(
+      config({ fullAutoErrorMode: FullAutoErrorMode.ASK_USER }),
+      confirm,
+    );
+
+    expect(confirm).not.toHaveBeenCalled();
+    expect(execMock).toHaveBeenCalledTimes(1);
+    expect(result.metadata["exitCode"]).toBe(1);
+  });
+
+  it("passes the failure on when the user skips the command", async () => {
+    const result = await run(
+      config({ fullAutoErrorMode: FullAutoErrorMode.ASK_USER }),
+      () => ReviewDecision.NO_CONTINUE,
+    );
+
+    expect(execMock).toHaveBeenCalledTimes(1);
+    expect(result.outputText).toBe("make: Operation not permitted");
+    expect(result.additionalItems).toHaveLength(1);
+  });
+
+  it("tells the model to stop once the failure budget is used up", async () => {
+    const cfg = config({
+      fullAutoErrorMode: FullAutoErrorMode.IGNORE_AND_CONTINUE,
+      fullAutoMaxConsecutiveFailures: 2,
+    });
+    const confirm = () => ReviewDecision.YES;
+    const failures = { consecutive: 0 };
+
+    expect((await run(cfg, confirm, failures)).additionalItems).toBeUndefined();
+    // Another agent keeps its own count.
+    await run(cfg, confirm, { consecutive: 0 });
+    const second = await run(cfg, confirm, failures);
+    expect(JSON.stringify(second.additionalItems)).toContain(
+      "2 commands in a row failed",
+    );
+    // The count starts over afterwards.
+    expect((await run(cfg, confirm, failures)).additionalItems).toBeUndefined();
+  });
+});
@@ -0,0 +1,120 @@
+import { execApplyPatch } from "../src/utils/agent/exec.js";
+import {
+  GitSession,
+  commitMessageForPatch,
+  commitSubject,
+} from "../src/utils/git-session.js";
+import { execFileSync } from "child_process";
+import { mkdtempSync, realpathSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+
+let dir: string;
+
+const git = (...args: Array<string>) =>
+  execFileSync("git", args, { cwd: dir, encoding: "utf8" }).trim();
+
+beforeEach(() => {
+  dir = realpathSync(mkdtempSync(join(tmpdir(), "codex-git-session-")));
+  git("init", "--quiet", "--initial-branch=main");
+  git("config", "user.email", "test@example.com");
+  git("config", "user.name", "Test");
+  writeFileSync(join(dir, "a.txt"), "one\n");
+  git("add", ".");
+  git("commit", "--quiet", "-m", "initial");
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+const PATCH =
+  "*** Begin Patch\n*** Update File: a.txt\n@@\n-one\n+two\n*** Add File: b.txt\n+new\n*** End Patch";
+
+describe("GitSession", () => {
+  it("commits applied patches on the session branch", () => {
+    const session = GitSession.start(dir, "0123456789abcdef");
+    expect(session.branch).toBe("codex/01234567");
+    expect(git("rev-parse", "--abbrev-ref", "HEAD")).toBe("codex/01234567");
+
+    // Unrelated changes in the working tree are not part of the commit.
+    writeFileSync(join(dir, "notes.txt"), "mine");
+    expect(execApplyPatch(PATCH, dir).exitCode).toBe(0);
+    const sha = session.commitPatch(
+      PATCH,
+      dir,
+      "Bump the counter.\n\nAlso adds b.txt.",
+    );
+
+    expect(sha).toBeDefined();
+    expect(session.commits()).toEqual([{ sha, subject: "Bump the counter" }]);
+    expect(git("show", "--name-only", "--format=", "HEAD").split("\n")).toEqual(
+      ["a.txt", "b.txt"],
+    );
+    expect(git("status", "--porcelain")).toBe("?? notes.txt");
+    expect(session.commitPatch(PATCH, dir)).toBeUndefined();
+  });
+
+  it("squashes the session commits and summarizes the branch", () => {
+    const session = GitSession.start(dir, "feedface");
+    writeFileSync(join(dir, "a.txt"), "two\n");
+    session.commitAll("First");
+    writeFileSync(join(dir, "a.txt"), "three\n");
+    session.commitAll("Second");
+    expect(session.commitAll("Nothing")).toBeUndefined();
+
+    expect(session.squash("Update a.txt")).toBeDefined();
+    expect(session.commits().map((c) => c.subject)).toEqual(["Update a.txt"]);
+    expect(git("log", "-1", "--format=%b")).toBe("- First\n- Second");
+
+    const summary = session.prSummary("Update a.txt");
+    expect(summary).toContain("## Update a.txt");
+    expect(summary).toContain("codex/feedface");
+    expect(summary).toContain("a.txt | 2 +-");
+  });
+
+  it("leaves changes staged outside the session out of the squash", () => {
+    const session = GitSession.start(dir, "deadbeef");
+    writeFileSync(join(dir, "a.txt"), "two\n");
+    session.commitAll("First");
+    writeFileSync(join(dir, "a.txt"), "three\n");
+    session.commitAll("Second");
+    writeFileSync(join(dir, "staged.txt"), "mine\n");
+    git("add", "staged.txt");
+
+    expect(session.squash("Update a.txt")).toBeDefined();
+    expect(git("show", "--name-only", "--format=", "HEAD")).toBe("a.txt");
+    expect(git("diff", "--cached", "--name-only")).toBe("staged.txt");
+  });
+
+  it("continues on the existing branch of a resumed session", () => {
+    const first = GitSession.start(dir, "cafebabe");
+    writeFileSync(join(dir, "a.txt"), "two\n");
+    first.commitAll("Work");
+    git("switch", "--quiet", "main");
+
+    const resumed = GitSession.start(dir, "cafebabe");
+    expect(resumed.base).toBe(first.base);
+    expect(resumed.commits().map((c) => c.subject)).toEqual(["Work"]);
+  });
+
+  it("can work in a separate worktree", () => {
+    const session = GitSession.start(dir, "abcdef12", { worktree: true });
+    expect(session.workdir).toContain("codex-worktrees");
+    expect(git("rev-parse", "--abbrev-ref", "HEAD")).toBe("main");
+  });
+});
+
+describe("commit messages", () => {
+  it("derive the subject from the assistant's explanation", () => {
+    expect(commitSubject("**Fix** the parser: it dropped tokens.")).toBe(
+      "Fix the parser",
+    );
+    expect(commitSubject("x".repeat(100))).toHaveLength(72);
+
+    const { subject, body } = commitMessageForPatch(PATCH, "", dir);
+    expect(subject).toBe("Update a.txt, b.txt");
+    expect(body).toBe("Files: a.txt, b.txt");
+  });
+});
@@ -0,0 +1,179 @@
+import type { AppConfig } from "../src/utils/config.js";
+import type { ResponseItem } from "openai/resources/responses/responses.mjs";
+
+import { handleExecCommand } from "../src/utils/agent/handle-exec-command.js";
+import { ReviewDecision } from "../src/utils/agent/review.js";
+import {
+  JsonRunSummaryCollector,
+  responseItemToJsonEvent,
+} from "../src/utils/json-event-stream.js";
+import { describe, it, expect } from "vitest";
+
+const item = (value: Record<string, unknown>) =>
+  value as unknown as ResponseItem;
+
+describe("responseItemToJsonEvent()", () => {
+  it("flattens message content to text", () => {
+    expect(
+      responseItemToJsonEvent(
+        item({
+          id: "msg_1",
+          type: "message",
+          role: "assistant",
+          content: [{ type: "output_text", text: "Done." }],
+        }),
+      ),
+    ).toEqual({
+      type: "message",
+      id: "msg_1",
+      role: "assistant",
+      text: "Done.",
+    });
+  });
+
+  it("reports warning system messages as errors", () => {
+    expect(
+      responseItemToJsonEvent(
+        item({
+          type: "message",
+          role: "system",
+          content: [{ type: "input_text", text: "⚠️  Rate limit reached." }],
+        }),
+      ),
+    ).toEqual({ type: "error", message: "Rate limit reached." });
+  });
+
+  it("includes the parsed command for shell calls", () => {
+    expect(
+      responseItemToJsonEvent(
+        item({
+          type: "function_call",
+          call_id: "call_1",
+          name: "shell",
+          arguments: '{"command":["ls","-la"]}',
+        }),
+      ),
+    ).toMatchObject({
+      type: "function_call",
+      call_id: "call_1",
+      name: "shell",
+      command: ["ls", "-la"],
+    });
+  });
+
+  it("unwraps exit code and duration from shell command outputs", async () => {
+    const { outputText, metadata } = await handleExecCommand(
+      {
+        cmd: ["sh", "-c", "echo boom; exit 2"],
+        workdir: undefined,
+        timeoutInMillis: 10_000,
+      },
+      {
+        model: "any",
+        instructions: "",
+        notify: false,
+        auditLog: { enabled: false },
+      } as AppConfig,
+      "suggest",
+      [],
+      () => Promise.resolve({ review: ReviewDecision.YES }),
+    );
+    // The same shape `AgentLoop` gives the `function_call_output` item.
+    const event = responseItemToJsonEvent(
+      item({
+        type: "function_call_output",
+        call_id: "call_1",
+        output: JSON.stringify({ output: outputText, metadata }),
+      }),
+    );
+
+    expect(event).toMatchObject({
+      type: "function_call_output",
+      call_id: "call_1",
+      output: "boom\n",
+      exit_code: 2,
+    });
+    expect(event).toHaveProperty("duration_seconds", expect.any(Number));
+  });
+
+  it("reads the metadata of outputs built by the agent loop", () => {
+    expect(
+      responseItemToJsonEvent(
+        item({
+          type: "function_call_output",
+          call_id: "call_1",
+          output: JSON.stringify({
+            output: "proc_1 exited with 1",
+            metadata: { exit_code: 1 },
+          }),
+        }),
+      ),
+    ).toMatchObject({ exit_code: 1, duration_seconds: undefined });
+  });
+
+  it("keeps only the text of reasoning summaries", () => {
+    expect(
+      responseItemToJsonEvent(
+        item({
+          id: "rs_1",
+          type: "reasoning",
+          summary: [{ type: "summary_text", text: "Looking at tests" }],
+          duration_ms: 1200,
+        }),
+      ),
+    ).toEqual({
+      type: "reasoning",
+      id: "rs_1",
+      summary: ["Looking at tests"],
+      duration_ms: 1200,
+    });
+  });
+});
+
+describe("JsonRunSummaryCollector", () => {
+  it("totals usage and function calls across responses", () => {
+    const collector = new JsonRunSummaryCollector();
+    collector.recordEvent({
+      type: "function_call",
+      name: "shell",
+      arguments: "{}",
+    });
+    collector.recordEvent({
+      type: "function_call_output",
+      output: "",
+      exit_code: 1,
+    });
+    const usage = {
+      input_tokens: 100,
+      input_tokens_details: { cached_tokens: 40 },
+      output_tokens: 20,
+      output_tokens_details: { reasoning_tokens: 5 },
+      total_tokens: 120,
+    };
+    collector.recordUsage(usage);
+    collector.recordUsage(usage);
+
+    expect(collector.summary()).toMatchObject({
+      type: "summary",
+      status: "completed",
+      function_calls: 1,
+      failed_function_calls: 1,
+      usage: {
+        input_tokens: 200,
+        cached_input_tokens: 80,
+        output_tokens: 40,
+        reasoning_output_tokens: 10,
+        total_tokens: 240,
+      },
+    });
+  });
+
+  it("marks the run as failed after an error", () => {
+    const collector = new JsonRunSummaryCollector();
+    collector.recordError(new Error("network down"));
+    expect(collector.summary()).toMatchObject({
+      status: "error",
+      error: "network down",
+    });
+  });
+});
@@ -0,0 +1,114 @@
+import type { ResponseItem } from "openai/resources/responses/responses.mjs";
+
+import {
+  loadRollout,
+  resolveRolloutPath,
+  rolloutToTranscript,
+} from "../src/utils/storage/load-rollout.js";
+import { mkdtempSync, rmSync, utimesSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+
+let root: string;
+
+beforeEach(() => {
+  root = mkdtempSync(join(tmpdir(), "codex-sessions-"));
+});
+
+afterEach(() => {
+  rmSync(root, { recursive: true, force: true });
+});
+
+function writeRollout(name: string, id: string, mtime = new Date()): string {
+  const p = join(root, name);
+  writeFileSync(
+    p,
+    JSON.stringify({ session: { id, model: "o4-mini" }, items: [] }),
+  );
+  utimesSync(p, mtime, mtime);
+  return p;
+}
+
+describe("resolveRolloutPath()", () => {
+  it("finds the latest file of a session by id or id prefix", () => {
+    writeRollout("rollout-2025-01-01-abc123.json", "abc123", new Date(1000));
+    const latest = writeRollout(
+      "rollout-2025-01-02-abc123.json",
+      "abc123",
+      new Date(2000),
+    );
+    writeRollout("rollout-2025-01-02-abd456.json", "abd456");
+
+    expect(resolveRolloutPath("abc123", root)).toBe(latest);
+    expect(resolveRolloutPath("abc", root)).toBe(latest);
+    // Ambiguous prefixes and unknown ids do not match anything.
+    expect(resolveRolloutPath("ab", root)).toBeUndefined();
+    expect(resolveRolloutPath("zzz", root)).toBeUndefined();
+  });
+
+  it("accepts a path to a rollout file", () => {
+    const p = writeRollout("saved.json", "xyz");
+    expect(resolveRolloutPath(p, root)).toBe(p);
+    expect(loadRollout(p, root).session.id).toBe("xyz");
+  });
+
+  it("reports files that are not sessions", () => {
+    const p = join(root, "other.json");
+    writeFileSync(p, "{}");
+    expect(() => loadRollout(p, root)).toThrow(/not a Codex session/);
+    expect(() => loadRollout("missing", root)).toThrow(/No saved session/);
+  });
+});
+
+describe("rolloutToTranscript()", () => {
+  it("keeps the conversation and drops UI-only items", () => {
+    const items = [
+      {
+        id: "m1",
+        type: "message",
+        role: "user",
+        content: [{ type: "input_text", text: "hi" }],
+      },
+      {
+        id: "s1",
+        type: "message",
+        role: "system",
+        content: [{ type: "input_text", text: "Switched model" }],
+      },
+      { id: "r1", type: "reasoning", summary: [], duration_ms: 10 },
+      {
+        id: "c1",
+        type: "function_call",
+        call_id: "call_1",
+        name: "shell",
+        arguments: "{}",
+        status: "completed",
+      },
+      { type: "function_call_output", call_id: "call_1", output: "ok" },
+      // Never answered: the session ended while waiting for approval.
+      {
+        id: "c2",
+        type: "function_call",
+        call_id: "call_2",
+        name: "shell",
+        arguments: "{}",
+      },
+    ] as unknown as Array<ResponseItem>;
+
+    expect(rolloutToTranscript(items)).toEqual([
+      {
+        type: "message",
+        role: "user",
+        content: [{ type: "input_text", text: "hi" }],
+      },
+      {
+        type: "function_call",
+        call_id: "call_1",
+        name: "shell",
+        arguments: "{}",
+      },
+      { type: "function_call_output", call_id: "call_1", output: "ok" },
+    ]);
+  });
+});
@@ -0,0 +1,96 @@
+import type { ToolContext } from "../src/utils/agent/tool-registry.js";
+
+import { McpClient, formatMcpContent } from "../src/utils/agent/mcp-client.js";
+import { mcpToolName, startMcpServers } from "../src/utils/agent/mcp-tools.js";
+import { ReviewDecision } from "../src/utils/agent/review.js";
+import {
+  ToolRegistry,
+  assessToolCall,
+  handleToolCall,
+} from "../src/utils/agent/tool-registry.js";
+import path from "path";
+import { describe, it, expect, vi, afterEach } from "vitest";
+
+const STUB_SERVER = path.join(__dirname, "__fixtures__", "stub-mcp-server.mjs");
+const serverConfig = { command: process.execPath, args: [STUB_SERVER] };
+
+const context: ToolContext = {
+  config: { model: "any", instructions: "" } as ToolContext["config"],
+  approvalPolicy: "suggest",
+  additionalWritableRoots: [],
+};
+
+describe("McpClient", () => {
+  let client: McpClient | undefined;
+  afterEach(() => client?.close());
+
+  it("lists tools across pages and calls them", async () => {
+    client = new McpClient("stub", serverConfig);
+    await client.connect();
+
+    const tools = await client.listTools();
+    expect(tools.map((t) => t.name)).toEqual(["echo", "fail"]);
+
+    const result = await client.callTool("echo", { text: "hello" });
+    expect(formatMcpContent(result.content)).toBe("hello");
+  });
+
+  it("rejects pending requests once the server is closed", async () => {
+    client = new McpClient("stub", serverConfig);
+    await client.connect();
+    client.close();
+    await expect(client.callTool("echo", { text: "x" })).rejects.toThrow(
+      /not running/,
+    );
+  });
+});
+
+describe("startMcpServers()", () => {
+  it("registers namespaced tools and forwards calls", async () => {
+    const registry = new ToolRegistry();
+    const session = await startMcpServers({ stub: serverConfig }, registry);
+    try {
+      expect(registry.list().map((t) => t.name)).toEqual([
+        "stub__echo",
+        "stub__fail",
+      ]);
+
+      const echo = registry.get("stub__echo")!;
+      const fail = registry.get("stub__fail")!;
+
+      // `echo` is annotated read-only; `fail` needs approval.
+      expect(assessToolCall(echo, {}, "suggest").type).toBe("auto-approve");
+      expect(assessToolCall(fail, {}, "suggest").type).toBe("ask-user");
+
+      const ok = await handleToolCall(echo, { text: "hi" }, context, vi.fn());
+      expect(ok.outputText).toBe("hi");
+      expect(ok.metadata["exit_code"]).toBe(0);
+
+      const failed = await handleToolCall(fail, {}, context, () =>
+        Promise.resolve({ review: ReviewDecision.YES }),
+      );
+      expect(failed.outputText).toBe("something went wrong");
+      expect(failed.metadata["exit_code"]).toBe(1);
+    } finally {
+      session.close();
+    }
+    expect(registry.list()).toEqual([]);
+  });
+
+  it("skips servers that fail to start", async () => {
+    const registry = new ToolRegistry();
+    const session = await startMcpServers(
+      { broken: { command: "definitely-not-a-real-mcp-server" } },
+      registry,
+    );
+    expect(session.clients).toEqual([]);
+    expect(registry.list()).toEqual([]);
+  });
+});
+
+describe("mcpToolName()", () => {
+  it("produces names accepted by the API", () => {
+    expect(mcpToolName("my server", "read.file")).toBe("my_server__read_file");
+    expect(mcpToolName("s", "x".repeat(100))).toHaveLength(64);
+  });
+});
@@ -53,8 +53,9 @@ describe("Model Utils", () => {
           content: [
             {
               type: "input_text",
-              text: "A".repeat(
-                openAiModelInfo["gpt-4o"].maxContextLength * 0.25 * 4,
+              // " hello" is a single token for the gpt-4o tokenizer.
+              text: " hello".repeat(
+                openAiModelInfo["gpt-4o"].maxContextLength * 0.25,
               ),
             },
           ],
@@ -0,0 +1,140 @@
+import { execApplyPatch } from "../src/utils/agent/exec.js";
+import {
+  acceptAllHunks,
+  buildReviewedPatch,
+  formatHunkHeader,
+  parsePatchForReview,
+} from "../src/utils/agent/patch-review.js";
+import { highlightLine } from "../src/utils/syntax-highlight.js";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+
+const ORIGINAL = [
+  "function a() {",
+  "  return 1;",
+  "}",
+  "",
+  "function b() {",
+  "  return 2;",
+  "}",
+  "",
+  "function c() {",
+  "  return 3;",
+  "}",
+  "",
+].join("\n");
+
+const PATCH = `*** Begin Patch
+*** Update File: code.ts
+@@ function a() {
+-  return 1;
++  return 10;
+@@ function c() {
+-  return 3;
++  return 30;
++  // done
+*** Add File: notes.txt
++hello
+*** Delete File: old.txt
+*** End Patch`;
+
+let dir: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), "codex-patch-review-"));
+  writeFileSync(join(dir, "code.ts"), ORIGINAL);
+  writeFileSync(join(dir, "old.txt"), "bye\n");
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe("parsePatchForReview", () => {
+  it("splits the patch into files and hunks", () => {
+    const review = parsePatchForReview(PATCH, dir);
+    expect(review.files.map((f) => [f.type, f.path, f.hunks.length])).toEqual([
+      ["update", "code.ts", 2],
+      ["add", "notes.txt", 1],
+      ["delete", "old.txt", 1],
+    ]);
+
+    const [first, second] = review.files[0]!.hunks;
+    expect(first).toEqual({
+      oldStart: 2,
+      newStart: 2,
+      before: ["function a() {"],
+      deleted: ["  return 1;"],
+      inserted: ["  return 10;"],
+      after: ["}", "", "function b() {"],
+    });
+    expect(formatHunkHeader(second!)).toBe("@@ -10,1 +10,2 @@");
+    expect(review.files[2]!.hunks[0]!.deleted).toEqual(["bye"]);
+  });
+});
+
+describe("buildReviewedPatch", () => {
+  it("leaves the patch unchanged when every hunk is accepted", () => {
+    const review = parsePatchForReview(PATCH, dir);
+    expect(buildReviewedPatch(review, acceptAllHunks(review)).note).toBe(
+      undefined,
+    );
+  });
+
+  it("applies only the accepted hunks and lists the rejected ones", () => {
+    const review = parsePatchForReview(PATCH, dir);
+    const { patch, note } = buildReviewedPatch(review, [
+      [false, true],
+      [true],
+      [false],
+    ]);
+
+    expect(execApplyPatch(patch!, dir).exitCode).toBe(0);
+    expect(readFileSync(join(dir, "code.ts"), "utf8")).toBe(
+      ORIGINAL.replace("return 3;", "return 30;\n  // done"),
+    );
+    expect(readFileSync(join(dir, "notes.txt"), "utf8")).toBe("hello");
+    expect(readFileSync(join(dir, "old.txt"), "utf8")).toBe("bye\n");
+
+    expect(note).toBe(
+      [
+        "The user applied only part of the patch. These changes were rejected and not applied:",
+        "- code.ts: hunk 1 of 2 (@@ -2,1 +2,1 @@)",
+        "- old.txt: the whole deletion",
+      ].join("\n"),
+    );
+  });
+
+  it("returns no patch when everything is rejected", () => {
+    const review = parsePatchForReview(PATCH, dir);
+    const { patch, note } = buildReviewedPatch(review, [
+      [false, false],
+      [false],
+      [false],
+    ]);
+    expect(patch).toBeUndefined();
+    expect(note).toContain("rejected all changes");
+  });
+});
+
+describe("highlightLine", () => {
+  it("colors keywords, strings, numbers and comments", () => {
+    expect(highlightLine('const x = "a" + 1; // note', "a.ts")).toEqual([
+      { text: "const", kind: "keyword" },
+      { text: " x = " },
+      { text: '"a"', kind: "string" },
+      { text: " + " },
+      { text: "1", kind: "number" },
+      { text: "; " },
+      { text: "// note", kind: "comment" },
+    ]);
+  });
+
+  it("leaves lines of unknown languages plain", () => {
+    expect(highlightLine("const x = 1", "notes.txt")).toEqual([
+      { text: "const x = 1" },
+    ]);
+  });
+});
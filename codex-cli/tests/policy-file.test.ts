@@ -0,0 +1,202 @@
+import type { PolicyFile } from "../src/utils/policy-file.js";
+
+import { canAutoApprove } from "../src/approvals.js";
+import {
+  allowRuleForCommand,
+  appendPolicyRule,
+  evaluatePolicy,
+  globToRegExp,
+  loadPolicyFile,
+} from "../src/utils/policy-file.js";
+import {
+  mkdirSync,
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+
+const ROOT = "/work/project";
+
+function policy(rules: PolicyFile["rules"]): PolicyFile {
+  return { root: ROOT, path: `${ROOT}/.codex/policy.yaml`, rules };
+}
+
+const bash = (script: string) => ["bash", "-lc", script];
+
+describe("evaluatePolicy()", () => {
+  const file = policy([
+    { action: "allow", program: ["npm", "pnpm"], argv: ["test"] },
+    { action: "ask", program: "git", argv: ["push"] },
+    { action: "allow", program: "git" },
+    { action: "deny", writes: ["**/.env"], reason: "no secrets" },
+    { action: "allow", program: "make", workdir: "packages/**" },
+  ]);
+
+  it("matches program and argv prefix", () => {
+    expect(
+      evaluatePolicy(file, ["npm", "test", "--", "-u"], ROOT)?.action,
+    ).toBe("allow");
+    expect(evaluatePolicy(file, ["npm", "install"], ROOT)).toBeUndefined();
+  });
+
+  it("prefers ask and deny over allow", () => {
+    expect(evaluatePolicy(file, ["git", "push", "origin"], ROOT)?.action).toBe(
+      "ask",
+    );
+    expect(evaluatePolicy(file, ["git", "status"], ROOT)?.action).toBe("allow");
+  });
+
+  it("denies writes to matching targets", () => {
+    const decision = evaluatePolicy(file, bash("git show HEAD > .env"), ROOT);
+    expect(decision?.action).toBe("deny");
+    expect(decision?.rule.reason).toBe("no secrets");
+
+    const patch =
+      "*** Begin Patch\n*** Add File: app/.env\n+X=1\n*** End Patch";
+    expect(evaluatePolicy(file, ["apply_patch", patch], ROOT)?.action).toBe(
+      "deny",
+    );
+  });
+
+  it("only allows compound commands when every segment is allowed", () => {
+    expect(
+      evaluatePolicy(file, bash("npm test && git status"), ROOT)?.action,
+    ).toBe("allow");
+    expect(
+      evaluatePolicy(file, bash("npm test && rm -rf build"), ROOT),
+    ).toBeUndefined();
+    expect(evaluatePolicy(file, bash("npm test; git push"), ROOT)?.action).toBe(
+      "ask",
+    );
+  });
+
+  it("resolves relative workdir globs against the project root", () => {
+    expect(evaluatePolicy(file, ["make"], `${ROOT}/packages/api`)?.action).toBe(
+      "allow",
+    );
+    expect(evaluatePolicy(file, ["make"], ROOT)).toBeUndefined();
+  });
+
+  it("only allows writes to the project and the writable roots", () => {
+    const cat = policy([{ action: "allow", program: "cat" }]);
+    expect(evaluatePolicy(cat, bash("cat a > b.txt"), ROOT)?.action).toBe(
+      "allow",
+    );
+    expect(
+      evaluatePolicy(cat, bash("cat a > ~/.bashrc"), ROOT),
+    ).toBeUndefined();
+    expect(
+      evaluatePolicy(cat, bash("cat a > /tmp/b.txt"), ROOT, ["/tmp"])?.action,
+    ).toBe("allow");
+  });
+
+  it("matches exact rules literally", () => {
+    const rm = policy([
+      { action: "allow", program: "rm", argv: ["-rf", "build"], exact: true },
+    ]);
+    expect(evaluatePolicy(rm, ["rm", "-rf", "build"], ROOT)?.action).toBe(
+      "allow",
+    );
+    expect(evaluatePolicy(rm, bash("rm -rf build"), ROOT)?.action).toBe(
+      "allow",
+    );
+    expect(
+      evaluatePolicy(rm, ["rm", "-rf", "build", "/"], ROOT),
+    ).toBeUndefined();
+    expect(evaluatePolicy(rm, ["./rm", "-rf", "build"], ROOT)).toBeUndefined();
+  });
+});
+
+describe("canAutoApprove() with a policy file", () => {
+  const file = policy([
+    { action: "deny", program: "rm" },
+    { action: "allow", program: "cargo", argv: ["build"] },
+  ]);
+  const check = (command: Array<string>, mode: "suggest" | "full-auto") =>
+    canAutoApprove(command, ROOT, mode, [], process.env, file);
+
+  it("evaluates rules before the built-in safe list and approval mode", () => {
+    expect(check(["cargo", "build"], "suggest")).toEqual({
+      type: "auto-approve",
+      reason: `Allowed by ${ROOT}/.codex/policy.yaml`,
+      group: "Project policy",
+      runInSandbox: false,
+    });
+    expect(check(["rm", "-rf", "target"], "full-auto").type).toBe("reject");
+    expect(check(["ls"], "suggest").type).toBe("auto-approve");
+  });
+
+  it("keeps allowed commands in the sandbox in full-auto mode", () => {
+    expect(check(["cargo", "build"], "full-auto")).toMatchObject({
+      type: "auto-approve",
+      runInSandbox: true,
+    });
+  });
+
+  it("always asks before the policy file is changed", () => {
+    const patch =
+      "*** Begin Patch\n*** Add File: .codex/policy.yaml\n+rules: []\n*** End Patch";
+    expect(check(["apply_patch", patch], "full-auto")).toMatchObject({
+      type: "always-ask",
+      applyPatch: { patch },
+    });
+    expect(
+      check(bash("echo '- {action: allow}' >> .codex/policy.yml"), "suggest")
+        .type,
+    ).toBe("always-ask");
+  });
+});
+
+describe("globToRegExp()", () => {
+  it("treats ** as crossing directories and * as a single segment", () => {
+    expect(globToRegExp("/a/**/b.txt").test("/a/b.txt")).toBe(true);
+    expect(globToRegExp("/a/**/b.txt").test("/a/x/y/b.txt")).toBe(true);
+    expect(globToRegExp("/a/*.txt").test("/a/x/b.txt")).toBe(false);
+  });
+});
+
+describe("policy file persistence", () => {
+  let dir: string;
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "codex-policy-"));
+    mkdirSync(join(dir, ".git"));
+  });
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("appends rules at the git root and reloads them", () => {
+    const sub = join(dir, "src");
+    mkdirSync(sub);
+    const rule = allowRuleForCommand(bash("npm run lint -- --fix"))!;
+    expect(rule).toEqual({
+      action: "allow",
+      program: "npm",
+      argv: ["run", "lint", "--", "--fix"],
+      exact: true,
+    });
+
+    const path = appendPolicyRule(rule, sub);
+    expect(path).toBe(join(dir, ".codex", "policy.yaml"));
+    expect(loadPolicyFile(sub).rules).toEqual([rule]);
+
+    appendPolicyRule({ action: "deny", program: "curl" }, sub);
+    expect(readFileSync(path, "utf-8")).toContain("program: curl");
+    expect(loadPolicyFile(dir).rules).toHaveLength(2);
+  });
+
+  it("skips invalid rules", () => {
+    mkdirSync(join(dir, ".codex"));
+    writeFileSync(
+      join(dir, ".codex", "policy.yaml"),
+      "rules:\n  - action: allow\n  - action: maybe\n    program: ls\n  - action: deny\n    program: rm\n",
+    );
+    expect(loadPolicyFile(dir).rules).toEqual([
+      { action: "deny", program: "rm" },
+    ]);
+  });
+});
@@ -1,4 +1,8 @@
-import { loadConfig, PROJECT_DOC_MAX_BYTES } from "../src/utils/config.js";
+import {
+  discoverProjectDocPaths,
+  loadConfig,
+  PROJECT_DOC_MAX_BYTES,
+} from "../src/utils/config.js";
 import { mkdirSync, rmSync, writeFileSync, mkdtempSync } from "fs";
 import { tmpdir } from "os";
 import { join } from "path";
@@ -54,4 +58,31 @@ describe("project doc integration", () => {
 
     warnSpy.mockRestore();
   });
+
+  test("docs from the git root down to cwd are merged in order", () => {
+    const pkg = join(projectDir, "packages", "web");
+    mkdirSync(pkg, { recursive: true });
+    writeFileSync(join(projectDir, "AGENTS.md"), "Use pnpm.");
+    writeFileSync(join(projectDir, "packages", "codex.md"), "Packages doc.");
+    writeFileSync(join(pkg, "AGENTS.md"), "Use React.");
+
+    expect(discoverProjectDocPaths(pkg)).toEqual([
+      join(projectDir, "AGENTS.md"),
+      join(projectDir, "packages", "codex.md"),
+      join(pkg, "AGENTS.md"),
+    ]);
+
+    const cfg = loadConfig(configPath, instructionsPath, { cwd: pkg });
+    const root = cfg.instructions.indexOf("## ../../AGENTS.md\n\nUse pnpm.");
+    const packages = cfg.instructions.indexOf(
+      "## ../codex.md\n\nPackages doc.",
+    );
+    const web = cfg.instructions.indexOf("## AGENTS.md\n\nUse React.");
+    expect(root).toBeGreaterThan(-1);
+    expect(packages).toBeGreaterThan(root);
+    expect(web).toBeGreaterThan(packages);
+    expect(cfg.projectDocs?.map((d) => d.path)).toEqual(
+      discoverProjectDocPaths(pkg),
+    );
+  });
 });
@@ -0,0 +1,90 @@
+import {
+  ProjectDocScope,
+  formatActiveProjectDocs,
+  formatNestedProjectDocs,
+} from "../src/utils/agent/project-docs.js";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+
+let root: string;
+
+beforeEach(() => {
+  root = mkdtempSync(join(tmpdir(), "codex-docs-"));
+  mkdirSync(join(root, "packages", "api", "src"), { recursive: true });
+  mkdirSync(join(root, "packages", "web"), { recursive: true });
+  writeFileSync(join(root, "AGENTS.md"), "Root rules.");
+  writeFileSync(join(root, "packages", "api", "AGENTS.md"), "API rules.");
+  writeFileSync(join(root, "packages", "api", "src", "AGENTS.md"), "Src.");
+});
+
+afterEach(() => {
+  rmSync(root, { recursive: true, force: true });
+});
+
+function scope(): ProjectDocScope {
+  return new ProjectDocScope(root, [
+    { path: join(root, "AGENTS.md"), content: "Root rules.", truncated: false },
+  ]);
+}
+
+describe("ProjectDocScope", () => {
+  it("activates the docs above an edited file once, outermost first", () => {
+    const docs = scope();
+    const edited = join(root, "packages", "api", "src", "server.ts");
+
+    expect(docs.discover([edited]).map((d) => d.content)).toEqual([
+      "API rules.",
+      "Src.",
+    ]);
+    expect(docs.discover([edited])).toEqual([]);
+    expect(docs.active().map((d) => d.reason)).toEqual([
+      "instructions",
+      "editing packages/api/src/server.ts",
+      "editing packages/api/src/server.ts",
+    ]);
+  });
+
+  it("ignores subtrees without docs and files outside the root", () => {
+    const docs = scope();
+    expect(
+      docs.discover([
+        join(root, "packages", "web", "index.ts"),
+        join(root, "README.md"),
+        join(tmpdir(), "elsewhere", "AGENTS.md"),
+      ]),
+    ).toEqual([]);
+  });
+});
+
+describe("formatting", () => {
+  it("introduces nested docs with the directory they apply to", () => {
+    const text = formatNestedProjectDocs(
+      [
+        {
+          path: join(root, "packages", "api", "AGENTS.md"),
+          content: "API rules.\n",
+          truncated: false,
+        },
+      ],
+      root,
+    );
+    expect(text).toBe(
+      "[Project doc packages/api/AGENTS.md applies to the files in packages/api/ and takes precedence over the general project docs there:]\nAPI rules.",
+    );
+  });
+
+  it("lists the active docs for /context", () => {
+    const docs = scope();
+    docs.discover([join(root, "packages", "api", "index.ts")]);
+    expect(formatActiveProjectDocs(docs.active(), root)).toBe(
+      [
+        "Active project docs, outermost first:",
+        "  AGENTS.md (11 bytes; in the instructions)",
+        "  packages/api/AGENTS.md (10 bytes; added when editing packages/api/index.ts)",
+      ].join("\n"),
+    );
+    expect(formatActiveProjectDocs(undefined, root)).toContain("disabled");
+  });
+});
@@ -0,0 +1,273 @@
+import type { AppConfig } from "../src/utils/config.js";
+import type { ResponseEvent } from "../src/utils/responses.js";
+import type { AddressInfo } from "net";
+
+import {
+  createResponseStream,
+  getProviderAdapter,
+} from "../src/utils/provider-adapters/adapter.js";
+import { anthropicAdapter } from "../src/utils/provider-adapters/anthropic.js";
+import { ollamaAdapter } from "../src/utils/provider-adapters/ollama.js";
+import { openAiChatAdapter } from "../src/utils/provider-adapters/openai-chat.js";
+import { createServer, type Server } from "http";
+import OpenAI from "openai";
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+
+/** Requests received by the stand-in server: path, headers and JSON body. */
+type Received = {
+  path: string;
+  headers: Record<string, unknown>;
+  body: Record<string, unknown>;
+};
+
+let server: Server;
+let baseURL: string;
+let received: Array<Received>;
+let replies: Array<Array<string>>;
+
+beforeEach(async () => {
+  received = [];
+  replies = [];
+  server = createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk: Buffer) => (body += chunk.toString()));
+    req.on("end", () => {
+      received.push({
+        path: req.url ?? "",
+        headers: req.headers,
+        body: JSON.parse(body) as Record<string, unknown>,
+      });
+      res.writeHead(200);
+      for (const line of replies.shift() ?? []) {
+        res.write(`${line}\n`);
+      }
+      res.end();
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+});
+
+afterEach(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+const config = (provider: string) =>
+  ({ model: "m", instructions: "", notify: false, provider }) as AppConfig;
+
+const TOOL = {
+  type: "function" as const,
+  name: "shell",
+  description: "Run a command",
+  parameters: { type: "object", properties: {} },
+  strict: false,
+};
+
+async function completed(
+  stream: AsyncIterable<ResponseEvent>,
+): Promise<Extract<ResponseEvent, { type: "response.completed" }>> {
+  let last: ResponseEvent | undefined;
+  for await (const event of stream) {
+    last = event;
+  }
+  expect(last?.type).toBe("response.completed");
+  return last as Extract<ResponseEvent, { type: "response.completed" }>;
+}
+
+describe("getProviderAdapter()", () => {
+  it("uses the adapter of the provider entry, chat completions otherwise", () => {
+    expect(getProviderAdapter("anthropic")).toBe(anthropicAdapter);
+    expect(getProviderAdapter("openrouter")).toBe(openAiChatAdapter);
+    expect(
+      getProviderAdapter("ollama", {
+        providers: {
+          ollama: {
+            name: "Ollama",
+            baseURL: "http://localhost:11434",
+            envKey: "OLLAMA_API_KEY",
+            defaultModel: "llama3",
+            adapter: "ollama",
+          },
+        },
+      }),
+    ).toBe(ollamaAdapter);
+  });
+});
+
+describe("ollama adapter", () => {
+  it("streams text and tool calls from /api/chat", async () => {
+    replies.push([
+      JSON.stringify({ model: "llama3", message: { content: "Let me " } }),
+      JSON.stringify({ message: { content: "look." } }),
+      JSON.stringify({
+        message: {
+          content: "",
+          tool_calls: [
+            { function: { name: "shell", arguments: { command: ["ls"] } } },
+          ],
+        },
+      }),
+      JSON.stringify({ done: true, prompt_eval_count: 12, eval_count: 5 }),
+    ]);
+    const client = new OpenAI({ apiKey: "dummy", baseURL });
+    const stream = await ollamaAdapter.createResponseStream(
+      client,
+      {
+        model: "llama3",
+        instructions: "Be brief.",
+        input: [{ role: "user", content: "list files" }],
+        tools: [TOOL],
+      },
+      config("ollama"),
+      new AbortController().signal,
+    );
+    const { response } = await completed(stream);
+
+    expect(received[0]!.path).toBe("/api/chat");
+    expect(received[0]!.body).toMatchObject({
+      model: "llama3",
+      stream: true,
+      messages: [
+        { role: "system", content: "Be brief." },
+        { role: "user", content: "list files" },
+      ],
+      tools: [{ type: "function", function: { name: "shell" } }],
+    });
+    expect(response.model).toBe("llama3");
+    expect(response.usage?.total_tokens).toBe(17);
+    expect(response.output).toMatchObject([
+      { type: "message", content: [{ text: "Let me look." }] },
+      {
+        type: "function_call",
+        name: "shell",
+        arguments: '{"command":["ls"]}',
+      },
+    ]);
+  });
+});
+
+describe("anthropic adapter", () => {
+  const sse = (event: Record<string, unknown>) => [
+    `event: ${String(event["type"])}`,
+    `data: ${JSON.stringify(event)}`,
+    "",
+  ];
+
+  it("streams tool_use blocks and continues with their results", async () => {
+    replies.push([
+      ...sse({
+        type: "message_start",
+        message: { model: "claude", usage: { input_tokens: 20 } },
+      }),
+      ...sse({
+        type: "content_block_start",
+        index: 0,
+        content_block: { type: "text", text: "" },
+      }),
+      ...sse({
+        type: "content_block_delta",
+        index: 0,
+        delta: { type: "text_delta", text: "Listing." },
+      }),
+      ...sse({ type: "content_block_stop", index: 0 }),
+      ...sse({
+        type: "content_block_start",
+        index: 1,
+        content_block: { type: "tool_use", id: "toolu_1", name: "shell" },
+      }),
+      ...sse({
+        type: "content_block_delta",
+        index: 1,
+        delta: { type: "input_json_delta", partial_json: '{"command":' },
+      }),
+      ...sse({
+        type: "content_block_delta",
+        index: 1,
+        delta: { type: "input_json_delta", partial_json: '["ls"]}' },
+      }),
+      ...sse({ type: "content_block_stop", index: 1 }),
+      ...sse({ type: "message_delta", usage: { output_tokens: 7 } }),
+      ...sse({ type: "message_stop" }),
+    ]);
+    replies.push([
+      ...sse({
+        type: "content_block_delta",
+        index: 0,
+        delta: { type: "text_delta", text: "Done." },
+      }),
+    ]);
+
+    const client = new OpenAI({ apiKey: "secret", baseURL });
+    const first = await completed(
+      await createResponseStream(
+        client,
+        {
+          model: "claude",
+          instructions: "Be brief.",
+          input: [{ role: "user", content: "list files" }],
+          tools: [TOOL],
+        },
+        config("anthropic"),
+      ),
+    );
+
+    expect(received[0]!.path).toBe("/v1/messages");
+    expect(received[0]!.headers["x-api-key"]).toBe("secret");
+    expect(received[0]!.body).toMatchObject({
+      system: "Be brief.",
+      messages: [
+        { role: "user", content: [{ type: "text", text: "list files" }] },
+      ],
+      tools: [{ name: "shell", input_schema: { type: "object" } }],
+    });
+    expect(first.response.usage?.total_tokens).toBe(27);
+    expect(first.response.output).toMatchObject([
+      { type: "message", content: [{ text: "Listing." }] },
+      {
+        type: "function_call",
+        call_id: "toolu_1",
+        arguments: '{"command":["ls"]}',
+      },
+    ]);
+
+    // The next request continues the conversation from the stored response.
+    await completed(
+      await createResponseStream(
+        client,
+        {
+          model: "claude",
+          previous_response_id: first.response.id,
+          input: [
+            {
+              type: "function_call_output",
+              call_id: "toolu_1",
+              output: "a.txt",
+            },
+          ],
+        },
+        config("anthropic"),
+      ),
+    );
+    expect(received[1]!.body["messages"]).toEqual([
+      { role: "user", content: [{ type: "text", text: "list files" }] },
+      {
+        role: "assistant",
+        content: [
+          { type: "text", text: "Listing." },
+          {
+            type: "tool_use",
+            id: "toolu_1",
+            name: "shell",
+            input: { command: ["ls"] },
+          },
+        ],
+      },
+      {
+        role: "user",
+        content: [
+          { type: "tool_result", tool_use_id: "toolu_1", content: "a.txt" },
+        ],
+      },
+    ]);
+  });
+});
@@ -0,0 +1,67 @@
+import type { SafetyAssessment } from "../src/approvals.js";
+import type { AppConfig } from "../src/utils/config.js";
+
+import { handleExecCommand } from "../src/utils/agent/handle-exec-command.js";
+import { ReviewDecision } from "../src/utils/agent/review.js";
+import { execInNamespaces } from "../src/utils/agent/sandbox/namespaces.js";
+import { existsSync, mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+// `unshare` fails, as it does where user namespaces are not available.
+vi.mock("child_process", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("child_process")>()),
+  execFile: (
+    _file: string,
+    _args: Array<string>,
+    callback: (error: Error, stdout: string, stderr: string) => void,
+  ) => callback(new Error("unshare: Operation not permitted"), "", ""),
+}));
+
+let dir: string;
+let config: AppConfig;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), "codex-no-namespaces-"));
+  writeFileSync(join(dir, ".env"), "DB_PASSWORD=hunter22");
+  config = {
+    model: "any",
+    instructions: "",
+    notify: false,
+    auditLog: { enabled: false },
+    readDenylist: ["**/.env"],
+  } as AppConfig;
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe.skipIf(process.platform !== "linux")("without user namespaces", () => {
+  it("asks before running a sandboxed command that could read denied paths", async () => {
+    const asked: Array<SafetyAssessment> = [];
+    const result = await handleExecCommand(
+      { cmd: ["touch", "out"], workdir: dir, timeoutInMillis: 10_000 },
+      config,
+      "full-auto",
+      [],
+      (assessment) => {
+        asked.push(assessment);
+        return Promise.resolve({ review: ReviewDecision.NO_CONTINUE });
+      },
+    );
+
+    expect(asked.map(({ type }) => type)).toEqual(["unsandboxed"]);
+    expect(result.outputText).toBe("aborted");
+    expect(existsSync(join(dir, "out"))).toBe(false);
+  });
+
+  it("does not run commands whose paths cannot be hidden", async () => {
+    await expect(
+      execInNamespaces(["true"], { cwd: dir }, config, {
+        hiddenPaths: [{ path: join(dir, ".env"), directory: false }],
+      }),
+    ).rejects.toThrow(/readDenylist/);
+  });
+});
@@ -0,0 +1,185 @@
+import type { AppConfig } from "../src/utils/config.js";
+
+import { canAutoApprove } from "../src/approvals.js";
+import { handleExecCommand } from "../src/utils/agent/handle-exec-command.js";
+import { ReviewDecision } from "../src/utils/agent/review.js";
+import { execInNamespaces } from "../src/utils/agent/sandbox/namespaces.js";
+import {
+  commandReadsDeniedPath,
+  findDeniedPaths,
+  isReadDenied,
+} from "../src/utils/read-denylist.js";
+import { spawnSync } from "child_process";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "fs";
+import { homedir, tmpdir } from "os";
+import { join } from "path";
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+
+const DENYLIST = ["~/.ssh", "secrets", "**/.env"];
+
+let dir: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), "codex-denylist-"));
+  mkdirSync(join(dir, "secrets"));
+  writeFileSync(join(dir, "secrets", "token"), "s3cr3t");
+  mkdirSync(join(dir, "app"));
+  writeFileSync(join(dir, "app", ".env"), "DB_PASSWORD=hunter22");
+  writeFileSync(join(dir, "app", "index.js"), "console.log(1)");
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe("isReadDenied()", () => {
+  it("matches paths, everything below them and globs", () => {
+    expect(isReadDenied("~/.ssh/id_rsa", dir, DENYLIST)).toBe(true);
+    expect(isReadDenied(join(homedir(), ".ssh"), dir, DENYLIST)).toBe(true);
+    expect(isReadDenied("secrets/token", dir, DENYLIST)).toBe(true);
+    expect(isReadDenied("app/.env", dir, DENYLIST)).toBe(true);
+    expect(isReadDenied("/elsewhere/.env", dir, DENYLIST)).toBe(true);
+    expect(isReadDenied("app/.env.example", dir, DENYLIST)).toBe(false);
+    expect(isReadDenied("app/index.js", dir, DENYLIST)).toBe(false);
+  });
+});
+
+describe("commandReadsDeniedPath()", () => {
+  it("finds denied paths in arguments and shell expressions", () => {
+    expect(commandReadsDeniedPath(["cat", "app/.env"], dir, DENYLIST)).toBe(
+      "app/.env",
+    );
+    expect(
+      commandReadsDeniedPath(
+        ["bash", "-lc", "ls && head -n 5 < secrets/token"],
+        dir,
+        DENYLIST,
+      ),
+    ).toBe("secrets/token");
+    expect(
+      commandReadsDeniedPath(["cat", "app/index.js"], dir, DENYLIST),
+    ).toBeNull();
+  });
+
+  it("treats recursive searches as reading the whole directory", () => {
+    expect(
+      commandReadsDeniedPath(["grep", "-rn", "PASSWORD", "app"], dir, DENYLIST),
+    ).toBe(join(dir, "app", ".env"));
+    expect(commandReadsDeniedPath(["rg", "PASSWORD"], dir, DENYLIST)).not.toBe(
+      null,
+    );
+    expect(
+      commandReadsDeniedPath(
+        ["grep", "PASSWORD", "app/index.js"],
+        dir,
+        DENYLIST,
+      ),
+    ).toBeNull();
+  });
+});
+
+describe("canAutoApprove()", () => {
+  it("asks before running safe read commands on denied paths", () => {
+    const check = (command: Array<string>) =>
+      canAutoApprove(
+        command,
+        dir,
+        "suggest",
+        [],
+        process.env,
+        { root: dir, path: "", rules: [] },
+        DENYLIST,
+      ).type;
+
+    expect(check(["cat", "app/index.js"])).toBe("auto-approve");
+    expect(check(["cat", "app/.env"])).toBe("always-ask");
+    expect(check(["bash", "-lc", "cat ~/.ssh/id_rsa | head"])).toBe(
+      "always-ask",
+    );
+  });
+
+  it("asks whatever the approval policy and project rules say", () => {
+    const allowCat = {
+      root: dir,
+      path: "",
+      rules: [{ action: "allow" as const, program: "cat" }],
+    };
+    const check = (policy: "none" | "full-auto" | "suggest", rules = false) =>
+      canAutoApprove(
+        ["cat", "~/.ssh/id_rsa"],
+        dir,
+        policy,
+        [],
+        process.env,
+        rules ? allowCat : { root: dir, path: "", rules: [] },
+        DENYLIST,
+      ).type;
+
+    expect(check("none")).toBe("always-ask");
+    expect(check("full-auto")).toBe("always-ask");
+    expect(check("suggest", true)).toBe("always-ask");
+  });
+});
+
+describe("handleExecCommand()", () => {
+  it("asks again for an always-approved command reading a denied path", async () => {
+    const config = {
+      model: "any",
+      instructions: "",
+      notify: false,
+      auditLog: { enabled: false },
+      readDenylist: DENYLIST,
+    } as AppConfig;
+    const asked: Array<Array<string>> = [];
+    const run = (cmd: Array<string>) =>
+      handleExecCommand(
+        { cmd, workdir: dir, timeoutInMillis: 10_000 },
+        config,
+        "suggest",
+        [],
+        (_assessment, command) => {
+          asked.push(command);
+          return Promise.resolve({ review: ReviewDecision.ALWAYS });
+        },
+      );
+
+    await run(["sh", "-lc", "cp app/index.js copy.js"]);
+    await run(["sh", "-lc", "cp app/index.js again.js"]);
+    await run(["sh", "-lc", "cp app/.env leak"]);
+
+    expect(asked).toEqual([
+      ["sh", "-lc", "cp app/index.js copy.js"],
+      ["sh", "-lc", "cp app/.env leak"],
+    ]);
+  });
+});
+
+describe("findDeniedPaths()", () => {
+  it("expands globs below the roots and skips the project itself", () => {
+    const found = findDeniedPaths([...DENYLIST, dir], [dir], dir);
+    expect(found).toEqual(
+      expect.arrayContaining([
+        { path: join(dir, "secrets"), directory: true },
+        { path: join(dir, "app", ".env"), directory: false },
+      ]),
+    );
+    expect(found.map(({ path }) => path)).not.toContain(dir);
+  });
+});
+
+const namespacesSupported =
+  process.platform === "linux" &&
+  spawnSync("unshare", ["--user", "--map-root-user", "--mount", "true"])
+    .status === 0;
+
+describe.skipIf(!namespacesSupported)("hidden paths", () => {
+  it("are empty inside the namespace", async () => {
+    const result = await execInNamespaces(
+      ["sh", "-c", "cat app/.env; ls secrets; echo done"],
+      { cwd: dir },
+      { model: "any", instructions: "", notify: false } as AppConfig,
+      { hiddenPaths: findDeniedPaths(DENYLIST, [dir], dir) },
+    );
+    expect(result).toMatchObject({ exitCode: 0, stdout: "done\n" });
+  });
+});
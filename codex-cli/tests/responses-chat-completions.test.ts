@@ -1,5 +1,6 @@
 import { describe, it, expect, vi, afterEach, beforeEach } from "vitest";
 import type { OpenAI } from "openai";
+import type { AppConfig } from "../src/utils/config";
 import type {
   ResponseCreateInput,
   ResponseEvent,
@@ -812,4 +813,52 @@ describe("responsesCreateViaChatCompletions", () => {
       }
     });
   });
+
+  describe("stream_options", () => {
+    async function streamOptionsFor(provider: string) {
+      async function* emptyStream() {
+        // no chunks
+      }
+      const createStream = vi.fn((_params: { stream_options?: unknown }) =>
+        emptyStream(),
+      );
+      openAiState.createStreamSpy = createStream;
+      const openaiClient = new (await import("openai")).default({
+        apiKey: "test-key",
+      }) as unknown as OpenAI;
+
+      const { responsesCreateViaChatCompletions } = await import(
+        "../src/utils/responses"
+      );
+      const stream = await responsesCreateViaChatCompletions(
+        openaiClient,
+        createTestInput({
+          model: "any",
+          userMessage: "hi",
+          stream: true,
+        }) as unknown as ResponseCreateParamsStreaming & { stream: true },
+        {
+          model: "any",
+          instructions: "",
+          apiKey: "test-key",
+          provider,
+        } as AppConfig,
+      );
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      for await (const _event of stream) {
+        // drain
+      }
+      return createStream.mock.calls[0]![0].stream_options;
+    }
+
+    it("asks providers that support it to report the usage", async () => {
+      expect(await streamOptionsFor("openai")).toEqual({
+        include_usage: true,
+      });
+    });
+
+    it("is not sent to other providers", async () => {
+      expect(await streamOptionsFor("mistral")).toBeUndefined();
+    });
+  });
 });
@@ -0,0 +1,110 @@
+import type { AppConfig } from "../src/utils/config.js";
+import type { AddressInfo } from "net";
+
+import { execInNamespaces } from "../src/utils/agent/sandbox/namespaces.js";
+import {
+  isEgressAllowed,
+  parseEgressRule,
+} from "../src/utils/agent/sandbox/network.js";
+import { spawnSync } from "child_process";
+import { createServer, type Server } from "http";
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+
+const netnsSupported =
+  process.platform === "linux" &&
+  spawnSync("unshare", ["--user", "--map-root-user", "--net", "true"])
+    .status === 0;
+
+describe("egress rules", () => {
+  it("parses host and host:port entries", () => {
+    expect(parseEgressRule("registry.npmjs.org")).toEqual({
+      host: "registry.npmjs.org",
+    });
+    expect(parseEgressRule("localhost:4873")).toEqual({
+      host: "localhost",
+      port: 4873,
+    });
+    expect(parseEgressRule("[::1]:8080")).toEqual({ host: "::1", port: 8080 });
+    expect(() => parseEgressRule("localhost")).toThrow(/need a port/);
+    expect(() => parseEgressRule("example.com:99999")).toThrow(/Invalid/);
+  });
+
+  it("matches hosts, wildcards, ports and loopback aliases", () => {
+    const rules = ["*.example.com", "pypi.org:443", "localhost:4873"].map(
+      parseEgressRule,
+    );
+    expect(isEgressAllowed("files.example.com", 80, rules)).toBe(true);
+    expect(isEgressAllowed("example.org", 80, rules)).toBe(false);
+    expect(isEgressAllowed("pypi.org", 443, rules)).toBe(true);
+    expect(isEgressAllowed("pypi.org", 80, rules)).toBe(false);
+    expect(isEgressAllowed("127.0.0.1", 4873, rules)).toBe(true);
+    expect(isEgressAllowed("127.0.0.1", 4874, rules)).toBe(false);
+  });
+});
+
+describe.skipIf(!netnsSupported)(
+  "execInNamespaces() with network isolation",
+  () => {
+    let server: Server;
+    let port: number;
+
+    beforeAll(async () => {
+      server = createServer((_req, res) => res.end("mirror"));
+      await new Promise<void>((resolve) =>
+        server.listen(0, "127.0.0.1", resolve),
+      );
+      port = (server.address() as AddressInfo).port;
+    });
+
+    afterAll(async () => {
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    const config = {
+      model: "any",
+      instructions: "",
+      notify: false,
+    } as AppConfig;
+
+    const run = (cmd: Array<string>, allow: Array<string> = []) =>
+      execInNamespaces(cmd, {}, config, {
+        network: { allow: allow.map(parseEgressRule) },
+      });
+
+    // Fetches http://127.0.0.1:<port>/ and prints the body.
+    const fetchLocal = () => [
+      process.execPath,
+      "-e",
+      `require("http").get("http://127.0.0.1:${port}/", (res) => res.pipe(process.stdout)).on("error", (e) => { console.error(e.code); process.exit(1); });`,
+    ];
+
+    it("cuts the command off from the network", async () => {
+      const result = await run(fetchLocal());
+      expect(result.exitCode).toBe(1);
+      expect(result.stderr).toContain("ECONNREFUSED");
+    });
+
+    it("forwards allowed loopback ports", async () => {
+      const result = await run(fetchLocal(), [`localhost:${port}`]);
+      expect(result).toMatchObject({ exitCode: 0, stdout: "mirror" });
+    });
+
+    it("only lets allowed hosts through the proxy", async () => {
+      // Sends an absolute-form request to the proxy from HTTP_PROXY.
+      const viaProxy = (target: string) => [
+        process.execPath,
+        "-e",
+        `const p = new URL(process.env.HTTP_PROXY); require("http").get({ host: p.hostname, port: p.port, path: "${target}" }, (res) => { console.log(res.statusCode); res.resume(); });`,
+      ];
+      const allowed = await run(viaProxy(`http://127.0.0.1:${port}/`), [
+        `127.0.0.1:${port}`,
+      ]);
+      expect(allowed.stdout.trim()).toBe("200");
+
+      const denied = await run(viaProxy("http://example.com/"), [
+        `127.0.0.1:${port}`,
+      ]);
+      expect(denied.stdout.trim()).toBe("403");
+    });
+  },
+);
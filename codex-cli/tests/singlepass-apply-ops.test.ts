@@ -0,0 +1,129 @@
+import { CheckpointStore } from "../src/utils/agent/checkpoints.js";
+import {
+  applyFileOps,
+  applyOpsToContents,
+} from "../src/utils/singlepass/apply_ops.js";
+import {
+  generateFileOpDiff,
+  generateUnifiedPatch,
+} from "../src/utils/singlepass/code_diff.js";
+import { spawnSync } from "child_process";
+import {
+  existsSync,
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+
+let root: string;
+
+beforeEach(() => {
+  root = mkdtempSync(join(tmpdir(), "codex-singlepass-"));
+});
+
+afterEach(() => {
+  rmSync(root, { recursive: true, force: true });
+});
+
+describe("applyOpsToContents", () => {
+  it("updates, deletes and moves files in memory", () => {
+    const contents = { "/r/a.ts": "a\n", "/r/b.ts": "b\n", "/r/c.ts": "c\n" };
+    expect(
+      applyOpsToContents(contents, [
+        { path: "/r/a.ts", updated_full_content: "A\n" },
+        { path: "/r/b.ts", delete: true },
+        { path: "/r/c.ts", move_to: "/r/lib/c.ts" },
+        { path: "/r/d.ts", updated_full_content: "d\n" },
+      ]),
+    ).toEqual({ "/r/a.ts": "A\n", "/r/lib/c.ts": "c\n", "/r/d.ts": "d\n" });
+    expect(contents["/r/b.ts"]).toBe("b\n");
+  });
+});
+
+describe("generateFileOpDiff", () => {
+  it("returns null for an update that changes nothing", () => {
+    const op = { path: "/r/a.ts", updated_full_content: "a\n" };
+    expect(generateFileOpDiff(op, { "/r/a.ts": "a\n" })).toBeNull();
+  });
+});
+
+describe("applyFileOps", () => {
+  it("writes the operations and records a checkpoint that undoes them", async () => {
+    const a = join(root, "a.txt");
+    const b = join(root, "b.txt");
+    writeFileSync(a, "old a\n");
+    writeFileSync(b, "b\n");
+    const checkpoints = new CheckpointStore();
+
+    const { checkpoint, failed } = await applyFileOps(
+      [
+        { path: a, updated_full_content: "new a\n" },
+        { path: b, move_to: join(root, "sub", "b.txt") },
+      ],
+      "full context: rename b",
+      checkpoints,
+    );
+
+    expect(failed).toEqual([]);
+    expect(checkpoint?.description).toBe("full context: rename b");
+    expect(readFileSync(a, "utf-8")).toBe("new a\n");
+    // A move without new content keeps the file's content.
+    expect(readFileSync(join(root, "sub", "b.txt"), "utf-8")).toBe("b\n");
+    expect(existsSync(b)).toBe(false);
+
+    checkpoints.undo();
+    expect(readFileSync(a, "utf-8")).toBe("old a\n");
+    expect(readFileSync(b, "utf-8")).toBe("b\n");
+    expect(existsSync(join(root, "sub", "b.txt"))).toBe(false);
+  });
+
+  it("reports operations that fail and applies the others", async () => {
+    const a = join(root, "a.txt");
+    const { failed } = await applyFileOps(
+      [
+        { path: join(root, "missing.txt"), move_to: join(root, "moved.txt") },
+        { path: a, updated_full_content: "a\n" },
+      ],
+      "full context: test",
+      new CheckpointStore(),
+    );
+
+    expect(failed.map((f) => f.path)).toEqual([join(root, "missing.txt")]);
+    expect(readFileSync(a, "utf-8")).toBe("a\n");
+  });
+});
+
+describe("generateUnifiedPatch", () => {
+  it("produces a patch that git applies to the original tree", () => {
+    const original = {
+      [join(root, "a.txt")]: "one\ntwo\nthree\n",
+      [join(root, "gone.txt")]: "bye\n",
+    };
+    writeFileSync(join(root, "a.txt"), original[join(root, "a.txt")]!);
+    writeFileSync(join(root, "gone.txt"), "bye\n");
+    const updated = applyOpsToContents(original, [
+      { path: join(root, "a.txt"), updated_full_content: "one\n2\nthree\n" },
+      { path: join(root, "gone.txt"), delete: true },
+      { path: join(root, "src", "new.txt"), updated_full_content: "hi\n" },
+    ]);
+
+    const patch = generateUnifiedPatch(original, updated, root);
+    expect(patch).toContain("--- a/a.txt\n+++ b/a.txt\n");
+    expect(patch).toContain("--- /dev/null\n+++ b/src/new.txt\n");
+    expect(patch).toContain("--- a/gone.txt\n+++ /dev/null\n");
+
+    writeFileSync(join(root, "changes.patch"), patch);
+    const result = spawnSync("git", ["apply", "changes.patch"], {
+      cwd: root,
+      encoding: "utf-8",
+    });
+    expect(result.stderr).toBe("");
+    expect(readFileSync(join(root, "a.txt"), "utf-8")).toBe("one\n2\nthree\n");
+    expect(readFileSync(join(root, "src", "new.txt"), "utf-8")).toBe("hi\n");
+    expect(existsSync(join(root, "gone.txt"))).toBe(false);
+  });
+});
@@ -0,0 +1,148 @@
+import {
+  contextBudgetForModel,
+  getRecentChanges,
+  promptTerms,
+  selectContext,
+} from "../src/utils/singlepass/context_selection.js";
+import { execFileSync } from "child_process";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { describe, it, expect } from "vitest";
+
+const root = "/repo";
+
+function file(relative: string, content: string) {
+  return { path: join(root, relative), content };
+}
+
+const files = [
+  file("src/parser.ts", "export function parseConfig() {}\n"),
+  file("src/loader.ts", 'import { parseConfig } from "./parser.js";\n'),
+  file("src/cli.ts", 'import { load } from "./loader";\nparseConfig();\n'),
+  file("docs/guide.md", "How to write a config file.\n"),
+  file("assets/big.txt", "x".repeat(4000)),
+];
+
+function paths(list: Array<{ path: string }>): Array<string> {
+  return list.map((f) => f.path.slice(root.length + 1));
+}
+
+describe("promptTerms", () => {
+  it("finds words and identifiers", () => {
+    const { words, symbols } = promptTerms(
+      "Make `loadConfig` handle missing_files in the parser",
+    );
+    expect(symbols).toEqual(["loadConfig", "missing_files"]);
+    expect(words).toEqual(
+      expect.arrayContaining(["load", "config", "handle", "missing", "parser"]),
+    );
+    expect(words).not.toContain("the");
+  });
+});
+
+describe("selectContext", () => {
+  it("includes everything that fits, most relevant first", () => {
+    const selection = selectContext(files, {
+      prompt: "rename parseConfig",
+      rootPath: root,
+      budgetTokens: 100_000,
+    });
+    expect(selection.excluded).toEqual([]);
+    expect(paths(selection.included)[0]).toBe("src/parser.ts");
+    expect(selection.included[0]!.reasons).toContain("defines `parseConfig`");
+  });
+
+  it("packs the most relevant files into the budget", () => {
+    const selection = selectContext(files, {
+      prompt: "fix the parser",
+      rootPath: root,
+      budgetTokens: 30,
+    });
+    expect(paths(selection.included)).toContain("src/parser.ts");
+    expect(paths(selection.excluded)).toContain("assets/big.txt");
+    expect(selection.usedTokens).toBeLessThanOrEqual(30);
+  });
+
+  it("follows imports of the most relevant files", () => {
+    const selection = selectContext(files, {
+      prompt: "change the loader",
+      rootPath: root,
+      budgetTokens: 100_000,
+    });
+    const parser = selection.included.find((f) =>
+      f.path.endsWith("parser.ts"),
+    )!;
+    const cli = selection.included.find((f) => f.path.endsWith("cli.ts"))!;
+    expect(parser.reasons).toContain("imported by src/loader.ts");
+    expect(cli.reasons).toContain("imports src/loader.ts");
+  });
+
+  it("ranks recently changed files higher", () => {
+    const selection = selectContext(files, {
+      prompt: "tidy up",
+      rootPath: root,
+      budgetTokens: 100_000,
+      recentChanges: {
+        uncommitted: [join(root, "docs/guide.md")],
+        committed: [],
+      },
+    });
+    expect(paths(selection.included)[0]).toBe("docs/guide.md");
+  });
+
+  it("always includes pinned files", () => {
+    const selection = selectContext(files, {
+      prompt: "fix the parser",
+      rootPath: root,
+      budgetTokens: 30,
+      pins: [join(root, "assets")],
+    });
+    expect(paths(selection.included)[0]).toBe("assets/big.txt");
+    expect(selection.included[0]!.pinned).toBe(true);
+  });
+});
+
+describe("contextBudgetForModel", () => {
+  it("leaves room in the model's window for the response", () => {
+    expect(contextBudgetForModel("o4-mini")).toBe(120_000);
+  });
+});
+
+describe("getRecentChanges", () => {
+  it("lists uncommitted and recently committed files", () => {
+    const dir = mkdtempSync(join(tmpdir(), "codex-recent-"));
+    try {
+      const git = (...args: Array<string>) =>
+        execFileSync("git", args, { cwd: dir, stdio: "ignore" });
+      git("init", "-q");
+      writeFileSync(join(dir, "a.txt"), "a\n");
+      git("add", "a.txt");
+      git(
+        "-c",
+        "user.name=test",
+        "-c",
+        "user.email=test@example.com",
+        "commit",
+        "-qm",
+        "add a",
+      );
+      writeFileSync(join(dir, "b.txt"), "b\n");
+
+      const changes = getRecentChanges(dir);
+      expect(changes.committed).toEqual([join(dir, "a.txt")]);
+      expect(changes.uncommitted).toEqual([join(dir, "b.txt")]);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("returns nothing outside a git repository", () => {
+    const dir = mkdtempSync(join(tmpdir(), "codex-recent-"));
+    try {
+      expect(getRecentChanges(dir)).toEqual({ uncommitted: [], committed: [] });
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
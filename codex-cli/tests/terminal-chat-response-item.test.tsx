@@ -1,3 +1,5 @@
+import type { ResponseFunctionToolCallItem } from "openai/resources/responses/responses.mjs";
+
 import { renderTui } from "./ui-test-helpers.js";
 import TerminalChatResponseItem from "../src/components/chat/terminal-chat-response-item.js";
 import React from "react";
@@ -62,4 +64,22 @@ describe("TerminalChatResponseItem", () => {
     expect(frame.toLowerCase()).toContain("codex");
     expect(frame).toContain("Sure thing");
   });
+
+  it("renders a non-shell tool call with its name and arguments", () => {
+    const toolCall: ResponseFunctionToolCallItem = {
+      type: "function_call",
+      id: "fc_1",
+      name: "github__search_issues",
+      call_id: "call_1",
+      arguments: '{"query":"bug"}',
+    };
+    const { lastFrameStripped } = renderTui(
+      <TerminalChatResponseItem item={toolCall} fileOpener={undefined} />,
+    );
+
+    const frame = lastFrameStripped();
+    expect(frame).toContain("tool");
+    expect(frame).toContain("github__search_issues");
+    expect(frame).toContain('{"query":"bug"}');
+  });
 });
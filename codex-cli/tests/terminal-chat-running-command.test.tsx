@@ -0,0 +1,53 @@
+import { renderTui } from "./ui-test-helpers.js";
+import TerminalChatRunningCommand, {
+  CommandOutputTail,
+} from "../src/components/chat/terminal-chat-running-command.js";
+import React from "react";
+import { describe, it, expect } from "vitest";
+
+describe("CommandOutputTail", () => {
+  it("keeps the last lines", () => {
+    const tail = new CommandOutputTail(3);
+    for (let i = 1; i <= 10; i++) {
+      tail.push(`line ${i}\n`);
+    }
+    expect(tail.lines()).toEqual(["line 8", "line 9", "line 10"]);
+  });
+
+  it("joins lines split across chunks", () => {
+    const tail = new CommandOutputTail(3);
+    tail.push("comp");
+    tail.push("iling\nlin");
+    expect(tail.lines()).toEqual(["compiling", "lin"]);
+  });
+
+  it("shows what is left after carriage returns and colors", () => {
+    const tail = new CommandOutputTail(3);
+    tail.push("\x1b[32mok\x1b[0m\r\n");
+    tail.push("10%\r50%\r100%");
+    expect(tail.lines()).toEqual(["ok", "100%"]);
+  });
+});
+
+describe("TerminalChatRunningCommand", () => {
+  it("renders the command, its output and the elapsed time", () => {
+    const output = new CommandOutputTail();
+    output.push("PASS tests/a.test.ts\n");
+    const { lastFrameStripped } = renderTui(
+      <TerminalChatRunningCommand
+        running={{
+          callId: "call_1",
+          command: ["npm", "test"],
+          startedAt: Date.now() - 3_000,
+          output,
+        }}
+      />,
+    );
+
+    const frame = lastFrameStripped();
+    expect(frame).toContain("$ npm test");
+    expect(frame).toContain("PASS tests/a.test.ts");
+    expect(frame).toContain("Running for 3s");
+    expect(frame).toContain("ctrl+c to stop this command");
+  });
+});
@@ -0,0 +1,51 @@
+import { TerminalScreen } from "../src/utils/terminal-screen.js";
+import { describe, it, expect } from "vitest";
+
+describe("TerminalScreen", () => {
+  it("overwrites a line after a carriage return", () => {
+    const screen = new TerminalScreen(20, 4);
+    screen.write("progress 10%\rprogress 100%\r\ndone\r\n");
+    expect(screen.text()).toBe("progress 100%\ndone");
+  });
+
+  it("moves the cursor and erases", () => {
+    const screen = new TerminalScreen(20, 4);
+    screen.write("aaaa\r\nbbbb\r\ncccc");
+    screen.write("\x1b[2;3H\x1b[K"); // row 2, column 3, erase to the end
+    screen.write("\x1b[1;1HX");
+    expect(screen.lines()).toEqual(["Xaaa", "bb", "cccc", ""]);
+    expect(screen.cursor()).toEqual({ row: 0, col: 1 });
+
+    screen.write("\x1b[2J");
+    expect(screen.text()).toBe("");
+  });
+
+  it("scrolls when output reaches the bottom", () => {
+    const screen = new TerminalScreen(10, 3);
+    screen.write("1\r\n2\r\n3\r\n4");
+    expect(screen.lines()).toEqual(["2", "3", "4"]);
+  });
+
+  it("wraps long lines", () => {
+    const screen = new TerminalScreen(4, 3);
+    screen.write("abcdefg");
+    expect(screen.lines()).toEqual(["abcd", "efg", ""]);
+  });
+
+  it("restores the main screen after the alternate screen", () => {
+    const screen = new TerminalScreen(20, 3);
+    screen.write("$ vim\r\n");
+    screen.write("\x1b[?1049h\x1b[Hediting");
+    expect(screen.text()).toBe("editing");
+    screen.write("\x1b[?1049l");
+    expect(screen.text()).toBe("$ vim");
+  });
+
+  it("handles escape sequences split across writes and drops colors", () => {
+    const screen = new TerminalScreen(20, 3);
+    screen.write("\x1b[3");
+    screen.write("1mred\x1b");
+    screen.write("[0m \x1b]0;title\x07ok");
+    expect(screen.text()).toBe("red ok");
+  });
+});
@@ -0,0 +1,218 @@
+import type { ResponseItem } from "openai/resources/responses/responses.mjs";
+
+import {
+  approximateChatMessagesTokens,
+  approximateTextTokens,
+  approximateTokensUsed,
+} from "../src/utils/approximate-tokens-used.js";
+import { pricingForModel } from "../src/utils/model-info.js";
+import {
+  SessionUsageTracker,
+  estimateCost,
+  formatUsage,
+  tokenUsageFromResponse,
+  totalUsage,
+} from "../src/utils/token-usage.js";
+import { describe, it, expect } from "vitest";
+
+function usage(input: number, output: number, cached = 0, reasoning = 0) {
+  return {
+    input_tokens: input,
+    input_tokens_details: { cached_tokens: cached },
+    output_tokens: output,
+    output_tokens_details: { reasoning_tokens: reasoning },
+    total_tokens: input + output,
+  };
+}
+
+describe("approximateTextTokens", () => {
+  it("counts common words as single tokens", () => {
+    expect(approximateTextTokens("hello world")).toBe(2);
+    expect(approximateTextTokens("const x = 1;")).toBe(6);
+  });
+
+  it("splits long pieces at ~4 characters per token", () => {
+    expect(approximateTextTokens("a".repeat(400))).toBe(100);
+  });
+
+  it("uses the tokenizer of OpenAI models", () => {
+    expect(approximateTextTokens("internationalization", "gpt-4.1")).toBe(2);
+    expect(approximateTextTokens("a".repeat(400), "o4-mini")).toBe(50);
+    expect(approximateTextTokens("a".repeat(400), "gpt-4")).toBe(50);
+  });
+
+  it("falls back to the estimate for other models", () => {
+    expect(approximateTextTokens("internationalization", "llama3")).toBe(5);
+  });
+});
+
+describe("approximateTokensUsed", () => {
+  it("counts images and function call arguments", () => {
+    const withImage = {
+      type: "message",
+      role: "user",
+      content: [
+        { type: "input_text", text: "what is this" },
+        { type: "input_image", image_url: "data:", detail: "auto" },
+      ],
+    } as ResponseItem;
+    const call = {
+      type: "function_call",
+      call_id: "c1",
+      name: "shell",
+      arguments: JSON.stringify({ command: ["ls", "-la"] }),
+    } as ResponseItem;
+
+    expect(approximateTokensUsed([withImage])).toBeGreaterThan(765);
+    expect(approximateTokensUsed([call])).toBeGreaterThan(
+      approximateTextTokens("shell"),
+    );
+  });
+});
+
+describe("approximateChatMessagesTokens", () => {
+  it("counts message content and tool calls", () => {
+    const tokens = approximateChatMessagesTokens([
+      { role: "user", content: "hello world" },
+      {
+        role: "assistant",
+        content: null,
+        tool_calls: [
+          {
+            id: "c1",
+            type: "function",
+            function: { name: "shell", arguments: '{"command":["ls"]}' },
+          },
+        ],
+      },
+    ]);
+    expect(tokens).toBeGreaterThan(approximateTextTokens("hello world"));
+  });
+});
+
+describe("estimateCost", () => {
+  it("prices cached input at the cached rate", () => {
+    expect(
+      estimateCost("gpt-4.1", tokenUsageFromResponse(usage(1_000_000, 0))),
+    ).toBeCloseTo(2);
+    expect(
+      estimateCost("gpt-4.1", {
+        input_tokens: 1_000_000,
+        cached_input_tokens: 1_000_000,
+        output_tokens: 1_000_000,
+        reasoning_output_tokens: 0,
+        total_tokens: 2_000_000,
+      }),
+    ).toBeCloseTo(8.5);
+  });
+
+  it("uses the price of the alias for dated snapshots", () => {
+    expect(pricingForModel("o4-mini-2025-04-16")).toEqual(
+      pricingForModel("o4-mini"),
+    );
+  });
+
+  it("returns undefined for models without a known price", () => {
+    expect(
+      estimateCost("llama3", tokenUsageFromResponse(usage(1000, 1000))),
+    ).toBeUndefined();
+  });
+});
+
+describe("SessionUsageTracker", () => {
+  it("groups the responses of a run into one turn", () => {
+    const tracker = new SessionUsageTracker();
+    tracker.startTurn();
+    tracker.record("o4-mini", usage(1000, 100, 500, 50));
+    tracker.record("o4-mini", usage(2000, 200));
+    tracker.startTurn();
+    tracker.record("o4-mini", usage(3000, 300));
+
+    const { turns } = tracker.snapshot();
+    expect(turns).toHaveLength(2);
+    expect(turns[0]).toMatchObject({
+      model: "o4-mini",
+      requests: 2,
+      input_tokens: 3000,
+      cached_input_tokens: 500,
+      output_tokens: 300,
+      reasoning_output_tokens: 50,
+    });
+    expect(turns[0]!.cost_usd).toBeCloseTo(
+      (2500 * 1.1 + 500 * 0.275 + 300 * 4.4) / 1_000_000,
+    );
+    expect(totalUsage(turns).input_tokens).toBe(6000);
+  });
+
+  it("does not add a turn before any usage is recorded", () => {
+    const tracker = new SessionUsageTracker();
+    tracker.startTurn();
+    expect(tracker.snapshot().turns).toEqual([]);
+  });
+
+  it("continues the usage of a resumed session", () => {
+    const first = new SessionUsageTracker();
+    first.startTurn();
+    first.record("gpt-4.1", usage(100, 10));
+
+    const resumed = new SessionUsageTracker(first.snapshot());
+    resumed.startTurn();
+    resumed.record("llama3", { ...usage(50, 5), estimated: true });
+
+    const totals = totalUsage(resumed.snapshot().turns);
+    expect(totals.input_tokens).toBe(150);
+    expect(totals.estimated).toBe(true);
+    // Only the turn with a known price contributes to the cost.
+    expect(totals.cost_usd).toBeCloseTo((100 * 2 + 10 * 8) / 1_000_000);
+  });
+});
+
+describe("formatUsage", () => {
+  it("shows cached and reasoning tokens and the cost", () => {
+    expect(
+      formatUsage({
+        input_tokens: 12_345,
+        cached_input_tokens: 8000,
+        output_tokens: 1200,
+        reasoning_output_tokens: 512,
+        total_tokens: 13_545,
+        cost_usd: 0.0314,
+      }),
+    ).toBe("12.3k in (8.0k cached) · 1.2k out (512 reasoning) · ~$0.03");
+  });
+
+  it("marks estimated counts", () => {
+    expect(
+      formatUsage({
+        input_tokens: 10,
+        cached_input_tokens: 0,
+        output_tokens: 2,
+        reasoning_output_tokens: 0,
+        total_tokens: 12,
+        estimated: true,
+        cost_usd: 0.00002,
+      }),
+    ).toBe("~10 in · ~2 out · ~$0.0000 (estimated)");
+  });
+
+  it("labels models without a known price", () => {
+    const turns = [
+      {
+        ...tokenUsageFromResponse(usage(1000, 100)),
+        model: "llama3",
+        requests: 1,
+      },
+    ];
+    expect(formatUsage(turns[0]!)).toBe("1.0k in · 100 out · cost unknown");
+    expect(formatUsage(totalUsage(turns))).toBe(
+      "1.0k in · 100 out · cost unknown",
+    );
+
+    const tracker = new SessionUsageTracker({ turns });
+    tracker.startTurn();
+    tracker.record("gpt-4.1", usage(1000, 100));
+    expect(formatUsage(totalUsage(tracker.snapshot().turns))).toBe(
+      "2.0k in · 200 out · ~$0.0028 + unknown",
+    );
+  });
+});
@@ -0,0 +1,154 @@
+import type {
+  AgentTool,
+  ToolContext,
+} from "../src/utils/agent/tool-registry.js";
+
+import { ReviewDecision } from "../src/utils/agent/review.js";
+import {
+  ToolRegistry,
+  assessToolCall,
+  handleToolCall,
+  parseToolArguments,
+} from "../src/utils/agent/tool-registry.js";
+import { describe, it, expect, vi } from "vitest";
+
+function makeTool(overrides: Partial<AgentTool> = {}): AgentTool {
+  return {
+    name: "read_file",
+    description: "Read a file",
+    parameters: {
+      type: "object",
+      properties: { path: { type: "string" } },
+      required: ["path"],
+    },
+    requiresApproval: false,
+    handler: (args) =>
+      Promise.resolve({ output: `contents of ${String(args["path"])}` }),
+    ...overrides,
+  };
+}
+
+const context: ToolContext = {
+  config: { model: "any", instructions: "" } as ToolContext["config"],
+  approvalPolicy: "suggest",
+  additionalWritableRoots: [],
+};
+
+describe("ToolRegistry", () => {
+  it("advertises registered tools as function tools", () => {
+    const registry = new ToolRegistry();
+    registry.register(makeTool());
+    expect(registry.toFunctionTools()).toEqual([
+      {
+        type: "function",
+        name: "read_file",
+        description: "Read a file",
+        strict: false,
+        parameters: {
+          type: "object",
+          properties: { path: { type: "string" } },
+          required: ["path"],
+        },
+      },
+    ]);
+  });
+
+  it("rejects duplicate and reserved names", () => {
+    const registry = new ToolRegistry();
+    registry.register(makeTool());
+    expect(() => registry.register(makeTool())).toThrow(/already registered/);
+    expect(() => registry.register(makeTool({ name: "shell" }))).toThrow(
+      /reserved/,
+    );
+  });
+
+  it("returns an unregister callback", () => {
+    const registry = new ToolRegistry();
+    const unregister = registry.register(makeTool());
+    expect(registry.has("read_file")).toBe(true);
+    unregister();
+    expect(registry.has("read_file")).toBe(false);
+  });
+});
+
+describe("assessToolCall()", () => {
+  it("auto-approves tools that do not require approval", () => {
+    expect(assessToolCall(makeTool(), {}, "suggest").type).toBe("auto-approve");
+  });
+
+  it("asks the user unless the policy is full-auto", () => {
+    const tool = makeTool({ requiresApproval: true });
+    expect(assessToolCall(tool, {}, "suggest").type).toBe("ask-user");
+    expect(assessToolCall(tool, {}, "full-auto").type).toBe("auto-approve");
+  });
+
+  it("passes the arguments to a requiresApproval predicate", () => {
+    const tool = makeTool({
+      requiresApproval: (args) => args["path"] === "/etc/passwd",
+    });
+    expect(assessToolCall(tool, { path: "a.txt" }, "suggest").type).toBe(
+      "auto-approve",
+    );
+    expect(assessToolCall(tool, { path: "/etc/passwd" }, "suggest").type).toBe(
+      "ask-user",
+    );
+  });
+});
+
+describe("handleToolCall()", () => {
+  it("runs the handler and wraps its output", async () => {
+    const result = await handleToolCall(
+      makeTool(),
+      { path: "a.txt" },
+      context,
+      vi.fn(),
+    );
+    expect(result.outputText).toBe("contents of a.txt");
+    expect(result.metadata["exit_code"]).toBe(0);
+  });
+
+  it("does not run the handler when the user declines", async () => {
+    const handler = vi.fn();
+    const result = await handleToolCall(
+      makeTool({ name: "write_file", requiresApproval: true, handler }),
+      {},
+      context,
+      () =>
+        Promise.resolve({
+          review: ReviewDecision.NO_CONTINUE,
+          customDenyMessage: "use a different path",
+        }),
+    );
+    expect(handler).not.toHaveBeenCalled();
+    expect(result.outputText).toBe("aborted");
+    expect(result.additionalItems).toEqual([
+      {
+        type: "message",
+        role: "user",
+        content: [{ type: "input_text", text: "use a different path" }],
+      },
+    ]);
+  });
+
+  it("maps handler errors to a non-zero exit code", async () => {
+    const result = await handleToolCall(
+      makeTool({
+        handler: () => Promise.reject(new Error("ENOENT")),
+      }),
+      {},
+      context,
+      vi.fn(),
+    );
+    expect(result.outputText).toBe("error: ENOENT");
+    expect(result.metadata["exit_code"]).toBe(1);
+  });
+});
+
+describe("parseToolArguments()", () => {
+  it("only accepts JSON objects", () => {
+    expect(parseToolArguments('{"a":1}')).toEqual({ a: 1 });
+    expect(parseToolArguments(undefined)).toEqual({});
+    expect(parseToolArguments("[1]")).toBeUndefined();
+    expect(parseToolArguments("nope")).toBeUndefined();
+  });
+});